@@ -0,0 +1,43 @@
+import { decodeTokenCall, describeTransaction, encodeErc20Transfer, encodeErc721SafeTransferFrom, encodeTokenCall } from "./abi.js";
+
+const OWNER = "0x1111111111111111111111111111111111111111";
+const RECIPIENT = "0x2222222222222222222222222222222222222222";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+
+describe("encodeTokenCall", () => {
+    it("encodes a transfer as selector and 32-byte words", () => {
+        expect(encodeErc20Transfer(RECIPIENT, 255n)).toBe(`0xa9059cbb${RECIPIENT.slice(2).padStart(64, "0")}${"ff".padStart(64, "0")}`);
+    });
+
+    it("rejects unsupported functions, missing arguments and invalid values", () => {
+        expect(() => encodeTokenCall("mint", {})).toThrow("Unsupported token call: mint");
+        expect(() => encodeTokenCall("transfer", { to: RECIPIENT })).toThrow("Missing argument 'amount'");
+        expect(() => encodeErc20Transfer("0x1234", 1n)).toThrow("Invalid address");
+        expect(() => encodeErc20Transfer(RECIPIENT, 2n ** 256n)).toThrow("out of uint256 range");
+    });
+});
+
+describe("decodeTokenCall", () => {
+    it("decodes what it encodes", () => {
+        const call = decodeTokenCall(encodeErc721SafeTransferFrom(OWNER, RECIPIENT.toUpperCase().replace("0X", "0x"), 7n));
+        expect(call?.function.name).toBe("safeTransferFrom");
+        expect(call?.args).toEqual({ from: OWNER, to: RECIPIENT, tokenId: 7n });
+    });
+
+    it("ignores calldata that is not a complete supported call", () => {
+        expect(decodeTokenCall(undefined)).toBeUndefined();
+        expect(decodeTokenCall("0xdeadbeef")).toBeUndefined();
+        expect(decodeTokenCall(encodeErc20Transfer(RECIPIENT, 1n).slice(0, 74))).toBeUndefined();
+    });
+});
+
+describe("describeTransaction", () => {
+    it("describes native sends and token transfers in display units", () => {
+        expect(describeTransaction({ wallet_id: "wallet-1", to: RECIPIENT, value: "500000000000000000" }, "ethereum")).toBe(`0.5 ETH to ${RECIPIENT}`);
+
+        const transfer = { wallet_id: "wallet-1", to: TOKEN, value: "0", data: encodeErc20Transfer(RECIPIENT, 1500000n) };
+        const usdc = { symbol: "USDC", address: TOKEN, decimals: 6, standard: "erc20" as const };
+        expect(describeTransaction(transfer, "ethereum", () => usdc)).toBe(`transfer 1.5 USDC to ${RECIPIENT} (token USDC ${TOKEN})`);
+        expect(describeTransaction(transfer, "ethereum")).toBe(`transfer 1500000 to ${RECIPIENT} (token ${TOKEN})`);
+    });
+});
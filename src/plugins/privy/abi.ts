@@ -0,0 +1,313 @@
+/**
+ * ABI encoding and decoding of standard token calls
+ *
+ * Covers the ERC-20 `transfer`, `approve` and `transferFrom` functions and ERC-721 `safeTransferFrom`,
+ * whose arguments are all static (addresses and uint256), so each argument is a single 32-byte word.
+ */
+
+import { PrivyTransactionRequest } from "./types/wallets.js";
+import { PrivyToken } from "./types/tokens.js";
+import { formatAmount, formatUnits } from "./amounts.js";
+import { getNativeToken } from "./chains.js";
+import { normalizeAddress } from "./addresses.js";
+
+/**
+ * A token function the plugin can encode and decode
+ */
+export interface PrivyTokenFunction {
+    name: string;
+    standard: 'erc20' | 'erc721';
+    selector: string;
+    inputs: { name: string; type: 'address' | 'uint256' }[];
+}
+
+/**
+ * A decoded token call
+ */
+export interface PrivyDecodedCall {
+    function: PrivyTokenFunction;
+    /** Arguments keyed by input name; addresses are lower-case hex, integers are bigints */
+    args: Record<string, string | bigint>;
+}
+
+/**
+ * Supported token functions, keyed by the name used in `PRIVY_SEND_TRANSACTION`'s `call` option
+ */
+export const TOKEN_FUNCTIONS: Record<string, PrivyTokenFunction> = {
+    transfer: {
+        name: "transfer",
+        standard: "erc20",
+        selector: "0xa9059cbb",
+        inputs: [{ name: "to", type: "address" }, { name: "amount", type: "uint256" }],
+    },
+    approve: {
+        name: "approve",
+        standard: "erc20",
+        selector: "0x095ea7b3",
+        inputs: [{ name: "spender", type: "address" }, { name: "amount", type: "uint256" }],
+    },
+    transferFrom: {
+        name: "transferFrom",
+        standard: "erc20",
+        selector: "0x23b872dd",
+        inputs: [{ name: "from", type: "address" }, { name: "to", type: "address" }, { name: "amount", type: "uint256" }],
+    },
+    safeTransferFrom: {
+        name: "safeTransferFrom",
+        standard: "erc721",
+        selector: "0x42842e0e",
+        inputs: [{ name: "from", type: "address" }, { name: "to", type: "address" }, { name: "tokenId", type: "uint256" }],
+    },
+};
+
+/**
+ * ABI of the supported ERC-20 functions, for building calldata policy conditions
+ */
+export const ERC20_ABI = ["transfer", "approve", "transferFrom"].map(name => toAbiEntry(TOKEN_FUNCTIONS[name]));
+
+/**
+ * ABI of the supported ERC-721 functions, for building calldata policy conditions
+ */
+export const ERC721_ABI = [toAbiEntry(TOKEN_FUNCTIONS.safeTransferFrom)];
+
+/**
+ * Converts a token function into a JSON ABI entry
+ *
+ * @param tokenFunction - The function to convert
+ * @returns The ABI entry
+ */
+function toAbiEntry(tokenFunction: PrivyTokenFunction) {
+    return {
+        type: "function",
+        name: tokenFunction.name,
+        inputs: tokenFunction.inputs.map(input => ({ name: input.name, type: input.type })),
+        outputs: tokenFunction.standard === "erc20" ? [{ name: "", type: "bool" }] : [],
+        stateMutability: "nonpayable",
+    };
+}
+
+/**
+ * Encodes a single static argument as a 32-byte word
+ *
+ * @param type - The ABI type
+ * @param value - The argument
+ * @returns 64 hex characters without prefix
+ * @throws Error if the argument does not fit the type
+ */
+function encodeWord(type: 'address' | 'uint256', value: string | bigint): string {
+    if (type === "address") {
+        return normalizeAddress(String(value)).slice(2).toLowerCase().padStart(64, "0");
+    }
+
+    const quantity = BigInt(value);
+    if (quantity < 0n || quantity >= 2n ** 256n) {
+        throw new Error(`Value out of uint256 range: ${value}`);
+    }
+    return quantity.toString(16).padStart(64, "0");
+}
+
+/**
+ * Encodes a call to a supported token function
+ *
+ * @param name - Function name, e.g. "transfer"
+ * @param args - Arguments keyed by input name
+ * @returns The calldata as 0x-prefixed hex
+ * @throws Error if the function is unsupported or an argument is missing or invalid
+ */
+export function encodeTokenCall(name: string, args: Record<string, string | bigint | undefined>): string {
+    const tokenFunction = TOKEN_FUNCTIONS[name];
+    if (!tokenFunction) {
+        throw new Error(`Unsupported token call: ${name}. Supported calls are ${Object.keys(TOKEN_FUNCTIONS).join(", ")}`);
+    }
+
+    const words = tokenFunction.inputs.map(input => {
+        const value = args[input.name];
+        if (value === undefined || value === "") {
+            throw new Error(`Missing argument '${input.name}' for ${name}`);
+        }
+        return encodeWord(input.type, value);
+    });
+    return `${tokenFunction.selector}${words.join("")}`;
+}
+
+/**
+ * Encodes an ERC-20 `transfer(to, amount)` call
+ *
+ * @param to - Recipient address
+ * @param amount - Amount in token base units
+ * @returns The calldata
+ */
+export function encodeErc20Transfer(to: string, amount: bigint | string): string {
+    return encodeTokenCall("transfer", { to, amount });
+}
+
+/**
+ * Encodes an ERC-20 `approve(spender, amount)` call
+ *
+ * @param spender - Address allowed to spend the tokens
+ * @param amount - Allowance in token base units
+ * @returns The calldata
+ */
+export function encodeErc20Approve(spender: string, amount: bigint | string): string {
+    return encodeTokenCall("approve", { spender, amount });
+}
+
+/**
+ * Encodes an ERC-20 `transferFrom(from, to, amount)` call
+ *
+ * @param from - Address the tokens are taken from
+ * @param to - Recipient address
+ * @param amount - Amount in token base units
+ * @returns The calldata
+ */
+export function encodeErc20TransferFrom(from: string, to: string, amount: bigint | string): string {
+    return encodeTokenCall("transferFrom", { from, to, amount });
+}
+
+/**
+ * Encodes an ERC-721 `safeTransferFrom(from, to, tokenId)` call
+ *
+ * @param from - Current owner of the token
+ * @param to - Recipient address
+ * @param tokenId - ID of the token
+ * @returns The calldata
+ */
+export function encodeErc721SafeTransferFrom(from: string, to: string, tokenId: bigint | string): string {
+    return encodeTokenCall("safeTransferFrom", { from, to, tokenId });
+}
+
+/**
+ * Selector of the ERC-20 `balanceOf(address)` view function
+ */
+const BALANCE_OF_SELECTOR = "0x70a08231";
+
+/**
+ * Encodes an ERC-20 `balanceOf(owner)` call for `eth_call`
+ *
+ * @param owner - Address whose balance is queried
+ * @returns The calldata
+ */
+export function encodeBalanceOf(owner: string): string {
+    return `${BALANCE_OF_SELECTOR}${encodeWord("address", owner)}`;
+}
+
+/**
+ * Decodes a single uint256 return value
+ *
+ * @param result - Hex returned by `eth_call`
+ * @returns The value, or 0 for an empty result
+ */
+export function decodeUint256(result: string): bigint {
+    const hex = (result || "0x").slice(2, 66);
+    return hex ? BigInt(`0x${hex}`) : 0n;
+}
+
+/**
+ * Selectors of the standard Solidity revert payloads `Error(string)` and `Panic(uint256)`
+ */
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+/**
+ * Decodes the reason from revert data returned by a node
+ *
+ * @param data - Revert data as hex
+ * @returns The reason string, a description of the panic code, or undefined if the data is not a standard payload
+ */
+export function decodeRevertReason(data?: string): string | undefined {
+    if (!data || !/^0x[0-9a-fA-F]*$/.test(data)) {
+        return undefined;
+    }
+
+    const selector = data.slice(0, 10).toLowerCase();
+    if (selector === PANIC_SELECTOR && data.length >= 10 + 64) {
+        return `panic code 0x${BigInt(`0x${data.slice(10, 74)}`).toString(16)}`;
+    }
+    if (selector !== ERROR_SELECTOR || data.length < 10 + 128) {
+        return undefined;
+    }
+
+    const offset = Number(BigInt(`0x${data.slice(10, 74)}`));
+    const lengthStart = 10 + offset * 2;
+    const length = Number(BigInt(`0x${data.slice(lengthStart, lengthStart + 64) || "0"}`));
+    const bytes = data.slice(lengthStart + 64, lengthStart + 64 + length * 2);
+    return Buffer.from(bytes, "hex").toString("utf8");
+}
+
+/**
+ * Decodes calldata of a supported token function
+ *
+ * @param data - Transaction calldata
+ * @returns The decoded call, or undefined if the calldata is not a supported token call
+ */
+export function decodeTokenCall(data?: string): PrivyDecodedCall | undefined {
+    if (!data || !/^0x[0-9a-fA-F]*$/.test(data) || data.length < 10) {
+        return undefined;
+    }
+
+    const selector = data.slice(0, 10).toLowerCase();
+    const tokenFunction = Object.values(TOKEN_FUNCTIONS).find(candidate => candidate.selector === selector);
+    if (!tokenFunction || data.length < 10 + 64 * tokenFunction.inputs.length) {
+        return undefined;
+    }
+
+    const args: Record<string, string | bigint> = {};
+    tokenFunction.inputs.forEach((input, index) => {
+        const word = data.slice(10 + 64 * index, 10 + 64 * (index + 1));
+        args[input.name] = input.type === "address" ? `0x${word.slice(24).toLowerCase()}` : BigInt(`0x${word}`);
+    });
+    return { function: tokenFunction, args };
+}
+
+/**
+ * Describes a decoded token call for display, e.g. `transfer 100 USDC to 0xabc...`
+ *
+ * @param call - The decoded call
+ * @param formatTokenAmount - Formats an amount in token base units; defaults to the raw integer
+ * @returns The description
+ */
+export function describeTokenCall(call: PrivyDecodedCall, formatTokenAmount: (amount: bigint) => string = amount => amount.toString()): string {
+    const { args } = call;
+    switch (call.function.name) {
+        case "transfer":
+            return `transfer ${formatTokenAmount(args.amount as bigint)} to ${args.to}`;
+        case "approve":
+            return `approve ${args.spender} to spend ${formatTokenAmount(args.amount as bigint)}`;
+        case "transferFrom":
+            return `transfer ${formatTokenAmount(args.amount as bigint)} from ${args.from} to ${args.to}`;
+        default:
+            return `transfer token #${args.tokenId} from ${args.from} to ${args.to}`;
+    }
+}
+
+/**
+ * Describes a transaction request for display, decoding token calls
+ *
+ * @param request - The transaction request
+ * @param chainType - Chain of the sending wallet, used to display native amounts
+ * @param tokenFor - Looks up the token at a contract address or Solana mint, used to display token amounts
+ * @returns The description, e.g. `0.5 ETH to 0xabc...` or `transfer 100 USDC to 0xabc... (token 0xdef...)`
+ */
+export function describeTransaction(
+    request: PrivyTransactionRequest,
+    chainType?: string,
+    tokenFor: (address: string) => PrivyToken | undefined = () => undefined
+): string {
+    if (request.mint) {
+        const token = tokenFor(request.mint);
+        const decimals = request.decimals ?? token?.decimals;
+        const amount = decimals === undefined ? request.value
+            : token ? formatAmount(request.value, decimals, token.symbol) : formatUnits(request.value, decimals);
+        return `transfer ${amount} to ${request.to} (token ${token ? `${token.symbol} ` : ""}${request.mint})`;
+    }
+
+    const call = decodeTokenCall(request.data);
+    if (!call) {
+        const { symbol, decimals } = getNativeToken(chainType);
+        return `${formatAmount(request.value || "0", decimals, symbol)} to ${request.to}`;
+    }
+
+    const token = tokenFor(request.to);
+    const description = describeTokenCall(call, amount => token ? formatAmount(amount, token.decimals, token.symbol) : amount.toString());
+    return `${description} (token ${token ? `${token.symbol} ` : ""}${request.to})`;
+}
@@ -0,0 +1,51 @@
+import { base58Decode, base58Encode, hasValidChecksum, keccak256, normalizeAddress, sameAddress, toChecksumAddress } from "./addresses.js";
+
+const CHECKSUMMED = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+describe("keccak256", () => {
+    it("matches the Ethereum hash of known inputs", () => {
+        expect(keccak256("")).toBe("c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470");
+        expect(keccak256("transfer(address,uint256)").slice(0, 8)).toBe("a9059cbb");
+    });
+});
+
+describe("EIP-55 checksums", () => {
+    it("checksums an address in any case", () => {
+        expect(toChecksumAddress(CHECKSUMMED.toLowerCase())).toBe(CHECKSUMMED);
+        expect(toChecksumAddress(`0x${CHECKSUMMED.slice(2).toUpperCase()}`)).toBe(CHECKSUMMED);
+    });
+
+    it("accepts unchecksummed addresses but rejects a wrong mixed case", () => {
+        expect(hasValidChecksum(CHECKSUMMED)).toBe(true);
+        expect(hasValidChecksum(CHECKSUMMED.toLowerCase())).toBe(true);
+        expect(hasValidChecksum(CHECKSUMMED.replace("aA", "Aa"))).toBe(false);
+    });
+});
+
+describe("base58", () => {
+    it("round-trips Solana addresses", () => {
+        expect(base58Decode("11111111111111111111111111111111")).toEqual(new Uint8Array(32));
+        expect(base58Encode(base58Decode(USDC_MINT))).toBe(USDC_MINT);
+    });
+});
+
+describe("normalizeAddress", () => {
+    it("returns the checksummed form of EVM addresses and Solana addresses as given", () => {
+        expect(normalizeAddress(` ${CHECKSUMMED.toLowerCase()} `)).toBe(CHECKSUMMED);
+        expect(normalizeAddress(USDC_MINT, "solana")).toBe(USDC_MINT);
+    });
+
+    it("names the address in validation errors", () => {
+        expect(() => normalizeAddress("0x1234", "ethereum", "recipient address")).toThrow("Invalid recipient address: 0x1234");
+        expect(() => normalizeAddress(CHECKSUMMED.replace("aA", "Aa"))).toThrow("fails its EIP-55 checksum");
+        expect(() => normalizeAddress(CHECKSUMMED, "solana")).toThrow("Invalid Solana address");
+    });
+});
+
+describe("sameAddress", () => {
+    it("ignores case on EVM chains only", () => {
+        expect(sameAddress(CHECKSUMMED, CHECKSUMMED.toLowerCase())).toBe(true);
+        expect(sameAddress(USDC_MINT, USDC_MINT.toLowerCase(), "solana")).toBe(false);
+    });
+});
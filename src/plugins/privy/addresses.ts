@@ -0,0 +1,282 @@
+/**
+ * Address validation, normalization and comparison for the chains the plugin supports
+ *
+ * EVM addresses (Ethereum and Monad) are 20-byte hex strings and are checksummed per EIP-55; Solana
+ * addresses are base58-encoded 32-byte public keys and are case-sensitive.
+ */
+
+import { PrivyValidationError } from "./errors.js";
+
+const MASK_64 = (1n << 64n) - 1n;
+
+/**
+ * Keccak-f[1600] round constants
+ */
+const ROUND_CONSTANTS = [
+    0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+    0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+    0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+    0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+    0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+    0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+/**
+ * Keccak-f[1600] rotation offsets, indexed by lane x then y
+ */
+const ROTATION_OFFSETS = [
+    [0, 36, 3, 41, 18],
+    [1, 44, 10, 45, 2],
+    [62, 6, 43, 15, 61],
+    [28, 55, 25, 21, 56],
+    [27, 20, 39, 8, 14],
+];
+
+/**
+ * Bytes absorbed per Keccak-256 block
+ */
+const KECCAK_256_RATE = 136;
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Rotates a 64-bit lane left
+ *
+ * @param lane - The lane
+ * @param offset - Bits to rotate by
+ * @returns The rotated lane
+ */
+function rotateLeft(lane: bigint, offset: number): bigint {
+    if (offset === 0) {
+        return lane;
+    }
+    const shift = BigInt(offset);
+    return ((lane << shift) | (lane >> (64n - shift))) & MASK_64;
+}
+
+/**
+ * Applies the Keccak-f[1600] permutation to a state of 25 lanes, indexed x + 5y
+ *
+ * @param state - The state, permuted in place
+ */
+function keccakPermute(state: bigint[]): void {
+    for (const roundConstant of ROUND_CONSTANTS) {
+        const parity = [0, 1, 2, 3, 4].map(x => state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]);
+        for (let x = 0; x < 5; x++) {
+            const mix = parity[(x + 4) % 5] ^ rotateLeft(parity[(x + 1) % 5], 1);
+            for (let y = 0; y < 5; y++) {
+                state[x + 5 * y] ^= mix;
+            }
+        }
+
+        const rotated = new Array<bigint>(25);
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                rotated[y + 5 * ((2 * x + 3 * y) % 5)] = rotateLeft(state[x + 5 * y], ROTATION_OFFSETS[x][y]);
+            }
+        }
+
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                state[x + 5 * y] = rotated[x + 5 * y] ^ (~rotated[(x + 1) % 5 + 5 * y] & MASK_64 & rotated[(x + 2) % 5 + 5 * y]);
+            }
+        }
+
+        state[0] ^= roundConstant;
+    }
+}
+
+/**
+ * Computes the Keccak-256 hash used by Ethereum (the original Keccak padding, not NIST SHA3-256)
+ *
+ * @param input - Bytes to hash, or a string hashed as UTF-8
+ * @returns The hash as 64 hex characters without prefix
+ */
+export function keccak256(input: Uint8Array | string): string {
+    const bytes = typeof input === "string" ? new TextEncoder().encode(input) : input;
+    const padded = new Uint8Array(Math.floor(bytes.length / KECCAK_256_RATE + 1) * KECCAK_256_RATE);
+    padded.set(bytes);
+    padded[bytes.length] ^= 0x01;
+    padded[padded.length - 1] ^= 0x80;
+
+    const state = new Array<bigint>(25).fill(0n);
+    for (let offset = 0; offset < padded.length; offset += KECCAK_256_RATE) {
+        for (let lane = 0; lane < KECCAK_256_RATE / 8; lane++) {
+            let value = 0n;
+            for (let byte = 7; byte >= 0; byte--) {
+                value = (value << 8n) | BigInt(padded[offset + lane * 8 + byte]);
+            }
+            state[lane] ^= value;
+        }
+        keccakPermute(state);
+    }
+
+    let hex = "";
+    for (let lane = 0; lane < 4; lane++) {
+        for (let byte = 0; byte < 8; byte++) {
+            hex += Number((state[lane] >> BigInt(8 * byte)) & 0xffn).toString(16).padStart(2, "0");
+        }
+    }
+    return hex;
+}
+
+/**
+ * Decodes a base58 string
+ *
+ * @param value - The base58 string
+ * @returns The decoded bytes
+ * @throws Error if the string contains characters outside the base58 alphabet
+ */
+export function base58Decode(value: string): Uint8Array {
+    let number = 0n;
+    for (const character of value) {
+        const digit = BASE58_ALPHABET.indexOf(character);
+        if (digit === -1) {
+            throw new Error(`Invalid base58 character '${character}'`);
+        }
+        number = number * 58n + BigInt(digit);
+    }
+
+    const bytes: number[] = [];
+    while (number > 0n) {
+        bytes.unshift(Number(number & 0xffn));
+        number >>= 8n;
+    }
+    const leadingZeros = value.match(/^1*/)![0].length;
+    return new Uint8Array([...new Array(leadingZeros).fill(0), ...bytes]);
+}
+
+/**
+ * Encodes bytes as base58
+ *
+ * @param bytes - The bytes to encode
+ * @returns The base58 string
+ */
+export function base58Encode(bytes: Uint8Array): string {
+    let number = 0n;
+    for (const byte of bytes) {
+        number = (number << 8n) | BigInt(byte);
+    }
+
+    let encoded = "";
+    while (number > 0n) {
+        encoded = BASE58_ALPHABET[Number(number % 58n)] + encoded;
+        number /= 58n;
+    }
+    const leadingZeros = bytes.findIndex(byte => byte !== 0);
+    return "1".repeat(leadingZeros === -1 ? bytes.length : leadingZeros) + encoded;
+}
+
+/**
+ * Checks that a string is a 0x-prefixed 20-byte hex address, in any case
+ *
+ * @param address - The string to check
+ * @returns Whether it has the shape of an EVM address
+ */
+export function isEvmAddress(address: string): boolean {
+    return /^0x[0-9a-fA-F]{40}$/.test(address);
+}
+
+/**
+ * Converts an EVM address into its EIP-55 checksummed form
+ *
+ * @param address - The address, in any case
+ * @returns The checksummed address
+ * @throws PrivyValidationError if the string is not an EVM address
+ */
+export function toChecksumAddress(address: string): string {
+    if (!isEvmAddress(address)) {
+        throw new PrivyValidationError(`Invalid EVM address: ${address}`, undefined, "invalid_address");
+    }
+
+    const lower = address.slice(2).toLowerCase();
+    const hash = keccak256(lower);
+    let checksummed = "0x";
+    for (let index = 0; index < lower.length; index++) {
+        checksummed += parseInt(hash[index], 16) >= 8 ? lower[index].toUpperCase() : lower[index];
+    }
+    return checksummed;
+}
+
+/**
+ * Checks an EVM address's EIP-55 checksum; all-lowercase and all-uppercase addresses carry none and pass
+ *
+ * @param address - The address
+ * @returns Whether the address is well-formed and its mixed case, if any, matches the checksum
+ */
+export function hasValidChecksum(address: string): boolean {
+    if (!isEvmAddress(address)) {
+        return false;
+    }
+    const hex = address.slice(2);
+    if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) {
+        return true;
+    }
+    return toChecksumAddress(address) === address;
+}
+
+/**
+ * Checks that a string is a base58-encoded 32-byte Solana address
+ *
+ * @param address - The string to check
+ * @returns Whether it is a Solana address
+ */
+export function isSolanaAddress(address: string): boolean {
+    if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
+        return false;
+    }
+    return base58Decode(address).length === 32;
+}
+
+/**
+ * Checks whether an address is valid on a chain
+ *
+ * @param address - The address
+ * @param chainType - The chain; Ethereum and Monad use EVM addresses
+ * @returns Whether the address is valid, including its checksum for EVM addresses
+ */
+export function isValidAddress(address: string, chainType: string = "ethereum"): boolean {
+    return chainType === "solana" ? isSolanaAddress(address) : hasValidChecksum(address);
+}
+
+/**
+ * Validates an address and returns its canonical form: checksummed for EVM chains, unchanged for Solana
+ *
+ * @param address - The address to validate
+ * @param chainType - The chain; Ethereum and Monad use EVM addresses
+ * @param label - What the address is, used in the error message (e.g. "recipient address")
+ * @returns The normalized address
+ * @throws PrivyValidationError if the address is malformed or fails its checksum
+ */
+export function normalizeAddress(address: string, chainType: string = "ethereum", label: string = "address"): string {
+    const trimmed = (address || "").trim();
+    if (chainType === "solana") {
+        if (!isSolanaAddress(trimmed)) {
+            throw new PrivyValidationError(`Invalid Solana ${label}: ${address}`, undefined, "invalid_address");
+        }
+        return trimmed;
+    }
+
+    if (!isEvmAddress(trimmed)) {
+        throw new PrivyValidationError(`Invalid ${label}: ${address} is not a 0x-prefixed 40 character hex address`, undefined, "invalid_address");
+    }
+    if (!hasValidChecksum(trimmed)) {
+        throw new PrivyValidationError(`Invalid ${label}: ${address} fails its EIP-55 checksum, so it may contain a typo`, undefined, "invalid_address");
+    }
+    return toChecksumAddress(trimmed);
+}
+
+/**
+ * Compares two addresses; EVM addresses ignore case, Solana addresses are case-sensitive
+ *
+ * @param left - The first address
+ * @param right - The second address
+ * @param chainType - Chain the addresses belong to
+ * @returns Whether they are the same address
+ */
+export function sameAddress(left: string, right: string, chainType: string = "ethereum"): boolean {
+    if (chainType === "solana") {
+        return left === right;
+    }
+    return left.trim().toLowerCase() === right.trim().toLowerCase();
+}
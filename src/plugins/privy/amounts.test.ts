@@ -0,0 +1,68 @@
+import { formatAmount, formatUnits, isBaseUnits, parseAmount, splitAmount, toBaseUnits } from "./amounts.js";
+
+describe("splitAmount", () => {
+    it("splits the number from an upper-cased unit", () => {
+        expect(splitAmount("0.25 eth")).toEqual({ amount: "0.25", unit: "ETH" });
+        expect(splitAmount("1.5k USDC")).toEqual({ amount: "1.5k", unit: "USDC" });
+        expect(splitAmount("42")).toEqual({ amount: "42", unit: undefined });
+    });
+
+    it("rejects input that does not start with a number", () => {
+        expect(() => splitAmount("ETH 1")).toThrow("Invalid amount");
+    });
+});
+
+describe("toBaseUnits", () => {
+    it("converts decimals exactly", () => {
+        expect(toBaseUnits("0.1", 18)).toBe(100000000000000000n);
+        expect(toBaseUnits("1.000001", 6)).toBe(1000001n);
+    });
+
+    it("reads magnitude suffixes and scientific notation", () => {
+        expect(toBaseUnits("1.5k", 6)).toBe(1500000000n);
+        expect(toBaseUnits("2.5e-3", 18)).toBe(2500000000000000n);
+    });
+
+    it("reads locale grouping and decimal commas", () => {
+        expect(toBaseUnits("1,000.50", 2)).toBe(100050n);
+        expect(toBaseUnits("1.000.000", 0)).toBe(1000000n);
+        expect(toBaseUnits("0,5", 1)).toBe(5n);
+    });
+
+    it("rejects negative amounts and more decimals than the token has", () => {
+        expect(() => toBaseUnits("-1", 18)).toThrow("must not be negative");
+        expect(() => toBaseUnits("0.0000001", 6)).toThrow("more than 6 decimal places");
+    });
+});
+
+describe("parseAmount", () => {
+    it("uses native units and EVM denominations without a lookup", () => {
+        expect(parseAmount("250000 gwei")).toEqual({ value: 250000000000000n, unit: "GWEI" });
+        expect(parseAmount("0.5 SOL")).toEqual({ value: 500000000n, unit: "SOL" });
+    });
+
+    it("looks up token decimals and applies the default unit", () => {
+        const decimalsFor = (unit: string) => unit === "USDC" ? 6 : undefined;
+        expect(parseAmount("100 usdc", decimalsFor)).toEqual({ value: 100000000n, unit: "USDC" });
+        expect(parseAmount("2", decimalsFor, "mon")).toEqual({ value: 2000000000000000000n, unit: "MON" });
+    });
+
+    it("rejects unknown units and amounts without a unit", () => {
+        expect(() => parseAmount("1 FOO")).toThrow("Unknown token or unit: FOO");
+        expect(() => parseAmount("1")).toThrow("needs a unit");
+    });
+});
+
+describe("formatting", () => {
+    it("trims trailing zeros", () => {
+        expect(formatUnits(1500000000000000000n, 18)).toBe("1.5");
+        expect(formatUnits("1000000", 6)).toBe("1");
+        expect(formatAmount(250000n, 6, "USDC")).toBe("0.25 USDC");
+    });
+
+    it("recognizes base unit quantities", () => {
+        expect(isBaseUnits("1000")).toBe(true);
+        expect(isBaseUnits("0x3e8")).toBe(true);
+        expect(isBaseUnits("1.5")).toBe(false);
+    });
+});
@@ -0,0 +1,218 @@
+/**
+ * Human amount parsing and base unit conversion
+ *
+ * All arithmetic is done on decimal strings and bigints so amounts are never rounded through floating point.
+ */
+
+/**
+ * Decimals of native tokens and EVM denominations, keyed by upper-case symbol
+ */
+export const NATIVE_UNIT_DECIMALS: Record<string, number> = {
+    ETH: 18,
+    ETHER: 18,
+    MON: 18,
+    SOL: 9,
+    GWEI: 9,
+    WEI: 0,
+    LAMPORT: 0,
+    LAMPORTS: 0,
+};
+
+/**
+ * Magnitude suffixes accepted after a number, e.g. `1.5k`
+ */
+const SUFFIX_EXPONENTS: Record<string, number> = {
+    k: 3,
+    m: 6,
+    b: 9,
+};
+
+/**
+ * An amount split into its number and unit, e.g. `1.5k USDC` → `{ amount: "1.5k", unit: "USDC" }`
+ */
+export interface ParsedAmount {
+    amount: string;
+    unit?: string;
+}
+
+/**
+ * Exact decimal as an integer of digits scaled by a power of ten
+ */
+interface ScaledDecimal {
+    digits: bigint;
+    exponent: number;
+}
+
+/**
+ * Splits an amount string into its number and unit
+ *
+ * @param input - The amount, e.g. "0.25 ETH", "250000 gwei" or "1,000.50"
+ * @returns The number and the upper-cased unit, if any
+ * @throws Error if the input does not start with a number
+ */
+export function splitAmount(input: string): ParsedAmount {
+    const match = input.trim().match(/^([+-]?[\d.,_'\s]*\d(?:e[+-]?\d+)?(?:[kmb](?![A-Za-z]))?)\s*([A-Za-z][A-Za-z0-9]*)?$/i);
+    if (!match) {
+        throw new Error(`Invalid amount: ${input}`);
+    }
+    return { amount: match[1].trim(), unit: match[2]?.toUpperCase() };
+}
+
+/**
+ * Removes locale grouping and normalizes the decimal separator to a dot
+ *
+ * The last of `.` or `,` is taken as the decimal separator when both appear. A lone separator
+ * repeated several times, or followed by exactly three digits, is read as grouping (`1,000`, `1.000.000`).
+ *
+ * @param amount - The number as written
+ * @returns The number with a dot decimal separator and no grouping
+ */
+function normalizeSeparators(amount: string): string {
+    const compact = amount.replace(/[\s_']/g, "");
+    const lastDot = compact.lastIndexOf(".");
+    const lastComma = compact.lastIndexOf(",");
+
+    if (lastDot !== -1 && lastComma !== -1) {
+        const decimal = lastDot > lastComma ? "." : ",";
+        const group = decimal === "." ? "," : ".";
+        return compact.split(group).join("").replace(decimal, ".");
+    }
+
+    const separator = lastDot !== -1 ? "." : lastComma !== -1 ? "," : undefined;
+    if (!separator) {
+        return compact;
+    }
+
+    const parts = compact.split(separator);
+    const isGrouping = parts.length > 2 || (separator === "," && parts[1].length === 3);
+    return isGrouping ? parts.join("") : parts.join(".");
+}
+
+/**
+ * Parses a number with optional scientific notation and magnitude suffix into an exact decimal
+ *
+ * @param amount - The number, e.g. "1.5k", "2.5e-3" or "1,000.50"
+ * @returns The exact decimal
+ * @throws Error if the number is malformed or negative
+ */
+function parseDecimal(amount: string): ScaledDecimal {
+    let text = amount.trim();
+    let exponent = 0;
+
+    const suffix = text.slice(-1).toLowerCase();
+    if (SUFFIX_EXPONENTS[suffix] !== undefined) {
+        exponent += SUFFIX_EXPONENTS[suffix];
+        text = text.slice(0, -1);
+    }
+
+    const scientific = text.match(/^(.*?)e([+-]?\d+)$/i);
+    if (scientific) {
+        text = scientific[1];
+        exponent += Number(scientific[2]);
+    }
+
+    if (text.startsWith("-")) {
+        throw new Error(`Amount must not be negative: ${amount}`);
+    }
+
+    const normalized = normalizeSeparators(text.replace(/^\+/, ""));
+    const match = normalized.match(/^(\d*)(?:\.(\d*))?$/);
+    if (!match || (!match[1] && !match[2])) {
+        throw new Error(`Invalid amount: ${amount}`);
+    }
+
+    const fraction = match[2] || "";
+    return {
+        digits: BigInt(`${match[1] || "0"}${fraction}`),
+        exponent: exponent - fraction.length
+    };
+}
+
+/**
+ * Converts a human amount into base units
+ *
+ * @param amount - The number, e.g. "0.25", "1.5k" or "2.5e-3"
+ * @param decimals - Decimals of the token
+ * @returns The amount in base units
+ * @throws Error if the amount is malformed or more precise than the token allows
+ */
+export function toBaseUnits(amount: string, decimals: number): bigint {
+    const { digits, exponent } = parseDecimal(amount);
+    const shift = exponent + decimals;
+    if (shift >= 0) {
+        return digits * 10n ** BigInt(shift);
+    }
+
+    const divisor = 10n ** BigInt(-shift);
+    if (digits % divisor !== 0n) {
+        throw new Error(`Amount ${amount} has more than ${decimals} decimal places`);
+    }
+    return digits / divisor;
+}
+
+/**
+ * Parses an amount with a unit into base units
+ *
+ * @param input - The amount, e.g. "0.25 ETH", "1.5k USDC" or "250000 gwei"
+ * @param decimalsFor - Looks up the decimals of a unit; native units and EVM denominations are always known
+ * @param defaultUnit - Unit assumed when the input has none
+ * @returns The amount in base units and the unit it was given in
+ * @throws Error if the amount is malformed or its unit unknown
+ */
+export function parseAmount(
+    input: string,
+    decimalsFor: (unit: string) => number | undefined = () => undefined,
+    defaultUnit?: string
+): { value: bigint; unit: string } {
+    const { amount, unit: parsedUnit } = splitAmount(input);
+    const unit = parsedUnit || defaultUnit?.toUpperCase();
+    if (!unit) {
+        throw new Error(`Amount ${input} needs a unit`);
+    }
+
+    const decimals = decimalsFor(unit) ?? NATIVE_UNIT_DECIMALS[unit];
+    if (decimals === undefined) {
+        throw new Error(`Unknown token or unit: ${unit}`);
+    }
+
+    return { value: toBaseUnits(amount, decimals), unit };
+}
+
+/**
+ * Formats base units as a human amount, trimming trailing zeros
+ *
+ * @param value - The amount in base units
+ * @param decimals - Decimals of the token
+ * @returns The decimal amount, e.g. "0.25"
+ */
+export function formatUnits(value: bigint | string, decimals: number): string {
+    const units = BigInt(value);
+    const negative = units < 0n;
+    const magnitude = negative ? -units : units;
+    const base = 10n ** BigInt(decimals);
+    const whole = magnitude / base;
+    const fraction = (magnitude % base).toString().padStart(decimals, "0").replace(/0+$/, "");
+    return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Formats base units as a human amount with its symbol
+ *
+ * @param value - The amount in base units
+ * @param decimals - Decimals of the token
+ * @param symbol - Token symbol
+ * @returns The amount, e.g. "0.25 ETH"
+ */
+export function formatAmount(value: bigint | string, decimals: number, symbol: string): string {
+    return `${formatUnits(value, decimals)} ${symbol}`;
+}
+
+/**
+ * Checks whether a string is already an integer amount in base units (decimal or hex)
+ *
+ * @param value - The value to check
+ * @returns Whether it is an integer quantity
+ */
+export function isBaseUnits(value: string): boolean {
+    return /^\d+$/.test(value) || /^0x[0-9a-fA-F]+$/.test(value);
+}
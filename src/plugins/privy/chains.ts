@@ -0,0 +1,131 @@
+import { PrivyCondition, PrivyMethodRule, PrivyChainType } from "./types/policies.js";
+
+/**
+ * Describes how a chain is represented in Privy policies
+ */
+export interface PrivyChainPolicyConfig {
+    /** Methods a policy on this chain may contain rules for */
+    methods: PrivyMethodRule['method'][];
+    /** Methods that carry a transaction (as opposed to a plain message) */
+    transactionMethods: PrivyMethodRule['method'][];
+    /** Method used when none is specified */
+    defaultMethod: PrivyMethodRule['method'];
+    /** Field source describing the transaction itself */
+    transactionFieldSource: PrivyCondition['field_source'];
+    /** Field source describing decoded calls or instructions */
+    calldataFieldSource: PrivyCondition['field_source'];
+    /** Field source and field identifying the token a transaction targets */
+    tokenField: { field_source: PrivyCondition['field_source']; field: string };
+    /** Symbol and decimals of the chain's native token */
+    nativeToken: { symbol: string; decimals: number };
+}
+
+/**
+ * Policy configuration for each supported chain type
+ */
+export const CHAIN_POLICY_CONFIG: Record<PrivyChainType, PrivyChainPolicyConfig> = {
+    ethereum: {
+        methods: ["eth_sendTransaction", "eth_signTransaction", "eth_signTypedData_v4", "personal_sign"],
+        transactionMethods: ["eth_sendTransaction", "eth_signTransaction"],
+        defaultMethod: "eth_sendTransaction",
+        transactionFieldSource: "ethereum_transaction",
+        calldataFieldSource: "ethereum_calldata",
+        tokenField: { field_source: "ethereum_transaction", field: "to" },
+        nativeToken: { symbol: "ETH", decimals: 18 },
+    },
+    solana: {
+        methods: ["signAndSendTransaction", "signTransaction", "signMessage"],
+        transactionMethods: ["signAndSendTransaction", "signTransaction"],
+        defaultMethod: "signAndSendTransaction",
+        transactionFieldSource: "solana_transaction",
+        calldataFieldSource: "solana_instruction",
+        tokenField: { field_source: "solana_instruction", field: "mint" },
+        nativeToken: { symbol: "SOL", decimals: 9 },
+    },
+    monad: {
+        methods: ["monad_sendTransaction", "monad_signTransaction"],
+        transactionMethods: ["monad_sendTransaction", "monad_signTransaction"],
+        defaultMethod: "monad_sendTransaction",
+        transactionFieldSource: "monad_transaction",
+        calldataFieldSource: "monad_calldata",
+        tokenField: { field_source: "monad_transaction", field: "to" },
+        nativeToken: { symbol: "MON", decimals: 18 },
+    },
+};
+
+/**
+ * Checks that a chain type is supported by the plugin
+ *
+ * @param chainType - The chain type to check
+ * @returns Whether the chain type is supported
+ */
+export function isChainType(chainType: string): chainType is PrivyChainType {
+    return Object.prototype.hasOwnProperty.call(CHAIN_POLICY_CONFIG, chainType);
+}
+
+/**
+ * Gets the policy configuration for a chain
+ *
+ * @param chainType - The chain type
+ * @returns The chain's policy configuration
+ */
+export function getChainPolicyConfig(chainType: PrivyChainType): PrivyChainPolicyConfig {
+    return CHAIN_POLICY_CONFIG[chainType];
+}
+
+/**
+ * Gets the native token of a chain, defaulting to Ethereum for unknown or missing chain types
+ *
+ * @param chainType - The chain type, if known
+ * @returns Symbol and decimals of the native token
+ */
+export function getNativeToken(chainType?: string): PrivyChainPolicyConfig['nativeToken'] {
+    const normalized = chainType?.toLowerCase() || "ethereum";
+    return isChainType(normalized) ? CHAIN_POLICY_CONFIG[normalized].nativeToken : CHAIN_POLICY_CONFIG.ethereum.nativeToken;
+}
+
+/**
+ * Transaction explorer URL templates keyed by CAIP-2 chain ID; `{hash}` is replaced by the transaction hash
+ */
+export const EXPLORER_TX_URLS: Record<string, string> = {
+    "eip155:1": "https://etherscan.io/tx/{hash}",
+    "eip155:11155111": "https://sepolia.etherscan.io/tx/{hash}",
+    "eip155:8453": "https://basescan.org/tx/{hash}",
+    "eip155:84532": "https://sepolia.basescan.org/tx/{hash}",
+    "eip155:10143": "https://testnet.monadexplorer.com/tx/{hash}",
+    "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp": "https://solscan.io/tx/{hash}",
+    "solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1": "https://solscan.io/tx/{hash}?cluster=devnet",
+};
+
+/**
+ * Explorer used for EVM chains without a known explorer, which searches across EVM networks
+ */
+const FALLBACK_EVM_EXPLORER = "https://blockscan.com/tx/{hash}";
+
+/**
+ * Builds an explorer link for a transaction from its CAIP-2 chain ID
+ *
+ * @param caip2 - CAIP-2 chain ID, e.g. `eip155:1`
+ * @param hash - The transaction hash or signature
+ * @param overrides - Additional or replacement URL templates keyed by CAIP-2 ID
+ * @returns The link, or undefined for non-EVM chains without a known explorer
+ */
+export function explorerTxUrl(caip2: string, hash: string, overrides: Record<string, string> = {}): string | undefined {
+    const template = overrides[caip2] || EXPLORER_TX_URLS[caip2] || (caip2.startsWith("eip155:") ? FALLBACK_EVM_EXPLORER : undefined);
+    return template?.replace("{hash}", hash);
+}
+
+/**
+ * Determines the chain type of a CAIP-2 chain ID
+ *
+ * @param caip2 - CAIP-2 chain ID
+ * @param monadChainId - Chain ID of the configured Monad network, when it is not the public testnet
+ * @returns The chain type; EVM chains other than Monad are treated as Ethereum
+ */
+export function chainTypeFromCaip2(caip2: string, monadChainId?: string): PrivyChainType {
+    const [namespace, reference] = caip2.split(":");
+    if (namespace === "solana") {
+        return "solana";
+    }
+    return reference === "10143" || (monadChainId !== undefined && reference === monadChainId) ? "monad" : "ethereum";
+}
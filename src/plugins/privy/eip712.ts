@@ -0,0 +1,394 @@
+/**
+ * EIP-712 typed data validation, hashing and previews
+ *
+ * Typed data is checked against its own type definitions before it is signed, hashed so the
+ * signature can be verified, and summarized so the user can see what they are agreeing to.
+ */
+
+import { PrivyTypedData, PrivyTypedDataField } from "./types/signatures.js";
+import { keccak256, isEvmAddress, toChecksumAddress } from "./addresses.js";
+import { concatBytes, hexToBytes } from "./signatures.js";
+import { PrivyValidationError } from "./errors.js";
+
+/**
+ * Fields the EIP712Domain type may have, in their canonical order and with their types
+ */
+const DOMAIN_FIELDS: PrivyTypedDataField[] = [
+    { name: "name", type: "string" },
+    { name: "version", type: "string" },
+    { name: "chainId", type: "uint256" },
+    { name: "verifyingContract", type: "address" },
+    { name: "salt", type: "bytes32" },
+];
+
+/**
+ * Primary types that authorize a spender to move the signer's tokens
+ */
+const PERMIT_TYPES = ["Permit", "PermitSingle", "PermitBatch", "PermitTransferFrom", "PermitBatchTransferFrom"];
+
+const ATOMIC_TYPE = /^(address|bool|string|bytes([1-9]|[12][0-9]|3[0-2])?|u?int(8|16|24|32|40|48|56|64|72|80|88|96|104|112|120|128|136|144|152|160|168|176|184|192|200|208|216|224|232|240|248|256)?)$/;
+
+/**
+ * Fails validation of typed data
+ *
+ * @param message - What is wrong
+ * @throws PrivyValidationError always
+ */
+function invalid(message: string): never {
+    throw new PrivyValidationError(`Invalid typed data: ${message}`, undefined, "invalid_typed_data");
+}
+
+/**
+ * Splits an array type into its element type and length
+ *
+ * @param type - The type, e.g. "Person[]" or "uint256[3]"
+ * @returns The element type and fixed length, or undefined if the type is not an array
+ */
+function arrayType(type: string): { element: string; length?: number } | undefined {
+    const match = type.match(/^(.+)\[(\d*)\]$/);
+    return match ? { element: match[1], length: match[2] ? Number(match[2]) : undefined } : undefined;
+}
+
+/**
+ * Strips array suffixes from a type
+ *
+ * @param type - The type
+ * @returns The innermost element type
+ */
+function baseType(type: string): string {
+    return type.replace(/(\[\d*\])+$/, "");
+}
+
+/**
+ * Reads typed data from an object or a JSON string, taking the EIP712Domain type from the domain when it is not given
+ *
+ * @param input - The typed data, as `eth_signTypedData_v4` takes it
+ * @returns The typed data with its domain type
+ * @throws PrivyValidationError if the types, primary type, domain or message are missing or inconsistent
+ */
+export function parseTypedData(input: unknown): PrivyTypedData {
+    let parsed = input;
+    if (typeof input === "string") {
+        try {
+            parsed = JSON.parse(input);
+        } catch (error: any) {
+            invalid(`not valid JSON (${error.message})`);
+        }
+    }
+    if (!parsed || typeof parsed !== "object") {
+        invalid("expected an object with types, primaryType, domain and message");
+    }
+
+    const { types, primaryType, domain, message } = parsed as Partial<PrivyTypedData>;
+    if (!types || typeof types !== "object") {
+        invalid("types are missing");
+    }
+    if (typeof primaryType !== "string" || !primaryType) {
+        invalid("primaryType is missing");
+    }
+    if (!domain || typeof domain !== "object") {
+        invalid("domain is missing");
+    }
+    if (!message || typeof message !== "object") {
+        invalid("message is missing");
+    }
+
+    const typedData: PrivyTypedData = {
+        types: {
+            ...types,
+            EIP712Domain: types.EIP712Domain || DOMAIN_FIELDS.filter(field => domain[field.name] !== undefined)
+        },
+        primaryType,
+        domain,
+        message
+    };
+    validateTypes(typedData.types);
+    if (!typedData.types[primaryType]) {
+        invalid(`primaryType ${primaryType} is not defined in types`);
+    }
+
+    for (const field of typedData.types.EIP712Domain) {
+        const canonical = DOMAIN_FIELDS.find(candidate => candidate.name === field.name);
+        if (!canonical || canonical.type !== field.type) {
+            invalid(`EIP712Domain field ${field.name} ${field.type} is not a standard domain field`);
+        }
+    }
+    encodeData("EIP712Domain", domain, typedData.types, "domain");
+    if (primaryType !== "EIP712Domain") {
+        encodeData(primaryType, message, typedData.types, "message");
+    }
+    return typedData;
+}
+
+/**
+ * Checks that every struct field has a unique name and a type that is atomic, dynamic or defined
+ *
+ * @param types - The struct types
+ * @throws PrivyValidationError if a type is malformed or refers to an undefined type
+ */
+function validateTypes(types: Record<string, PrivyTypedDataField[]>): void {
+    for (const [name, fields] of Object.entries(types)) {
+        if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name)) {
+            invalid(`type name ${name} is not an identifier`);
+        }
+        if (!Array.isArray(fields)) {
+            invalid(`type ${name} must be a list of fields`);
+        }
+        const seen = new Set<string>();
+        for (const field of fields) {
+            if (!field || typeof field.name !== "string" || typeof field.type !== "string") {
+                invalid(`type ${name} has a field without a name and type`);
+            }
+            if (seen.has(field.name)) {
+                invalid(`type ${name} defines field ${field.name} twice`);
+            }
+            seen.add(field.name);
+            const element = baseType(field.type);
+            if (!ATOMIC_TYPE.test(element) && !types[element]) {
+                invalid(`field ${name}.${field.name} has undefined type ${field.type}`);
+            }
+        }
+    }
+}
+
+/**
+ * Lists a struct type and the struct types it refers to, directly or not
+ *
+ * @param type - The struct type
+ * @param types - All struct types
+ * @param found - Types found so far
+ * @returns The type names
+ */
+function dependencies(type: string, types: Record<string, PrivyTypedDataField[]>, found: Set<string> = new Set()): Set<string> {
+    if (found.has(type) || !types[type]) {
+        return found;
+    }
+    found.add(type);
+    for (const field of types[type]) {
+        dependencies(baseType(field.type), types, found);
+    }
+    return found;
+}
+
+/**
+ * Encodes a struct type as EIP-712 specifies: the type itself, then its dependencies sorted by name
+ *
+ * @param type - The struct type
+ * @param types - All struct types
+ * @returns The encoded type, e.g. "Mail(Person from,Person to,string contents)Person(string name,address wallet)"
+ */
+export function encodeType(type: string, types: Record<string, PrivyTypedDataField[]>): string {
+    const others = [...dependencies(type, types)].filter(name => name !== type).sort();
+    return [type, ...others]
+        .map(name => `${name}(${types[name].map(field => `${field.type} ${field.name}`).join(",")})`)
+        .join("");
+}
+
+/**
+ * Encodes a value of any type as a 32-byte word
+ *
+ * @param type - The value's type
+ * @param value - The value
+ * @param types - All struct types
+ * @param path - Where the value is, for error messages
+ * @returns The word
+ * @throws PrivyValidationError if the value does not match its type
+ */
+function encodeValue(type: string, value: unknown, types: Record<string, PrivyTypedDataField[]>, path: string): Uint8Array {
+    const array = arrayType(type);
+    if (array) {
+        if (!Array.isArray(value)) {
+            invalid(`${path} must be an array of ${array.element}`);
+        }
+        if (array.length !== undefined && value.length !== array.length) {
+            invalid(`${path} must have ${array.length} items, got ${value.length}`);
+        }
+        return hexToBytes(`0x${keccak256(concatBytes(...value.map((item, index) => encodeValue(array.element, item, types, `${path}[${index}]`))))}`);
+    }
+    if (types[type]) {
+        return hexToBytes(`0x${keccak256(encodeData(type, value, types, path))}`);
+    }
+
+    if (type === "string") {
+        if (typeof value !== "string") {
+            invalid(`${path} must be a string`);
+        }
+        return hexToBytes(`0x${keccak256(value)}`);
+    }
+    if (type === "bytes") {
+        if (typeof value !== "string" || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+            invalid(`${path} must be 0x-prefixed hex bytes`);
+        }
+        return hexToBytes(`0x${keccak256(hexToBytes(value))}`);
+    }
+    if (type === "address") {
+        if (typeof value !== "string" || !isEvmAddress(value)) {
+            invalid(`${path} must be an address`);
+        }
+        return hexToBytes(`0x${value.slice(2).toLowerCase().padStart(64, "0")}`);
+    }
+    if (type === "bool") {
+        if (typeof value !== "boolean") {
+            invalid(`${path} must be true or false`);
+        }
+        return hexToBytes(`0x${(value ? 1 : 0).toString(16).padStart(64, "0")}`);
+    }
+    if (type.startsWith("bytes")) {
+        const size = Number(type.slice(5));
+        if (typeof value !== "string" || !new RegExp(`^0x[0-9a-fA-F]{${size * 2}}$`).test(value)) {
+            invalid(`${path} must be ${size} bytes of 0x-prefixed hex`);
+        }
+        return hexToBytes(`0x${value.slice(2).padEnd(64, "0")}`);
+    }
+
+    // Integers may be given as numbers, decimal strings or hex strings
+    const bits = BigInt(type.replace(/^u?int/, "") || "256");
+    const signed = type.startsWith("int");
+    let integer: bigint;
+    try {
+        if (typeof value !== "number" && typeof value !== "string" && typeof value !== "bigint") {
+            throw new Error();
+        }
+        if (typeof value === "number" && !Number.isSafeInteger(value)) {
+            throw new Error();
+        }
+        integer = BigInt(value);
+    } catch {
+        return invalid(`${path} must be an integer`);
+    }
+    const [min, max] = signed ? [-(1n << (bits - 1n)), (1n << (bits - 1n)) - 1n] : [0n, (1n << bits) - 1n];
+    if (integer < min || integer > max) {
+        invalid(`${path} is out of ${type} range`);
+    }
+    const word = integer < 0n ? (1n << 256n) + integer : integer;
+    return hexToBytes(`0x${word.toString(16).padStart(64, "0")}`);
+}
+
+/**
+ * Encodes a struct: its type hash followed by each field's encoded value
+ *
+ * @param type - The struct type
+ * @param value - The struct
+ * @param types - All struct types
+ * @param path - Where the struct is, for error messages
+ * @returns The encoding
+ * @throws PrivyValidationError if the struct has missing, unknown or ill-typed fields
+ */
+function encodeData(type: string, value: unknown, types: Record<string, PrivyTypedDataField[]>, path: string): Uint8Array {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        invalid(`${path} must be a ${type} object`);
+    }
+    const struct = value as Record<string, unknown>;
+    const fields = types[type];
+    const unknown = Object.keys(struct).filter(name => !fields.some(field => field.name === name));
+    if (unknown.length) {
+        invalid(`${path} has fields not in type ${type}: ${unknown.join(", ")}`);
+    }
+
+    return concatBytes(
+        hexToBytes(`0x${keccak256(encodeType(type, types))}`),
+        ...fields.map(field => {
+            if (struct[field.name] === undefined) {
+                invalid(`${path}.${field.name} is missing`);
+            }
+            return encodeValue(field.type, struct[field.name], types, `${path}.${field.name}`);
+        })
+    );
+}
+
+/**
+ * Computes the EIP-712 hash of a struct
+ *
+ * @param type - The struct type
+ * @param value - The struct
+ * @param types - All struct types
+ * @returns The hash as 0x-prefixed hex
+ */
+export function hashStruct(type: string, value: Record<string, unknown>, types: Record<string, PrivyTypedDataField[]>): string {
+    return `0x${keccak256(encodeData(type, value, types, type))}`;
+}
+
+/**
+ * Computes the hash that is signed for typed data: keccak256("\x19\x01" ‖ domainSeparator ‖ hashStruct(message))
+ *
+ * @param typedData - Typed data returned by `parseTypedData`
+ * @returns The hash as 0x-prefixed hex
+ */
+export function hashTypedData(typedData: PrivyTypedData): string {
+    const parts = [Uint8Array.of(0x19, 0x01), hexToBytes(hashStruct("EIP712Domain", typedData.domain, typedData.types))];
+    if (typedData.primaryType !== "EIP712Domain") {
+        parts.push(hexToBytes(hashStruct(typedData.primaryType, typedData.message, typedData.types)));
+    }
+    return `0x${keccak256(concatBytes(...parts))}`;
+}
+
+/**
+ * Formats a value of typed data for display, nesting structs and arrays as indented lines
+ *
+ * @param type - The value's type
+ * @param value - The value
+ * @param types - All struct types
+ * @param indent - Current indentation
+ * @returns The formatted value; multi-line for structs and arrays
+ */
+function formatValue(type: string, value: unknown, types: Record<string, PrivyTypedDataField[]>, indent: string): string {
+    // Nested values start on their own line
+    const entry = (label: string, formatted: string) => `\n${indent}- ${label}:${formatted.startsWith("\n") ? "" : " "}${formatted}`;
+    const array = arrayType(type);
+    if (array && Array.isArray(value)) {
+        if (!value.length) {
+            return "(none)";
+        }
+        return value.map((item, index) => entry(`[${index}]`, formatValue(array.element, item, types, `${indent}  `))).join("");
+    }
+    if (types[type] && value && typeof value === "object") {
+        return types[type]
+            .map(field => entry(field.name, formatValue(field.type, (value as Record<string, unknown>)[field.name], types, `${indent}  `)))
+            .join("");
+    }
+    if (type === "address" && typeof value === "string" && isEvmAddress(value)) {
+        return toChecksumAddress(value);
+    }
+    if (type === "bytes" && typeof value === "string" && value.length > 66) {
+        return `${value.slice(0, 66)}… (${(value.length - 2) / 2} bytes)`;
+    }
+    return String(value);
+}
+
+/**
+ * Describes typed data for a human before it is signed: who asks for the signature, on which chain,
+ * and every field of the message
+ *
+ * @param typedData - Typed data returned by `parseTypedData`
+ * @returns The preview, with a warning first when the message is a token permit
+ */
+export function previewTypedData(typedData: PrivyTypedData): string {
+    const { domain, primaryType, message, types } = typedData;
+    const requester = [
+        domain.name ? String(domain.name) : "an unnamed application",
+        domain.version !== undefined ? `version ${domain.version}` : "",
+        domain.chainId !== undefined ? `on chain ${domain.chainId}` : "",
+        domain.verifyingContract ? `contract ${formatValue("address", domain.verifyingContract, types, "")}` : ""
+    ].filter(Boolean).join(", ");
+
+    const lines = [`${primaryType} requested by ${requester}:${formatValue(primaryType, message, types, "")}`];
+    if (PERMIT_TYPES.includes(primaryType)) {
+        lines.unshift(`Warning: this is a token permit. Signing it lets ${String(message.spender ?? "the spender")} move tokens from this wallet without another signature.`);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Converts typed data into the shape Privy's `eth_signTypedData_v4` parameters take
+ *
+ * @param typedData - Typed data returned by `parseTypedData`
+ * @returns The typed data with a snake-case primary type
+ */
+export function toPrivyTypedData(typedData: PrivyTypedData): Record<string, unknown> {
+    return {
+        domain: typedData.domain,
+        types: typedData.types,
+        message: typedData.message,
+        primary_type: typedData.primaryType
+    };
+}
@@ -1,4 +1,5 @@
 import { IAgentRuntime } from "@ai16z/eliza";
+import { loadAuthorizationKey } from "./services/signing.js";
 
 /**
  * Privy configuration interface
@@ -8,6 +9,10 @@ export interface PrivyConfig {
     PRIVY_APP_SECRET: string;
     PRIVY_MONAD_RPC_URL?: string;
     PRIVY_MONAD_CHAIN_ID?: string;
+    PRIVY_ETHEREUM_RPC_URL?: string;
+    PRIVY_ETHEREUM_CHAIN_ID?: string;
+    PRIVY_SOLANA_RPC_URL?: string;
+    PRIVY_AUTHORIZATION_PRIVATE_KEY?: string;
 }
 
 /**
@@ -35,15 +40,47 @@ export async function validatePrivyConfig(
         // Retrieve optional Monad-specific configurations
         const PRIVY_MONAD_RPC_URL = runtime.getSetting("PRIVY_MONAD_RPC_URL") || undefined;
         const PRIVY_MONAD_CHAIN_ID = runtime.getSetting("PRIVY_MONAD_CHAIN_ID") || undefined;
+        const PRIVY_ETHEREUM_RPC_URL = runtime.getSetting("PRIVY_ETHEREUM_RPC_URL") || undefined;
+        const PRIVY_ETHEREUM_CHAIN_ID = runtime.getSetting("PRIVY_ETHEREUM_CHAIN_ID") || undefined;
+        const PRIVY_SOLANA_RPC_URL = runtime.getSetting("PRIVY_SOLANA_RPC_URL") || undefined;
+        
+        // Optional P-256 key used to sign requests against wallets and policies owned by a key quorum
+        const PRIVY_AUTHORIZATION_PRIVATE_KEY = runtime.getSetting("PRIVY_AUTHORIZATION_PRIVATE_KEY") || undefined;
+        if (PRIVY_AUTHORIZATION_PRIVATE_KEY) {
+            loadAuthorizationKey(PRIVY_AUTHORIZATION_PRIVATE_KEY);
+        }
         
         return {
             PRIVY_APP_ID,
             PRIVY_APP_SECRET,
             PRIVY_MONAD_RPC_URL,
-            PRIVY_MONAD_CHAIN_ID
+            PRIVY_MONAD_CHAIN_ID,
+            PRIVY_ETHEREUM_RPC_URL,
+            PRIVY_ETHEREUM_CHAIN_ID,
+            PRIVY_SOLANA_RPC_URL,
+            PRIVY_AUTHORIZATION_PRIVATE_KEY
         };
     } catch (error) {
         console.error("Privy configuration error:", error);
         throw error;
     }
-} 
\ No newline at end of file
+} 
+/**
+ * Gets the JSON-RPC endpoint configured for a chain
+ *
+ * @param config - Validated Privy configuration
+ * @param chainType - The chain
+ * @returns The RPC URL and expected chain ID, or undefined if no endpoint is configured
+ */
+export function getRpcConfig(config: PrivyConfig, chainType: string): { rpcUrl: string; chainId?: string } | undefined {
+    switch (chainType) {
+        case "monad":
+            return config.PRIVY_MONAD_RPC_URL ? { rpcUrl: config.PRIVY_MONAD_RPC_URL, chainId: config.PRIVY_MONAD_CHAIN_ID } : undefined;
+        case "ethereum":
+            return config.PRIVY_ETHEREUM_RPC_URL ? { rpcUrl: config.PRIVY_ETHEREUM_RPC_URL, chainId: config.PRIVY_ETHEREUM_CHAIN_ID } : undefined;
+        case "solana":
+            return config.PRIVY_SOLANA_RPC_URL ? { rpcUrl: config.PRIVY_SOLANA_RPC_URL } : undefined;
+        default:
+            return undefined;
+    }
+}
@@ -0,0 +1,145 @@
+/**
+ * Error types raised by the Privy plugin's API and JSON-RPC clients
+ *
+ * Every failed Privy API call surfaces as a PrivyApiError (or one of its subclasses) carrying the
+ * HTTP status and Privy's error code, so callers can branch on the error class instead of parsing messages.
+ */
+
+import { PrivyRequestPreview } from "./services/client.js";
+
+/**
+ * Base class for failed Privy API calls
+ */
+export class PrivyApiError extends Error {
+    constructor(
+        message: string,
+        public statusCode?: number,
+        public code?: string,
+    ) {
+        super(message);
+        this.name = "PrivyApiError";
+    }
+}
+
+/**
+ * The request was rejected by a wallet policy
+ */
+export class PrivyPolicyViolationError extends PrivyApiError {
+    constructor(message: string, statusCode?: number, code?: string) {
+        super(message, statusCode, code);
+        this.name = "PrivyPolicyViolationError";
+    }
+}
+
+/**
+ * The requested wallet, policy or transaction does not exist
+ */
+export class PrivyNotFoundError extends PrivyApiError {
+    constructor(message: string, statusCode?: number, code?: string) {
+        super(message, statusCode, code);
+        this.name = "PrivyNotFoundError";
+    }
+}
+
+/**
+ * The app credentials or authorization signature were rejected
+ */
+export class PrivyUnauthorizedError extends PrivyApiError {
+    constructor(message: string, statusCode?: number, code?: string) {
+        super(message, statusCode, code);
+        this.name = "PrivyUnauthorizedError";
+    }
+}
+
+/**
+ * Privy is rate limiting the app; retryAfterMs is set when the response said how long to wait
+ */
+export class PrivyRateLimitError extends PrivyApiError {
+    constructor(message: string, statusCode?: number, code?: string, public retryAfterMs?: number) {
+        super(message, statusCode, code);
+        this.name = "PrivyRateLimitError";
+    }
+}
+
+/**
+ * The request body or parameters were invalid
+ */
+export class PrivyValidationError extends PrivyApiError {
+    constructor(message: string, statusCode?: number, code?: string) {
+        super(message, statusCode, code);
+        this.name = "PrivyValidationError";
+    }
+}
+
+/**
+ * The request did not complete before the client's timeout
+ */
+export class PrivyTimeoutError extends PrivyApiError {
+    constructor(message: string) {
+        super(message, undefined, "timeout");
+        this.name = "PrivyTimeoutError";
+    }
+}
+
+/**
+ * A write request was not sent because the client is in dry-run mode; request holds what would have been sent
+ */
+export class PrivyDryRunError extends PrivyApiError {
+    constructor(public request: PrivyRequestPreview) {
+        super(`Dry run: ${request.method} ${request.url} was not sent`, undefined, "dry_run");
+        this.name = "PrivyDryRunError";
+    }
+}
+
+/**
+ * A blockchain JSON-RPC node returned an error or could not be reached; code holds the JSON-RPC error code
+ */
+export class PrivyRpcError extends PrivyApiError {
+    constructor(message: string, statusCode?: number, code?: string, public data?: unknown) {
+        super(message, statusCode, code);
+        this.name = "PrivyRpcError";
+    }
+}
+
+/**
+ * Builds the error matching a failed Privy response
+ *
+ * @param statusCode - HTTP status of the response
+ * @param body - Parsed error body, if any
+ * @param fallbackMessage - Message to use when the body has none
+ * @param retryAfterMs - Delay requested by a Retry-After header
+ * @returns The typed error
+ */
+export function toPrivyApiError(
+    statusCode: number,
+    body: { message?: string; error?: string; code?: string } | undefined,
+    fallbackMessage: string,
+    retryAfterMs?: number
+): PrivyApiError {
+    const message = body?.message || body?.error || fallbackMessage;
+    const code = body?.code;
+
+    // Policy denials are rejected requests whose Privy error code names the policy
+    const policyDenial = /policy/i.test(code || "");
+
+    switch (statusCode) {
+        case 401:
+            return new PrivyUnauthorizedError(message, statusCode, code);
+        case 403:
+            return policyDenial
+                ? new PrivyPolicyViolationError(message, statusCode, code)
+                : new PrivyUnauthorizedError(message, statusCode, code);
+        case 404:
+            return new PrivyNotFoundError(message, statusCode, code);
+        case 429:
+            return new PrivyRateLimitError(message, statusCode, code, retryAfterMs);
+        case 400:
+        case 409:
+        case 422:
+            return policyDenial
+                ? new PrivyPolicyViolationError(message, statusCode, code)
+                : new PrivyValidationError(message, statusCode, code);
+        default:
+            return new PrivyApiError(message, statusCode, code);
+    }
+}
@@ -109,6 +109,57 @@ export const updatePolicyExamples: ActionExample[][] = [
     ]
 ];
 
+/**
+ * Examples for the add policy rule action
+ */
+export const addPolicyRuleExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "Cap every transaction from our wallets at 1 ETH." },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll add a rule to the policy that only allows transactions with a value of at most 1 ETH.",
+                action: "PRIVY_ADD_POLICY_RULE",
+            },
+        }
+    ],
+    [
+        {
+            user: "user",
+            content: { text: "Block any transfers to 0xE3070d3e4309afA3bC9a6b057685743CF42da77C." },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll add a deny rule for that recipient to the policy.",
+                action: "PRIVY_ADD_POLICY_RULE",
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the remove policy rule action
+ */
+export const removePolicyRuleExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "Remove the 'Max 1 ETH' rule from our policy." },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll delete that rule from the policy.",
+                action: "PRIVY_REMOVE_POLICY_RULE",
+            },
+        }
+    ]
+];
+
 /**
  * Examples for the create wallet action
  */
@@ -240,6 +291,224 @@ export const sendTransactionExamples: ActionExample[][] = [
                 }
             },
         }
+    ],
+    [
+        {
+            user: "user",
+            content: { text: "Send 100 USDC to 0xE3070d3e4309afA3bC9a6b057685743CF42da77C." },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll transfer 100 USDC to the specified address.",
+                action: "PRIVY_SEND_TRANSACTION",
+            },
+        }
+    ],
+    [
+        {
+            user: "user",
+            content: { text: "Send 0.25 SOL from my Solana wallet to 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM." },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll send 0.25 SOL from your Solana wallet to the specified address.",
+                action: "PRIVY_SEND_TRANSACTION",
+                options: {
+                    chainType: "solana"
+                }
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the approve transaction action
+ */
+export const approveTransactionExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "Approve transaction 3f1c2a9e-5b7d-4e2f-9a61-0c8d7e6b5a43." },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll release the pending transaction and send it.",
+                action: "PRIVY_APPROVE_TRANSACTION",
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the reject transaction action
+ */
+export const rejectTransactionExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "Reject the pending payout 3f1c2a9e-5b7d-4e2f-9a61-0c8d7e6b5a43, it's too large." },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll cancel that pending transaction so it won't be sent.",
+                action: "PRIVY_REJECT_TRANSACTION",
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the list pending transactions action
+ */
+export const listPendingExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "Are there any transactions waiting for my approval?" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "Here are the transactions waiting for approval.",
+                action: "PRIVY_LIST_PENDING",
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the get transaction status action
+ */
+export const getTransactionStatusExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "Has my transaction 0x5e1c0c6c0b9f4d2d8a7e3b1f9c2d4e6f8a0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d been confirmed yet?" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "Let me check the status of that transaction.",
+                action: "PRIVY_GET_TRANSACTION_STATUS",
+            },
+        }
+    ],
+    [
+        {
+            user: "user",
+            content: { text: "Are any of my transactions still pending?" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll check the transactions that haven't settled yet.",
+                action: "PRIVY_GET_TRANSACTION_STATUS",
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the get transaction history action
+ */
+export const getTransactionHistoryExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "What did the treasury wallet send this week?" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "Here is this week's history of the treasury wallet.",
+                action: "PRIVY_GET_TRANSACTION_HISTORY",
+            },
+        }
+    ],
+    [
+        {
+            user: "user",
+            content: { text: "Show the failed USDC transactions of my payroll wallet in the last 30 days" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "Let me look up those transactions.",
+                action: "PRIVY_GET_TRANSACTION_HISTORY",
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the get spending limits action
+ */
+export const getSpendingLimitsExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "How much can the treasury wallet still send today?" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "Let me check what is left of the treasury wallet's limits.",
+                action: "PRIVY_GET_SPENDING_LIMITS",
+            },
+        }
+    ],
+    [
+        {
+            user: "user",
+            content: { text: "What are the spending limits on my payroll wallet?" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "Here are the payroll wallet's limits and remaining allowance.",
+                action: "PRIVY_GET_SPENDING_LIMITS",
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the get balance action
+ */
+export const getBalanceExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "How much MON is in my treasury wallet?" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "Let me check the balances of your treasury wallet.",
+                action: "PRIVY_GET_BALANCE",
+            },
+        }
+    ],
+    [
+        {
+            user: "user",
+            content: { text: "What's the USDC balance of all our wallets on Monad?" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll read the USDC balances of your wallets on Monad.",
+                action: "PRIVY_GET_BALANCE",
+                options: {
+                    chainType: "monad",
+                    token: "USDC"
+                }
+            },
+        }
     ]
 ];
 
@@ -275,5 +544,178 @@ export const signTransactionExamples: ActionExample[][] = [
                 }
             },
         }
+    ],
+    [
+        {
+            user: "user",
+            content: { text: "Sign the message \"Login to Example at 2024-06-01\" with my treasury wallet" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll sign that message with the treasury wallet and verify the signature.",
+                action: "PRIVY_SIGN_TRANSACTION",
+            },
+        }
+    ],
+    [
+        {
+            user: "user",
+            content: { text: "Please sign this permit with wallet clm2mvpuv0002l708tv0cxt1l: {\"types\": {...}, \"primaryType\": \"Permit\", \"domain\": {...}, \"message\": {...}}" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "Here is what the permit grants; I'll sign it and check the signer.",
+                action: "PRIVY_SIGN_TRANSACTION",
+            },
+        }
+    ]
+]; 
+
+/**
+ * Examples for the batch send action
+ */
+export const batchSendExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "Pay these from the payroll wallet:\nto,amount,token\n0xE3070d3e4309afA3bC9a6b057685743CF42da77C,250,USDC\n0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed,125.5,USDC" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll validate every row against the policy and spending limits, then send them one by one and report each result.",
+                action: "PRIVY_BATCH_SEND",
+            },
+        }
+    ],
+    [
+        {
+            user: "user",
+            content: { text: "Resume batch batch_2f6c1a9e-4d1b-4c3e-9a57-0b7f2e9d1c44 and send the valid rows only." },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll resume that batch, skipping rows that were already sent.",
+                action: "PRIVY_BATCH_SEND",
+                options: {
+                    batchId: "batch_2f6c1a9e-4d1b-4c3e-9a57-0b7f2e9d1c44",
+                    partial: true
+                }
+            },
+        }
     ]
-]; 
\ No newline at end of file
+];
+
+/**
+ * Examples for the create schedule action
+ */
+export const createScheduleExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "Pay 50 USDC to contractor X at 0xE3070d3e4309afA3bC9a6b057685743CF42da77C every Friday from the payroll wallet" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll schedule 50 USDC to contractor X every Friday. Each payment will go through the same policy, limit and approval checks as a normal send.",
+                action: "PRIVY_CREATE_SCHEDULE",
+            },
+        }
+    ],
+    [
+        {
+            user: "user",
+            content: { text: "Send 0.1 ETH to 0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed from the treasury wallet on the 1st of every month at 12:00, 6 times" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll set up a monthly transfer of 0.1 ETH on the 1st at 12:00 UTC for the next 6 months.",
+                action: "PRIVY_CREATE_SCHEDULE",
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the list schedules action
+ */
+export const listSchedulesExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "What recurring payments do we have set up?" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "Let me list the active and paused schedules with their next runs.",
+                action: "PRIVY_LIST_SCHEDULES",
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the pause schedule action
+ */
+export const pauseScheduleExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "Pause the contractor X payments for now" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll pause that schedule. It won't pay anything until you resume it.",
+                action: "PRIVY_PAUSE_SCHEDULE",
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the resume schedule action
+ */
+export const resumeScheduleExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "Resume schedule sched_7b1e4f2a-9c3d-4e8f-a6b5-1d2c3e4f5a6b" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll resume that schedule from its next run.",
+                action: "PRIVY_RESUME_SCHEDULE",
+                options: {
+                    scheduleId: "sched_7b1e4f2a-9c3d-4e8f-a6b5-1d2c3e4f5a6b"
+                }
+            },
+        }
+    ]
+];
+
+/**
+ * Examples for the cancel schedule action
+ */
+export const cancelScheduleExamples: ActionExample[][] = [
+    [
+        {
+            user: "user",
+            content: { text: "Stop paying contractor X, their contract ended" },
+        },
+        {
+            user: "agent",
+            content: {
+                text: "I'll cancel the contractor X schedule so it never runs again.",
+                action: "PRIVY_CANCEL_SCHEDULE",
+            },
+        }
+    ]
+];
@@ -0,0 +1,213 @@
+import { IAgentRuntime, Memory } from "@ai16z/eliza";
+import { PrivyPlugin } from "./index.js";
+import { validatePrivyConfig } from "./environment.js";
+import { approvalService } from "./services/approvals.js";
+import { batchService } from "./services/batches.js";
+import { walletDirectory } from "./services/directory.js";
+import { deriveIdempotencyKey, idempotencyService } from "./services/idempotency.js";
+import { scheduleService } from "./services/schedules.js";
+import { PrivyTransactionRequest } from "./types/wallets.js";
+
+const send: PrivyTransactionRequest = { wallet_id: "wallet-1", to: "0x1111111111111111111111111111111111111111", value: "1000" };
+
+/**
+ * A runtime with Privy credentials whose cache is a map
+ */
+function privyRuntime(): IAgentRuntime {
+    const cache = new Map<string, unknown>();
+    const settings: Record<string, string> = { PRIVY_APP_ID: "app-id", PRIVY_APP_SECRET: "app-secret" };
+    return {
+        getSetting: (key: string) => settings[key],
+        character: { settings: {} },
+        cacheManager: {
+            get: async (key: string) => cache.get(key),
+            set: async (key: string, value: unknown) => { cache.set(key, value); },
+            delete: async (key: string) => { cache.delete(key); }
+        }
+    } as unknown as IAgentRuntime;
+}
+
+function message(userId: string, text: string): Memory {
+    return { userId, content: { text } } as Memory;
+}
+
+/**
+ * Runs a plugin action the way Eliza does, with empty options unless given
+ */
+async function run(plugin: PrivyPlugin, name: string, runtime: IAgentRuntime, memory: Memory, options: { [key: string]: unknown } = {}) {
+    const action = plugin.actions.find(candidate => candidate.name === name)!;
+    return action.handler(runtime, memory, undefined, options) as Promise<{ success: boolean; response: string; data?: any }>;
+}
+
+describe("approval actions", () => {
+    const plugin = new PrivyPlugin({ access: { admin: ["bob"], operator: ["alice", "carol"] } });
+
+    /**
+     * A runtime where wallet-1 belongs to alice
+     */
+    async function aliceRuntime(): Promise<IAgentRuntime> {
+        const runtime = privyRuntime();
+        await walletDirectory(runtime).register({ walletId: "wallet-1", address: send.to, chainType: "ethereum", ownerId: "alice", createdAt: Date.now() });
+        return runtime;
+    }
+
+    it("reject the approval whose ID the message text gives", async () => {
+        const runtime = await aliceRuntime();
+        const approval = await approvalService(runtime).queue(send, "key-1", "too big", "alice");
+
+        const result = await run(plugin, "PRIVY_REJECT_TRANSACTION", runtime, message("alice", `please reject ${approval.id.toUpperCase()}`));
+
+        expect(result).toMatchObject({ success: true, response: `Transaction ${approval.id} has been rejected and will not be sent.` });
+        await expect(approvalService(runtime).get(approval.id)).resolves.toMatchObject({ status: "rejected", resolvedBy: "alice" });
+    });
+
+    it("look up the approval whose ID the message text gives when approving", async () => {
+        const id = "6f1c2f8e-2d4b-4c4e-9a0f-3b2c1d0e9f8a";
+
+        const result = await run(plugin, "PRIVY_APPROVE_TRANSACTION", privyRuntime(), message("bob", `approve ${id}`));
+
+        expect(result).toEqual({ success: false, response: `No transaction is waiting for approval with ID ${id}.` });
+    });
+
+    it("leave approvals of wallets the user may not use alone", async () => {
+        const runtime = await aliceRuntime();
+        const approval = await approvalService(runtime).queue(send, "key-1", "too big", "alice");
+
+        const listed = await run(plugin, "PRIVY_LIST_PENDING", runtime, message("carol", "list pending"));
+        expect(listed).toMatchObject({ success: true, response: "No transactions are waiting for approval." });
+
+        const result = await run(plugin, "PRIVY_REJECT_TRANSACTION", runtime, message("carol", `reject ${approval.id}`));
+        expect(result.success).toBe(false);
+        await expect(approvalService(runtime).get(approval.id)).resolves.toMatchObject({ status: "pending" });
+    });
+
+    it("ask for the approval ID when the message gives none", async () => {
+        const result = await run(plugin, "PRIVY_REJECT_TRANSACTION", privyRuntime(), message("alice", "reject my transaction"));
+        expect(result).toEqual({ success: false, response: "Approval ID is required to reject a transaction." });
+    });
+});
+
+describe("balance action", () => {
+    it("read balances only from configured endpoints, ignoring an RPC URL in the options", async () => {
+        const plugin = new PrivyPlugin({ access: { operator: ["alice"] } });
+
+        const result = await run(plugin, "PRIVY_GET_BALANCE", privyRuntime(), message("alice", "what is my balance"), { rpcUrl: "http://attacker.example" });
+
+        expect(result).toEqual({
+            success: false,
+            response: "No JSON-RPC endpoint is configured for reading balances. Set PRIVY_MONAD_RPC_URL or PRIVY_ETHEREUM_RPC_URL."
+        });
+    });
+});
+
+describe("wallet listing", () => {
+    const plugin = new PrivyPlugin({ access: { admin: ["bob"], viewer: ["alice", "carol"] } });
+    const realFetch = globalThis.fetch;
+    const wallets = [
+        { id: "wallet-1", address: "0x1111111111111111111111111111111111111111", chain_type: "ethereum" },
+        { id: "wallet-2", address: "0x2222222222222222222222222222222222222222", chain_type: "ethereum" }
+    ];
+
+    beforeEach(() => {
+        globalThis.fetch = async () => new Response(JSON.stringify({ data: wallets, next_cursor: null }), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+
+    afterEach(() => {
+        globalThis.fetch = realFetch;
+    });
+
+    /**
+     * A runtime where wallet-1 belongs to alice and wallet-2 is not in the directory
+     */
+    async function aliceRuntime(): Promise<IAgentRuntime> {
+        const runtime = privyRuntime();
+        await walletDirectory(runtime).register({ walletId: "wallet-1", address: wallets[0].address, chainType: "ethereum", ownerId: "alice", createdAt: Date.now() });
+        return runtime;
+    }
+
+    const listed = async (userId: string) => {
+        const result = await run(plugin, "PRIVY_GET_WALLETS", await aliceRuntime(), message(userId, "list wallets"));
+        return result.data.wallets.map((wallet: { id: string }) => wallet.id);
+    };
+
+    it("list only the wallets a non-admin may use", async () => {
+        await expect(listed("alice")).resolves.toEqual(["wallet-1"]);
+        await expect(listed("carol")).resolves.toEqual([]);
+    });
+
+    it("list every wallet for an admin", async () => {
+        await expect(listed("bob")).resolves.toEqual(["wallet-1", "wallet-2"]);
+    });
+});
+
+describe("batch action", () => {
+    const plugin = new PrivyPlugin({ access: { admin: ["bob"], operator: ["alice", "carol"] } });
+
+    it("let only the user who started a batch resume it", async () => {
+        const runtime = privyRuntime();
+        const batch = await batchService(runtime).create([{ to: send.to, amount: "1" }], "wallet-1", "ethereum", "alice");
+
+        const result = await run(plugin, "PRIVY_BATCH_SEND", runtime, message("carol", `resume ${batch.id}`));
+
+        expect(result).toEqual({ success: false, response: `Batch ${batch.id} can only be resumed by the user who started it or a Privy admin.` });
+        await expect(batchService(runtime).get(batch.id)).resolves.toMatchObject({ status: "running", rows: [{ status: "pending" }] });
+    });
+});
+
+describe("scheduled runs", () => {
+    const plugin = new PrivyPlugin({ access: { operator: ["alice"] }, scheduler: { enabled: false } });
+
+    it("leave a run due while an earlier attempt at it is still being sent", async () => {
+        const runtime = privyRuntime();
+        await walletDirectory(runtime).register({ walletId: "wallet-1", address: send.to, chainType: "ethereum", ownerId: "alice", createdAt: Date.now() });
+        const startAt = Date.now() - 1000;
+        const schedule = await scheduleService(runtime).create({
+            chainType: "ethereum",
+            walletId: "wallet-1",
+            request: send,
+            description: "0.000000000000001 ETH to 0x1111...1111",
+            recurrence: { frequency: "weekly" },
+            startAt,
+            createdBy: "alice"
+        });
+        await idempotencyService(runtime, 60_000).claim(deriveIdempotencyKey(`${schedule.id}:${startAt}`, send), send);
+
+        await plugin["runSchedule"](runtime, await validatePrivyConfig(runtime), schedule);
+
+        await expect(scheduleService(runtime).get(schedule.id)).resolves.toMatchObject({ nextRunAt: startAt, runCount: 0, runs: [] });
+    });
+});
+
+describe("transaction signing", () => {
+    const plugin = new PrivyPlugin({ access: { operator: ["alice"] } });
+    const realFetch = globalThis.fetch;
+    const requests: { method?: string; url: string }[] = [];
+
+    beforeEach(() => {
+        requests.length = 0;
+        globalThis.fetch = async (url, init) => {
+            requests.push({ method: init?.method, url: String(url) });
+            return new Response(JSON.stringify({ id: "wallet-1", address: send.to, chain_type: "ethereum" }), { status: 200, headers: { "Content-Type": "application/json" } });
+        };
+    });
+
+    afterEach(() => {
+        globalThis.fetch = realFetch;
+    });
+
+    it("refuse to sign an EVM transaction without a chain ID", async () => {
+        const runtime = privyRuntime();
+        await walletDirectory(runtime).register({ walletId: "wallet-1", address: send.to, chainType: "ethereum", ownerId: "alice", createdAt: Date.now() });
+
+        const result = await run(plugin, "PRIVY_SIGN_TRANSACTION", runtime, message("alice", "sign a transaction"), {
+            method: "eth_signTransaction",
+            walletId: "wallet-1",
+            to: send.to,
+            value: "1000"
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.response).toContain("A chain ID is required to sign this ethereum transaction. Pass chainId or set PRIVY_ETHEREUM_CHAIN_ID.");
+        expect(requests.filter(request => request.method === "POST")).toEqual([]);
+    });
+});
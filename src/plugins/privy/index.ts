@@ -1,25 +1,97 @@
 import {
     Action,
+    Client,
     Content,
+    HandlerCallback,
     IAgentRuntime,
     Memory,
     Plugin,
+    Provider,
     State,
 } from "@ai16z/eliza";
-import { validatePrivyConfig } from "./environment.js";
-import { policyService } from "./services/policies.js";
-import { walletService } from "./services/wallets.js";
+import { getRpcConfig, PrivyConfig, validatePrivyConfig } from "./environment.js";
+import { policyService, policyTokenRules } from "./services/policies.js";
+import { summarizeWallets, walletService } from "./services/wallets.js";
+import { OWN_WALLET_ALIAS, walletDirectory } from "./services/directory.js";
+import { accessControl, describeAccessDenied, describeWalletAccessDenied } from "./services/access.js";
+import { evaluatePolicy } from "./services/evaluation.js";
+import { deriveIdempotencyKey, idempotencyService } from "./services/idempotency.js";
+import { approvalReason, approvalService, canResolveApproval } from "./services/approvals.js";
+import { tokenRegistry } from "./services/tokens.js";
+import { balanceService, summarizeBalances } from "./services/balances.js";
+import { describePreflightFailure, formatEstimatedFee, preflightService } from "./services/preflight.js";
+import { isSettled, summarizeTransaction, transactionTracker } from "./services/transactions.js";
+import { describeAllowance, spendingLimits } from "./services/limits.js";
+import { solanaService } from "./services/solana.js";
+import { captureDryRun, formatRequestPreview, PrivyClientOptions, PrivyRequestPreview } from "./services/client.js";
+import { BATCH_STALE_MS, batchOutcome, batchService, DEFAULT_BATCH_MAX_ROWS, formatBatchReport, parseBatchRows } from "./services/batches.js";
+import {
+    DEFAULT_SCHEDULE_TIME,
+    DEFAULT_SCHEDULER_POLL_MS,
+    describeRecurrence,
+    formatSchedule,
+    parsePayeeLabel,
+    parseScheduleFromText,
+    scheduleService
+} from "./services/schedules.js";
+import { filterHistory, formatHistoryTable, fromPrivyTransaction, fromTrackedTransaction, mergeHistory, parseDateRange } from "./services/history.js";
+import { clarifyingQuestion, parseIntentFromText, PrivyIntent, resolveIntent, TRANSFER_PARAMETERS } from "./services/intent.js";
+import { buildRule, isPolicyMethod, maxValueCondition, recipientCondition } from "./services/rules.js";
 import {
     getPolicyExamples,
     createPolicyExamples,
     updatePolicyExamples,
+    addPolicyRuleExamples,
+    removePolicyRuleExamples,
     createWalletExamples,
     updateWalletExamples,
     getWalletsExamples,
+    getBalanceExamples,
     sendTransactionExamples,
-    signTransactionExamples
+    approveTransactionExamples,
+    rejectTransactionExamples,
+    listPendingExamples,
+    getTransactionStatusExamples,
+    getTransactionHistoryExamples,
+    getSpendingLimitsExamples,
+    signTransactionExamples,
+    batchSendExamples,
+    createScheduleExamples,
+    listSchedulesExamples,
+    pauseScheduleExamples,
+    resumeScheduleExamples,
+    cancelScheduleExamples
 } from "./examples.js";
-import { PrivyCreateWalletRequest, PrivyUpdateWalletRequest, PrivyTransactionRequest } from "./types/wallets.js";
+import { PrivyCreateWalletRequest, PrivyUpdateWalletRequest, PrivyTransactionRequest, PrivyTransactionResponse } from "./types/wallets.js";
+import { PrivyChainType, PrivyCondition, PrivyMethodRule, PrivyPolicyEvaluation, PrivyPolicyResponse, PrivyRule } from "./types/policies.js";
+import { PrivyApprovalConfig } from "./types/approvals.js";
+import { PrivyToken } from "./types/tokens.js";
+import { PrivyWalletBalances } from "./types/balances.js";
+import { PrivyPreflightResult } from "./types/preflight.js";
+import { PrivyTrackedTransaction, PrivyTrackingConfig } from "./types/transactions.js";
+import { PrivyHistoryEntry, PrivyHistoryFilter, PrivyHistoryStatus } from "./types/history.js";
+import { PrivyWalletDirectoryEntry } from "./types/directory.js";
+import { PrivyAccessConfig } from "./types/access.js";
+import { PrivyLimitCheck, PrivyLimitsConfig } from "./types/limits.js";
+import { PrivySignMethod, PrivySolanaMethod } from "./types/signatures.js";
+import { PrivyBatch, PrivyBatchConfig, PrivyBatchRowResult } from "./types/batches.js";
+import { PrivySendOutcome } from "./types/sends.js";
+import { PrivyRecurrence, PrivySchedule, PrivySchedulerConfig, PrivyScheduleRun, PrivyScheduleStatus } from "./types/schedules.js";
+import { CHAIN_POLICY_CONFIG, getChainPolicyConfig, getNativeToken, isChainType } from "./chains.js";
+import { NATIVE_UNIT_DECIMALS, parseAmount } from "./amounts.js";
+import { describeTransaction, encodeTokenCall } from "./abi.js";
+import { base58Encode, isSolanaAddress, normalizeAddress, sameAddress } from "./addresses.js";
+import { decodeSignedTransaction, hashMessage, hexToBytes, recoverAddress } from "./signatures.js";
+import { decodeSolanaTransaction, verifySolanaSignature } from "./solana.js";
+import { hashTypedData, parseTypedData, previewTypedData } from "./eip712.js";
+import {
+    PrivyDryRunError,
+    PrivyNotFoundError,
+    PrivyPolicyViolationError,
+    PrivyRateLimitError,
+    PrivyUnauthorizedError,
+    PrivyValidationError
+} from "./errors.js";
 
 /**
  * Privy Plugin Configuration
@@ -27,14 +99,121 @@ import { PrivyCreateWalletRequest, PrivyUpdateWalletRequest, PrivyTransactionReq
 export interface PrivyPluginConfig {
     defaultPolicyName?: string;
     defaultPolicyId?: string;
+    /** How long a sent transaction suppresses repeated sends of the same intent, in milliseconds */
+    idempotencyWindowMs?: number;
+    /** Thresholds above which transactions are queued for human approval */
+    approvals?: PrivyApprovalConfig;
+    /** Wallet nicknames (e.g. "treasury") mapped to wallet IDs */
+    walletAliases?: Record<string, string>;
+    /** JSON-RPC endpoints per EVM chain, overriding the PRIVY_*_RPC_URL settings (e.g. a local node or stub) */
+    rpcUrls?: Partial<Record<PrivyChainType, string>>;
+    /** How long balances read over JSON-RPC are reused, in milliseconds */
+    balanceCacheMs?: number;
+    /** Whether sends are simulated and priced over JSON-RPC before they reach Privy; defaults to true */
+    preflight?: boolean;
+    /** Receipt polling for sent transactions, which are followed over JSON-RPC until they settle */
+    tracking?: PrivyTrackingConfig;
+    /** Explorer URL templates keyed by CAIP-2 chain ID, with `{hash}` for the transaction hash */
+    explorers?: Record<string, string>;
+    /** Roles of Eliza users, combined with the character's `privyAccess` setting */
+    access?: PrivyAccessConfig;
+    /** Cumulative spending caps and transaction rates, for all wallets and per wallet */
+    limits?: PrivyLimitsConfig;
+    /** Size and sending concurrency of batch sends */
+    batches?: PrivyBatchConfig;
+    /** Background runs of scheduled and recurring transfers */
+    scheduler?: PrivySchedulerConfig;
+    /** Whether write requests to Privy are only built and reported instead of sent; an action's `dryRun` option also turns this on for one call */
+    dryRun?: boolean;
 }
 
+/**
+ * Default window during which repeated sends of the same intent are deduplicated
+ */
+const DEFAULT_IDEMPOTENCY_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * Default time balances read over JSON-RPC are reused
+ */
+const DEFAULT_BALANCE_CACHE_MS = 60 * 1000;
+
+/**
+ * Most wallets whose balances the balance provider reads on each message
+ */
+const MAX_PROVIDER_WALLETS = 5;
+
+/**
+ * Most wallets listed individually by the get wallets action; the rest are only counted
+ */
+const MAX_LISTED_WALLETS = 10;
+
+/**
+ * Most transactions the transaction provider lists on each message
+ */
+const MAX_PROVIDER_TRANSACTIONS = 5;
+
+/**
+ * How long the transaction provider keeps mentioning a transaction after it settles
+ */
+const RECENTLY_SETTLED_MS = 10 * 60 * 1000;
+
+/**
+ * History entries shown per page by default, and at most
+ */
+const DEFAULT_HISTORY_PAGE_SIZE = 10;
+const MAX_HISTORY_PAGE_SIZE = 50;
+
+/**
+ * Most pages of Privy's transaction records read for one history request
+ */
+const MAX_PRIVY_HISTORY_PAGES = 5;
+
+/**
+ * Most schedules listed individually, by the list action and when asking which schedule is meant
+ */
+const MAX_LISTED_SCHEDULES = 20;
+
+/**
+ * Methods the signing action can call
+ */
+const SIGN_METHODS: PrivySignMethod[] = ["personal_sign", "eth_signTypedData_v4", "eth_signTransaction"];
+
+/**
+ * Solana wallet methods, and the signing method each corresponds to
+ */
+const SOLANA_SIGN_METHODS: Partial<Record<PrivySolanaMethod, PrivySignMethod>> = {
+    signMessage: "personal_sign",
+    signTransaction: "eth_signTransaction"
+};
+
+/**
+ * EVM chains whose balances can be read over JSON-RPC
+ */
+const BALANCE_CHAINS: PrivyChainType[] = ["monad", "ethereum"];
+
+/**
+ * Shape of approval IDs, for reading them from message text
+ */
+const APPROVAL_ID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/i;
+
+/**
+ * Schedule states each schedule action applies to
+ */
+const SCHEDULE_ACTION_STATUSES: Record<"pause" | "resume" | "cancel", PrivyScheduleStatus[]> = {
+    pause: ["active"],
+    resume: ["paused"],
+    cancel: ["active", "paused"]
+};
+
 /**
  * Default configuration values
  */
 const DEFAULT_CONFIG: PrivyPluginConfig = {
     defaultPolicyName: "DefaultPolicy",
-    defaultPolicyId: ""
+    defaultPolicyId: "",
+    idempotencyWindowMs: DEFAULT_IDEMPOTENCY_WINDOW_MS,
+    balanceCacheMs: DEFAULT_BALANCE_CACHE_MS,
+    preflight: true
 };
 
 /**
@@ -44,21 +223,2657 @@ export class PrivyPlugin implements Plugin {
     readonly name: string = "privy";
     readonly description: string = "Interact with Privy for policy-based wallet management";
     private config: PrivyPluginConfig;
+    /** Scheduler timer of each runtime the plugin serves, and whether it is running due schedules */
+    private schedulers = new WeakMap<IAgentRuntime, { timer: ReturnType<typeof setInterval>; running: boolean }>();
 
     constructor(config: Partial<PrivyPluginConfig> = {}) {
         this.config = { ...DEFAULT_CONFIG, ...config };
     }
 
     /**
-     * Actions provided by the Privy plugin
+     * Enforces role-based access on an action: it is not offered to users whose role is too low, and its
+     * handler refuses them if it is invoked anyway
+     *
+     * @param action - The action to guard
+     * @returns The guarded action
      */
-    actions: Action[] = [
-        // Get Policy Action
-        {
-            name: "PRIVY_GET_POLICY",
-            description: "Retrieve a Privy policy by its ID to check allowed tokens",
-            similes: ["GET POLICY", "RETRIEVE POLICY", "FETCH POLICY", "CHECK POLICY"],
-            examples: getPolicyExamples,
+    private withAccessControl(action: Action): Action {
+        return {
+            ...action,
+            validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+                if (!accessControl(runtime, this.config.access).check(action.name, message.userId).allowed) {
+                    return false;
+                }
+                return action.validate(runtime, message, state);
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown },
+                callback?: HandlerCallback
+            ) => {
+                const decision = accessControl(runtime, this.config.access).check(action.name, message.userId);
+                if (!decision.allowed) {
+                    return {
+                        success: false,
+                        response: describeAccessDenied(action.name, decision),
+                        data: { access: decision }
+                    };
+                }
+                return action.handler(runtime, message, state, options, callback);
+            }
+        };
+    }
+
+    /**
+     * Checks whether a call runs dry: when the plugin is configured to, or the action's `dryRun` option
+     * asks for it; the option cannot turn off a configured dry run
+     *
+     * @param options - Options passed to the action
+     * @returns Whether write requests are only built
+     */
+    private isDryRun(options?: { [key: string]: unknown }): boolean {
+        return this.config.dryRun === true || options?.dryRun === true || String(options?.dryRun).toLowerCase() === "true";
+    }
+
+    /**
+     * Builds the Privy client options for a call
+     *
+     * @param options - Options passed to the action, if the call serves one
+     * @returns The client options
+     */
+    private clientOptions(options?: { [key: string]: unknown }): PrivyClientOptions {
+        return { dryRun: this.isDryRun(options) };
+    }
+
+    /**
+     * Reports a dry run: the request that would have been sent to Privy and what was checked locally
+     *
+     * @param action - The action that ran dry
+     * @param request - The request that would have been sent
+     * @param checks - The local policy verdict and other results of local checks
+     * @returns The action result
+     */
+    private dryRunResult(
+        action: string,
+        request: PrivyRequestPreview,
+        checks: { evaluation?: PrivyPolicyEvaluation; notes?: string[]; [key: string]: unknown } = {}
+    ): { success: boolean; response: string; data: { [key: string]: unknown } } {
+        const { evaluation, notes = [], ...details } = checks;
+        const verdict = evaluation
+            ? `Local policy verdict: ${evaluation.decision} on ${evaluation.method} (${evaluation.reason}).`
+            : "Local policy verdict: none; no policy was simulated.";
+        return {
+            success: true,
+            response: [`Dry run of ${action}: nothing was sent to Privy. This request would be sent:`, formatRequestPreview(request), verdict, ...notes].join("\n"),
+            data: { dryRun: true, request, evaluation, ...details }
+        };
+    }
+
+    /**
+     * Builds the request Privy would receive for a send, without sending it
+     *
+     * @param config - Validated Privy configuration
+     * @param request - The transaction request
+     * @param idempotencyKey - Key identifying the transaction intent
+     * @param chainType - Chain the transaction is sent on
+     * @returns The request that would be sent
+     */
+    private async previewSend(
+        config: PrivyConfig,
+        request: PrivyTransactionRequest,
+        idempotencyKey: string,
+        chainType: PrivyChainType
+    ): Promise<PrivyRequestPreview> {
+        const options = { dryRun: true };
+        const preview = await captureDryRun(() => chainType === "solana"
+            ? this.sendSolanaTransfer(config, request, idempotencyKey, options)
+            : walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options)).sendTransaction(request, idempotencyKey)
+        );
+        return preview as PrivyRequestPreview;
+    }
+
+    /**
+     * Sends a transaction through Privy under an idempotency key, recording the outcome in the runtime cache
+     *
+     * Privy sends EVM transactions from their fields, while Solana transfers are built here against a
+     * fresh blockhash and handed to Privy serialized. An intent that was already sent returns its
+     * recorded transaction without sending again.
+     * 
+     * @param runtime - The agent runtime
+     * @param config - Validated Privy configuration
+     * @param request - The transaction request
+     * @param idempotencyKey - Key identifying the transaction intent
+     * @param chainType - Chain the transaction is sent on
+     * @param requestedBy - User who asked for the transaction
+     * @returns The Privy transaction response
+     * @throws PrivyValidationError if the intent is being sent by another call
+     */
+    private async broadcastTransaction(
+        runtime: IAgentRuntime,
+        config: PrivyConfig,
+        request: PrivyTransactionRequest,
+        idempotencyKey: string,
+        chainType: PrivyChainType = "ethereum",
+        requestedBy?: string
+    ): Promise<PrivyTransactionResponse> {
+        const idempotency = idempotencyService(runtime, this.config.idempotencyWindowMs ?? DEFAULT_IDEMPOTENCY_WINDOW_MS);
+        const ws = walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions());
+
+        const previous = await idempotency.claim(idempotencyKey, request);
+        if (previous?.status === "sent" && previous.transaction) {
+            return previous.transaction;
+        }
+        if (previous) {
+            throw new PrivyValidationError("this transaction is already being sent", undefined, "send_in_progress");
+        }
+
+        // Callers check the limits earlier to explain a refusal; holding the spending here keeps
+        // concurrent sends from together going past a limit
+        const limits = spendingLimits(runtime, this.config.limits);
+        const reserved = await limits.reserve(
+            request,
+            idempotencyKey,
+            chainType,
+            tokenRegistry(runtime).list(chainType),
+            await this.queuedRequests(runtime, request.wallet_id, idempotencyKey)
+        );
+        if (!reserved.allowed) {
+            await idempotency.clear(idempotencyKey);
+            throw new PrivyValidationError(reserved.violations.join("; "), undefined, "limit_exceeded");
+        }
+        let txData: PrivyTransactionResponse;
+        try {
+            txData = chainType === "solana"
+                ? await this.sendSolanaTransfer(config, request, idempotencyKey)
+                : await ws.sendTransaction(request, idempotencyKey);
+        } catch (error) {
+            // Privy deduplicates on the same key, so a later retry of this intent stays safe
+            await idempotency.clear(idempotencyKey);
+            await limits.release(request, idempotencyKey);
+            throw error;
+        }
+        await idempotency.recordSent(idempotencyKey, request, txData);
+        await transactionTracker(runtime, this.config.tracking).track(txData, request, chainType, { idempotencyKey, requestedBy });
+        await limits.record(request, txData.hash, idempotencyKey);
+        this.watchTransaction(runtime, config, txData.hash, chainType);
+        return txData;
+    }
+
+    /**
+     * Builds a SOL or SPL token transfer from a request and sends it with the wallet's `signAndSendTransaction`
+     *
+     * @param config - Validated Privy configuration
+     * @param request - The transaction request; `value` is in lamports, or token base units when `mint` is set
+     * @param idempotencyKey - Key identifying the transaction intent
+     * @param options - Options of the action sending it, which may ask for a dry run
+     * @returns The transaction signature and cluster
+     * @throws PrivyValidationError if no Solana JSON-RPC endpoint is configured
+     */
+    private async sendSolanaTransfer(
+        config: PrivyConfig,
+        request: PrivyTransactionRequest,
+        idempotencyKey: string,
+        options?: { [key: string]: unknown }
+    ): Promise<PrivyTransactionResponse> {
+        const ws = walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+        const wallet = await ws.getWallet(request.wallet_id);
+        const { transaction, caip2 } = await this.buildSolanaTransfer(config, request, wallet.address);
+        return ws.sendSolanaTransaction(wallet.id, transaction, caip2, idempotencyKey);
+    }
+
+    /**
+     * Builds an unsigned SOL or SPL token transfer on the configured Solana cluster
+     *
+     * @param config - Validated Privy configuration
+     * @param request - The transaction request
+     * @param from - Address of the sending wallet
+     * @returns The transaction, base64-encoded, its cluster and the last block height it can land in
+     * @throws PrivyValidationError if no Solana JSON-RPC endpoint is configured
+     */
+    private async buildSolanaTransfer(
+        config: PrivyConfig,
+        request: PrivyTransactionRequest,
+        from: string
+    ): Promise<{ transaction: string; caip2: string; lastValidBlockHeight: number }> {
+        const network = this.rpcNetwork(config, "solana");
+        if (!network) {
+            throw new PrivyValidationError("Solana transfers need a Solana JSON-RPC endpoint. Set PRIVY_SOLANA_RPC_URL.", undefined, "missing_rpc_url");
+        }
+        return solanaService(network.rpcUrl).buildTransfer({
+            from,
+            to: request.to,
+            amount: request.value,
+            mint: request.mint,
+            decimals: request.decimals
+        });
+    }
+
+    /**
+     * Polls a sent transaction's receipt in the background until it settles
+     *
+     * Nothing is polled when no JSON-RPC endpoint is configured for the chain; the transaction is then
+     * only checked when its status is asked for.
+     *
+     * @param runtime - The agent runtime
+     * @param config - Validated Privy configuration
+     * @param hash - The transaction hash
+     * @param chainType - Chain the transaction was sent on
+     */
+    private watchTransaction(runtime: IAgentRuntime, config: PrivyConfig, hash: string, chainType: PrivyChainType): void {
+        const network = this.rpcNetwork(config, chainType);
+        if (!network) {
+            return;
+        }
+        transactionTracker(runtime, this.config.tracking).watch(hash, network.rpcUrl).catch((error: Error) => {
+            console.warn(`Stopped polling transaction ${hash}:`, error.message);
+        });
+    }
+
+    /**
+     * Checks a transaction against its wallet's spending limits, including what the wallet already sent
+     *
+     * @param runtime - The agent runtime
+     * @param request - The transaction request
+     * @param chainType - Chain the transaction is sent on
+     * @param token - A token given in the action options, which may not be in the registry
+     * @param pending - Transactions not sent yet that count as already sent
+     * @param idempotencyKey - Key of the transaction, so that its own approval is not counted as queued
+     * @returns The limit check
+     */
+    private async checkLimits(
+        runtime: IAgentRuntime,
+        request: PrivyTransactionRequest,
+        chainType: PrivyChainType,
+        token?: PrivyToken,
+        pending: PrivyTransactionRequest[] = [],
+        idempotencyKey?: string
+    ): Promise<PrivyLimitCheck> {
+        const tokens = tokenRegistry(runtime).list(chainType);
+        const queued = await this.queuedRequests(runtime, request.wallet_id, idempotencyKey);
+        return spendingLimits(runtime, this.config.limits).evaluate(request.wallet_id, chainType, token ? [token, ...tokens] : tokens, request, [...pending, ...queued]);
+    }
+
+    /**
+     * Lists a wallet's transactions waiting for approval, which count against its limits as if sent
+     *
+     * @param runtime - The agent runtime
+     * @param walletId - The wallet ID
+     * @param idempotencyKey - Key of a transaction whose own approval is left out
+     * @returns The queued transaction requests
+     */
+    private async queuedRequests(runtime: IAgentRuntime, walletId: string, idempotencyKey?: string): Promise<PrivyTransactionRequest[]> {
+        if (!spendingLimits(runtime, this.config.limits).limitsFor(walletId)) {
+            return [];
+        }
+        const pending = await approvalService(runtime, this.config.approvals?.expiryMs).listPending();
+        return pending
+            .filter(approval => approval.request.wallet_id === walletId && approval.idempotencyKey !== idempotencyKey)
+            .map(approval => approval.request);
+    }
+
+    /**
+     * Simulates the policies a request would be judged by: those attached to its wallet, and a policy
+     * asked for by ID
+     *
+     * Policies for another chain are skipped. A wallet or policy that cannot be read gives no local
+     * verdict; Privy still enforces the wallet's policies when the request is sent.
+     *
+     * @param config - Validated Privy configuration
+     * @param request - The transaction request
+     * @param chainType - Chain the request is sent on
+     * @param simulation - The wallet RPC method (the chain's send method by default), an extra policy ID, and lookups shared between calls
+     * @returns The strictest verdict, DENY before INDETERMINATE before ALLOW, or undefined if no policy was simulated
+     */
+    private async simulatePolicies(
+        config: PrivyConfig,
+        request: PrivyTransactionRequest,
+        chainType: PrivyChainType,
+        simulation: { method?: PrivyMethodRule['method']; policyId?: string; lookups?: Map<string, Promise<unknown>> } = {}
+    ): Promise<{ policyName: string; evaluation: PrivyPolicyEvaluation } | undefined> {
+        const { method = getChainPolicyConfig(chainType).defaultMethod, policyId, lookups = new Map() } = simulation;
+        const lookup = <T>(key: string, read: () => Promise<T>): Promise<T | undefined> => {
+            if (!lookups.has(key)) {
+                lookups.set(key, read().catch(error => {
+                    console.warn(`Could not read ${key} to simulate its policies locally:`, error.message);
+                    return undefined;
+                }));
+            }
+            return lookups.get(key) as Promise<T | undefined>;
+        };
+        const ws = walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions());
+        const ps = policyService(this.config.defaultPolicyName || "DefaultPolicy", config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions());
+
+        const wallet = await lookup(`wallet ${request.wallet_id}`, () => ws.getWallet(request.wallet_id));
+        const policyIds = [...new Set([...(wallet?.policy_ids || []), ...(policyId ? [policyId] : [])])];
+        const strictness = { ALLOW: 0, INDETERMINATE: 1, DENY: 2 };
+        let verdict: { policyName: string; evaluation: PrivyPolicyEvaluation } | undefined;
+        for (const id of policyIds) {
+            const policy = await lookup(`policy ${id}`, () => ps.getPolicy(id));
+            if (!policy || policy.chain_type !== chainType) {
+                continue;
+            }
+            const evaluation = evaluatePolicy(policy, request, method);
+            if (!verdict || strictness[evaluation.decision] > strictness[verdict.evaluation.decision]) {
+                verdict = { policyName: policy.name, evaluation };
+            }
+        }
+        return verdict;
+    }
+
+    /**
+     * Puts a send through every check before it reaches Privy, then sends it or queues it for approval
+     *
+     * The same intent is recognized by its idempotency key and not sent twice. The wallet's policies are
+     * simulated locally, the transaction is simulated and priced over JSON-RPC, and the wallet's spending limits
+     * are checked, in that order; the first check that fails stops the send. A dry run passes the same
+     * checks and then builds the request Privy would get, without queueing or sending anything.
+     *
+     * @param runtime - The agent runtime
+     * @param config - Validated Privy configuration
+     * @param send - The transaction request, its chain, the token it sends if not in the registry, its idempotency key, a policy to simulate besides the wallet's, the requesting user and whether to run dry
+     * @returns The outcome
+     */
+    private async submitSend(
+        runtime: IAgentRuntime,
+        config: PrivyConfig,
+        send: {
+            request: PrivyTransactionRequest;
+            chainType: PrivyChainType;
+            token?: PrivyToken;
+            idempotencyKey: string;
+            policyId?: string;
+            requestedBy: string;
+            dryRun?: boolean;
+        }
+    ): Promise<PrivySendOutcome> {
+        const { request, chainType, token, idempotencyKey, policyId, requestedBy, dryRun } = send;
+        const registry = tokenRegistry(runtime);
+        const tokenFor = (address: string) => token && sameAddress(address, token.address, chainType) ? token : registry.byAddress(address, chainType);
+
+        const previous = await idempotencyService(runtime, this.config.idempotencyWindowMs ?? DEFAULT_IDEMPOTENCY_WINDOW_MS).get(idempotencyKey);
+        if (previous?.status === "sent" && previous.transaction) {
+            return { status: "duplicate", transaction: previous.transaction };
+        }
+        if (previous?.status === "pending") {
+            return { status: "in_progress" };
+        }
+
+        // Only a certain local DENY stops the send; an indeterminate verdict is left to Privy
+        const simulated = await this.simulatePolicies(config, request, chainType, { policyId });
+        const evaluation = simulated?.evaluation;
+        if (simulated?.evaluation.decision === "DENY") {
+            return { status: "denied", policyName: simulated.policyName, evaluation: simulated.evaluation };
+        }
+
+        const preflight = await this.preflight(config, request, chainType);
+        if (preflight && !preflight.ok) {
+            return { status: "preflight_failed", preflight, evaluation };
+        }
+
+        const limits = await this.checkLimits(runtime, request, chainType, token, [], idempotencyKey);
+        if (!limits.allowed) {
+            return { status: "limited", limits, evaluation, preflight };
+        }
+
+        const reason = approvalReason(this.config.approvals, request, chainType, tokenFor);
+        if (dryRun) {
+            const preview = await this.previewSend(config, request, idempotencyKey, chainType);
+            return { status: "dry_run", preview, limits, approvalReason: reason, evaluation, preflight };
+        }
+        if (reason) {
+            const approval = await approvalService(runtime, this.config.approvals?.expiryMs).queue(request, idempotencyKey, reason, requestedBy, chainType);
+            return { status: "queued", approval, reason, evaluation, preflight };
+        }
+
+        const transaction = await this.broadcastTransaction(runtime, config, request, idempotencyKey, chainType, requestedBy);
+        return { status: "sent", transaction, limits, evaluation, preflight };
+    }
+
+    /**
+     * Checks tracked transactions that have not settled on chain, leaving those without an RPC endpoint as they are
+     *
+     * @param runtime - The agent runtime
+     * @param config - Validated Privy configuration
+     * @param transactions - The transactions to check
+     * @returns The transactions with their latest state
+     */
+    private async refreshTransactions(
+        runtime: IAgentRuntime,
+        config: PrivyConfig,
+        transactions: PrivyTrackedTransaction[]
+    ): Promise<PrivyTrackedTransaction[]> {
+        const tracker = transactionTracker(runtime, this.config.tracking);
+        return Promise.all(transactions.map(async transaction => {
+            const network = this.rpcNetwork(config, transaction.chainType);
+            if (!network || isSettled(transaction.status)) {
+                return transaction;
+            }
+            return (await tracker.refresh(transaction.hash, network.rpcUrl)) || transaction;
+        }));
+    }
+
+    /**
+     * Determines the chain a send or signature is on: the `chainType` option, else Solana when the
+     * recipient is a Solana address, else Ethereum
+     *
+     * @param options - Options passed to the action
+     * @param text - The message text
+     * @returns The chain
+     */
+    private requestChainType(options: { [key: string]: unknown } | undefined, text: string = ""): PrivyChainType {
+        const requested = String(options?.chainType || "").toLowerCase();
+        if (isChainType(requested)) {
+            return requested;
+        }
+        const recipient = typeof options?.to === "string" && options.to ? options.to : parseIntentFromText(text).to;
+        return recipient && isSolanaAddress(recipient) ? "solana" : "ethereum";
+    }
+
+    /**
+     * Looks up a token passed with an action's options (`tokenAddress` and `tokenDecimals`)
+     *
+     * @param options - Options passed to the action
+     * @param symbol - Symbol the token was referred to by
+     * @returns The token, or undefined if no contract was given
+     */
+    private optionToken(options: { [key: string]: unknown } | undefined, symbol?: string): PrivyToken | undefined {
+        if (typeof options?.tokenAddress !== "string" || !options.tokenAddress) {
+            return undefined;
+        }
+        return {
+            symbol: (symbol || String(options.token || "")).toUpperCase() || "TOKEN",
+            address: options.tokenAddress,
+            decimals: options.tokenDecimals !== undefined ? Number(options.tokenDecimals) : 18
+        };
+    }
+
+    /**
+     * Builds the request for a send: native sends carry the amount as value, while token sends go
+     * to the token contract with no value and the ABI-encoded call as data. Solana token sends keep
+     * the recipient and amount and name the mint instead; the transaction itself is built when sent.
+     *
+     * @param config - Validated Privy configuration
+     * @param intent - The resolved send parameters
+     * @param chainType - Chain the transaction is sent on
+     * @param token - The token being sent, for its decimals
+     * @returns The transaction request
+     */
+    private async buildSendRequest(
+        config: PrivyConfig,
+        intent: PrivyIntent,
+        chainType: PrivyChainType = "ethereum",
+        token?: PrivyToken
+    ): Promise<PrivyTransactionRequest> {
+        const walletId = intent.walletId as string;
+        if (chainType === "solana") {
+            if (intent.data || intent.call || intent.tokenId) {
+                throw new PrivyValidationError("Solana wallets can only send SOL and SPL token transfers", undefined, "unsupported_solana_transaction");
+            }
+            const to = normalizeAddress(intent.to as string, "solana", "recipient address");
+            if (!intent.tokenAddress) {
+                return { wallet_id: walletId, to, value: intent.value || "0" };
+            }
+            const mint = normalizeAddress(intent.tokenAddress, "solana", "token mint");
+            return { wallet_id: walletId, to, value: intent.value || "0", mint, decimals: token?.decimals };
+        }
+
+        const to = normalizeAddress(intent.to as string, "ethereum", "recipient address");
+        if (!intent.tokenAddress || intent.data) {
+            return { wallet_id: walletId, to, value: intent.value || "0", data: intent.data };
+        }
+
+        const tokenAddress = normalizeAddress(intent.tokenAddress, "ethereum", "token address");
+        const call = intent.call || (intent.tokenId ? "safeTransferFrom" : "transfer");
+        let from = intent.from && normalizeAddress(intent.from, "ethereum", "owner address");
+        if (!from && call === "safeTransferFrom") {
+            // An NFT is sent from the wallet's own address unless another owner was given
+            const ws = walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions());
+            from = (await ws.getWallet(walletId)).address;
+        }
+
+        const data = encodeTokenCall(call, {
+            to,
+            spender: to,
+            from,
+            amount: intent.value,
+            tokenId: intent.tokenId
+        });
+        return { wallet_id: walletId, to: tokenAddress, value: "0", data };
+    }
+
+    /**
+     * Validates the rows of a batch that were not sent: builds each row's request, then checks it
+     * against the policy and the wallet's spending limits, counting the valid rows before it as sent
+     *
+     * Rows already handed to Privy keep their request and idempotency key, so a resumed batch never
+     * sends them under a different key.
+     *
+     * @param runtime - The agent runtime
+     * @param config - Validated Privy configuration
+     * @param batch - The batch, whose rows are updated in place
+     * @param walletAliases - Wallet names rows may refer to
+     * @param userId - The requesting user, who must be allowed to use every row's wallet
+     * @param policyId - Policy to simulate each row against besides its wallet's, if any
+     */
+    private async validateBatch(
+        runtime: IAgentRuntime,
+        config: PrivyConfig,
+        batch: PrivyBatch,
+        walletAliases: Record<string, string>,
+        userId: string,
+        policyId?: string
+    ): Promise<void> {
+        const { chainType } = batch;
+        const registry = tokenRegistry(runtime);
+        const native = getNativeToken(chainType);
+        const policyLookups = new Map<string, Promise<unknown>>();
+        const aliasFor = (name: string) => walletAliases[Object.keys(walletAliases).find(alias => alias.toLowerCase() === name.toLowerCase()) ?? ""];
+        const validated: PrivyTransactionRequest[] = [];
+
+        for (const result of batch.rows) {
+            if (result.status === "sent" || result.status === "queued" || result.status === "sending") {
+                continue;
+            }
+            const { row } = result;
+            try {
+                if (!row.to) {
+                    throw new PrivyValidationError("the recipient is missing", undefined, "invalid_batch_row");
+                }
+                const walletId = row.wallet ? aliasFor(row.wallet) || row.wallet : batch.walletId;
+                const refusal = await this.walletAccessRefusal(runtime, userId, walletId);
+                if (refusal) {
+                    throw new PrivyValidationError(refusal, undefined, "wallet_access_denied");
+                }
+
+                // Rows without a token, or in a native unit such as gwei, send the native token
+                const unit = row.token?.toUpperCase();
+                const isNative = !row.tokenAddress && (!unit || unit === native.symbol || NATIVE_UNIT_DECIMALS[unit] !== undefined);
+                const token: PrivyToken | undefined = isNative ? undefined
+                    : row.tokenAddress
+                        ? { symbol: unit || "TOKEN", address: row.tokenAddress, decimals: row.tokenDecimals ?? registry.byAddress(row.tokenAddress, chainType)?.decimals ?? 18 }
+                        : registry.bySymbol(unit as string, chainType);
+                if (!isNative && !token) {
+                    throw new PrivyValidationError(`unknown token ${unit}; add it to the token registry or give its tokenAddress and tokenDecimals`, undefined, "unknown_token");
+                }
+
+                let value = row.value;
+                if (!value) {
+                    if (!row.amount) {
+                        throw new PrivyValidationError("the amount is missing", undefined, "invalid_batch_row");
+                    }
+                    value = parseAmount(`${row.amount} ${token?.symbol.toUpperCase() ?? unit ?? native.symbol}`, symbol =>
+                        token && symbol === token.symbol.toUpperCase() ? token.decimals : undefined
+                    ).value.toString();
+                }
+                if (BigInt(value) <= 0n) {
+                    throw new PrivyValidationError("the amount must be positive", undefined, "invalid_batch_row");
+                }
+
+                const request = await this.buildSendRequest(config, { walletId, to: row.to, value, tokenAddress: token?.address }, chainType, token);
+                const tokenFor = (address: string) => token && sameAddress(address, token.address, chainType) ? token : registry.byAddress(address, chainType);
+                Object.assign(result, {
+                    walletId,
+                    request,
+                    token,
+                    description: describeTransaction(request, chainType, tokenFor),
+                    idempotencyKey: deriveIdempotencyKey(`${batch.id}:${result.index}`, request),
+                    approvalReason: approvalReason(this.config.approvals, request, chainType, tokenFor),
+                    error: undefined
+                });
+
+                const simulated = await this.simulatePolicies(config, request, chainType, { policyId, lookups: policyLookups });
+                if (simulated?.evaluation.decision === "DENY") {
+                    throw new PrivyValidationError(`blocked by policy ${simulated.policyName}: ${simulated.evaluation.reason}`, undefined, "policy_denied");
+                }
+                const limitCheck = await this.checkLimits(runtime, request, chainType, token, validated.filter(earlier => earlier.wallet_id === walletId), result.idempotencyKey);
+                if (!limitCheck.allowed) {
+                    throw new PrivyValidationError(limitCheck.violations.join("; "), undefined, "limit_exceeded");
+                }
+
+                result.status = "pending";
+                // Rows held for approval are not sent by the batch, so they do not use up its limits
+                if (!result.approvalReason) {
+                    validated.push(request);
+                }
+            } catch (error: any) {
+                result.status = "invalid";
+                result.error = error.message;
+            }
+        }
+    }
+
+    /**
+     * Sends the valid rows of a batch
+     *
+     * Each wallet sends its rows one at a time in row order, waiting for Privy to accept a row before
+     * sending the next, so nonces follow the batch. Up to `batches.concurrency` wallets send at once.
+     *
+     * @param runtime - The agent runtime
+     * @param config - Validated Privy configuration
+     * @param batch - The batch, whose rows are updated and saved as they are sent
+     * @param userId - User who asked for the batch
+     */
+    private async sendBatch(runtime: IAgentRuntime, config: PrivyConfig, batch: PrivyBatch, userId: string): Promise<void> {
+        const queues = new Map<string, PrivyBatchRowResult[]>();
+        for (const row of batch.rows.filter(candidate => candidate.status === "pending" || candidate.status === "sending")) {
+            const walletId = row.walletId || batch.walletId;
+            queues.set(walletId, [...(queues.get(walletId) || []), row]);
+        }
+
+        const waiting = [...queues.values()];
+        const workers = Math.min(Math.max(this.config.batches?.concurrency ?? 1, 1), waiting.length);
+        await Promise.all(Array.from({ length: workers }, async () => {
+            for (let queue = waiting.shift(); queue; queue = waiting.shift()) {
+                for (const row of queue) {
+                    await this.sendBatchRow(runtime, config, batch, row, userId);
+                }
+            }
+        }));
+    }
+
+    /**
+     * Sends one row of a batch, or queues it for approval, recording the outcome on the row
+     *
+     * The wallet's limits are checked again just before sending, since other sends may have used them
+     * up since the batch was validated. A row whose send fails may be retried by resuming the batch;
+     * it is sent under the same idempotency key, so Privy does not send it twice.
+     *
+     * @param runtime - The agent runtime
+     * @param config - Validated Privy configuration
+     * @param batch - The batch
+     * @param row - The row to send
+     * @param userId - User who asked for the batch
+     */
+    private async sendBatchRow(
+        runtime: IAgentRuntime,
+        config: PrivyConfig,
+        batch: PrivyBatch,
+        row: PrivyBatchRowResult,
+        userId: string
+    ): Promise<void> {
+        const request = row.request as PrivyTransactionRequest;
+        const idempotencyKey = row.idempotencyKey as string;
+        const batches = batchService(runtime);
+        try {
+            // A row sent before the batch was interrupted is only recorded
+            const previous = await idempotencyService(runtime, this.config.idempotencyWindowMs ?? DEFAULT_IDEMPOTENCY_WINDOW_MS).get(idempotencyKey);
+            if (previous?.status === "sent" && previous.transaction) {
+                Object.assign(row, { status: "sent", hash: previous.transaction.hash, error: undefined });
+                return;
+            }
+
+            if (row.status === "pending") {
+                const limitCheck = await this.checkLimits(runtime, request, batch.chainType, row.token, [], idempotencyKey);
+                if (!limitCheck.allowed) {
+                    Object.assign(row, { status: "failed", error: limitCheck.violations.join("; ") });
+                    return;
+                }
+                if (row.approvalReason) {
+                    const approval = await approvalService(runtime, this.config.approvals?.expiryMs)
+                        .queue(request, idempotencyKey, row.approvalReason, userId, batch.chainType);
+                    Object.assign(row, { status: "queued", approvalId: approval.id, error: undefined });
+                    return;
+                }
+                row.status = "sending";
+                await batches.save(batch);
+            }
+
+            const txData = await this.broadcastTransaction(runtime, config, request, idempotencyKey, batch.chainType, userId);
+            Object.assign(row, { status: "sent", hash: txData.hash, error: undefined });
+        } catch (error: any) {
+            console.error(`Error sending row ${row.index} of batch ${batch.id}:`, error);
+            Object.assign(row, {
+                status: "failed",
+                error: error instanceof PrivyPolicyViolationError ? `blocked by the wallet's policy: ${error.message}` : error.message
+            });
+        } finally {
+            await batches.save(batch);
+        }
+    }
+
+    /**
+     * Starts looking for due schedules in the background, once per runtime
+     *
+     * The agent starts the scheduler with the plugin's clients; creating a schedule also starts it,
+     * for agents that do not start plugin clients.
+     *
+     * @param runtime - The agent runtime
+     */
+    private startScheduler(runtime: IAgentRuntime): void {
+        if (this.config.scheduler?.enabled === false || this.schedulers.has(runtime)) {
+            return;
+        }
+        const timer = setInterval(() => {
+            this.runDueSchedules(runtime).catch((error: Error) => {
+                console.error("Error running scheduled transfers:", error.message);
+            });
+        }, this.config.scheduler?.pollIntervalMs ?? DEFAULT_SCHEDULER_POLL_MS);
+        // Pending schedules must not keep the process alive on their own
+        timer.unref?.();
+        this.schedulers.set(runtime, { timer, running: false });
+    }
+
+    /**
+     * Stops looking for due schedules; a run already under way finishes
+     *
+     * @param runtime - The agent runtime
+     */
+    private stopScheduler(runtime: IAgentRuntime): void {
+        const scheduler = this.schedulers.get(runtime);
+        if (scheduler) {
+            clearInterval(scheduler.timer);
+            this.schedulers.delete(runtime);
+        }
+    }
+
+    /**
+     * Runs every due schedule, one after another; a look that starts while the last is still running is skipped
+     *
+     * @param runtime - The agent runtime
+     */
+    private async runDueSchedules(runtime: IAgentRuntime): Promise<void> {
+        const scheduler = this.schedulers.get(runtime);
+        if (!scheduler || scheduler.running) {
+            return;
+        }
+        scheduler.running = true;
+        try {
+            const due = await scheduleService(runtime).due();
+            if (!due.length) {
+                return;
+            }
+            const config = await validatePrivyConfig(runtime);
+            for (const schedule of due) {
+                await this.runSchedule(runtime, config, schedule);
+            }
+        } finally {
+            scheduler.running = false;
+        }
+    }
+
+    /**
+     * Makes a due run of a schedule through the same checks as PRIVY_SEND_TRANSACTION, and records its outcome
+     *
+     * The run is sent as the schedule's creator, so it stops once they may no longer send transactions,
+     * and under an idempotency key derived from the schedule and the time the run fell due, so a run
+     * whose outcome was lost is not sent twice. A run still being sent by an earlier attempt is not
+     * recorded and stays due.
+     *
+     * @param runtime - The agent runtime
+     * @param config - Validated Privy configuration
+     * @param schedule - The due schedule
+     */
+    private async runSchedule(runtime: IAgentRuntime, config: PrivyConfig, schedule: PrivySchedule): Promise<void> {
+        const runAt = schedule.nextRunAt as number;
+        const idempotencyKey = deriveIdempotencyKey(`${schedule.id}:${runAt}`, schedule.request);
+        const { chainType } = schedule;
+        let result: Pick<PrivyScheduleRun, "status" | "hash" | "approvalId" | "error">;
+
+        const decision = accessControl(runtime, this.config.access).check("PRIVY_SEND_TRANSACTION", schedule.createdBy);
+        if (!decision.allowed) {
+            result = { status: "blocked", error: `its creator ${decision.role ? `has the ${decision.role} role` : "has no Privy role"} and may no longer send transactions` };
+        } else if (await this.walletAccessRefusal(runtime, schedule.createdBy, schedule.walletId)) {
+            result = { status: "blocked", error: `its creator may no longer use wallet ${schedule.walletId}` };
+        } else {
+            try {
+                const outcome = await this.submitSend(runtime, config, {
+                    request: schedule.request,
+                    chainType,
+                    token: schedule.token,
+                    idempotencyKey,
+                    policyId: schedule.policyId,
+                    requestedBy: schedule.createdBy,
+                    dryRun: this.config.dryRun
+                });
+                switch (outcome.status) {
+                    case "sent":
+                    case "duplicate":
+                        result = { status: "sent", hash: outcome.transaction.hash };
+                        break;
+                    case "queued":
+                        result = { status: "queued", approvalId: outcome.approval.id };
+                        break;
+                    case "denied":
+                        result = { status: "blocked", error: `blocked by policy ${outcome.policyName}: ${outcome.evaluation.reason}` };
+                        break;
+                    case "preflight_failed":
+                        result = { status: "blocked", error: describePreflightFailure(outcome.preflight, chainType) };
+                        break;
+                    case "limited":
+                        result = { status: "blocked", error: outcome.limits.violations.join("; ") };
+                        break;
+                    case "in_progress":
+                        // The run is left due, so a later look retries it under the same key and records how it ended
+                        console.warn(`Scheduled transfer ${schedule.id} due at ${new Date(runAt).toISOString()} is still being sent by an earlier attempt`);
+                        return;
+                    case "dry_run":
+                        result = { status: "dry_run" };
+                        break;
+                }
+            } catch (error: any) {
+                result = error instanceof PrivyPolicyViolationError
+                    ? { status: "blocked", error: `blocked by the wallet's policy: ${error.message}` }
+                    : { status: "failed", error: error.message };
+            }
+        }
+
+        if (result.status === "blocked" || result.status === "failed") {
+            console.warn(`Scheduled transfer ${schedule.id} due at ${new Date(runAt).toISOString()} was ${result.status}: ${result.error}`);
+        }
+        await scheduleService(runtime).recordRun(schedule.id, { runAt, executedAt: Date.now(), idempotencyKey, ...result });
+    }
+
+    /**
+     * Finds the schedule a message refers to: by the `scheduleId` option or an ID in the text, or by the
+     * payee name of the one schedule whose name the text mentions
+     *
+     * @param runtime - The agent runtime
+     * @param options - Options passed to the action
+     * @param text - The message text
+     * @param statuses - States the schedule may be in when found by name
+     * @returns The schedule, if one was identified, and otherwise the schedules it could be
+     */
+    private async findSchedule(
+        runtime: IAgentRuntime,
+        options: { [key: string]: unknown } | undefined,
+        text: string,
+        statuses: PrivyScheduleStatus[]
+    ): Promise<{ schedule?: PrivySchedule; candidates: PrivySchedule[] }> {
+        const schedules = scheduleService(runtime);
+        const id = (options?.scheduleId as string | undefined) || text.match(/\bsched_[0-9a-f-]{36}\b/i)?.[0];
+        if (id) {
+            return { schedule: await schedules.get(id), candidates: [] };
+        }
+        const candidates = await schedules.list(statuses);
+        const named = candidates.filter(schedule =>
+            schedule.label && new RegExp(`\\b${schedule.label.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "i").test(text)
+        );
+        return named.length === 1 ? { schedule: named[0], candidates: [] } : { candidates: named.length ? named : candidates };
+    }
+
+    /**
+     * Pauses, resumes or cancels the schedule a message refers to
+     *
+     * Operators may change the schedules they created; admins may change any schedule.
+     *
+     * @param runtime - The agent runtime
+     * @param message - The triggering message
+     * @param options - Options passed to the action
+     * @param change - What to do with the schedule
+     * @returns The action result
+     */
+    private async changeSchedule(
+        runtime: IAgentRuntime,
+        message: Memory,
+        options: { [key: string]: unknown } | undefined,
+        change: "pause" | "resume" | "cancel"
+    ): Promise<{ success: boolean; response: string; data?: { [key: string]: unknown } }> {
+        const { schedule, candidates } = await this.findSchedule(runtime, options, message.content?.text || "", SCHEDULE_ACTION_STATUSES[change]);
+        if (!schedule) {
+            const listed = candidates.slice(0, MAX_LISTED_SCHEDULES).map(candidate => `- ${formatSchedule(candidate, 0)}`).join("\n");
+            return {
+                success: false,
+                response: candidates.length
+                    ? `Which schedule should I ${change}? Please give its ID:\n${listed}`
+                    : options?.scheduleId ? `No schedule with ID ${options.scheduleId} was found.` : `There is no schedule to ${change}.`,
+                data: { candidates }
+            };
+        }
+        if (schedule.createdBy !== message.userId && accessControl(runtime, this.config.access).roleOf(message.userId) !== "admin") {
+            return {
+                success: false,
+                response: `Only the user who created schedule ${schedule.id} or an admin may ${change} it.`
+            };
+        }
+        if (!SCHEDULE_ACTION_STATUSES[change].includes(schedule.status)) {
+            return {
+                success: false,
+                response: `Schedule ${schedule.id} is ${schedule.status}, so it cannot be ${change === "pause" ? "paused" : `${change}ed`}.`,
+                data: { schedule }
+            };
+        }
+
+        const schedules = scheduleService(runtime);
+        const changed = await schedules[change](schedule.id) as PrivySchedule;
+        const outcome = {
+            pause: `Paused schedule ${changed.id}. It makes no runs until it is resumed, and runs that fall due in the meantime are skipped.`,
+            resume: changed.status === "active"
+                ? `Resumed schedule ${changed.id}. Its next run is at ${new Date(changed.nextRunAt as number).toISOString()}.`
+                : `Schedule ${changed.id} has no runs left, so it was completed instead of resumed.`,
+            cancel: `Cancelled schedule ${changed.id}. It will not run again.`
+        }[change];
+        return {
+            success: true,
+            response: `${outcome}\n${formatSchedule(changed)}`,
+            data: { schedule: changed }
+        };
+    }
+
+    /**
+     * Lists the EVM chains with a JSON-RPC endpoint, from plugin configuration or settings
+     *
+     * @param config - Validated Privy configuration
+     * @returns Each chain with its RPC URL and expected chain ID
+     */
+    private rpcNetworks(config: PrivyConfig): { chainType: PrivyChainType; rpcUrl: string; chainId?: string }[] {
+        return BALANCE_CHAINS.flatMap(chainType => {
+            const network = this.rpcNetwork(config, chainType);
+            return network ? [network] : [];
+        });
+    }
+
+    /**
+     * Finds the JSON-RPC endpoint of a chain
+     *
+     * @param config - Validated Privy configuration
+     * @param chainType - The chain, Ethereum when omitted
+     * @returns The chain's RPC URL and expected chain ID, if an endpoint is configured
+     */
+    private rpcNetwork(config: PrivyConfig, chainType: PrivyChainType = "ethereum"): { chainType: PrivyChainType; rpcUrl: string; chainId?: string } | undefined {
+        const configured = getRpcConfig(config, chainType);
+        const rpcUrl = this.config.rpcUrls?.[chainType] || configured?.rpcUrl;
+        return rpcUrl ? { chainType, rpcUrl, chainId: configured?.chainId } : undefined;
+    }
+
+    /**
+     * Simulates a transaction and checks the sending wallet can pay for it, on the chain's JSON-RPC endpoint
+     *
+     * The check is skipped when it is disabled, no endpoint is configured for the chain, or the node
+     * cannot be reached, so an unavailable node never blocks a send. Solana transfers are not simulated.
+     *
+     * @param config - Validated Privy configuration
+     * @param request - The transaction request
+     * @param chainType - Chain the transaction is sent on
+     * @returns The pre-flight result, or undefined if the check was skipped
+     */
+    private async preflight(
+        config: PrivyConfig,
+        request: PrivyTransactionRequest,
+        chainType?: PrivyChainType
+    ): Promise<PrivyPreflightResult | undefined> {
+        if (this.config.preflight === false || chainType === "solana") {
+            return undefined;
+        }
+        const network = this.rpcNetwork(config, chainType);
+        if (!network) {
+            return undefined;
+        }
+
+        try {
+            const ws = walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions());
+            const wallet = await ws.getWallet(request.wallet_id);
+            return await preflightService(network.rpcUrl).checkTransaction(wallet.address, request);
+        } catch (error: any) {
+            console.warn(`Skipping pre-flight check on ${network.chainType}:`, error.message);
+            return undefined;
+        }
+    }
+
+    /**
+     * Checks that a user may act on a wallet: admins on any wallet, other users on the wallets they own
+     * and on shared wallets in the wallet directory
+     *
+     * @param runtime - The agent runtime
+     * @param userId - The requesting user
+     * @param walletId - The wallet ID
+     * @returns The message refusing the user, or undefined if they may act on the wallet
+     */
+    private async walletAccessRefusal(runtime: IAgentRuntime, userId: string, walletId: string): Promise<string | undefined> {
+        const entry = await walletDirectory(runtime).get(walletId);
+        return accessControl(runtime, this.config.access).canUseWallet(userId, entry) ? undefined : describeWalletAccessDenied(walletId, entry);
+    }
+
+    /**
+     * Lists the wallets a user may act on when they are not an admin: their own and shared wallets
+     *
+     * @param runtime - The agent runtime
+     * @param userId - The requesting user
+     * @returns The wallet IDs, or undefined if the user may act on every wallet
+     */
+    private async usableWalletIds(runtime: IAgentRuntime, userId: string): Promise<Set<string> | undefined> {
+        if (accessControl(runtime, this.config.access).roleOf(userId) === "admin") {
+            return undefined;
+        }
+        return new Set((await walletDirectory(runtime).list({ visibleTo: userId })).map(entry => entry.walletId));
+    }
+
+    /**
+     * Collects the wallet names a user may use: configured nicknames, plus the labels of the user's own
+     * and shared wallets in the wallet directory, which take precedence
+     *
+     * @param runtime - The agent runtime
+     * @param userId - The requesting user
+     * @returns Names mapped to wallet IDs
+     */
+    private async walletAliases(runtime: IAgentRuntime, userId?: string): Promise<Record<string, string>> {
+        return { ...this.config.walletAliases, ...(await walletDirectory(runtime).aliasesFor(userId)) };
+    }
+
+    /**
+     * Finds a wallet nickname mentioned anywhere in a text, e.g. "what did the treasury wallet send"
+     *
+     * @param text - The message text
+     * @param aliases - Names mapped to wallet IDs
+     * @returns The ID of the wallet whose nickname is mentioned, if any
+     */
+    private walletMentioned(text: string = "", aliases: Record<string, string> = this.config.walletAliases || {}): string | undefined {
+        // "my" is too common to count as a mention on its own; intent parsing handles "my wallet"
+        const alias = Object.keys(aliases).filter(name => name !== OWN_WALLET_ALIAS).find(name =>
+            new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "i").test(text)
+        );
+        return alias ? aliases[alias] : undefined;
+    }
+
+    /**
+     * Reads the transfers Privy recorded for a wallet, following cursors until the range is covered
+     *
+     * @param config - Validated Privy configuration
+     * @param walletId - The wallet ID
+     * @param query - Chain and asset to list
+     * @param since - Stop once transactions older than this are reached
+     * @returns The history entries
+     */
+    private async readPrivyHistory(
+        config: PrivyConfig,
+        walletId: string,
+        query: { chain?: string; asset?: string },
+        since?: number
+    ): Promise<PrivyHistoryEntry[]> {
+        const ws = walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions());
+        const entries: PrivyHistoryEntry[] = [];
+        let cursor: string | undefined;
+        for (let page = 0; page < MAX_PRIVY_HISTORY_PAGES; page++) {
+            const response = await ws.getWalletTransactions(walletId, { ...query, cursor });
+            entries.push(...(response.transactions || []).map(transaction =>
+                fromPrivyTransaction(transaction, this.config.explorers, config.PRIVY_MONAD_CHAIN_ID)
+            ));
+            const oldest = entries[entries.length - 1];
+            if (!response.next_cursor || (since !== undefined && oldest && oldest.timestamp < since)) {
+                break;
+            }
+            cursor = response.next_cursor;
+        }
+        return entries;
+    }
+
+    /**
+     * Finds the nickname of a wallet
+     *
+     * @param walletId - The wallet ID
+     * @param aliases - Names mapped to wallet IDs; defaults to the configured nicknames
+     * @returns The nickname, if any
+     */
+    private walletLabel(walletId?: string, aliases: Record<string, string> = this.config.walletAliases || {}): string | undefined {
+        return Object.keys(aliases).find(alias => alias !== OWN_WALLET_ALIAS && aliases[alias] === walletId);
+    }
+
+    /**
+     * Reads the balances of wallets on each given network, reusing recent results from the runtime cache
+     *
+     * @param runtime - The agent runtime
+     * @param wallets - Wallets to read, by address and optional ID
+     * @param networks - Chains and RPC endpoints to read from
+     * @param tokenSymbol - Only read this registry token instead of every registered token
+     * @returns Balances per wallet and chain, and lookups that failed
+     */
+    private async readBalances(
+        runtime: IAgentRuntime,
+        wallets: { id?: string; address: string }[],
+        networks: { chainType: PrivyChainType; rpcUrl: string; chainId?: string }[],
+        tokenSymbol?: string
+    ): Promise<{ balances: PrivyWalletBalances[]; failures: string[] }> {
+        const registry = tokenRegistry(runtime);
+        const cacheMs = this.config.balanceCacheMs ?? DEFAULT_BALANCE_CACHE_MS;
+        const balances: PrivyWalletBalances[] = [];
+        const failures: string[] = [];
+
+        for (const network of networks) {
+            const tokens = registry.list(network.chainType).filter(token =>
+                (!network.chainId || token.chainId === undefined || String(token.chainId) === network.chainId) &&
+                (!tokenSymbol || token.symbol.toUpperCase() === tokenSymbol.toUpperCase())
+            );
+            const bs = balanceService(network.rpcUrl);
+
+            for (const wallet of wallets) {
+                const cacheKey = `privy/balances/${network.chainType}/${wallet.address.toLowerCase()}/${tokenSymbol?.toUpperCase() || "all"}`;
+                const cached = cacheMs > 0 ? await runtime.cacheManager.get<PrivyWalletBalances>(cacheKey) : undefined;
+                if (cached && Date.now() - cached.fetchedAt < cacheMs) {
+                    balances.push({ ...cached, walletId: wallet.id });
+                    continue;
+                }
+
+                try {
+                    const walletBalances = await bs.getWalletBalances(wallet.address, network.chainType, tokens, wallet.id);
+                    if (cacheMs > 0) {
+                        await runtime.cacheManager.set(cacheKey, walletBalances, { expires: walletBalances.fetchedAt + cacheMs });
+                    }
+                    balances.push(walletBalances);
+                } catch (error: any) {
+                    failures.push(`${wallet.address} on ${network.chainType}: ${error.message}`);
+                }
+            }
+        }
+
+        return { balances, failures };
+    }
+
+    /**
+     * Background work started with the agent: the scheduler that runs due scheduled transfers
+     *
+     * The runtime keeps one service per built-in service type, so the scheduler starts as a client,
+     * which the agent starts for each runtime and stops with it.
+     */
+    clients: Client[] = [{
+        start: async (runtime: IAgentRuntime) => {
+            this.startScheduler(runtime);
+            return { stop: async () => this.stopScheduler(runtime) };
+        },
+        stop: async (runtime: IAgentRuntime) => this.stopScheduler(runtime)
+    }];
+
+    /**
+     * Providers supplying Privy wallet context to the agent's state
+     */
+    providers: Provider[] = [
+        // Wallet Balance Provider
+        {
+            get: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<string> => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const networks = this.rpcNetworks(config);
+                    if (!networks.length || !accessControl(runtime, this.config.access).check("PRIVY_GET_BALANCE", message.userId).allowed) {
+                        return "";
+                    }
+
+                    // Only the wallets the user may act on are shown to them
+                    const usable = await this.usableWalletIds(runtime, message.userId);
+                    const ws = walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions());
+                    const wallets = await ws.getWallets({
+                        limit: MAX_PROVIDER_WALLETS,
+                        matches: wallet => wallet.chain_type !== "solana" && (!usable || usable.has(wallet.id))
+                    });
+                    if (!wallets.length) {
+                        return "";
+                    }
+
+                    const { balances } = await this.readBalances(runtime, wallets, networks);
+                    if (!balances.length) {
+                        return "";
+                    }
+                    const aliases = await this.walletAliases(runtime, message.userId);
+                    return `Privy wallet balances:\n${balances.map(entry => `- ${summarizeBalances(entry, this.walletLabel(entry.walletId, aliases))}`).join("\n")}`;
+                } catch (error) {
+                    console.error("Error in Privy balance provider:", error);
+                    return "";
+                }
+            }
+        },
+        
+        // In-flight Transaction Provider
+        {
+            get: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<string> => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    if (!accessControl(runtime, this.config.access).check("PRIVY_GET_TRANSACTION_STATUS", message.userId).allowed) {
+                        return "";
+                    }
+                    const usable = await this.usableWalletIds(runtime, message.userId);
+                    const tracker = transactionTracker(runtime, this.config.tracking);
+                    const recent = (await tracker.list())
+                        .filter(transaction => !usable || usable.has(transaction.request.wallet_id))
+                        .filter(transaction => !isSettled(transaction.status) || Date.now() - transaction.updatedAt < RECENTLY_SETTLED_MS)
+                        .slice(0, MAX_PROVIDER_TRANSACTIONS);
+                    if (!recent.length) {
+                        return "";
+                    }
+
+                    const registry = tokenRegistry(runtime);
+                    const transactions = await this.refreshTransactions(runtime, config, recent);
+                    const lines = transactions.map(transaction => `- ${summarizeTransaction(
+                        transaction,
+                        describeTransaction(transaction.request, transaction.chainType, address => registry.byAddress(address, transaction.chainType))
+                    )}`);
+                    return `Privy transactions sent recently (use PRIVY_GET_TRANSACTION_STATUS to follow up):\n${lines.join("\n")}`;
+                } catch (error) {
+                    console.error("Error in Privy transaction provider:", error);
+                    return "";
+                }
+            }
+        }
+    ];
+
+    /**
+     * Actions provided by the Privy plugin
+     */
+    actions: Action[] = [
+        // Get Policy Action
+        {
+            name: "PRIVY_GET_POLICY",
+            description: "Retrieve a Privy policy by its ID to check allowed tokens",
+            similes: ["GET POLICY", "RETRIEVE POLICY", "FETCH POLICY", "CHECK POLICY"],
+            examples: getPolicyExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const privyAppID = config.PRIVY_APP_ID;
+                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    
+                    // Use default policy ID or get from options
+                    const { intent } = await resolveIntent(runtime, message, state, options, {
+                        required: this.config.defaultPolicyId ? [] : ["policyId"],
+                        walletAliases: await this.walletAliases(runtime, message.userId)
+                    });
+                    const policyId = intent.policyId || this.config.defaultPolicyId;
+                    const name = (options?.name as string) || this.config.defaultPolicyName || "DefaultPolicy";
+                    
+                    if (!policyId) {
+                        return {
+                            success: false,
+                            response: "Policy ID is required. Please specify a policy ID or set a default policy ID in the configuration."
+                        };
+                    }
+
+                    const ps = policyService(name, privyAppID, privyAppSecret, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+                    const policyData = await ps.getPolicy(policyId);
+                    
+                    // Name tokens by the registry symbol of the address each rule matches, not by the rule name
+                    const registry = tokenRegistry(runtime);
+                    const tokens = policyTokenRules(policyData).map(tokenRule => {
+                        const token = registry.byAddress(tokenRule.address, policyData.chain_type);
+                        return { ...tokenRule, symbol: token?.symbol, known: Boolean(token) };
+                    });
+                    const labels = (action: PrivyRule['action']) => [...new Set(tokens
+                        .filter(token => token.action === action)
+                        .map(token => token.symbol || `unknown token ${token.address}`))];
+                    const unknown = [...new Set(tokens.filter(token => !token.known).map(token => `${token.address} (rule '${token.ruleName}')`))];
+                    const tokenRuleNames = new Set(tokens.map(token => token.ruleName));
+                    const otherRules = [...new Set(policyData.method_rules.flatMap(methodRule =>
+                        methodRule.rules.map(rule => rule.name).filter(ruleName => !tokenRuleNames.has(ruleName))
+                    ))];
+                    
+                    const allowed = labels("ALLOW");
+                    const denied = labels("DENY");
+                    const parts = [
+                        allowed.length
+                            ? `These are tokens that are allowed for transactions: ${allowed.join(", ")}.`
+                            : "No tokens are allowlisted by this policy.",
+                        denied.length ? `These tokens are denied: ${denied.join(", ")}.` : "",
+                        unknown.length ? `These addresses are not in the token registry, so check them before relying on the policy: ${unknown.join(", ")}.` : "",
+                        otherRules.length ? `Other rules: ${otherRules.join(", ")}.` : "",
+                        "If the token you want to use is not on this list, you will need to request it to be added."
+                    ];
+                    
+                    return {
+                        success: true,
+                        response: parts.filter(Boolean).join(" "),
+                        data: { policy: policyData, tokens }
+                    };
+                } catch (error: any) {
+                    console.error("Error in get policy action:", error);
+                    return {
+                        success: false,
+                        response: `Error retrieving policy: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Create Policy Action
+        {
+            name: "PRIVY_CREATE_POLICY",
+            description: "Create a new Privy policy for controlling wallet transactions",
+            similes: ["CREATE POLICY", "NEW POLICY", "MAKE POLICY"],
+            examples: createPolicyExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const privyAppID = config.PRIVY_APP_ID;
+                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    
+                    const name = (options?.name as string) || this.config.defaultPolicyName || "DefaultPolicy";
+                    const chainType = ((options?.chainType as string) || "ethereum").toLowerCase();
+                    const methods = (options?.methods as string[]) || [];
+                    
+                    if (!isChainType(chainType)) {
+                        return {
+                            success: false,
+                            response: "Invalid chain type. Supported chain types are: ethereum, solana, monad."
+                        };
+                    }
+                    
+                    const unsupportedMethods = methods.filter(method => !getChainPolicyConfig(chainType).methods.includes(method as PrivyMethodRule['method']));
+                    if (unsupportedMethods.length) {
+                        return {
+                            success: false,
+                            response: `Unsupported methods for ${chainType}: ${unsupportedMethods.join(", ")}. Supported methods are: ${getChainPolicyConfig(chainType).methods.join(", ")}.`
+                        };
+                    }
+                    
+                    const ps = policyService(name, privyAppID, privyAppSecret, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+                    const policyData = await ps.createPolicy(chainType, methods as PrivyMethodRule['method'][]);
+                    const createdMethods = policyData.method_rules.map(methodRule => methodRule.method).join(", ");
+                    
+                    return {
+                        success: true,
+                        response: `Successfully created a new ${chainType} compliance policy with ID: ${policyData.id} covering ${createdMethods}. You can now add approved tokens to this policy.`,
+                        data: { policy: policyData }
+                    };
+                } catch (error: any) {
+                    if (error instanceof PrivyDryRunError) {
+                        return this.dryRunResult("PRIVY_CREATE_POLICY", error.request);
+                    }
+                    console.error("Error in create policy action:", error);
+                    return {
+                        success: false,
+                        response: `Error creating policy: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Update Policy Action
+        {
+            name: "PRIVY_UPDATE_POLICY",
+            description: "Update a Privy policy to add or remove allowed tokens",
+            similes: ["UPDATE POLICY", "MODIFY POLICY", "CHANGE POLICY"],
+            examples: updatePolicyExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const privyAppID = config.PRIVY_APP_ID;
+                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    
+                    // Get policy ID, token details, and action from options or message content
+                    const { intent } = await resolveIntent(runtime, message, state, options, {
+                        required: this.config.defaultPolicyId ? [] : ["policyId"],
+                        walletAliases: await this.walletAliases(runtime, message.userId)
+                    });
+                    const policyId = intent.policyId || this.config.defaultPolicyId;
+                    const name = (options?.name as string) || this.config.defaultPolicyName || "DefaultPolicy";
+                    const tokenName = ((options?.tokenName as string) || (options?.token as string) || intent.token || "").toUpperCase();
+                    const remove = options?.remove === true;
+                    
+                    if (!policyId) {
+                        return {
+                            success: false,
+                            response: "Policy ID is required. Please specify a policy ID or set a default policy ID in the configuration."
+                        };
+                    }
+                    
+                    if (!tokenName) {
+                        return {
+                            success: false,
+                            response: "A token symbol (or a token name and address) is required for policy updates."
+                        };
+                    }
+
+                    // Without an explicit address the symbol is resolved in the registry for the policy's chain
+                    const registry = tokenRegistry(runtime);
+                    let tokenAddress = options?.tokenAddress as string | undefined;
+                    const ps = policyService(name, privyAppID, privyAppSecret, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+                    const policyData = await ps.updatePolicy(policyId, tokenName, existingPolicy => {
+                        if (!tokenAddress) {
+                            const token = registry.bySymbol(tokenName, existingPolicy.chain_type);
+                            if (!token) {
+                                throw new Error(`Token ${tokenName} is not in the ${existingPolicy.chain_type} token registry; please provide its address`);
+                            }
+                            tokenAddress = token.address;
+                        }
+                        return tokenAddress;
+                    }, remove);
+                    
+                    const action = remove ? "removed from" : "added to";
+                    return {
+                        success: true,
+                        response: `Successfully ${action} the policy: token ${tokenName} (${tokenAddress}) has been ${action} the allowlist.`,
+                        data: { policy: policyData }
+                    };
+                } catch (error: any) {
+                    if (error instanceof PrivyDryRunError) {
+                        return this.dryRunResult("PRIVY_UPDATE_POLICY", error.request);
+                    }
+                    console.error("Error in update policy action:", error);
+                    return {
+                        success: false,
+                        response: `Error updating policy: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Add Policy Rule Action
+        {
+            name: "PRIVY_ADD_POLICY_RULE",
+            description: "Add or replace a named rule on a Privy policy, such as value caps, recipient lists or calldata conditions",
+            similes: ["ADD POLICY RULE", "ADD RULE", "REPLACE POLICY RULE", "SET POLICY RULE"],
+            examples: addPolicyRuleExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const privyAppID = config.PRIVY_APP_ID;
+                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    
+                    const { intent } = await resolveIntent(runtime, message, state, options, {
+                        required: this.config.defaultPolicyId ? [] : ["policyId"],
+                        walletAliases: await this.walletAliases(runtime, message.userId)
+                    });
+                    const policyId = intent.policyId || this.config.defaultPolicyId;
+                    const name = (options?.name as string) || this.config.defaultPolicyName || "DefaultPolicy";
+                    const method = options?.method as string | undefined;
+                    const replace = options?.replace === true;
+                    
+                    if (!policyId) {
+                        return {
+                            success: false,
+                            response: "Policy ID is required. Please specify a policy ID or set a default policy ID in the configuration."
+                        };
+                    }
+                    
+                    if (method && !isPolicyMethod(method)) {
+                        return {
+                            success: false,
+                            response: `Unsupported policy method: ${method}.`
+                        };
+                    }
+                    
+                    // Accept a complete rule, or assemble one from explicit conditions and shorthand options
+                    // using the field source of the policy's chain
+                    let rule = options?.rule as PrivyRule | undefined;
+                    const ruleFor = (existingPolicy: PrivyPolicyResponse): PrivyRule => {
+                        if (rule) {
+                            return rule;
+                        }
+                        const { transactionFieldSource: fieldSource, nativeToken: native } = getChainPolicyConfig(existingPolicy.chain_type);
+                        const ruleName = options?.ruleName as string;
+                        const ruleAction = ((options?.ruleAction as string) || "ALLOW").toUpperCase() as PrivyRule['action'];
+                        const conditions = [...((options?.conditions as PrivyCondition[]) || [])];
+                        if (options?.maxValue !== undefined) {
+                            // A human amount in the chain's native token, e.g. "1.5" or "1.5 ETH", capped in base units
+                            const { value, unit } = parseAmount(String(options.maxValue), unit => unit === native.symbol ? native.decimals : undefined, native.symbol);
+                            if (unit !== native.symbol && Object.values(CHAIN_POLICY_CONFIG).some(chain => chain.nativeToken.symbol === unit)) {
+                                throw new Error(`maxValue is in ${unit}, but the policy is on ${existingPolicy.chain_type}. Give it in ${native.symbol}.`);
+                            }
+                            conditions.push(maxValueCondition(value.toString(), fieldSource));
+                        }
+                        if (Array.isArray(options?.recipients) && options.recipients.length) {
+                            conditions.push(recipientCondition(options.recipients as string[], fieldSource));
+                        }
+                        rule = buildRule(ruleName, ruleAction, conditions);
+                        return rule;
+                    };
+                    
+                    const ps = policyService(name, privyAppID, privyAppSecret, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+                    const policyData = await ps.addRule(policyId, method as PrivyMethodRule['method'] | undefined, ruleFor, replace);
+                    const ruleMethod = method || getChainPolicyConfig(policyData.chain_type).defaultMethod;
+                    
+                    return {
+                        success: true,
+                        response: `Successfully ${replace ? "saved" : "added"} rule '${rule?.name}' (${rule?.action}) on ${ruleMethod} in policy ${policyData.id}.`,
+                        data: { policy: policyData, rule }
+                    };
+                } catch (error: any) {
+                    if (error instanceof PrivyDryRunError) {
+                        return this.dryRunResult("PRIVY_ADD_POLICY_RULE", error.request);
+                    }
+                    console.error("Error in add policy rule action:", error);
+                    return {
+                        success: false,
+                        response: `Error adding policy rule: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Remove Policy Rule Action
+        {
+            name: "PRIVY_REMOVE_POLICY_RULE",
+            description: "Remove a named rule from a Privy policy",
+            similes: ["REMOVE POLICY RULE", "DELETE RULE", "DELETE POLICY RULE"],
+            examples: removePolicyRuleExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const privyAppID = config.PRIVY_APP_ID;
+                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    
+                    const { intent } = await resolveIntent(runtime, message, state, options, {
+                        required: this.config.defaultPolicyId ? [] : ["policyId"],
+                        walletAliases: await this.walletAliases(runtime, message.userId)
+                    });
+                    const policyId = intent.policyId || this.config.defaultPolicyId;
+                    const name = (options?.name as string) || this.config.defaultPolicyName || "DefaultPolicy";
+                    const method = options?.method as string | undefined;
+                    const ruleName = options?.ruleName as string;
+                    
+                    if (!policyId) {
+                        return {
+                            success: false,
+                            response: "Policy ID is required. Please specify a policy ID or set a default policy ID in the configuration."
+                        };
+                    }
+                    
+                    if (!ruleName) {
+                        return {
+                            success: false,
+                            response: "Rule name is required to remove a policy rule."
+                        };
+                    }
+                    
+                    if (method && !isPolicyMethod(method)) {
+                        return {
+                            success: false,
+                            response: `Unsupported policy method: ${method}.`
+                        };
+                    }
+                    
+                    const ps = policyService(name, privyAppID, privyAppSecret, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+                    const policyData = await ps.deleteRule(policyId, method as PrivyMethodRule['method'] | undefined, ruleName);
+                    const ruleMethod = method || getChainPolicyConfig(policyData.chain_type).defaultMethod;
+                    
+                    return {
+                        success: true,
+                        response: `Successfully removed rule '${ruleName}' from ${ruleMethod} in policy ${policyData.id}.`,
+                        data: { policy: policyData }
+                    };
+                } catch (error: any) {
+                    if (error instanceof PrivyDryRunError) {
+                        return this.dryRunResult("PRIVY_REMOVE_POLICY_RULE", error.request);
+                    }
+                    console.error("Error in remove policy rule action:", error);
+                    return {
+                        success: false,
+                        response: `Error removing policy rule: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Create Wallet Action
+        {
+            name: "PRIVY_CREATE_WALLET",
+            description: "Create a new Privy wallet with compliance policies",
+            similes: ["CREATE WALLET", "NEW WALLET", "MAKE WALLET"],
+            examples: createWalletExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const privyAppID = config.PRIVY_APP_ID;
+                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    
+                    // Get chain type and policy ID from options or message content
+                    let chainType = (options?.chainType as string)?.toLowerCase() || "ethereum";
+                    
+                    // Validate chain type
+                    if (!["ethereum", "solana", "monad"].includes(chainType)) {
+                        return {
+                            success: false,
+                            response: "Invalid chain type. Supported chain types are: ethereum, solana, monad."
+                        };
+                    }
+                    
+                    // For Monad, use ethereum as the base chain type since it's EVM-compatible
+                    // This ensures backward compatibility with the Privy API
+                    const apiChainType = chainType === "monad" ? "ethereum" : chainType;
+                    
+                    const policyId = (options?.policyId as string) || this.config.defaultPolicyId;
+                    
+                    // Record who the wallet is for: "create a monad wallet called payroll for contractor payments"
+                    const text = message.content.text || "";
+                    const label = ((options?.label as string) || text.match(/\b(?:called|named|labell?ed)\s+["'“]?([\w-]+)/i)?.[1])?.toLowerCase();
+                    const purpose = (options?.purpose as string) || text.match(/\bfor\s+(?!ethereum\b|solana\b|monad\b|me\b|us\b)([^.?!]+)/i)?.[1]?.trim();
+                    const ownerId = options?.shared === true ? undefined : (options?.ownerId as string) || message.userId;
+                    if (ownerId && ownerId !== message.userId && accessControl(runtime, this.config.access).roleOf(message.userId) !== "admin") {
+                        return {
+                            success: false,
+                            response: "Only admins may create wallets owned by another user. Leave out ownerId to create a wallet you own."
+                        };
+                    }
+                    const directory = walletDirectory(runtime);
+                    if (label) {
+                        if (label === OWN_WALLET_ALIAS) {
+                            return {
+                                success: false,
+                                response: `"${OWN_WALLET_ALIAS}" cannot be used as a wallet label. Please choose another name.`
+                            };
+                        }
+                        const taken = (await this.walletAliases(runtime, ownerId))[label];
+                        if (taken) {
+                            return {
+                                success: false,
+                                response: `There is already a wallet labeled "${label}" (${taken}). Please choose another name.`
+                            };
+                        }
+                    }
+                    
+                    const walletRequest: PrivyCreateWalletRequest = {
+                        chain_type: apiChainType as "ethereum" | "solana",
+                        policy_ids: policyId ? [policyId] : undefined
+                    };
+
+                    const ws = walletService(privyAppID, privyAppSecret, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+                    const walletData = await ws.createWallet(walletRequest);
+                    
+                    // The wallet exists even if recording it fails, so report it either way
+                    let entry: PrivyWalletDirectoryEntry | undefined;
+                    try {
+                        entry = await directory.register({
+                            walletId: walletData.id,
+                            address: walletData.address,
+                            chainType: chainType as PrivyChainType,
+                            label,
+                            ownerId,
+                            purpose,
+                            context: { requestedBy: message.userId, roomId: message.roomId, messageId: message.id, text: text || undefined },
+                            createdAt: Date.now()
+                        });
+                    } catch (error: any) {
+                        console.warn(`Could not record wallet ${walletData.id} in the wallet directory:`, error.message);
+                    }
+                    
+                    // If it's a Monad wallet, include additional info in the response
+                    let responseText = `Successfully created a new wallet with address: ${walletData.address}`;
+                    if (chainType === "monad") {
+                        responseText = `Successfully created a new Monad wallet with address: ${walletData.address}. This wallet is compatible with the Monad blockchain.`;
+                    }
+                    if (entry) {
+                        const details = [
+                            label ? `labeled "${label}"` : "",
+                            ownerId ? (ownerId === message.userId ? "owned by you" : `owned by user ${ownerId}`) : "shared",
+                            purpose ? `for ${purpose}` : ""
+                        ].filter(Boolean).join(", ");
+                        responseText += ` It is ${details}.`;
+                    } else {
+                        responseText += " It could not be recorded in the wallet directory, so it cannot be referred to by label yet.";
+                    }
+                    
+                    return {
+                        success: true,
+                        response: responseText,
+                        data: { wallet: walletData, directory: entry }
+                    };
+                } catch (error: any) {
+                    if (error instanceof PrivyDryRunError) {
+                        return this.dryRunResult("PRIVY_CREATE_WALLET", error.request);
+                    }
+                    console.error("Error in create wallet action:", error);
+                    return {
+                        success: false,
+                        response: `Error creating wallet: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Update Wallet Action
+        {
+            name: "PRIVY_UPDATE_WALLET",
+            description: "Update a Privy wallet's policies",
+            similes: ["UPDATE WALLET", "MODIFY WALLET", "CHANGE WALLET"],
+            examples: updateWalletExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const privyAppID = config.PRIVY_APP_ID;
+                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    
+                    const { intent, missing } = await resolveIntent(runtime, message, state, options, {
+                        required: ["walletId"],
+                        walletAliases: await this.walletAliases(runtime, message.userId)
+                    });
+                    const walletId = intent.walletId as string;
+                    const policyIds = (options?.policyIds as string[]) || (intent.policyId ? [intent.policyId] : undefined);
+                    
+                    if (missing.length) {
+                        return {
+                            success: false,
+                            response: clarifyingQuestion(missing, intent),
+                            data: { intent, missing }
+                        };
+                    }
+                    
+                    if (!policyIds || !policyIds.length) {
+                        return {
+                            success: false,
+                            response: "At least one policy ID is required for wallet updates."
+                        };
+                    }
+                    
+                    const refusal = await this.walletAccessRefusal(runtime, message.userId, walletId);
+                    if (refusal) {
+                        return { success: false, response: refusal };
+                    }
+                    
+                    const request: PrivyUpdateWalletRequest = {
+                        policy_ids: policyIds
+                    };
+                    
+                    const ws = walletService(privyAppID, privyAppSecret, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+                    const walletData = await ws.updateWallet(walletId, request);
+                    
+                    return {
+                        success: true,
+                        response: `Successfully updated wallet policies. The wallet now follows the specified compliance policies.`,
+                        data: { wallet: walletData }
+                    };
+                } catch (error: any) {
+                    if (error instanceof PrivyDryRunError) {
+                        return this.dryRunResult("PRIVY_UPDATE_WALLET", error.request);
+                    }
+                    console.error("Error in update wallet action:", error);
+                    return {
+                        success: false,
+                        response: `Error updating wallet: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Get Wallets Action
+        {
+            name: "PRIVY_GET_WALLETS",
+            description: "Get all Privy wallets",
+            similes: ["GET WALLETS", "LIST WALLETS", "FETCH WALLETS"],
+            examples: getWalletsExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const privyAppID = config.PRIVY_APP_ID;
+                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    
+                    const ws = walletService(privyAppID, privyAppSecret, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+                    const text = message.content.text || "";
+                    
+                    // Filters come from options, or from chain names, policy IDs and wallet nicknames in the message
+                    const chainType = String(options?.chainType || options?.chain_type || text.match(/\b(ethereum|solana|monad)\b/i)?.[1] || "").toLowerCase();
+                    const policyId = (options?.policyId as string) || text.match(/\bpolicy\s+(?:id\s+)?([a-z0-9]{20,30})\b/i)?.[1];
+                    const walletAliases = await this.walletAliases(runtime, message.userId);
+                    const label = (options?.label as string) || this.walletLabel(this.walletMentioned(text, walletAliases), walletAliases);
+                    // "my own wallets" or "wallets I own" lists only the wallets the requesting user owns
+                    const owned = options?.mine === true || /\bmy\s+own\s+wallets\b|\bwallets\s+I\s+own\b/i.test(text)
+                        ? new Set((await walletDirectory(runtime).list({ ownerId: message.userId })).map(entry => entry.walletId))
+                        : undefined;
+                    const limit = options?.limit !== undefined ? Number(options.limit) : undefined;
+                    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+                        return {
+                            success: false,
+                            response: `Invalid limit: ${options?.limit} is not a positive whole number.`
+                        };
+                    }
+                    
+                    // Non-admins only see the wallets they may use: their own and shared ones
+                    const usable = await this.usableWalletIds(runtime, message.userId);
+                    const walletsData = await ws.getWallets({
+                        chainType: isChainType(chainType) ? chainType : undefined,
+                        policyId,
+                        limit,
+                        matches: wallet => (!label || this.walletLabel(wallet.id, walletAliases)?.toLowerCase() === label.toLowerCase())
+                            && (!owned || owned.has(wallet.id))
+                            && (!usable || usable.has(wallet.id))
+                    });
+                    
+                    const criteria = [
+                        isChainType(chainType) ? `on ${chainType}` : "",
+                        policyId ? `with policy ${policyId}` : "",
+                        label ? `labeled ${label}` : "",
+                        owned ? "owned by you" : ""
+                    ].filter(Boolean).join(" ");
+                    if (!walletsData.length) {
+                        return {
+                            success: true,
+                            response: criteria
+                                ? `No wallets found ${criteria}.`
+                                : "No wallets found. You can create a new wallet with the PRIVY_CREATE_WALLET action.",
+                            data: { wallets: walletsData }
+                        };
+                    }
+                    
+                    const walletList = walletsData.slice(0, MAX_LISTED_WALLETS).map(wallet => {
+                        const nickname = this.walletLabel(wallet.id, walletAliases);
+                        return `Wallet ${wallet.id}${nickname ? ` (${nickname})` : ""}: ${wallet.address} (${wallet.chain_type})`;
+                    }).join("\n");
+                    const remaining = walletsData.length - MAX_LISTED_WALLETS;
+                    const more = remaining > 0 ? `\n...and ${remaining} more. Filter by chain, policy or label to narrow the list down.` : "";
+                    const truncated = limit !== undefined && walletsData.length === limit ? ` The limit of ${limit} was reached, so there may be more.` : "";
+                    
+                    return {
+                        success: true,
+                        response: `Found ${summarizeWallets(walletsData)}${truncated}\n${criteria ? `Wallets ${criteria}` : "Wallets"}:\n${walletList}${more}`,
+                        data: { wallets: walletsData, filter: { chainType: isChainType(chainType) ? chainType : undefined, policyId, label, limit } }
+                    };
+                } catch (error: any) {
+                    console.error("Error in get wallets action:", error);
+                    return {
+                        success: false,
+                        response: `Error retrieving wallets: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Get Balance Action
+        {
+            name: "PRIVY_GET_BALANCE",
+            description: "Get the native and token balances of Privy wallets",
+            similes: ["GET BALANCE", "CHECK BALANCE", "WALLET BALANCE", "HOW MUCH DO I HAVE"],
+            examples: getBalanceExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const ws = walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+                    
+                    // Balances are only read from configured endpoints, so a caller cannot point the agent at another host
+                    const requestedChain = String(options?.chainType || "").toLowerCase();
+                    let networks = this.rpcNetworks(config);
+                    if (isChainType(requestedChain)) {
+                        networks = networks.filter(network => network.chainType === requestedChain);
+                    }
+                    
+                    if (!networks.length) {
+                        return {
+                            success: false,
+                            response: "No JSON-RPC endpoint is configured for reading balances. Set PRIVY_MONAD_RPC_URL or PRIVY_ETHEREUM_RPC_URL."
+                        };
+                    }
+                    
+                    const walletAliases = await this.walletAliases(runtime, message.userId);
+                    const { intent } = await resolveIntent(runtime, message, state, options, {
+                        required: [],
+                        walletAliases
+                    });
+                    
+                    let wallets: { id?: string; address: string }[];
+                    if (typeof options?.address === "string" && options.address) {
+                        wallets = [{ address: normalizeAddress(options.address, "ethereum", "wallet address") }];
+                    } else if (intent.walletId) {
+                        const refusal = await this.walletAccessRefusal(runtime, message.userId, intent.walletId);
+                        if (refusal) {
+                            return { success: false, response: refusal };
+                        }
+                        const wallet = await ws.getWallet(intent.walletId);
+                        wallets = [{ id: wallet.id, address: wallet.address }];
+                    } else {
+                        const usable = await this.usableWalletIds(runtime, message.userId);
+                        wallets = await ws.getWallets({ matches: wallet => wallet.chain_type !== "solana" && (!usable || usable.has(wallet.id)) });
+                    }
+                    
+                    if (!wallets.length) {
+                        return {
+                            success: true,
+                            response: "No EVM wallets found. You can create a new wallet with the PRIVY_CREATE_WALLET action."
+                        };
+                    }
+                    
+                    const tokenSymbol = (options?.token as string) || (intent.token && !intent.amount ? intent.token : undefined);
+                    const { balances, failures } = await this.readBalances(runtime, wallets, networks, tokenSymbol);
+                    
+                    const lines = balances.map(entry => summarizeBalances(entry, this.walletLabel(entry.walletId, walletAliases)));
+                    const failureText = failures.length ? `\nCould not read: ${failures.join("; ")}` : "";
+                    return {
+                        success: balances.length > 0,
+                        response: balances.length
+                            ? `Wallet balances:\n${lines.join("\n")}${failureText}`
+                            : `Could not read any balances.${failureText}`,
+                        data: { balances, failures }
+                    };
+                } catch (error: any) {
+                    console.error("Error in get balance action:", error);
+                    if (error instanceof PrivyValidationError) {
+                        return {
+                            success: false,
+                            response: `Cannot read balances: ${error.message}`
+                        };
+                    }
+                    if (error instanceof PrivyNotFoundError) {
+                        return {
+                            success: false,
+                            response: `Cannot read balances because the wallet was not found: ${error.message}`
+                        };
+                    }
+                    return {
+                        success: false,
+                        response: `Error retrieving balances: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Send Transaction Action
+        {
+            name: "PRIVY_SEND_TRANSACTION",
+            description: "Send a transaction using a Privy wallet",
+            similes: ["SEND TRANSACTION", "TRANSFER", "SEND CRYPTO"],
+            examples: sendTransactionExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    
+                    const chainType = this.requestChainType(options, message.content?.text);
+                    const registry = tokenRegistry(runtime);
+                    const tokenAt = (address: string) => registry.byAddress(address, chainType);
+                    const hashLabel = chainType === "solana" ? "Transaction signature" : "Transaction hash";
+                    
+                    // Read parameters from options, the message text or the conversation, asking for anything missing
+                    const call = options?.call ? String(options.call) : undefined;
+                    const required: (keyof PrivyIntent)[] = options?.tokenId !== undefined || call === "safeTransferFrom"
+                        ? ["walletId", "to", "tokenAddress", "tokenId"]
+                        : ["walletId", "to", "value"];
+                    if (call === "transferFrom") {
+                        required.push("from");
+                    }
+                    const { intent, missing } = await resolveIntent(runtime, message, state, options, {
+                        required,
+                        walletAliases: await this.walletAliases(runtime, message.userId),
+                        tokenFor: symbol => this.optionToken(options, symbol) || registry.bySymbol(symbol, chainType),
+                        literal: TRANSFER_PARAMETERS
+                    });
+                    
+                    if (missing.length) {
+                        return {
+                            success: false,
+                            response: clarifyingQuestion(missing, intent),
+                            data: { intent, missing }
+                        };
+                    }
+                    
+                    const refusal = await this.walletAccessRefusal(runtime, message.userId, intent.walletId as string);
+                    if (refusal) {
+                        return { success: false, response: refusal };
+                    }
+                    
+                    const token = this.optionToken(options, intent.token);
+                    const request = await this.buildSendRequest(config, intent, chainType, token || (intent.token ? registry.bySymbol(intent.token, chainType) : undefined));
+                    const tokenFor = (address: string) => token && sameAddress(address, token.address, chainType) ? token : tokenAt(address);
+                    const description = describeTransaction(request, chainType, tokenFor);
+                    
+                    // Recognize repeated invocations for the same intent and return the original result
+                    const intentId = message.id || `${message.roomId}:${message.createdAt ?? ""}`;
+                    const idempotencyKey = (options?.idempotencyKey as string) || deriveIdempotencyKey(intentId, request);
+                    
+                    // Simulate the policy, pre-flight the transaction and check spending limits before sending,
+                    // holding high-value transactions for a human to approve
+                    const outcome = await this.submitSend(runtime, config, {
+                        request,
+                        chainType,
+                        token,
+                        idempotencyKey,
+                        policyId: options?.policyId as string | undefined,
+                        requestedBy: message.userId,
+                        dryRun: this.isDryRun(options)
+                    });
+                    const estimatedFee = "preflight" in outcome ? formatEstimatedFee(outcome.preflight, chainType) : undefined;
+                    const feeNote = estimatedFee ? ` Estimated network fee: ${estimatedFee}.` : "";
+                    switch (outcome.status) {
+                        case "duplicate":
+                            return {
+                                success: true,
+                                response: `This transaction (${description}) was already sent. ${hashLabel}: ${outcome.transaction.hash}`,
+                                data: { transaction: outcome.transaction, duplicate: true, idempotencyKey }
+                            };
+                        case "in_progress":
+                            return {
+                                success: false,
+                                response: "This transaction is already being sent. Please wait for it to complete before trying again."
+                            };
+                        case "denied":
+                            return {
+                                success: false,
+                                response: `Transaction blocked by policy ${outcome.policyName}: ${outcome.evaluation.reason}. The transaction was not sent.`,
+                                data: { evaluation: outcome.evaluation }
+                            };
+                        case "preflight_failed":
+                            return {
+                                success: false,
+                                response: `Transaction not sent: ${describePreflightFailure(outcome.preflight, chainType)}.`,
+                                data: { preflight: outcome.preflight, evaluation: outcome.evaluation }
+                            };
+                        case "limited":
+                            return {
+                                success: false,
+                                response: `Transaction not sent: ${outcome.limits.violations.join("; ")}. ${describeAllowance(outcome.limits.remaining)}`,
+                                data: { limits: outcome.limits, evaluation: outcome.evaluation, preflight: outcome.preflight }
+                            };
+                        case "queued":
+                            return {
+                                success: true,
+                                response: `This transaction needs approval because the ${outcome.reason}. It has been queued with approval ID ${outcome.approval.id} and expires at ${new Date(outcome.approval.expiresAt).toISOString()}. An authorized user can release it with PRIVY_APPROVE_TRANSACTION or cancel it with PRIVY_REJECT_TRANSACTION.${feeNote}`,
+                                data: { approval: outcome.approval, evaluation: outcome.evaluation, preflight: outcome.preflight }
+                            };
+                        case "dry_run":
+                            return this.dryRunResult("PRIVY_SEND_TRANSACTION", outcome.preview, {
+                                evaluation: outcome.evaluation,
+                                notes: [
+                                    `It sends ${description} and passes ${outcome.preflight ? "the pre-flight check and " : ""}the spending limits.${feeNote}`,
+                                    ...(outcome.approvalReason ? [`It would be held for approval first because the ${outcome.approvalReason}.`] : [])
+                                ],
+                                preflight: outcome.preflight,
+                                limits: outcome.limits,
+                                idempotencyKey
+                            });
+                    }
+                    
+                    const txData = outcome.transaction;
+                    const allowance = describeAllowance((await this.checkLimits(runtime, request, chainType, token)).remaining);
+                    
+                    return {
+                        success: true,
+                        response: `Transaction sent successfully! Sent ${description}.${feeNote} ${hashLabel}: ${txData.hash}${this.rpcNetwork(config, chainType) ? ". It is not confirmed yet; its receipt is being tracked." : ""}${allowance ? ` ${allowance}` : ""}`,
+                        data: { transaction: txData, evaluation: outcome.evaluation, preflight: outcome.preflight, limits: outcome.limits, idempotencyKey }
+                    };
+                } catch (error: any) {
+                    console.error("Error in send transaction action:", error);
+                    if (error instanceof PrivyPolicyViolationError) {
+                        return {
+                            success: false,
+                            response: `Transaction failed due to policy restrictions: ${error.message}. This transaction may involve tokens or addresses that aren't allowed by your wallet's compliance policies.`
+                        };
+                    }
+                    if (error instanceof PrivyRateLimitError) {
+                        return {
+                            success: false,
+                            response: `Transaction failed because Privy is rate limiting requests. Please try again shortly.`
+                        };
+                    }
+                    if (error instanceof PrivyUnauthorizedError) {
+                        return {
+                            success: false,
+                            response: `Transaction failed because Privy rejected the app credentials or authorization signature: ${error.message}`
+                        };
+                    }
+                    if (error instanceof PrivyNotFoundError) {
+                        return {
+                            success: false,
+                            response: `Transaction failed because the wallet was not found: ${error.message}`
+                        };
+                    }
+                    if (error instanceof PrivyValidationError) {
+                        return {
+                            success: false,
+                            response: `Transaction was not sent because it is invalid: ${error.message}`
+                        };
+                    }
+                    return {
+                        success: false,
+                        response: `Error sending transaction: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Batch Send Action
+        {
+            name: "PRIVY_BATCH_SEND",
+            description: "Send to many recipients from a Privy wallet in one batch, given as a list or CSV rows of recipient, amount and token, with a per-row report; batches can be resumed by ID",
+            similes: ["BATCH SEND", "BULK TRANSFER", "SEND PAYOUTS", "PAY MANY"],
+            examples: batchSendExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                const batches = batchService(runtime);
+                let batch: PrivyBatch | undefined;
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const text = message.content?.text || "";
+                    const walletAliases = await this.walletAliases(runtime, message.userId);
+                    
+                    // Resume a batch by ID, or start one from the given rows
+                    const batchId = (options?.batchId as string | undefined) || text.match(/\bbatch_[0-9a-f-]{36}\b/i)?.[0];
+                    if (batchId) {
+                        batch = await batches.get(batchId);
+                        if (!batch) {
+                            return {
+                                success: false,
+                                response: `No batch with ID ${batchId} was found. Batches are kept for 7 days.`
+                            };
+                        }
+                        if (batch.requestedBy !== message.userId && accessControl(runtime, this.config.access).roleOf(message.userId) !== "admin") {
+                            return {
+                                success: false,
+                                response: `Batch ${batch.id} can only be resumed by the user who started it or a Privy admin.`
+                            };
+                        }
+                        if (batch.status === "running" && Date.now() - batch.updatedAt < BATCH_STALE_MS) {
+                            return {
+                                success: false,
+                                response: `Batch ${batch.id} is still being sent. Please wait for it to finish before resuming it.`,
+                                data: { batch }
+                            };
+                        }
+                    } else {
+                        const rows = parseBatchRows(options?.rows ?? options?.csv ?? text);
+                        if (!rows.length) {
+                            return {
+                                success: false,
+                                response: "Which payments should the batch make? Give one row per recipient as CSV with the columns to, amount and token, or pass a list of rows."
+                            };
+                        }
+                        const maxRows = this.config.batches?.maxRows ?? DEFAULT_BATCH_MAX_ROWS;
+                        if (rows.length > maxRows) {
+                            return {
+                                success: false,
+                                response: `The batch has ${rows.length} rows, more than the ${maxRows} allowed. Please split it into smaller batches.`
+                            };
+                        }
+                        
+                        const { intent, missing } = await resolveIntent(runtime, message, state, options, {
+                            required: ["walletId"],
+                            walletAliases,
+                            literal: TRANSFER_PARAMETERS
+                        });
+                        if (missing.length) {
+                            return {
+                                success: false,
+                                response: clarifyingQuestion(missing, intent),
+                                data: { intent, missing }
+                            };
+                        }
+                        const refusal = await this.walletAccessRefusal(runtime, message.userId, intent.walletId as string);
+                        if (refusal) {
+                            return { success: false, response: refusal };
+                        }
+                        const chainType = this.requestChainType({ chainType: options?.chainType, to: rows[0].to }, text);
+                        batch = await batches.create(rows, intent.walletId as string, chainType, message.userId);
+                    }
+                    
+                    // Validate every row before anything is sent
+                    await this.validateBatch(runtime, config, batch, walletAliases, message.userId, options?.policyId as string | undefined);
+                    const invalid = batch.rows.filter(row => row.status === "invalid");
+                    if (invalid.length && !options?.partial) {
+                        batch.status = "invalid";
+                        await batches.save(batch);
+                        return {
+                            success: false,
+                            response: `Nothing was sent because ${invalid.length} of ${batch.rows.length} rows failed validation.\n${formatBatchReport(batch)}\nFix those rows and send a new batch, or resume batch ${batch.id} with partial: true to send only the valid rows.`,
+                            data: { batch }
+                        };
+                    }
+                    
+                    if (this.isDryRun(options)) {
+                        const pending = batch.rows.filter(row => row.status === "pending");
+                        const previews: { index: number; request: PrivyRequestPreview; approvalReason?: string }[] = [];
+                        for (const row of pending) {
+                            const request = await this.previewSend(config, row.request as PrivyTransactionRequest, row.idempotencyKey as string, batch.chainType);
+                            previews.push({ index: row.index, request, approvalReason: row.approvalReason });
+                        }
+                        const rows = pending.map((row, i) => [
+                            `Row ${row.index}: ${row.description}${row.approvalReason ? ` (would be held for approval: ${row.approvalReason})` : ""}`,
+                            formatRequestPreview(previews[i].request)
+                        ].join("\n"));
+                        return {
+                            success: true,
+                            response: [
+                                `Dry run of PRIVY_BATCH_SEND: nothing was sent to Privy. These ${pending.length} request${pending.length === 1 ? "" : "s"} would be sent:`,
+                                ...rows,
+                                `Resume batch ${batch.id} outside dry-run mode to send it.`
+                            ].join("\n"),
+                            data: { dryRun: true, batch, requests: previews }
+                        };
+                    }
+                    
+                    batch.status = "running";
+                    await batches.save(batch);
+                    await this.sendBatch(runtime, config, batch, message.userId);
+                    batch.status = batchOutcome(batch.rows);
+                    await batches.save(batch);
+                    
+                    const retry = batch.rows.some(row => row.status === "failed")
+                        ? `\nResume batch ${batch.id} to retry the rows that failed; rows already sent are not sent again.`
+                        : "";
+                    return {
+                        success: batch.status !== "failed",
+                        response: `${formatBatchReport(batch)}${retry}`,
+                        data: { batch }
+                    };
+                } catch (error: any) {
+                    console.error("Error in batch send action:", error);
+                    // A batch interrupted by the error must stay resumable
+                    if (batch?.status === "running") {
+                        batch.status = batchOutcome(batch.rows);
+                        await batches.save(batch).catch(() => undefined);
+                    }
+                    if (error instanceof PrivyNotFoundError) {
+                        return {
+                            success: false,
+                            response: `Batch failed because the wallet or policy was not found: ${error.message}`
+                        };
+                    }
+                    if (error instanceof PrivyValidationError) {
+                        return {
+                            success: false,
+                            response: `Nothing was sent because the batch is invalid: ${error.message}`
+                        };
+                    }
+                    return {
+                        success: false,
+                        response: `Error sending batch: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Create Schedule Action
+        {
+            name: "PRIVY_CREATE_SCHEDULE",
+            description: "Schedule a transfer from a Privy wallet to run once later or repeatedly, e.g. every Friday or on the 1st of every month; each run goes through the same checks as PRIVY_SEND_TRANSACTION",
+            similes: ["SCHEDULE PAYMENT", "RECURRING PAYMENT", "SCHEDULE TRANSFER", "PAY EVERY"],
+            examples: createScheduleExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    const config = await validatePrivyConfig(runtime);
+                    const text = message.content?.text || "";
+                    const now = Date.now();
+                    const defaultTime = this.config.scheduler?.defaultTime ?? DEFAULT_SCHEDULE_TIME;
+                    const timeOption = (value: unknown) => value === undefined ? undefined : typeof value === "number" ? value : Date.parse(String(value));
+                    
+                    // Read when to run from options or the message text; a frequency option on its own starts at the next default time
+                    const parsed = parseScheduleFromText(text, now, defaultTime)
+                        ?? (options?.frequency ? parseScheduleFromText(String(options.frequency), now, defaultTime) : undefined);
+                    const startAt = timeOption(options?.startAt) ?? parsed?.startAt;
+                    const recurrence: PrivyRecurrence = {
+                        frequency: (options?.frequency as PrivyRecurrence['frequency'] | undefined) ?? parsed?.recurrence.frequency ?? "once",
+                        interval: Number(options?.interval ?? parsed?.recurrence.interval ?? 1)
+                    };
+                    const endAt = timeOption(options?.endAt) ?? parsed?.endAt;
+                    const maxRuns = options?.maxRuns !== undefined ? Number(options.maxRuns) : parsed?.maxRuns;
+                    if (startAt === undefined) {
+                        return {
+                            success: false,
+                            response: `When should the transfer run? For example "every Friday at 9am", "daily", "every 2 weeks", "on the 1st of every month", "tomorrow at 17:00" or "on 2026-11-01". Times are in UTC.`
+                        };
+                    }
+                    if (Number.isNaN(startAt) || (endAt !== undefined && Number.isNaN(endAt))) {
+                        throw new PrivyValidationError("Start and end times must be ISO dates or timestamps in milliseconds", undefined, "invalid_schedule");
+                    }
+                    if (!["once", "hourly", "daily", "weekly", "monthly"].includes(recurrence.frequency)) {
+                        throw new PrivyValidationError(`Unknown frequency ${recurrence.frequency}; use once, hourly, daily, weekly or monthly`, undefined, "invalid_schedule");
+                    }
+                    if (!Number.isInteger(recurrence.interval) || (recurrence.interval as number) < 1) {
+                        throw new PrivyValidationError("The interval must be a whole number of periods of at least 1", undefined, "invalid_schedule");
+                    }
+                    if (startAt <= now) {
+                        throw new PrivyValidationError(`the first run, ${new Date(startAt).toISOString()}, is in the past`, undefined, "invalid_schedule");
+                    }
+                    if (endAt !== undefined && endAt < startAt) {
+                        throw new PrivyValidationError("the schedule ends before its first run", undefined, "invalid_schedule");
+                    }
+                    if (maxRuns !== undefined && (!Number.isInteger(maxRuns) || maxRuns < 1)) {
+                        throw new PrivyValidationError("the number of runs must be a whole number of at least 1", undefined, "invalid_schedule");
+                    }
+                    
+                    // Read the transfer from the text without the schedule phrases, so "every 2 weeks" is not taken for an amount
+                    const chainType = this.requestChainType(options, text);
+                    const registry = tokenRegistry(runtime);
+                    const { intent, missing } = await resolveIntent(
+                        runtime,
+                        parsed ? { ...message, content: { ...message.content, text: parsed.rest } } : message,
+                        state,
+                        options,
+                        {
+                            required: ["walletId", "to", "value"],
+                            walletAliases: await this.walletAliases(runtime, message.userId),
+                            tokenFor: symbol => this.optionToken(options, symbol) || registry.bySymbol(symbol, chainType),
+                            literal: TRANSFER_PARAMETERS
+                        }
+                    );
+                    if (missing.length) {
+                        return {
+                            success: false,
+                            response: clarifyingQuestion(missing, intent),
+                            data: { intent, missing }
+                        };
+                    }
+                    if (intent.data || intent.tokenId || (intent.call && intent.call !== "transfer")) {
+                        throw new PrivyValidationError("only transfers of native and fungible tokens can be scheduled", undefined, "invalid_schedule");
+                    }
+                    const refusal = await this.walletAccessRefusal(runtime, message.userId, intent.walletId as string);
+                    if (refusal) {
+                        return { success: false, response: refusal };
+                    }
+                    
+                    const token = this.optionToken(options, intent.token);
+                    const request = await this.buildSendRequest(config, intent, chainType, token || (intent.token ? registry.bySymbol(intent.token, chainType) : undefined));
+                    const description = describeTransaction(request, chainType, address =>
+                        token && sameAddress(address, token.address, chainType) ? token : registry.byAddress(address, chainType)
+                    );
+                    // A schedule made in dry-run mode would later run for real wherever dry-run mode is off
+                    if (this.isDryRun(options)) {
+                        return {
+                            success: false,
+                            response: `Dry run of PRIVY_CREATE_SCHEDULE: no schedule was created, since schedules cannot be created in dry-run mode. It would have sent ${description} ${describeRecurrence(recurrence, startAt)}, first at ${new Date(startAt).toISOString()}.`,
+                            data: { dryRun: true, request }
+                        };
+                    }
+                    const schedule = await scheduleService(runtime).create({
+                        chainType,
+                        walletId: request.wallet_id,
+                        request,
+                        token,
+                        description,
+                        label: (options?.label as string | undefined) || parsePayeeLabel(text, intent.to as string),
+                        recurrence,
+                        startAt,
+                        endAt,
+                        maxRuns,
+                        policyId: (options?.policyId as string | undefined) || intent.policyId,
+                        createdBy: message.userId
+                    });
+                    this.startScheduler(runtime);
+                    
+                    const ends = [
+                        schedule.maxRuns ? `${schedule.maxRuns} time${schedule.maxRuns === 1 ? "" : "s"}` : "",
+                        schedule.endAt !== undefined ? `until ${new Date(schedule.endAt).toISOString()}` : ""
+                    ].filter(Boolean).join(" ");
+                    const elsewhere = this.config.scheduler?.enabled === false ? " This agent does not run schedules, so it runs wherever the scheduler is enabled." : "";
+                    return {
+                        success: true,
+                        response: `Scheduled ${description}${schedule.label ? ` (${schedule.label})` : ""} ${describeRecurrence(recurrence, startAt)}${ends ? `, ${ends}` : ""}. Schedule ID: ${schedule.id}. The first run is at ${new Date(startAt).toISOString()}. Each run goes through the same policy, pre-flight, spending limit and approval checks as a send made in chat.${elsewhere}`,
+                        data: { schedule }
+                    };
+                } catch (error: any) {
+                    console.error("Error in create schedule action:", error);
+                    if (error instanceof PrivyNotFoundError) {
+                        return {
+                            success: false,
+                            response: `Schedule was not created because the wallet was not found: ${error.message}`
+                        };
+                    }
+                    if (error instanceof PrivyValidationError) {
+                        return {
+                            success: false,
+                            response: `Schedule was not created because it is invalid: ${error.message}`
+                        };
+                    }
+                    return {
+                        success: false,
+                        response: `Error creating schedule: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // List Schedules Action
+        {
+            name: "PRIVY_LIST_SCHEDULES",
+            description: "List scheduled and recurring Privy transfers with their next run and recent outcomes",
+            similes: ["LIST SCHEDULES", "SHOW RECURRING PAYMENTS", "SCHEDULED PAYMENTS", "UPCOMING PAYMENTS"],
+            examples: listSchedulesExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    const text = message.content?.text || "";
+                    
+                    // Active and paused schedules by default; ended ones only when asked for
+                    const requested = [options?.status ?? []].flat().map(status => String(status).toLowerCase()) as PrivyScheduleStatus[];
+                    const statuses: PrivyScheduleStatus[] | undefined = requested.length
+                        ? requested
+                        : /\b(all|every|cancell?ed|completed|ended|past)\b/i.test(text) ? undefined : ["active", "paused"];
+                    const aliases = await this.walletAliases(runtime, message.userId);
+                    const walletId = (options?.walletId as string | undefined) || this.walletMentioned(text, aliases);
+                    const schedules = (await scheduleService(runtime).list(statuses))
+                        .filter(schedule => !walletId || schedule.walletId === walletId);
+                    
+                    if (!schedules.length) {
+                        return {
+                            success: true,
+                            response: `There are no ${statuses ? statuses.join(" or ") : ""} schedules${walletId ? ` for wallet ${this.walletLabel(walletId, aliases) || walletId}` : ""}.`.replace(/\s+/g, " "),
+                            data: { schedules }
+                        };
+                    }
+                    const listed = schedules.slice(0, MAX_LISTED_SCHEDULES);
+                    const more = schedules.length > listed.length ? `\n...and ${schedules.length - listed.length} more.` : "";
+                    return {
+                        success: true,
+                        response: `${schedules.length} schedule${schedules.length === 1 ? "" : "s"}:\n${listed.map(schedule => formatSchedule(schedule, 3)).join("\n")}${more}`,
+                        data: { schedules }
+                    };
+                } catch (error: any) {
+                    console.error("Error in list schedules action:", error);
+                    return {
+                        success: false,
+                        response: `Error listing schedules: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Pause Schedule Action
+        {
+            name: "PRIVY_PAUSE_SCHEDULE",
+            description: "Pause a scheduled or recurring Privy transfer so it skips its runs until resumed",
+            similes: ["PAUSE SCHEDULE", "PAUSE RECURRING PAYMENT", "HOLD SCHEDULED PAYMENT"],
+            examples: pauseScheduleExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    return await this.changeSchedule(runtime, message, options, "pause");
+                } catch (error: any) {
+                    console.error("Error in pause schedule action:", error);
+                    return {
+                        success: false,
+                        response: `Error pausing schedule: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Resume Schedule Action
+        {
+            name: "PRIVY_RESUME_SCHEDULE",
+            description: "Resume a paused Privy schedule from its next run",
+            similes: ["RESUME SCHEDULE", "RESUME RECURRING PAYMENT", "UNPAUSE SCHEDULE"],
+            examples: resumeScheduleExamples,
+            validate: async (runtime: IAgentRuntime) => {
+                try {
+                    await validatePrivyConfig(runtime);
+                    return true;
+                } catch (error) {
+                    return false;
+                }
+            },
+            handler: async (
+                runtime: IAgentRuntime,
+                message: Memory,
+                state?: State,
+                options?: { [key: string]: unknown }
+            ) => {
+                try {
+                    return await this.changeSchedule(runtime, message, options, "resume");
+                } catch (error: any) {
+                    console.error("Error in resume schedule action:", error);
+                    return {
+                        success: false,
+                        response: `Error resuming schedule: ${error.message}`
+                    };
+                }
+            }
+        },
+        
+        // Cancel Schedule Action
+        {
+            name: "PRIVY_CANCEL_SCHEDULE",
+            description: "Cancel a scheduled or recurring Privy transfer so it never runs again",
+            similes: ["CANCEL SCHEDULE", "STOP RECURRING PAYMENT", "DELETE SCHEDULED PAYMENT"],
+            examples: cancelScheduleExamples,
             validate: async (runtime: IAgentRuntime) => {
                 try {
                     await validatePrivyConfig(runtime);
@@ -74,52 +2889,23 @@ export class PrivyPlugin implements Plugin {
                 options?: { [key: string]: unknown }
             ) => {
                 try {
-                    const config = await validatePrivyConfig(runtime);
-                    const privyAppID = config.PRIVY_APP_ID;
-                    const privyAppSecret = config.PRIVY_APP_SECRET;
-                    
-                    // Use default policy ID or get from options
-                    const policyId = (options?.policyId as string) || this.config.defaultPolicyId;
-                    const name = (options?.name as string) || this.config.defaultPolicyName || "DefaultPolicy";
-                    
-                    if (!policyId) {
-                        return {
-                            success: false,
-                            response: "Policy ID is required. Please specify a policy ID or set a default policy ID in the configuration."
-                        };
-                    }
-
-                    const ps = policyService(name, privyAppID, privyAppSecret);
-                    const policyData = await ps.getPolicy(policyId);
-                    
-                    // Extract rule names from the policy
-                    const ruleNames = policyData.method_rules.flatMap(methodRule =>
-                        methodRule.rules.map(rule => rule.name.replace("Allowlist ", ""))
-                    );
-                    
-                    const responseText = `These are tokens that are allowed for transactions: ${ruleNames.join(", ")}. If the token you want to use is not on this list, you will need to request it to be added.`;
-                    
-                    return {
-                        success: true,
-                        response: responseText,
-                        data: { policy: policyData }
-                    };
+                    return await this.changeSchedule(runtime, message, options, "cancel");
                 } catch (error: any) {
-                    console.error("Error in get policy action:", error);
+                    console.error("Error in cancel schedule action:", error);
                     return {
                         success: false,
-                        response: `Error retrieving policy: ${error.message}`
+                        response: `Error cancelling schedule: ${error.message}`
                     };
                 }
             }
         },
         
-        // Create Policy Action
+        // Approve Transaction Action
         {
-            name: "PRIVY_CREATE_POLICY",
-            description: "Create a new Privy policy for controlling wallet transactions",
-            similes: ["CREATE POLICY", "NEW POLICY", "MAKE POLICY"],
-            examples: createPolicyExamples,
+            name: "PRIVY_APPROVE_TRANSACTION",
+            description: "Approve and send a Privy transaction that is waiting for approval",
+            similes: ["APPROVE TRANSACTION", "RELEASE TRANSACTION", "APPROVE TX"],
+            examples: approveTransactionExamples,
             validate: async (runtime: IAgentRuntime) => {
                 try {
                     await validatePrivyConfig(runtime);
@@ -136,35 +2922,121 @@ export class PrivyPlugin implements Plugin {
             ) => {
                 try {
                     const config = await validatePrivyConfig(runtime);
-                    const privyAppID = config.PRIVY_APP_ID;
-                    const privyAppSecret = config.PRIVY_APP_SECRET;
                     
-                    const name = (options?.name as string) || this.config.defaultPolicyName || "DefaultPolicy";
+                    const approvalId = (options?.approvalId as string | undefined) || message.content.text?.match(APPROVAL_ID_PATTERN)?.[0].toLowerCase();
+                    if (!approvalId) {
+                        return {
+                            success: false,
+                            response: "Approval ID is required to approve a transaction."
+                        };
+                    }
+                    
+                    const approvals = approvalService(runtime, this.config.approvals?.expiryMs);
+                    const approval = await approvals.get(approvalId);
+                    if (!approval) {
+                        return {
+                            success: false,
+                            response: `No transaction is waiting for approval with ID ${approvalId}.`
+                        };
+                    }
+                    
+                    if (approval.status !== "pending") {
+                        return {
+                            success: false,
+                            response: `Transaction ${approvalId} can no longer be approved because it is ${approval.status}.`
+                        };
+                    }
+                    
+                    if (!canResolveApproval(this.config.approvals, approval, message.userId)) {
+                        return {
+                            success: false,
+                            response: "You are not authorized to approve this transaction."
+                        };
+                    }
+                    const refusal = await this.walletAccessRefusal(runtime, message.userId, approval.request.wallet_id);
+                    if (refusal) {
+                        return { success: false, response: refusal };
+                    }
+                    
+                    // The wallet's policies, balances and contract state may have changed while the transaction waited
+                    const simulated = await this.simulatePolicies(config, approval.request, approval.chainType);
+                    if (simulated?.evaluation.decision === "DENY") {
+                        return {
+                            success: false,
+                            response: `Transaction ${approvalId} was not sent: it is blocked by policy ${simulated.policyName}: ${simulated.evaluation.reason}. It remains pending.`,
+                            data: { approval, evaluation: simulated.evaluation }
+                        };
+                    }
+                    const preflight = await this.preflight(config, approval.request, approval.chainType);
+                    if (preflight && !preflight.ok) {
+                        return {
+                            success: false,
+                            response: `Transaction ${approvalId} was not sent: ${describePreflightFailure(preflight, approval.chainType)}. It remains pending.`,
+                            data: { approval, preflight }
+                        };
+                    }
+                    const estimatedFee = formatEstimatedFee(preflight, approval.chainType);
+                    
+                    // Other transactions may have used up the wallet's allowance while this one waited
+                    const limitCheck = await this.checkLimits(runtime, approval.request, approval.chainType, undefined, [], approval.idempotencyKey);
+                    if (!limitCheck.allowed) {
+                        return {
+                            success: false,
+                            response: `Transaction ${approvalId} was not sent: ${limitCheck.violations.join("; ")}. It remains pending. ${describeAllowance(limitCheck.remaining)}`,
+                            data: { approval, limits: limitCheck, preflight }
+                        };
+                    }
                     
-                    const ps = policyService(name, privyAppID, privyAppSecret);
-                    const policyData = await ps.createPolicy();
+                    if (!await approvals.claim(approvalId, message.userId)) {
+                        return {
+                            success: false,
+                            response: `Transaction ${approvalId} can no longer be approved because it was resolved meanwhile.`
+                        };
+                    }
+                    let txData: PrivyTransactionResponse;
+                    try {
+                        txData = await this.broadcastTransaction(
+                            runtime,
+                            config,
+                            approval.request,
+                            approval.idempotencyKey,
+                            approval.chainType,
+                            approval.requestedBy
+                        );
+                    } catch (error) {
+                        await approvals.reopen(approvalId);
+                        throw error;
+                    }
+                    const resolved = await approvals.resolve(approvalId, message.userId, txData);
+                    const allowance = describeAllowance((await this.checkLimits(runtime, approval.request, approval.chainType)).remaining);
                     
                     return {
                         success: true,
-                        response: `Successfully created a new compliance policy with ID: ${policyData.id}. You can now add approved tokens to this policy.`,
-                        data: { policy: policyData }
+                        response: `Transaction ${approvalId} approved and sent successfully! Sent ${describeTransaction(approval.request, approval.chainType, address => tokenRegistry(runtime).byAddress(address, approval.chainType))}.${estimatedFee ? ` Estimated network fee: ${estimatedFee}.` : ""} ${approval.chainType === "solana" ? "Transaction signature" : "Transaction hash"}: ${txData.hash}${allowance ? ` ${allowance}` : ""}`,
+                        data: { approval: resolved || approval, transaction: txData, preflight }
                     };
                 } catch (error: any) {
-                    console.error("Error in create policy action:", error);
+                    console.error("Error in approve transaction action:", error);
+                    if (error instanceof PrivyPolicyViolationError) {
+                        return {
+                            success: false,
+                            response: `Approved transaction failed due to policy restrictions: ${error.message}. It remains pending.`
+                        };
+                    }
                     return {
                         success: false,
-                        response: `Error creating policy: ${error.message}`
+                        response: `Error approving transaction: ${error.message}`
                     };
                 }
             }
         },
         
-        // Update Policy Action
+        // Reject Transaction Action
         {
-            name: "PRIVY_UPDATE_POLICY",
-            description: "Update a Privy policy to add or remove allowed tokens",
-            similes: ["UPDATE POLICY", "MODIFY POLICY", "CHANGE POLICY"],
-            examples: updatePolicyExamples,
+            name: "PRIVY_REJECT_TRANSACTION",
+            description: "Reject a Privy transaction that is waiting for approval so it is never sent",
+            similes: ["REJECT TRANSACTION", "CANCEL TRANSACTION", "DENY TRANSACTION"],
+            examples: rejectTransactionExamples,
             validate: async (runtime: IAgentRuntime) => {
                 try {
                     await validatePrivyConfig(runtime);
@@ -180,56 +3052,68 @@ export class PrivyPlugin implements Plugin {
                 options?: { [key: string]: unknown }
             ) => {
                 try {
-                    const config = await validatePrivyConfig(runtime);
-                    const privyAppID = config.PRIVY_APP_ID;
-                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    await validatePrivyConfig(runtime);
                     
-                    // Get policy ID, token details, and action from options or message content
-                    const policyId = (options?.policyId as string) || this.config.defaultPolicyId;
-                    const name = (options?.name as string) || this.config.defaultPolicyName || "DefaultPolicy";
-                    const tokenName = options?.tokenName as string;
-                    const tokenAddress = options?.tokenAddress as string;
-                    const remove = options?.remove === true;
+                    const approvalId = (options?.approvalId as string | undefined) || message.content.text?.match(APPROVAL_ID_PATTERN)?.[0].toLowerCase();
+                    if (!approvalId) {
+                        return {
+                            success: false,
+                            response: "Approval ID is required to reject a transaction."
+                        };
+                    }
                     
-                    if (!policyId) {
+                    const approvals = approvalService(runtime, this.config.approvals?.expiryMs);
+                    const approval = await approvals.get(approvalId);
+                    if (!approval || approval.status !== "pending") {
                         return {
                             success: false,
-                            response: "Policy ID is required. Please specify a policy ID or set a default policy ID in the configuration."
+                            response: approval
+                                ? `Transaction ${approvalId} can no longer be rejected because it is ${approval.status}.`
+                                : `No transaction is waiting for approval with ID ${approvalId}.`
                         };
                     }
                     
-                    if (!tokenName || !tokenAddress) {
+                    // The requester may always withdraw their own transaction
+                    if (approval.requestedBy !== message.userId && !canResolveApproval(this.config.approvals, approval, message.userId)) {
                         return {
                             success: false,
-                            response: "Token name and address are required for policy updates."
+                            response: "You are not authorized to reject this transaction."
+                        };
+                    }
+                    const refusal = await this.walletAccessRefusal(runtime, message.userId, approval.request.wallet_id);
+                    if (refusal) {
+                        return { success: false, response: refusal };
+                    }
+                    
+                    const resolved = await approvals.reject(approvalId, message.userId);
+                    if (!resolved) {
+                        return {
+                            success: false,
+                            response: `Transaction ${approvalId} can no longer be rejected because it was resolved meanwhile.`
                         };
                     }
-
-                    const ps = policyService(name, privyAppID, privyAppSecret);
-                    const policyData = await ps.updatePolicy(policyId, tokenName, tokenAddress, remove);
                     
-                    const action = remove ? "removed from" : "added to";
                     return {
                         success: true,
-                        response: `Successfully ${action} the policy: token ${tokenName} (${tokenAddress}) has been ${action} the allowlist.`,
-                        data: { policy: policyData }
+                        response: `Transaction ${approvalId} has been rejected and will not be sent.`,
+                        data: { approval: resolved }
                     };
                 } catch (error: any) {
-                    console.error("Error in update policy action:", error);
+                    console.error("Error in reject transaction action:", error);
                     return {
                         success: false,
-                        response: `Error updating policy: ${error.message}`
+                        response: `Error rejecting transaction: ${error.message}`
                     };
                 }
             }
         },
         
-        // Create Wallet Action
+        // List Pending Transactions Action
         {
-            name: "PRIVY_CREATE_WALLET",
-            description: "Create a new Privy wallet with compliance policies",
-            similes: ["CREATE WALLET", "NEW WALLET", "MAKE WALLET"],
-            examples: createWalletExamples,
+            name: "PRIVY_LIST_PENDING",
+            description: "List Privy transactions waiting for approval",
+            similes: ["LIST PENDING", "PENDING TRANSACTIONS", "PENDING APPROVALS"],
+            examples: listPendingExamples,
             validate: async (runtime: IAgentRuntime) => {
                 try {
                     await validatePrivyConfig(runtime);
@@ -245,61 +3129,46 @@ export class PrivyPlugin implements Plugin {
                 options?: { [key: string]: unknown }
             ) => {
                 try {
-                    const config = await validatePrivyConfig(runtime);
-                    const privyAppID = config.PRIVY_APP_ID;
-                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    await validatePrivyConfig(runtime);
                     
-                    // Get chain type and policy ID from options or message content
-                    let chainType = (options?.chainType as string)?.toLowerCase() || "ethereum";
+                    const approvals = approvalService(runtime, this.config.approvals?.expiryMs);
+                    const usable = await this.usableWalletIds(runtime, message.userId);
+                    const pending = (await approvals.listPending()).filter(approval => !usable || usable.has(approval.request.wallet_id));
                     
-                    // Validate chain type
-                    if (!["ethereum", "solana", "monad"].includes(chainType)) {
+                    if (!pending.length) {
                         return {
-                            success: false,
-                            response: "Invalid chain type. Supported chain types are: ethereum, solana, monad."
+                            success: true,
+                            response: "No transactions are waiting for approval.",
+                            data: { approvals: pending }
                         };
                     }
                     
-                    // For Monad, use ethereum as the base chain type since it's EVM-compatible
-                    // This ensures backward compatibility with the Privy API
-                    const apiChainType = chainType === "monad" ? "ethereum" : chainType;
-                    
-                    const policyId = (options?.policyId as string) || this.config.defaultPolicyId;
-                    const walletRequest: PrivyCreateWalletRequest = {
-                        chain_type: apiChainType as "ethereum" | "solana",
-                        policy_ids: policyId ? [policyId] : undefined
-                    };
-
-                    const ws = walletService(privyAppID, privyAppSecret);
-                    const walletData = await ws.createWallet(walletRequest);
-                    
-                    // If it's a Monad wallet, include additional info in the response
-                    let responseText = `Successfully created a new wallet with address: ${walletData.address}`;
-                    if (chainType === "monad") {
-                        responseText = `Successfully created a new Monad wallet with address: ${walletData.address}. This wallet is compatible with the Monad blockchain.`;
-                    }
+                    const registry = tokenRegistry(runtime);
+                    const pendingList = pending.map(approval =>
+                        `${approval.id}: ${describeTransaction(approval.request, approval.chainType, address => registry.byAddress(address, approval.chainType))} from wallet ${approval.request.wallet_id} (${approval.reason}; expires ${new Date(approval.expiresAt).toISOString()})`
+                    ).join("\n");
                     
                     return {
                         success: true,
-                        response: responseText,
-                        data: { wallet: walletData }
+                        response: `Transactions waiting for approval:\n${pendingList}`,
+                        data: { approvals: pending }
                     };
                 } catch (error: any) {
-                    console.error("Error in create wallet action:", error);
+                    console.error("Error in list pending action:", error);
                     return {
                         success: false,
-                        response: `Error creating wallet: ${error.message}`
+                        response: `Error listing pending transactions: ${error.message}`
                     };
                 }
             }
         },
         
-        // Update Wallet Action
+        // Get Transaction Status Action
         {
-            name: "PRIVY_UPDATE_WALLET",
-            description: "Update a Privy wallet's policies",
-            similes: ["UPDATE WALLET", "MODIFY WALLET", "CHANGE WALLET"],
-            examples: updateWalletExamples,
+            name: "PRIVY_GET_TRANSACTION_STATUS",
+            description: "Check whether a transaction sent through Privy is pending, mined, confirmed, failed or dropped",
+            similes: ["TRANSACTION STATUS", "CHECK TRANSACTION", "TX STATUS", "IS MY TRANSACTION CONFIRMED"],
+            examples: getTransactionStatusExamples,
             validate: async (runtime: IAgentRuntime) => {
                 try {
                     await validatePrivyConfig(runtime);
@@ -316,54 +3185,64 @@ export class PrivyPlugin implements Plugin {
             ) => {
                 try {
                     const config = await validatePrivyConfig(runtime);
-                    const privyAppID = config.PRIVY_APP_ID;
-                    const privyAppSecret = config.PRIVY_APP_SECRET;
-                    
-                    const walletId = options?.walletId as string;
-                    const policyIds = options?.policyIds as string[];
+                    const tracker = transactionTracker(runtime, this.config.tracking);
+                    const registry = tokenRegistry(runtime);
+                    const summarize = (transaction: PrivyTrackedTransaction) => summarizeTransaction(
+                        transaction,
+                        describeTransaction(transaction.request, transaction.chainType, address => registry.byAddress(address, transaction.chainType))
+                    );
                     
-                    if (!walletId) {
+                    // Without a hash, report every transaction that has not settled yet
+                    // EVM hashes are hex; Solana signatures are 64 bytes in base58
+                    const hash = (options?.hash as string)
+                        || message.content.text?.match(/0x[0-9a-fA-F]{64}/)?.[0]
+                        || message.content.text?.match(/\b[1-9A-HJ-NP-Za-km-z]{86,88}\b/)?.[0];
+                    const usable = await this.usableWalletIds(runtime, message.userId);
+                    if (!hash) {
+                        const visible = (await tracker.list({ inFlight: true })).filter(transaction => !usable || usable.has(transaction.request.wallet_id));
+                        const inFlight = await this.refreshTransactions(runtime, config, visible);
                         return {
-                            success: false,
-                            response: "Wallet ID is required to update a wallet."
+                            success: true,
+                            response: inFlight.length
+                                ? `Transactions in flight:\n${inFlight.map(summarize).join("\n")}`
+                                : "No transactions sent through Privy are in flight.",
+                            data: { transactions: inFlight }
                         };
                     }
                     
-                    if (!policyIds || !policyIds.length) {
+                    const tracked = await tracker.get(hash);
+                    if (!tracked || (usable && !usable.has(tracked.request.wallet_id))) {
                         return {
                             success: false,
-                            response: "At least one policy ID is required for wallet updates."
+                            response: `Transaction ${hash} was not sent through this agent, so it is not being tracked.`
                         };
                     }
                     
-                    const request: PrivyUpdateWalletRequest = {
-                        policy_ids: policyIds
-                    };
-                    
-                    const ws = walletService(privyAppID, privyAppSecret);
-                    const walletData = await ws.updateWallet(walletId, request);
-                    
+                    const [transaction] = await this.refreshTransactions(runtime, config, [tracked]);
+                    const unchecked = !isSettled(transaction.status) && !this.rpcNetwork(config, transaction.chainType)
+                        ? ` No RPC endpoint is configured for ${transaction.chainType}, so its status cannot be checked.`
+                        : "";
                     return {
                         success: true,
-                        response: `Successfully updated wallet policies. The wallet now follows the specified compliance policies.`,
-                        data: { wallet: walletData }
+                        response: `Transaction ${summarize(transaction)}.${unchecked}`,
+                        data: { transaction }
                     };
                 } catch (error: any) {
-                    console.error("Error in update wallet action:", error);
+                    console.error("Error in get transaction status action:", error);
                     return {
                         success: false,
-                        response: `Error updating wallet: ${error.message}`
+                        response: `Error checking transaction status: ${error.message}`
                     };
                 }
             }
         },
         
-        // Get Wallets Action
+        // Get Transaction History Action
         {
-            name: "PRIVY_GET_WALLETS",
-            description: "Get all Privy wallets",
-            similes: ["GET WALLETS", "LIST WALLETS", "FETCH WALLETS"],
-            examples: getWalletsExamples,
+            name: "PRIVY_GET_TRANSACTION_HISTORY",
+            description: "Show a Privy wallet's transaction history, filterable by date range, counterparty, token and status",
+            similes: ["TRANSACTION HISTORY", "WALLET HISTORY", "PAST TRANSACTIONS", "WHAT DID THE WALLET SEND"],
+            examples: getTransactionHistoryExamples,
             validate: async (runtime: IAgentRuntime) => {
                 try {
                     await validatePrivyConfig(runtime);
@@ -380,44 +3259,120 @@ export class PrivyPlugin implements Plugin {
             ) => {
                 try {
                     const config = await validatePrivyConfig(runtime);
-                    const privyAppID = config.PRIVY_APP_ID;
-                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    const ws = walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+                    const text = message.content.text || "";
+                    
+                    const walletAliases = await this.walletAliases(runtime, message.userId);
+                    const mentioned = options?.walletId ? undefined : this.walletMentioned(text, walletAliases);
+                    const { intent, missing } = await resolveIntent(runtime, message, state, mentioned ? { ...options, walletId: mentioned } : options, {
+                        required: ["walletId"],
+                        walletAliases
+                    });
+                    if (missing.length) {
+                        return {
+                            success: false,
+                            response: clarifyingQuestion(missing, intent),
+                            data: { intent, missing }
+                        };
+                    }
+                    const refusal = await this.walletAccessRefusal(runtime, message.userId, intent.walletId!);
+                    if (refusal) {
+                        return { success: false, response: refusal };
+                    }
+                    const wallet = await ws.getWallet(intent.walletId!);
+                    const chainType = isChainType(wallet.chain_type) ? wallet.chain_type : "ethereum";
                     
-                    const ws = walletService(privyAppID, privyAppSecret);
-                    const walletsData = await ws.getWallets();
+                    // Explicit options win over what the message text says
+                    const dates = parseDateRange(text) || {};
+                    const toTime = (value: unknown) => value === undefined || value === "" ? undefined : new Date(value as string | number).getTime();
+                    const statusText = (options?.status as string) || text.match(/\b(pending|confirmed|failed|dropped)\b/i)?.[1];
+                    const filter: PrivyHistoryFilter = {
+                        since: toTime(options?.since) ?? dates.since,
+                        until: toTime(options?.until) ?? dates.until,
+                        counterparty: (options?.counterparty as string) || intent.to,
+                        token: (options?.token as string) || intent.token,
+                        status: statusText ? statusText.toLowerCase() as PrivyHistoryStatus : undefined
+                    };
+                    if ((filter.since !== undefined && Number.isNaN(filter.since)) || (filter.until !== undefined && Number.isNaN(filter.until))) {
+                        throw new PrivyValidationError("Invalid date range: since and until must be dates or timestamps", undefined, "invalid_date");
+                    }
+                    if (filter.counterparty) {
+                        filter.counterparty = normalizeAddress(filter.counterparty, chainType, "counterparty address");
+                    }
                     
-                    if (!walletsData.length) {
+                    // Privy's records may be unavailable for some chains; the plugin's own records still apply
+                    let privyEntries: PrivyHistoryEntry[] = [];
+                    let privyError: string | undefined;
+                    try {
+                        privyEntries = await this.readPrivyHistory(config, wallet.id, {
+                            chain: (options?.chain as string) || wallet.chain_type,
+                            asset: filter.token?.toLowerCase()
+                        }, filter.since);
+                    } catch (error: any) {
+                        console.warn(`Could not read Privy transactions of wallet ${wallet.id}:`, error.message);
+                        privyError = error.message;
+                    }
+                    
+                    const registry = tokenRegistry(runtime);
+                    const tracked = await transactionTracker(runtime, this.config.tracking).list({ walletId: wallet.id });
+                    const localEntries = tracked.map(transaction => fromTrackedTransaction(
+                        transaction,
+                        address => registry.byAddress(address, transaction.chainType),
+                        this.config.explorers
+                    ));
+                    const entries = filterHistory(mergeHistory(privyEntries, localEntries), filter);
+                    
+                    const pageSize = Math.min(Math.max(Number(options?.pageSize) || DEFAULT_HISTORY_PAGE_SIZE, 1), MAX_HISTORY_PAGE_SIZE);
+                    const pages = Math.max(Math.ceil(entries.length / pageSize), 1);
+                    const page = Math.min(Math.max(Number(options?.page ?? text.match(/\bpage\s+(\d+)\b/i)?.[1]) || 1, 1), pages);
+                    const pageEntries = entries.slice((page - 1) * pageSize, page * pageSize);
+                    
+                    const label = this.walletLabel(wallet.id, walletAliases) || wallet.id;
+                    const unavailable = privyError
+                        ? `\nPrivy's transaction records could not be read (${privyError}), so only transactions sent by this agent are shown.`
+                        : "";
+                    if (!entries.length) {
                         return {
                             success: true,
-                            response: "No wallets found. You can create a new wallet with the PRIVY_CREATE_WALLET action."
+                            response: `No transactions found for wallet ${label} matching your criteria.${unavailable}`,
+                            data: { entries, total: 0, page, pages, filter, privyError }
                         };
                     }
                     
-                    const walletList = walletsData.map(wallet => 
-                        `Wallet ${wallet.id}: ${wallet.address} (${wallet.chain_type})`
-                    ).join("\n");
-                    
+                    const more = page < pages ? `\nAsk for page ${page + 1} to see older transactions.` : "";
                     return {
                         success: true,
-                        response: `Here are your available wallets:\n${walletList}`,
-                        data: { wallets: walletsData }
+                        response: `Transaction history for wallet ${label} (page ${page} of ${pages}, ${entries.length} transactions):\n${formatHistoryTable(pageEntries)}${more}${unavailable}`,
+                        data: { entries: pageEntries, total: entries.length, page, pages, filter, privyError }
                     };
                 } catch (error: any) {
-                    console.error("Error in get wallets action:", error);
+                    console.error("Error in get transaction history action:", error);
+                    if (error instanceof PrivyValidationError) {
+                        return {
+                            success: false,
+                            response: `Cannot read transaction history: ${error.message}`
+                        };
+                    }
+                    if (error instanceof PrivyNotFoundError) {
+                        return {
+                            success: false,
+                            response: `Cannot read transaction history because the wallet was not found: ${error.message}`
+                        };
+                    }
                     return {
                         success: false,
-                        response: `Error retrieving wallets: ${error.message}`
+                        response: `Error retrieving transaction history: ${error.message}`
                     };
                 }
             }
         },
         
-        // Send Transaction Action
+        // Get Spending Limits Action
         {
-            name: "PRIVY_SEND_TRANSACTION",
-            description: "Send a transaction using a Privy wallet",
-            similes: ["SEND TRANSACTION", "TRANSFER", "SEND CRYPTO"],
-            examples: sendTransactionExamples,
+            name: "PRIVY_GET_SPENDING_LIMITS",
+            description: "Show a Privy wallet's spending limits and how much of each is left",
+            similes: ["SPENDING LIMITS", "REMAINING ALLOWANCE", "HOW MUCH CAN I SEND"],
+            examples: getSpendingLimitsExamples,
             validate: async (runtime: IAgentRuntime) => {
                 try {
                     await validatePrivyConfig(runtime);
@@ -434,48 +3389,55 @@ export class PrivyPlugin implements Plugin {
             ) => {
                 try {
                     const config = await validatePrivyConfig(runtime);
-                    const privyAppID = config.PRIVY_APP_ID;
-                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    const ws = walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
                     
-                    const walletId = options?.walletId as string;
-                    const to = options?.to as string;
-                    const value = options?.value as string;
-                    const data = options?.data as string;
-                    
-                    if (!walletId || !to || !value) {
+                    const walletAliases = await this.walletAliases(runtime, message.userId);
+                    const mentioned = options?.walletId ? undefined : this.walletMentioned(message.content.text || "", walletAliases);
+                    const { intent, missing } = await resolveIntent(runtime, message, state, mentioned ? { ...options, walletId: mentioned } : options, {
+                        required: ["walletId"],
+                        walletAliases
+                    });
+                    if (missing.length) {
                         return {
                             success: false,
-                            response: "Wallet ID, recipient address, and value are required for transactions."
+                            response: clarifyingQuestion(missing, intent),
+                            data: { intent, missing }
                         };
                     }
+                    const refusal = await this.walletAccessRefusal(runtime, message.userId, intent.walletId!);
+                    if (refusal) {
+                        return { success: false, response: refusal };
+                    }
+                    const wallet = await ws.getWallet(intent.walletId!);
+                    const chainType = isChainType(wallet.chain_type) ? wallet.chain_type : "ethereum";
+                    const label = this.walletLabel(wallet.id, walletAliases) || wallet.id;
                     
-                    const request: PrivyTransactionRequest = {
-                        wallet_id: walletId,
-                        to,
-                        value,
-                        data
-                    };
-                    
-                    const ws = walletService(privyAppID, privyAppSecret);
-                    const txData = await ws.sendTransaction(request);
+                    const limits = spendingLimits(runtime, this.config.limits);
+                    const check = await limits.evaluate(wallet.id, chainType, tokenRegistry(runtime).list(chainType), undefined, await this.queuedRequests(runtime, wallet.id));
+                    if (!check.remaining.length) {
+                        return {
+                            success: true,
+                            response: `Wallet ${label} has no spending limits set by this agent; only its Privy policy applies.`,
+                            data: { limits: limits.limitsFor(wallet.id), check }
+                        };
+                    }
                     
                     return {
                         success: true,
-                        response: `Transaction sent successfully! Transaction hash: ${txData.hash}`,
-                        data: { transaction: txData }
+                        response: `Spending limits of wallet ${label}:\n${check.remaining.map(allowance => `- ${allowance.formatted}`).join("\n")}`,
+                        data: { limits: limits.limitsFor(wallet.id), check }
                     };
                 } catch (error: any) {
-                    console.error("Error in send transaction action:", error);
-                    // Check for policy violation errors
-                    if (error.message.includes("policy") || error.message.includes("denied")) {
+                    console.error("Error in get spending limits action:", error);
+                    if (error instanceof PrivyNotFoundError) {
                         return {
                             success: false,
-                            response: `Transaction failed due to policy restrictions: ${error.message}. This transaction may involve tokens or addresses that aren't allowed by your wallet's compliance policies.`
+                            response: `Cannot read spending limits because the wallet was not found: ${error.message}`
                         };
                     }
                     return {
                         success: false,
-                        response: `Error sending transaction: ${error.message}`
+                        response: `Error retrieving spending limits: ${error.message}`
                     };
                 }
             }
@@ -484,8 +3446,8 @@ export class PrivyPlugin implements Plugin {
         // Sign Transaction Action
         {
             name: "PRIVY_SIGN_TRANSACTION",
-            description: "Sign a transaction using a Privy wallet",
-            similes: ["SIGN TRANSACTION", "SIGN TX", "SIGN MESSAGE"],
+            description: "Sign a message (personal_sign), EIP-712 typed data or a transaction (eth_signTransaction) with a Privy wallet without sending anything; Solana wallets sign messages and SOL or SPL token transfers",
+            similes: ["SIGN TRANSACTION", "SIGN TX", "SIGN MESSAGE", "SIGN TYPED DATA", "SIGN PERMIT"],
             examples: signTransactionExamples,
             validate: async (runtime: IAgentRuntime) => {
                 try {
@@ -501,38 +3463,207 @@ export class PrivyPlugin implements Plugin {
                 state?: State,
                 options?: { [key: string]: unknown }
             ) => {
+                let evaluation: PrivyPolicyEvaluation | undefined;
                 try {
                     const config = await validatePrivyConfig(runtime);
-                    const privyAppID = config.PRIVY_APP_ID;
-                    const privyAppSecret = config.PRIVY_APP_SECRET;
+                    const text = message.content.text || "";
                     
-                    const walletId = options?.walletId as string;
-                    const msg = options?.message as string;
+                    // Typed data may be passed as an option or pasted into the message as JSON
+                    const pastedJson = text.match(/\{[\s\S]*\}/)?.[0];
+                    const typedDataInput = options?.typedData ?? (pastedJson && /"primaryType"/.test(pastedJson) ? pastedJson : undefined);
+                    const parsed = parseIntentFromText(text);
+                    const requestedMethod = options?.method as string | undefined;
+                    const method = (requestedMethod && SOLANA_SIGN_METHODS[requestedMethod as PrivySolanaMethod]) || (requestedMethod as PrivySignMethod | undefined) || (
+                        typedDataInput !== undefined ? "eth_signTypedData_v4"
+                            : options?.message !== undefined || parsed.message ? "personal_sign"
+                            : options?.to !== undefined || parsed.to ? "eth_signTransaction"
+                            : "personal_sign"
+                    );
+                    if (!SIGN_METHODS.includes(method)) {
+                        throw new PrivyValidationError(`Unsupported signing method ${method}; use one of ${SIGN_METHODS.join(", ")}`, undefined, "invalid_method");
+                    }
                     
-                    if (!walletId || !msg) {
+                    const chainType = this.requestChainType(options, text);
+                    if (chainType === "solana" && method === "eth_signTypedData_v4") {
+                        throw new PrivyValidationError("Solana wallets cannot sign EIP-712 typed data", undefined, "invalid_method");
+                    }
+                    const registry = tokenRegistry(runtime);
+                    const required: (keyof PrivyIntent)[] = method === "personal_sign"
+                        ? ["walletId", "message"]
+                        : method === "eth_signTransaction" ? ["walletId", "to", "value"] : ["walletId"];
+                    const { intent, missing } = await resolveIntent(runtime, message, state, options, {
+                        required,
+                        walletAliases: await this.walletAliases(runtime, message.userId),
+                        tokenFor: symbol => this.optionToken(options, symbol) || registry.bySymbol(symbol, chainType)
+                    });
+                    if (missing.length) {
                         return {
                             success: false,
-                            response: "Wallet ID and message are required for signing."
+                            response: clarifyingQuestion(missing, intent),
+                            data: { intent, missing }
                         };
                     }
                     
-                    const ws = walletService(privyAppID, privyAppSecret);
-                    const signData = await ws.signTransaction(walletId, msg);
+                    // Typed data is validated before anything is sent to Privy
+                    const typedData = method === "eth_signTypedData_v4" ? parseTypedData(typedDataInput) : undefined;
+                    
+                    const ws = walletService(config.PRIVY_APP_ID, config.PRIVY_APP_SECRET, config.PRIVY_AUTHORIZATION_PRIVATE_KEY, this.clientOptions(options));
+                    const refusal = await this.walletAccessRefusal(runtime, message.userId, intent.walletId as string);
+                    if (refusal) {
+                        return { success: false, response: refusal };
+                    }
+                    const wallet = await ws.getWallet(intent.walletId as string);
+                    
+                    // A dry run reports how the wallet's policies would judge the transaction it would have signed
+                    const simulatePolicy = async (request: PrivyTransactionRequest, policyMethod: PrivyMethodRule['method']) => {
+                        if (this.isDryRun(options)) {
+                            evaluation = (await this.simulatePolicies(config, request, chainType, { method: policyMethod, policyId: options?.policyId as string | undefined }))?.evaluation;
+                        }
+                    };
+                    
+                    let signed: string;
+                    let signer: string | undefined;
+                    let summary: string;
+                    let details: Record<string, unknown> = {};
+                    if (chainType === "solana") {
+                        // ed25519 signatures cannot be recovered, only verified against the wallet's public key
+                        let verifies: boolean;
+                        if (method === "personal_sign") {
+                            const msg = intent.message as string;
+                            const encoding = options?.encoding === "utf-8" || !/^0x([0-9a-fA-F]{2})+$/.test(msg) ? "utf-8" : "hex";
+                            const bytes = encoding === "hex" ? hexToBytes(msg, "message") : new TextEncoder().encode(msg);
+                            const result = await ws.signSolanaMessage(wallet.id, bytes);
+                            signed = base58Encode(Buffer.from(result.signature, "base64"));
+                            verifies = verifySolanaSignature(bytes, signed, wallet.address);
+                            summary = `Message signed successfully! Signature: ${signed}`;
+                            details = { message: msg, encoding };
+                        } else {
+                            const token = this.optionToken(options, intent.token);
+                            const request = await this.buildSendRequest(config, intent, chainType, token || (intent.token ? registry.bySymbol(intent.token, chainType) : undefined));
+                            const built = await this.buildSolanaTransfer(config, request, wallet.address);
+                            await simulatePolicy(request, "signTransaction");
+                            const result = await ws.signSolanaTransaction(wallet.id, built.transaction);
+                            signed = result.signed_transaction;
+                            const transaction = decodeSolanaTransaction(signed);
+                            verifies = transaction.accountKeys[0] === wallet.address
+                                && verifySolanaSignature(transaction.message, transaction.signatures[0], wallet.address);
+                            
+                            // The signed transaction must be the one that was built
+                            const changed = Buffer.compare(Buffer.from(transaction.message), Buffer.from(decodeSolanaTransaction(built.transaction).message)) !== 0;
+                            const mismatch = changed ? "\nWarning: the signed transaction differs from the one that was built." : "";
+                            const description = describeTransaction(request, chainType, address => token || registry.byAddress(address, chainType));
+                            summary = `Transaction signed successfully, but not sent. Signed ${description} (signature once broadcast ${transaction.signatures[0]}; it must land by block height ${built.lastValidBlockHeight}, when its blockhash expires).${mismatch}\nSigned transaction: ${signed}`;
+                            details = { request, transaction: { ...transaction, message: undefined }, caip2: built.caip2, lastValidBlockHeight: built.lastValidBlockHeight, mismatch: changed };
+                        }
+                        signer = verifies ? wallet.address : undefined;
+                    } else if (typedData) {
+                        const preview = previewTypedData(typedData);
+                        const result = await ws.signTypedData(wallet.id, typedData);
+                        signed = result.signature;
+                        signer = recoverAddress(hashTypedData(typedData), signed);
+                        summary = `Typed data signed successfully.\n${preview}\nSignature: ${signed}`;
+                        details = { typedData, preview };
+                    } else if (method === "personal_sign") {
+                        const msg = intent.message as string;
+                        const encoding = options?.encoding === "utf-8" || !/^0x([0-9a-fA-F]{2})+$/.test(msg) ? "utf-8" : "hex";
+                        const result = await ws.signMessage(wallet.id, msg, encoding);
+                        signed = result.signature;
+                        signer = recoverAddress(hashMessage(encoding === "hex" ? hexToBytes(msg, "message") : msg), signed);
+                        summary = `Message signed successfully! Signature: ${signed}`;
+                        details = { message: msg, encoding };
+                    } else {
+                        const request = await this.buildSendRequest(config, intent);
+                        // The chain is never guessed: a transaction signed for the wrong chain could be replayed on it
+                        const chainSetting = chainType === "monad" ? "PRIVY_MONAD_CHAIN_ID" : "PRIVY_ETHEREUM_CHAIN_ID";
+                        const chainId = (options?.chainId as string | undefined)
+                            ?? (chainType === "monad" ? config.PRIVY_MONAD_CHAIN_ID : config.PRIVY_ETHEREUM_CHAIN_ID);
+                        if (!chainId) {
+                            throw new PrivyValidationError(`A chain ID is required to sign this ${chainType} transaction. Pass chainId or set ${chainSetting}.`, undefined, "missing_chain_id");
+                        }
+                        const quantity = (name: string) => options?.[name] === undefined ? undefined : String(options[name]);
+                        await simulatePolicy(request, chainType === "monad" ? "monad_signTransaction" : "eth_signTransaction");
+                        const result = await ws.signTransaction(wallet.id, {
+                            to: request.to,
+                            value: request.value,
+                            data: request.data,
+                            chain_id: String(chainId),
+                            nonce: quantity("nonce"),
+                            gas_limit: quantity("gasLimit"),
+                            gas_price: quantity("gasPrice"),
+                            max_fee_per_gas: quantity("maxFeePerGas"),
+                            max_priority_fee_per_gas: quantity("maxPriorityFeePerGas")
+                        });
+                        signed = result.signed_transaction;
+                        const transaction = decodeSignedTransaction(signed);
+                        signer = transaction.signer;
+                        
+                        // The signed transaction must be the one that was asked for
+                        const changed = [
+                            !transaction.to || !sameAddress(transaction.to, request.to) ? "recipient" : "",
+                            BigInt(transaction.value) !== BigInt(request.value || "0") ? "value" : "",
+                            transaction.data.toLowerCase() !== (request.data || "0x").toLowerCase() ? "data" : "",
+                            transaction.chainId !== undefined && transaction.chainId !== String(BigInt(chainId)) ? "chain ID" : ""
+                        ].filter(Boolean);
+                        const mismatch = changed.length ? `\nWarning: the signed transaction differs from the request in its ${changed.join(", ")}.` : "";
+                        const description = describeTransaction(request, chainType, address => this.optionToken(options, intent.token) || registry.byAddress(address, chainType));
+                        summary = `Transaction signed successfully, but not sent. Signed ${description} (nonce ${transaction.nonce}, gas limit ${transaction.gasLimit}, hash once broadcast ${transaction.hash}).${mismatch}\nSigned transaction: ${signed}`;
+                        details = { request, transaction, mismatch: changed };
+                    }
+                    
+                    // Verify the signature locally rather than trusting the signing service
+                    const verified = signer !== undefined && sameAddress(signer, wallet.address, chainType);
+                    const walletName = this.walletLabel(wallet.id) || wallet.id;
+                    const verification = chainType === "solana"
+                        ? verified
+                            ? `Signature verified against the public key ${wallet.address} of wallet ${walletName}.`
+                            : `Warning: the signature does not verify against the wallet's address ${wallet.address}. Do not rely on it.`
+                        : verified
+                            ? `Recovered signer ${signer} matches wallet ${walletName}.`
+                            : `Warning: the signature recovers to ${signer}, not to the wallet's address ${wallet.address}. Do not rely on it.`;
+                    const rpcMethod = chainType === "solana"
+                        ? (Object.keys(SOLANA_SIGN_METHODS) as PrivySolanaMethod[]).find(name => SOLANA_SIGN_METHODS[name] === method)
+                        : method;
                     
                     return {
-                        success: true,
-                        response: `Transaction signed successfully! Signature: ${signData.signature}`,
-                        data: { signature: signData }
+                        success: verified,
+                        response: `${summary}\n${verification}`,
+                        data: { method: rpcMethod, signature: signed, signer, verified, walletAddress: wallet.address, ...details }
                     };
                 } catch (error: any) {
+                    if (error instanceof PrivyDryRunError) {
+                        return this.dryRunResult("PRIVY_SIGN_TRANSACTION", error.request, { evaluation });
+                    }
                     console.error("Error in sign transaction action:", error);
-                    // Check for policy violation errors
-                    if (error.message.includes("policy") || error.message.includes("denied")) {
+                    if (error instanceof PrivyPolicyViolationError) {
                         return {
                             success: false,
                             response: `Signing failed due to policy restrictions: ${error.message}. This operation may not be allowed by your wallet's compliance policies.`
                         };
                     }
+                    if (error instanceof PrivyRateLimitError) {
+                        return {
+                            success: false,
+                            response: `Signing failed because Privy is rate limiting requests. Please try again shortly.`
+                        };
+                    }
+                    if (error instanceof PrivyUnauthorizedError) {
+                        return {
+                            success: false,
+                            response: `Signing failed because Privy rejected the app credentials or authorization signature: ${error.message}`
+                        };
+                    }
+                    if (error instanceof PrivyNotFoundError) {
+                        return {
+                            success: false,
+                            response: `Signing failed because the wallet was not found: ${error.message}`
+                        };
+                    }
+                    if (error instanceof PrivyValidationError) {
+                        return {
+                            success: false,
+                            response: `Nothing was signed because the request is invalid: ${error.message}`
+                        };
+                    }
                     return {
                         success: false,
                         response: `Error signing transaction: ${error.message}`
@@ -540,7 +3671,7 @@ export class PrivyPlugin implements Plugin {
                 }
             }
         }
-    ];
+    ].map(action => this.withAccessControl(action));
 }
 
 // Export default instance with default config
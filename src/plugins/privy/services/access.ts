@@ -0,0 +1,147 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { PrivyAccessConfig, PrivyRole } from "../types/access.js";
+import { PrivyWalletDirectoryEntry } from "../types/directory.js";
+
+/**
+ * Character setting holding role assignments, combined with those in the plugin configuration
+ */
+export const ACCESS_SETTINGS_KEY = "privyAccess";
+
+/**
+ * Roles ordered from least to most privileged
+ */
+const ROLE_ORDER: PrivyRole[] = ["viewer", "operator", "admin"];
+
+/**
+ * Least role required by each action; actions not listed require an admin
+ */
+export const DEFAULT_ACTION_ROLES: Record<string, PrivyRole> = {
+    PRIVY_GET_POLICY: "viewer",
+    PRIVY_GET_WALLETS: "viewer",
+    PRIVY_GET_BALANCE: "operator",
+    PRIVY_GET_TRANSACTION_STATUS: "operator",
+    PRIVY_GET_TRANSACTION_HISTORY: "operator",
+    PRIVY_GET_SPENDING_LIMITS: "operator",
+    PRIVY_LIST_PENDING: "operator",
+    PRIVY_CREATE_WALLET: "operator",
+    PRIVY_SEND_TRANSACTION: "operator",
+    PRIVY_BATCH_SEND: "operator",
+    PRIVY_CREATE_SCHEDULE: "operator",
+    PRIVY_LIST_SCHEDULES: "operator",
+    PRIVY_PAUSE_SCHEDULE: "operator",
+    PRIVY_RESUME_SCHEDULE: "operator",
+    PRIVY_CANCEL_SCHEDULE: "operator",
+    PRIVY_SIGN_TRANSACTION: "operator",
+    PRIVY_REJECT_TRANSACTION: "operator",
+    PRIVY_APPROVE_TRANSACTION: "admin",
+    PRIVY_UPDATE_WALLET: "admin",
+    PRIVY_CREATE_POLICY: "admin",
+    PRIVY_UPDATE_POLICY: "admin",
+    PRIVY_ADD_POLICY_RULE: "admin",
+    PRIVY_REMOVE_POLICY_RULE: "admin",
+};
+
+/**
+ * Outcome of an access check
+ */
+export interface PrivyAccessDecision {
+    allowed: boolean;
+    /** The user's role, if they have one */
+    role?: PrivyRole;
+    /** Least role the action requires */
+    required: PrivyRole;
+}
+
+/**
+ * Checks whether a role is at least as privileged as another
+ *
+ * @param role - The role held
+ * @param required - The role required
+ * @returns Whether the held role suffices
+ */
+export function hasRole(role: PrivyRole | undefined, required: PrivyRole): boolean {
+    return role !== undefined && ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(required);
+}
+
+/**
+ * Explains a refused access check to the user
+ *
+ * @param action - The action name
+ * @param decision - The refused decision
+ * @returns The refusal message
+ */
+export function describeAccessDenied(action: string, decision: PrivyAccessDecision): string {
+    const held = decision.role ? `your role is ${decision.role}` : "you have no Privy role";
+    return `You are not allowed to run ${action}: it requires the ${decision.required} role and ${held}. Ask a Privy admin for access.`;
+}
+
+/**
+ * Explains to the user why they may not act on a wallet
+ *
+ * @param walletId - The wallet ID
+ * @param entry - The wallet's directory entry, if the agent knows the wallet
+ * @returns The refusal message
+ */
+export function describeWalletAccessDenied(walletId: string, entry?: PrivyWalletDirectoryEntry): string {
+    const reason = entry ? "it is owned by another user" : "it was not created through this agent, so only admins may use it";
+    return `You are not allowed to use wallet ${walletId}: ${reason}. Ask a Privy admin for access.`;
+}
+
+/**
+ * Creates an access checker combining the plugin's role configuration with the character's `privyAccess` setting
+ *
+ * @param runtime - The agent runtime, whose own messages are always allowed
+ * @param accessConfig - Role configuration from the plugin
+ * @returns Access control methods
+ */
+export const accessControl = (runtime: IAgentRuntime, accessConfig: PrivyAccessConfig = {}) => {
+    const settings = (runtime.character?.settings as { [ACCESS_SETTINGS_KEY]?: PrivyAccessConfig } | undefined)?.[ACCESS_SETTINGS_KEY] || {};
+    const membersOf = (role: PrivyRole) => [...(accessConfig[role] || []), ...(settings[role] || [])];
+    const enabled = ROLE_ORDER.some(role => membersOf(role).length > 0);
+    const defaultRole = accessConfig.defaultRole ?? settings.defaultRole ?? "none";
+    const actionRoles = { ...DEFAULT_ACTION_ROLES, ...settings.actionRoles, ...accessConfig.actionRoles };
+
+    /**
+     * Gets a user's role; users listed under several roles hold the most privileged one
+     *
+     * @param userId - The Eliza user ID
+     * @returns The role, or undefined if the user may not run Privy actions
+     */
+    const roleOf = (userId: string): PrivyRole | undefined => {
+        if (userId === runtime.agentId) {
+            return "admin";
+        }
+        const listed = [...ROLE_ORDER].reverse().find(role => membersOf(role).includes(userId));
+        return listed || (defaultRole === "none" ? undefined : defaultRole);
+    };
+
+    /**
+     * Checks whether a user may run an action
+     *
+     * @param action - The action name
+     * @param userId - The Eliza user ID
+     * @returns The decision
+     */
+    const check = (action: string, userId: string): PrivyAccessDecision => {
+        const required = actionRoles[action] || "admin";
+        const role = roleOf(userId);
+        return { allowed: hasRole(role, required), role, required };
+    };
+
+    /**
+     * Checks whether a user may act on a wallet: admins on any wallet, other users on the wallets they
+     * own and on shared wallets in the directory
+     *
+     * @param userId - The Eliza user ID
+     * @param entry - The wallet's directory entry, if the agent knows the wallet
+     * @returns Whether the user may act on the wallet
+     */
+    const canUseWallet = (userId: string, entry?: PrivyWalletDirectoryEntry): boolean => {
+        if (roleOf(userId) === "admin") {
+            return true;
+        }
+        return entry !== undefined && (!entry.ownerId || entry.ownerId === userId);
+    };
+
+    return { enabled, roleOf, check, canUseWallet };
+};
@@ -0,0 +1,162 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { approvalReason, approvalService, canResolveApproval } from "./approvals.js";
+import { PrivyApprovalConfig, PrivyPendingApproval } from "../types/approvals.js";
+import { PrivyTransactionRequest } from "../types/wallets.js";
+
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const RECIPIENT = "1111111111111111111111111111111111111111";
+const EXPIRY_MS = 60 * 60 * 1000;
+
+const send: PrivyTransactionRequest = { wallet_id: "wallet-1", to: `0x${RECIPIENT}`, value: "1000000000000000000" };
+
+function transfer(amount: bigint): PrivyTransactionRequest {
+    return {
+        wallet_id: "wallet-1",
+        to: TOKEN,
+        value: "0",
+        data: `0xa9059cbb${RECIPIENT.padStart(64, "0")}${amount.toString(16).padStart(64, "0")}`
+    };
+}
+
+/**
+ * A runtime whose cache is a map, so tests can inspect and age the queue
+ */
+function cachedRuntime() {
+    const cache = new Map<string, unknown>();
+    const runtime = {
+        cacheManager: {
+            get: async (key: string) => cache.get(key),
+            set: async (key: string, value: unknown) => { cache.set(key, value); },
+            delete: async (key: string) => { cache.delete(key); }
+        }
+    } as unknown as IAgentRuntime;
+    const age = (id: string, ms: number) => {
+        const approval = (cache.get("privy/approvals") as Record<string, PrivyPendingApproval>)[id];
+        approval.createdAt -= ms;
+        approval.expiresAt -= ms;
+    };
+    return { runtime, age };
+}
+
+describe("approvalReason", () => {
+    const config: PrivyApprovalConfig = {
+        defaultThreshold: "500000000000000000",
+        walletThresholds: { "wallet-2": "5000000000000000000" },
+        tokenThresholds: { [TOKEN.toUpperCase().replace("0X", "0x")]: "100" }
+    };
+
+    it("asks for approval above the wallet's native threshold", () => {
+        expect(approvalReason(config, send)).toBe("value 1 ETH exceeds the approval threshold of 0.5 ETH for wallet wallet-1");
+        expect(approvalReason(config, { ...send, wallet_id: "wallet-2" })).toBeUndefined();
+    });
+
+    it("asks for approval of token transfers above the token threshold", () => {
+        expect(approvalReason(config, transfer(101n))).toContain(`token ${TOKEN}`);
+        expect(approvalReason(config, transfer(100n))).toBeUndefined();
+    });
+
+    it("never asks without configuration", () => {
+        expect(approvalReason(undefined, send)).toBeUndefined();
+    });
+});
+
+describe("canResolveApproval", () => {
+    const approval = { requestedBy: "alice" } as PrivyPendingApproval;
+
+    it("only lets configured approvers act", () => {
+        expect(canResolveApproval({ approvers: ["bob"] }, approval, "bob")).toBe(true);
+        expect(canResolveApproval({ approvers: ["bob"] }, approval, "carol")).toBe(false);
+    });
+
+    it("otherwise lets anyone but the requester act", () => {
+        expect(canResolveApproval({}, approval, "bob")).toBe(true);
+        expect(canResolveApproval({}, approval, "alice")).toBe(false);
+    });
+});
+
+describe("approvalService", () => {
+    it("queues a repeated intent only once", async () => {
+        const { runtime } = cachedRuntime();
+        const approvals = approvalService(runtime, EXPIRY_MS);
+
+        const first = await approvals.queue(send, "key-1", "too big", "alice");
+        const repeat = await approvals.queue(send, "key-1", "too big", "alice");
+        await approvals.queue(send, "key-2", "too big", "alice");
+
+        expect(repeat.id).toBe(first.id);
+        expect((await approvals.listPending()).map(approval => approval.idempotencyKey)).toEqual(["key-1", "key-2"]);
+    });
+
+    it("records who resolved an approval and drops it from the pending list", async () => {
+        const { runtime } = cachedRuntime();
+        const approvals = approvalService(runtime, EXPIRY_MS);
+        const approval = await approvals.queue(send, "key-1", "too big", "alice");
+
+        await approvals.reject(approval.id, "bob");
+
+        await expect(approvals.get(approval.id)).resolves.toMatchObject({ status: "rejected", resolvedBy: "bob" });
+        await expect(approvals.listPending()).resolves.toEqual([]);
+    });
+
+    it("lets only one of two concurrent approvals claim a transaction", async () => {
+        const { runtime } = cachedRuntime();
+        const approvals = approvalService(runtime, EXPIRY_MS);
+        const approval = await approvals.queue(send, "key-1", "too big", "alice");
+
+        const claims = await Promise.all([approvals.claim(approval.id, "bob"), approvals.claim(approval.id, "carol")]);
+
+        expect(claims.filter(Boolean)).toHaveLength(1);
+        await expect(approvals.get(approval.id)).resolves.toMatchObject({ status: "approved", resolvedBy: claims.find(Boolean)?.resolvedBy });
+    });
+
+    it("returns a claimed approval whose transaction was not sent to the queue", async () => {
+        const { runtime } = cachedRuntime();
+        const approvals = approvalService(runtime, EXPIRY_MS);
+        const approval = await approvals.queue(send, "key-1", "too big", "alice");
+
+        await approvals.claim(approval.id, "bob");
+        await approvals.reopen(approval.id);
+
+        expect((await approvals.listPending()).map(pending => pending.id)).toEqual([approval.id]);
+        await expect(approvals.claim(approval.id, "carol")).resolves.toMatchObject({ resolvedBy: "carol" });
+    });
+
+    it("lets only one of a concurrent approval and rejection act on a transaction", async () => {
+        const { runtime } = cachedRuntime();
+        const approvals = approvalService(runtime, EXPIRY_MS);
+        const first = await approvals.queue(send, "key-1", "too big", "alice");
+        const second = await approvals.queue(send, "key-2", "too big", "alice");
+
+        const [claimed, rejected] = await Promise.all([approvals.claim(first.id, "bob"), approvals.reject(first.id, "alice")]);
+        expect(claimed).toBeDefined();
+        expect(rejected).toBeUndefined();
+
+        const [rejectedFirst, claimedAfter] = await Promise.all([approvals.reject(second.id, "alice"), approvals.claim(second.id, "bob")]);
+        expect(rejectedFirst).toBeDefined();
+        expect(claimedAfter).toBeUndefined();
+        await expect(approvals.get(second.id)).resolves.toMatchObject({ status: "rejected", resolvedBy: "alice" });
+    });
+
+    it("records the sent transaction only for the user who claimed the approval", async () => {
+        const { runtime } = cachedRuntime();
+        const approvals = approvalService(runtime, EXPIRY_MS);
+        const approval = await approvals.queue(send, "key-1", "too big", "alice");
+        const transaction = { hash: "0xabc", caip2: "eip155:1" };
+
+        await expect(approvals.resolve(approval.id, "bob", transaction)).resolves.toBeUndefined();
+        await approvals.claim(approval.id, "bob");
+        await expect(approvals.resolve(approval.id, "carol", transaction)).resolves.toBeUndefined();
+        await expect(approvals.resolve(approval.id, "bob", transaction)).resolves.toMatchObject({ status: "approved", resolvedBy: "bob", transaction });
+    });
+
+    it("expires approvals nobody acted on in time", async () => {
+        const { runtime, age } = cachedRuntime();
+        const approvals = approvalService(runtime, EXPIRY_MS);
+        const approval = await approvals.queue(send, "key-1", "too big", "alice");
+
+        age(approval.id, EXPIRY_MS);
+
+        await expect(approvals.get(approval.id)).resolves.toMatchObject({ status: "expired" });
+        await expect(approvals.listPending()).resolves.toEqual([]);
+    });
+});
@@ -0,0 +1,269 @@
+import { randomUUID } from "crypto";
+import { IAgentRuntime } from "@ai16z/eliza";
+import { PrivyApprovalConfig, PrivyPendingApproval } from "../types/approvals.js";
+import { PrivyTransactionRequest, PrivyTransactionResponse } from "../types/wallets.js";
+import { PrivyChainType } from "../types/policies.js";
+import { getNativeToken } from "../chains.js";
+import { formatAmount } from "../amounts.js";
+import { decodeTokenCall } from "../abi.js";
+import { PrivyToken } from "../types/tokens.js";
+import { withCacheLock } from "./locks.js";
+
+const CACHE_KEY = "privy/approvals";
+
+/**
+ * Default time a queued transaction stays approvable
+ */
+export const DEFAULT_APPROVAL_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Looks up a threshold keyed by address or symbol, ignoring case
+ *
+ * @param thresholds - Thresholds keyed by address or symbol
+ * @param address - The address or symbol to look up
+ * @returns The threshold, if configured
+ */
+function thresholdFor(thresholds: Record<string, string> | undefined, address: string): string | undefined {
+    const key = Object.keys(thresholds || {}).find(candidate => candidate.toLowerCase() === address.toLowerCase());
+    return key ? thresholds![key] : undefined;
+}
+
+/**
+ * Decides whether a transaction needs human approval before it is sent
+ *
+ * @param config - Approval configuration
+ * @param request - The transaction request
+ * @param chainType - Chain of the sending wallet, used to display native amounts
+ * @param tokenFor - Looks up the token at a contract address or Solana mint, so thresholds may be keyed by symbol and amounts displayed
+ * @returns A description of the exceeded threshold, or undefined if no approval is needed
+ */
+export function approvalReason(
+    config: PrivyApprovalConfig | undefined,
+    request: PrivyTransactionRequest,
+    chainType?: PrivyChainType,
+    tokenFor: (address: string) => PrivyToken | undefined = () => undefined
+): string | undefined {
+    if (!config) {
+        return undefined;
+    }
+
+    const { symbol, decimals } = getNativeToken(chainType);
+    const walletThreshold = config.walletThresholds?.[request.wallet_id] ?? config.defaultThreshold;
+    if (!request.mint && walletThreshold !== undefined && BigInt(request.value || "0") > BigInt(walletThreshold)) {
+        return `value ${formatAmount(request.value, decimals, symbol)} exceeds the approval threshold of ${formatAmount(walletThreshold, decimals, symbol)} for wallet ${request.wallet_id}`;
+    }
+
+    // Solana token transfers carry the mint and amount directly rather than in calldata
+    if (request.mint) {
+        const token = tokenFor(request.mint);
+        const tokenThreshold = thresholdFor(config.tokenThresholds, request.mint) ?? (token ? thresholdFor(config.tokenThresholds, token.symbol) : undefined);
+        if (tokenThreshold !== undefined && BigInt(request.value) > BigInt(tokenThreshold)) {
+            const display = (units: string) => token ? formatAmount(units, token.decimals, token.symbol) : units;
+            return `transfer amount ${display(request.value)} exceeds the approval threshold of ${display(tokenThreshold)} for token ${token ? `${token.symbol} ` : ""}${request.mint}`;
+        }
+        return undefined;
+    }
+
+    const token = tokenFor(request.to);
+    const tokenThreshold = thresholdFor(config.tokenThresholds, request.to) ?? (token ? thresholdFor(config.tokenThresholds, token.symbol) : undefined);
+    const call = decodeTokenCall(request.data);
+    const amount = call?.args.amount as bigint | undefined;
+    if (tokenThreshold !== undefined && amount !== undefined && amount > BigInt(tokenThreshold)) {
+        const display = (units: bigint | string) => token ? formatAmount(units, token.decimals, token.symbol) : units.toString();
+        return `${call!.function.name} amount ${display(amount)} exceeds the approval threshold of ${display(tokenThreshold)} for token ${token ? `${token.symbol} ` : ""}${request.to}`;
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks whether a user may approve or reject a queued transaction
+ *
+ * @param config - Approval configuration
+ * @param approval - The queued transaction
+ * @param userId - The user acting on it
+ * @returns Whether the user is authorized
+ */
+export function canResolveApproval(config: PrivyApprovalConfig | undefined, approval: PrivyPendingApproval, userId: string): boolean {
+    if (config?.approvers?.length) {
+        return config.approvers.includes(userId);
+    }
+    return approval.requestedBy !== userId;
+}
+
+/**
+ * Creates an approval queue backed by the runtime cache
+ *
+ * @param runtime - The agent runtime whose cache holds the queue
+ * @param expiryMs - How long a queued transaction stays approvable
+ * @returns Approval queue methods
+ */
+export const approvalService = (runtime: IAgentRuntime, expiryMs: number = DEFAULT_APPROVAL_EXPIRY_MS) => {
+    /**
+     * Loads all approvals, marking stale pending ones as expired and dropping old resolved ones
+     *
+     * @returns Approvals keyed by ID
+     */
+    const load = async (): Promise<Record<string, PrivyPendingApproval>> => {
+        const approvals = (await runtime.cacheManager.get<Record<string, PrivyPendingApproval>>(CACHE_KEY)) || {};
+        const now = Date.now();
+        for (const approval of Object.values(approvals)) {
+            if (approval.status === "pending" && approval.expiresAt <= now) {
+                approval.status = "expired";
+            }
+            if (approval.status !== "pending" && (approval.resolvedAt ?? approval.expiresAt) + expiryMs <= now) {
+                delete approvals[approval.id];
+            }
+        }
+        return approvals;
+    };
+
+    const save = async (approvals: Record<string, PrivyPendingApproval>): Promise<void> => {
+        await runtime.cacheManager.set(CACHE_KEY, approvals);
+    };
+
+    /**
+     * Queues a transaction for approval; a repeat of an intent that is already queued returns the existing approval
+     *
+     * @param request - The transaction request
+     * @param idempotencyKey - Key the transaction will be sent with once approved
+     * @param reason - Why approval is needed
+     * @param requestedBy - User who asked for the transaction
+     * @param chainType - Chain of the sending wallet
+     * @returns The queued approval
+     */
+    const queue = async (
+        request: PrivyTransactionRequest,
+        idempotencyKey: string,
+        reason: string,
+        requestedBy: string,
+        chainType: PrivyChainType = "ethereum"
+    ): Promise<PrivyPendingApproval> => withCacheLock(CACHE_KEY, async () => {
+        const approvals = await load();
+        const existing = Object.values(approvals).find(approval => approval.status === "pending" && approval.idempotencyKey === idempotencyKey);
+        if (existing) {
+            return existing;
+        }
+        const createdAt = Date.now();
+        const approval: PrivyPendingApproval = {
+            id: randomUUID(),
+            status: "pending",
+            request,
+            chainType,
+            idempotencyKey,
+            reason,
+            requestedBy,
+            createdAt,
+            expiresAt: createdAt + expiryMs
+        };
+        approvals[approval.id] = approval;
+        await save(approvals);
+        return approval;
+    });
+
+    /**
+     * Gets an approval by ID
+     *
+     * @param id - The approval ID
+     * @returns The approval, if it exists
+     */
+    const get = async (id: string): Promise<PrivyPendingApproval | undefined> => {
+        const approvals = await load();
+        return approvals[id];
+    };
+
+    /**
+     * Lists transactions still waiting for approval
+     *
+     * @returns Pending approvals, oldest first
+     */
+    const listPending = async (): Promise<PrivyPendingApproval[]> => {
+        const approvals = await load();
+        return Object.values(approvals)
+            .filter(approval => approval.status === "pending")
+            .sort((a, b) => a.createdAt - b.createdAt);
+    };
+
+    /**
+     * Marks a pending approval as approved ahead of sending it, so that of two concurrent approvals
+     * only one sends the transaction
+     *
+     * @param id - The approval ID
+     * @param resolvedBy - User approving it
+     * @returns The approval, or undefined if it is no longer pending
+     */
+    const claim = async (id: string, resolvedBy: string): Promise<PrivyPendingApproval | undefined> => withCacheLock(CACHE_KEY, async () => {
+        const approvals = await load();
+        const approval = approvals[id];
+        if (approval?.status !== "pending") {
+            return undefined;
+        }
+        approval.status = "approved";
+        approval.resolvedBy = resolvedBy;
+        approval.resolvedAt = Date.now();
+        await save(approvals);
+        return approval;
+    });
+
+    /**
+     * Returns a claimed approval to the queue after its transaction could not be sent
+     *
+     * @param id - The approval ID
+     */
+    const reopen = async (id: string): Promise<void> => withCacheLock(CACHE_KEY, async () => {
+        const approvals = await load();
+        const approval = approvals[id];
+        if (approval?.status !== "approved" || approval.transaction) {
+            return;
+        }
+        approval.status = "pending";
+        delete approval.resolvedBy;
+        delete approval.resolvedAt;
+        await save(approvals);
+    });
+
+    /**
+     * Rejects a pending approval, so it is never sent
+     *
+     * @param id - The approval ID
+     * @param resolvedBy - User rejecting it
+     * @returns The approval, or undefined if it is no longer pending
+     */
+    const reject = async (id: string, resolvedBy: string): Promise<PrivyPendingApproval | undefined> => withCacheLock(CACHE_KEY, async () => {
+        const approvals = await load();
+        const approval = approvals[id];
+        if (approval?.status !== "pending") {
+            return undefined;
+        }
+        approval.status = "rejected";
+        approval.resolvedBy = resolvedBy;
+        approval.resolvedAt = Date.now();
+        await save(approvals);
+        return approval;
+    });
+
+    /**
+     * Records the transaction sent for an approval its approver claimed
+     *
+     * @param id - The approval ID
+     * @param resolvedBy - User who claimed it
+     * @param transaction - The sent transaction
+     * @returns The updated approval, or undefined if the approval is not claimed by that user
+     */
+    const resolve = async (
+        id: string,
+        resolvedBy: string,
+        transaction: PrivyTransactionResponse
+    ): Promise<PrivyPendingApproval | undefined> => withCacheLock(CACHE_KEY, async () => {
+        const approvals = await load();
+        const approval = approvals[id];
+        if (approval?.status !== "approved" || approval.resolvedBy !== resolvedBy) {
+            return undefined;
+        }
+        approval.transaction = transaction;
+        await save(approvals);
+        return approval;
+    });
+
+    return { queue, get, listPending, claim, reopen, reject, resolve };
+};
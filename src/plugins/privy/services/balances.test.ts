@@ -0,0 +1,65 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { balanceService, summarizeBalances } from "./balances.js";
+import { encodeBalanceOf } from "../abi.js";
+import { PrivyToken } from "../types/tokens.js";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const USDC: PrivyToken = { symbol: "USDC", address: "0x2222222222222222222222222222222222222222", decimals: 6 };
+const BROKEN: PrivyToken = { symbol: "BRK", address: "0x3333333333333333333333333333333333333333", decimals: 18 };
+
+/**
+ * Pads a quantity into the 32-byte word `eth_call` returns
+ */
+const word = (value: bigint) => `0x${value.toString(16).padStart(64, "0")}`;
+
+describe("balanceService", () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+        // A node holding 1.5 MON and 250 USDC for the wallet, whose BRK contract reverts
+        server = createServer((req, res) => {
+            let text = "";
+            req.on("data", chunk => text += chunk);
+            req.on("end", () => {
+                const { id, method, params } = JSON.parse(text);
+                let reply: object;
+                if (method === "eth_getBalance" && params[0] === WALLET) {
+                    reply = { result: `0x${(1500000000000000000n).toString(16)}` };
+                } else if (method === "eth_call" && params[0].to === USDC.address && params[0].data === encodeBalanceOf(WALLET)) {
+                    reply = { result: word(250000000n) };
+                } else {
+                    reply = { error: { code: 3, message: "execution reverted" } };
+                }
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({ jsonrpc: "2.0", id, ...reply }));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it("reads native and token balances", async () => {
+        const balances = balanceService(url);
+        await expect(balances.getNativeBalance(WALLET)).resolves.toBe(1500000000000000000n);
+        await expect(balances.getTokenBalance(USDC.address, WALLET)).resolves.toBe(250000000n);
+    });
+
+    it("reports tokens it cannot read without failing the wallet", async () => {
+        const balances = await balanceService(url).getWalletBalances(WALLET, "monad", [USDC, BROKEN], "wallet-1");
+
+        expect(balances.native).toMatchObject({ symbol: "MON", value: "1500000000000000000", formatted: "1.5 MON" });
+        expect(balances.tokens).toEqual([{ symbol: "USDC", address: USDC.address, decimals: 6, value: "250000000", formatted: "250 USDC" }]);
+        expect(balances.errors).toEqual([expect.stringMatching(/^BRK: .*execution reverted/)]);
+        expect(summarizeBalances(balances, "treasury")).toBe(`treasury (${WALLET}) on monad: 1.5 MON, 250 USDC (could not read BRK)`);
+    });
+
+    it("fails when the native balance cannot be read", async () => {
+        await expect(balanceService(url).getWalletBalances("0x4444444444444444444444444444444444444444", "monad")).rejects.toThrow("execution reverted");
+    });
+});
@@ -0,0 +1,111 @@
+import { PrivyChainType } from "../types/policies.js";
+import { PrivyToken } from "../types/tokens.js";
+import { PrivyTokenBalance, PrivyWalletBalances } from "../types/balances.js";
+import { decodeUint256, encodeBalanceOf } from "../abi.js";
+import { formatAmount } from "../amounts.js";
+import { getNativeToken } from "../chains.js";
+import { rpcClient, PrivyRpcOptions } from "./rpc.js";
+
+/**
+ * Builds a balance entry
+ *
+ * @param symbol - Token symbol
+ * @param decimals - Token decimals
+ * @param value - Balance in base units
+ * @param address - Token contract, absent for the native token
+ * @returns The balance
+ */
+function toBalance(symbol: string, decimals: number, value: bigint, address?: string): PrivyTokenBalance {
+    return { symbol, address, decimals, value: value.toString(), formatted: formatAmount(value, decimals, symbol) };
+}
+
+/**
+ * Creates a balance service reading native and ERC-20 balances from an EVM JSON-RPC node
+ *
+ * @param rpcUrl - URL of the JSON-RPC endpoint
+ * @param rpcOptions - Timeout tuning
+ * @returns Balance service methods
+ */
+export const balanceService = (rpcUrl: string, rpcOptions?: PrivyRpcOptions) => {
+    const rpc = rpcClient(rpcUrl, rpcOptions);
+
+    /**
+     * Gets the native balance of an address
+     *
+     * @param address - The address
+     * @returns The balance in base units
+     */
+    const getNativeBalance = async (address: string): Promise<bigint> => {
+        return BigInt(await rpc.call<string>("eth_getBalance", [address, "latest"]));
+    };
+
+    /**
+     * Gets the ERC-20 balance of an address with `balanceOf`
+     *
+     * @param tokenAddress - The token contract
+     * @param owner - The address whose balance is read
+     * @returns The balance in token base units
+     */
+    const getTokenBalance = async (tokenAddress: string, owner: string): Promise<bigint> => {
+        const result = await rpc.call<string>("eth_call", [{ to: tokenAddress, data: encodeBalanceOf(owner) }, "latest"]);
+        return decodeUint256(result);
+    };
+
+    /**
+     * Gets the native balance and the balance of each given token for a wallet
+     *
+     * A token whose balance cannot be read is reported in `errors` instead of failing the whole lookup.
+     *
+     * @param address - The wallet address
+     * @param chainType - Chain the node serves, used for the native token
+     * @param tokens - Tokens to read balances of
+     * @param walletId - Privy wallet ID, recorded in the result
+     * @returns The wallet's balances
+     */
+    const getWalletBalances = async (
+        address: string,
+        chainType: PrivyChainType,
+        tokens: PrivyToken[] = [],
+        walletId?: string
+    ): Promise<PrivyWalletBalances> => {
+        const nativeToken = getNativeToken(chainType);
+        const errors: string[] = [];
+        const [nativeValue, tokenValues] = await Promise.all([
+            getNativeBalance(address),
+            Promise.all(tokens.map(token => getTokenBalance(token.address, address).catch((error: Error) => {
+                errors.push(`${token.symbol}: ${error.message}`);
+                return undefined;
+            })))
+        ]);
+
+        return {
+            walletId,
+            address,
+            chainType,
+            native: toBalance(nativeToken.symbol, nativeToken.decimals, nativeValue),
+            tokens: tokens.flatMap((token, index) => {
+                const value = tokenValues[index];
+                return value === undefined ? [] : [toBalance(token.symbol, token.decimals, value, token.address)];
+            }),
+            errors,
+            fetchedAt: Date.now()
+        };
+    };
+
+    return { getNativeBalance, getTokenBalance, getWalletBalances };
+};
+
+/**
+ * Summarizes a wallet's balances in one line, leaving out empty token balances
+ *
+ * @param balances - The wallet's balances
+ * @param label - How to refer to the wallet, e.g. its nickname; defaults to the wallet ID
+ * @returns The summary, e.g. `treasury (0xabc...) on monad: 1.5 MON, 100 USDC`
+ */
+export function summarizeBalances(balances: PrivyWalletBalances, label?: string): string {
+    const held = balances.tokens.filter(token => BigInt(token.value) > 0n).map(token => token.formatted);
+    const name = label || balances.walletId;
+    const wallet = name ? `${name} (${balances.address})` : balances.address;
+    const unread = balances.errors.length ? ` (could not read ${balances.errors.map(error => error.split(":")[0]).join(", ")})` : "";
+    return `${wallet} on ${balances.chainType}: ${[balances.native.formatted, ...held].join(", ")}${unread}`;
+}
@@ -0,0 +1,80 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { batchOutcome, batchService, formatBatchReport, parseBatchRows } from "./batches.js";
+import { PrivyBatchRowResult } from "../types/batches.js";
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+
+function cachedRuntime(): IAgentRuntime {
+    const cache = new Map<string, unknown>();
+    return {
+        cacheManager: {
+            get: async (key: string) => cache.get(key),
+            set: async (key: string, value: unknown) => { cache.set(key, value); },
+            delete: async (key: string) => { cache.delete(key); }
+        }
+    } as unknown as IAgentRuntime;
+}
+
+function result(index: number, status: PrivyBatchRowResult['status'], extra: Partial<PrivyBatchRowResult> = {}): PrivyBatchRowResult {
+    return { index, row: { to: ALICE, amount: "1", token: "USDC" }, status, ...extra };
+}
+
+describe("parseBatchRows", () => {
+    it("reads CSV with a header of column aliases", () => {
+        expect(parseBatchRows(`recipient;amount;symbol\n${ALICE};"1,000";usdc\n${BOB};2.5;ETH`)).toEqual([
+            { to: ALICE, amount: "1,000", token: "USDC" },
+            { to: BOB, amount: "2.5", token: "ETH" }
+        ].map(row => expect.objectContaining(row)));
+    });
+
+    it("reads headerless rows as to, amount, token and skips surrounding text", () => {
+        const rows = parseBatchRows(`Please pay these:\n\`\`\`\n${ALICE}, 10, USDC\n${BOB} 0.1 ETH\n\`\`\`\nThanks!`);
+        expect(rows.map(row => [row.to, row.amount, row.token])).toEqual([[ALICE, "10", "USDC"], [BOB, "0.1", "ETH"]]);
+    });
+
+    it("splits amounts that carry their unit and keeps base units as values", () => {
+        expect(parseBatchRows([{ to: ALICE, value: "1.5 USDC" }, { address: BOB, value: "1000", wallet_id: "wallet-2" }])).toEqual([
+            expect.objectContaining({ to: ALICE, amount: "1.5", token: "USDC", value: undefined }),
+            expect.objectContaining({ to: BOB, value: "1000", wallet: "wallet-2" })
+        ]);
+    });
+
+    it("rejects input that is neither a list nor text", () => {
+        expect(() => parseBatchRows(42)).toThrow("Batch rows must be a list or CSV text");
+    });
+});
+
+describe("batchOutcome", () => {
+    it("completes when every row was sent or queued, and is partial when some were", () => {
+        expect(batchOutcome([result(1, "sent"), result(2, "queued")])).toBe("completed");
+        expect(batchOutcome([result(1, "sent"), result(2, "failed")])).toBe("partial");
+        expect(batchOutcome([result(1, "invalid"), result(2, "failed")])).toBe("failed");
+    });
+});
+
+describe("formatBatchReport", () => {
+    it("counts outcomes and describes each row", async () => {
+        const batch = await batchService(cachedRuntime()).create([{ to: ALICE, amount: "1", token: "USDC" }, { to: BOB }], "wallet-1", "ethereum");
+        batch.rows = [result(1, "sent", { hash: "0xabc", description: `1 USDC to ${ALICE}` }), result(2, "invalid", { row: { to: "" }, error: "no recipient" })];
+
+        expect(formatBatchReport(batch)).toBe([
+            `Batch ${batch.id} (2 rows): 1 sent, 1 invalid.`,
+            `1. 1 USDC to ${ALICE}: sent, hash 0xabc`,
+            "2. ? to ?: invalid, no recipient"
+        ].join("\n"));
+    });
+});
+
+describe("batchService", () => {
+    it("keeps batches with every row pending until they are sent", async () => {
+        const batches = batchService(cachedRuntime());
+        const batch = await batches.create([{ to: ALICE, amount: "1", token: "USDC" }], "wallet-1", "ethereum", "alice");
+
+        await expect(batches.get(batch.id)).resolves.toMatchObject({
+            status: "running",
+            requestedBy: "alice",
+            rows: [{ index: 1, status: "pending", row: { to: ALICE } }]
+        });
+    });
+});
@@ -0,0 +1,305 @@
+import { randomUUID } from "crypto";
+import { IAgentRuntime } from "@ai16z/eliza";
+import { PrivyBatch, PrivyBatchRow, PrivyBatchRowResult, PrivyBatchStatus } from "../types/batches.js";
+import { PrivyChainType } from "../types/policies.js";
+import { PrivyValidationError } from "../errors.js";
+import { isEvmAddress, isSolanaAddress } from "../addresses.js";
+import { isBaseUnits, splitAmount } from "../amounts.js";
+import { withCacheLock } from "./locks.js";
+
+const CACHE_PREFIX = "privy/batches";
+
+/**
+ * Default most rows of a batch
+ */
+export const DEFAULT_BATCH_MAX_ROWS = 100;
+
+/**
+ * How long batches are kept for resuming and reporting
+ */
+const BATCH_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * How long a running batch may go without progress before it may be resumed, as after a restart
+ */
+export const BATCH_STALE_MS = 10 * 60 * 1000;
+
+/**
+ * Column names accepted in a CSV header or on row objects, mapped to row fields
+ */
+const COLUMN_ALIASES: Record<string, keyof PrivyBatchRow> = {
+    to: "to",
+    recipient: "to",
+    address: "to",
+    amount: "amount",
+    token: "token",
+    symbol: "token",
+    asset: "token",
+    value: "value",
+    tokenaddress: "tokenAddress",
+    mint: "tokenAddress",
+    contract: "tokenAddress",
+    tokendecimals: "tokenDecimals",
+    decimals: "tokenDecimals",
+    wallet: "wallet",
+    walletid: "wallet",
+    from: "wallet",
+};
+
+/**
+ * Order of the columns of a CSV without a header
+ */
+const POSITIONAL_COLUMNS: (keyof PrivyBatchRow)[] = ["to", "amount", "token"];
+
+/**
+ * Checks whether a CSV cell holds a recipient address
+ *
+ * @param cell - The cell
+ * @returns Whether it is an EVM or Solana address
+ */
+function isRecipient(cell: string): boolean {
+    return isEvmAddress(cell) || isSolanaAddress(cell);
+}
+
+/**
+ * Splits a CSV line into cells, honouring double quotes so amounts like "1,000" stay whole
+ *
+ * @param line - The line
+ * @param separator - The cell separator
+ * @returns The trimmed cells
+ */
+function splitCsvLine(line: string, separator: string): string[] {
+    const cells: string[] = [];
+    let cell = "";
+    let quoted = false;
+    for (let index = 0; index < line.length; index++) {
+        const char = line[index];
+        if (char === '"') {
+            if (quoted && line[index + 1] === '"') {
+                cell += '"';
+                index++;
+            } else {
+                quoted = !quoted;
+            }
+        } else if (!quoted && (separator === " " ? /\s/.test(char) : char === separator)) {
+            cells.push(cell.trim());
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell.trim());
+    return separator === " " ? cells.filter(Boolean) : cells;
+}
+
+/**
+ * Builds a row from named fields, splitting an amount that carries its unit ("1.5 USDC")
+ *
+ * @param fields - Row fields keyed by column name, in any case
+ * @returns The row
+ */
+function toRow(fields: Record<string, unknown>): PrivyBatchRow {
+    const row: Partial<Record<keyof PrivyBatchRow, string>> = {};
+    for (const [name, value] of Object.entries(fields)) {
+        const field = COLUMN_ALIASES[name.toLowerCase().replace(/[\s_-]/g, "")];
+        if (field && value !== undefined && value !== null && String(value).trim()) {
+            row[field] = String(value).trim();
+        }
+    }
+
+    // A value with a unit or decimals is a human amount, not base units
+    if (row.value && !isBaseUnits(row.value) && !row.amount) {
+        row.amount = row.value;
+        delete row.value;
+    }
+    if (row.amount && !row.token) {
+        try {
+            const { amount, unit } = splitAmount(row.amount);
+            row.amount = amount;
+            row.token = unit;
+        } catch (error) {
+            // Left as given and reported when the row is validated
+        }
+    }
+
+    return {
+        to: row.to || "",
+        amount: row.amount,
+        token: row.token?.toUpperCase(),
+        value: row.value,
+        tokenAddress: row.tokenAddress,
+        tokenDecimals: row.tokenDecimals !== undefined ? Number(row.tokenDecimals) : undefined,
+        wallet: row.wallet
+    };
+}
+
+/**
+ * Parses the rows of a batch from a list of row objects or CSV text
+ *
+ * CSV may have a header naming its columns (`to`, `amount`, `token`, `value`, `tokenAddress`,
+ * `tokenDecimals`, `wallet`, or aliases such as `recipient` and `mint`), and is otherwise read as
+ * `to, amount, token`. Cells may be separated by commas, semicolons, tabs or spaces. Without a header,
+ * only lines starting with an address are rows, so CSV pasted into a chat message may be surrounded by text.
+ *
+ * @param input - Row objects, CSV lines, or CSV text
+ * @returns The rows
+ * @throws PrivyValidationError if the input is neither a list nor text
+ */
+export function parseBatchRows(input: unknown): PrivyBatchRow[] {
+    if (Array.isArray(input)) {
+        return input.flatMap(item =>
+            typeof item === "string" ? parseBatchRows(item)
+                : item && typeof item === "object" ? [toRow(item as Record<string, unknown>)]
+                : []
+        );
+    }
+    if (typeof input !== "string") {
+        throw new PrivyValidationError("Batch rows must be a list or CSV text", undefined, "invalid_batch");
+    }
+
+    const lines = input.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith("```"));
+    const separatorOf = (line: string) => line.includes(",") ? "," : line.includes(";") ? ";" : line.includes("\t") ? "\t" : " ";
+
+    const headerIndex = lines.findIndex(line =>
+        splitCsvLine(line, separatorOf(line)).some(cell => COLUMN_ALIASES[cell.toLowerCase().replace(/[\s_-]/g, "")] === "to")
+    );
+    if (headerIndex !== -1) {
+        const separator = separatorOf(lines[headerIndex]);
+        const header = splitCsvLine(lines[headerIndex], separator);
+        // Text after the table, such as a closing remark, has no separators and is not a row
+        return lines.slice(headerIndex + 1)
+            .map(line => splitCsvLine(line, separator))
+            .filter(cells => cells.length > 1)
+            .map(cells => toRow(Object.fromEntries(header.map((name, index) => [name, cells[index]]))));
+    }
+
+    return lines
+        .map(line => splitCsvLine(line, separatorOf(line)))
+        .filter(cells => isRecipient(cells[0]))
+        .map(cells => toRow(Object.fromEntries(POSITIONAL_COLUMNS.map((name, index) => [name, cells[index]]))));
+}
+
+/**
+ * Works out the state of a batch from its rows, once no row is being sent
+ *
+ * @param rows - The batch rows
+ * @returns The batch status
+ */
+export function batchOutcome(rows: PrivyBatchRowResult[]): PrivyBatchStatus {
+    const done = rows.filter(row => row.status === "sent" || row.status === "queued").length;
+    if (done === rows.length) {
+        return "completed";
+    }
+    return done > 0 ? "partial" : "failed";
+}
+
+/**
+ * Describes a batch row and its outcome in one line
+ *
+ * @param row - The batch row
+ * @param hashLabel - What the transaction identifier is called, "hash" or "signature"
+ * @returns The line, e.g. `2. 100 USDC to 0xabc...: sent, hash 0x123...`
+ */
+function describeRow(row: PrivyBatchRowResult, hashLabel: string): string {
+    const subject = `${row.index}. ${row.description || `${row.row.amount ?? row.row.value ?? "?"} ${row.row.token || ""} to ${row.row.to || "?"}`.replace(/\s+/g, " ")}`;
+    switch (row.status) {
+        case "sent":
+            return `${subject}: sent, ${hashLabel} ${row.hash}`;
+        case "queued":
+            return `${subject}: queued for approval with ID ${row.approvalId} because the ${row.approvalReason}`;
+        case "invalid":
+            return `${subject}: invalid, ${row.error}`;
+        case "failed":
+            return `${subject}: failed, ${row.error}`;
+        case "sending":
+            return `${subject}: sending`;
+        default:
+            return `${subject}: ${row.approvalReason ? "valid, needs approval" : "valid"}`;
+    }
+}
+
+/**
+ * Formats a batch as a report with one line per row
+ *
+ * @param batch - The batch
+ * @returns The report, starting with counts per outcome
+ */
+export function formatBatchReport(batch: PrivyBatch): string {
+    const count = (status: PrivyBatchRowResult['status']) => batch.rows.filter(row => row.status === status).length;
+    const counts = [
+        [count("sent"), "sent"],
+        [count("queued"), "queued for approval"],
+        [count("failed"), "failed"],
+        [count("invalid"), "invalid"],
+        [count("pending") + count("sending"), "not sent"]
+    ].filter(([n]) => Number(n) > 0).map(([n, label]) => `${n} ${label}`);
+    const hashLabel = batch.chainType === "solana" ? "signature" : "hash";
+    return [
+        `Batch ${batch.id} (${batch.rows.length} row${batch.rows.length === 1 ? "" : "s"}): ${counts.join(", ")}.`,
+        ...batch.rows.map(row => describeRow(row, hashLabel))
+    ].join("\n");
+}
+
+/**
+ * Creates a batch store backed by the runtime cache
+ *
+ * @param runtime - The agent runtime whose cache holds the batches
+ * @returns Batch store methods
+ */
+export const batchService = (runtime: IAgentRuntime) => {
+    const cacheKey = (id: string) => `${CACHE_PREFIX}/${id}`;
+
+    /**
+     * Records a new batch
+     *
+     * @param rows - The parsed rows
+     * @param walletId - Wallet rows are sent from unless they name their own
+     * @param chainType - Chain the batch sends on
+     * @param requestedBy - User who asked for the batch
+     * @returns The batch, with every row pending
+     */
+    const create = async (
+        rows: PrivyBatchRow[],
+        walletId: string,
+        chainType: PrivyChainType,
+        requestedBy?: string
+    ): Promise<PrivyBatch> => {
+        const createdAt = Date.now();
+        const batch: PrivyBatch = {
+            id: `batch_${randomUUID()}`,
+            status: "running",
+            chainType,
+            walletId,
+            rows: rows.map((row, index) => ({ index: index + 1, row, status: "pending" })),
+            requestedBy,
+            createdAt,
+            updatedAt: createdAt
+        };
+        await save(batch);
+        return batch;
+    };
+
+    /**
+     * Gets a batch by ID
+     *
+     * @param id - The batch ID
+     * @returns The batch, if it is still kept
+     */
+    const get = async (id: string): Promise<PrivyBatch | undefined> => {
+        return runtime.cacheManager.get<PrivyBatch>(cacheKey(id));
+    };
+
+    /**
+     * Saves a batch after its rows changed
+     *
+     * @param batch - The batch
+     */
+    const save = async (batch: PrivyBatch): Promise<void> => {
+        await withCacheLock(cacheKey(batch.id), async () => {
+            batch.updatedAt = Date.now();
+            await runtime.cacheManager.set(cacheKey(batch.id), batch, { expires: batch.updatedAt + BATCH_RETENTION_MS });
+        });
+    };
+
+    return { create, get, save };
+};
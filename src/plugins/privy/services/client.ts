@@ -0,0 +1,275 @@
+import { KeyObject } from "crypto";
+import { PrivyApiError, PrivyDryRunError, PrivyTimeoutError, toPrivyApiError } from "../errors.js";
+import { loadAuthorizationKey, signRequest } from "./signing.js";
+import { IDEMPOTENCY_HEADER } from "./idempotency.js";
+
+const DEFAULT_BASE_URL = "https://api.privy.io/v1";
+
+/**
+ * HTTP methods that can be repeated safely after a server error or timeout
+ */
+const IDEMPOTENT_METHODS = ["GET", "PUT", "PATCH", "DELETE"];
+
+/**
+ * Headers carrying credentials, whose values are hidden in request previews
+ */
+const REDACTED_HEADERS = ["authorization", "privy-authorization-signature"];
+
+/**
+ * Tuning for the Privy HTTP client
+ */
+export interface PrivyClientOptions {
+    /** API root, overridable for proxies and local stubs */
+    baseUrl?: string;
+    /** Milliseconds before a single attempt is aborted */
+    timeoutMs?: number;
+    /** Retries after the first attempt */
+    maxRetries?: number;
+    /** Delay before the first retry; doubles on every further retry */
+    baseDelayMs?: number;
+    /** Upper bound for any single delay */
+    maxDelayMs?: number;
+    /** Build write requests without sending them, raising PrivyDryRunError instead; reads are still sent */
+    dryRun?: boolean;
+}
+
+/**
+ * Options for a single request
+ */
+export interface PrivyRequestOptions {
+    body?: unknown;
+    headers?: Record<string, string>;
+}
+
+/**
+ * A request as it would be sent, with credentials redacted
+ */
+export interface PrivyRequestPreview {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: unknown;
+}
+
+const DEFAULT_CLIENT_OPTIONS: Required<PrivyClientOptions> = {
+    baseUrl: DEFAULT_BASE_URL,
+    timeoutMs: 10000,
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    dryRun: false,
+};
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date
+ *
+ * @param header - The header value
+ * @returns The delay in milliseconds, or undefined if absent or unparseable
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a call on a dry-run client and captures the write request it would have sent
+ *
+ * @param call - The call, made with a client created with `dryRun`
+ * @returns The request, or undefined if the call made no write request
+ * @throws Any other error the call raises
+ */
+export async function captureDryRun(call: () => Promise<unknown>): Promise<PrivyRequestPreview | undefined> {
+    try {
+        await call();
+        return undefined;
+    } catch (error) {
+        if (error instanceof PrivyDryRunError) {
+            return error.request;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Formats a request preview for display
+ *
+ * @param preview - The request preview
+ * @returns The method and URL, then the headers and body as JSON
+ */
+export function formatRequestPreview(preview: PrivyRequestPreview): string {
+    return [
+        `${preview.method} ${preview.url}`,
+        `Headers: ${JSON.stringify(preview.headers, null, 2)}`,
+        ...(preview.body === undefined ? [] : [`Body: ${JSON.stringify(preview.body, null, 2)}`])
+    ].join("\n");
+}
+
+/**
+ * Creates a Privy API client that handles authentication, timeouts, retries and typed errors
+ *
+ * Rate-limited requests (429) are always retried, honoring Retry-After. Server errors (5xx),
+ * timeouts and network failures are retried only for idempotent methods or requests carrying an
+ * idempotency key, so a POST that may already have been processed is never repeated blindly.
+ *
+ * @param privyAppID - Privy App ID
+ * @param privyAppSecret - Privy App Secret
+ * @param authorizationPrivateKey - Optional P-256 authorization private key used to sign write requests
+ * @param clientOptions - Timeout and retry tuning
+ * @returns Client methods
+ */
+export const privyClient = (
+    privyAppID: string,
+    privyAppSecret: string,
+    authorizationPrivateKey?: string,
+    clientOptions: PrivyClientOptions = {}
+) => {
+    const { baseUrl, timeoutMs, maxRetries, baseDelayMs, maxDelayMs, dryRun } = { ...DEFAULT_CLIENT_OPTIONS, ...clientOptions };
+    const authorizationKey: KeyObject | undefined = authorizationPrivateKey ? loadAuthorizationKey(authorizationPrivateKey) : undefined;
+
+    /**
+     * Builds the headers for a request, signing it when an authorization key is configured
+     *
+     * @param method - HTTP method
+     * @param url - Absolute URL
+     * @param options - Request body and extra headers
+     * @returns The headers
+     */
+    const buildHeaders = (method: string, url: string, options: PrivyRequestOptions): Record<string, string> => {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'privy-app-id': privyAppID,
+            'Authorization': `Basic ${Buffer.from(`${privyAppID}:${privyAppSecret}`).toString('base64')}`,
+            ...options.headers
+        };
+
+        // Reads never need authorization; writes to key-quorum-owned resources do, so sign them afresh
+        if (authorizationKey && method.toUpperCase() !== 'GET') {
+            headers['privy-authorization-signature'] = signRequest(authorizationKey, method, url, options.body, headers);
+        }
+
+        return headers;
+    };
+
+    /**
+     * Builds a request exactly as it would be sent, with the values of credential headers redacted
+     *
+     * The authorization signature is computed, so a preview shows whether a request would be signed.
+     *
+     * @param method - HTTP method
+     * @param path - Path relative to the API root
+     * @param options - Request body and extra headers
+     * @returns The request preview
+     */
+    const preview = (method: string, path: string, options: PrivyRequestOptions = {}): PrivyRequestPreview => {
+        const url = `${baseUrl}${path}`;
+        const headers = Object.fromEntries(Object.entries(buildHeaders(method, url, options)).map(([name, value]) =>
+            [name, REDACTED_HEADERS.includes(name.toLowerCase()) ? "[redacted]" : value]
+        ));
+        return { method: method.toUpperCase(), url, headers, body: options.body };
+    };
+
+    /**
+     * Computes the delay before the next retry
+     *
+     * @param attempt - Zero-based index of the attempt that failed
+     * @param retryAfterMs - Delay requested by the server, if any
+     * @returns The delay in milliseconds
+     */
+    const backoff = (attempt: number, retryAfterMs?: number): number => {
+        if (retryAfterMs !== undefined) {
+            return Math.min(retryAfterMs, maxDelayMs);
+        }
+        const exponential = baseDelayMs * 2 ** attempt;
+        // Jitter spreads out retries from concurrent callers
+        return Math.min(exponential + Math.random() * baseDelayMs, maxDelayMs);
+    };
+
+    /**
+     * Performs a single attempt with a timeout
+     *
+     * @param method - HTTP method
+     * @param url - Absolute URL
+     * @param options - Request options
+     * @returns The response
+     */
+    const attempt = async (method: string, url: string, options: PrivyRequestOptions): Promise<Response> => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        try {
+            return await fetch(url, {
+                method,
+                headers: buildHeaders(method, url, options),
+                body: options.body === undefined ? undefined : JSON.stringify(options.body),
+                signal: controller.signal
+            });
+        } catch (error: any) {
+            if (error?.name === "AbortError") {
+                throw new PrivyTimeoutError(`Privy request ${method} ${url} timed out after ${timeoutMs}ms`);
+            }
+            throw new PrivyApiError(`Privy request ${method} ${url} failed: ${error?.message || error}`, undefined, "network_error");
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    /**
+     * Sends a request to the Privy API
+     *
+     * @param method - HTTP method
+     * @param path - Path relative to the API root, e.g. `/wallets`
+     * @param options - Request body and extra headers
+     * @returns The parsed response body
+     * @throws PrivyDryRunError instead of sending a write request in dry-run mode
+     * @throws PrivyApiError or a subclass describing the failure
+     */
+    const request = async <T>(method: string, path: string, options: PrivyRequestOptions = {}): Promise<T> => {
+        if (dryRun && method.toUpperCase() !== 'GET') {
+            throw new PrivyDryRunError(preview(method, path, options));
+        }
+        const url = `${baseUrl}${path}`;
+        // A request carrying an idempotency key is deduplicated by Privy, so it is safe to repeat
+        const retryable = IDEMPOTENT_METHODS.includes(method.toUpperCase()) || Boolean(options.headers?.[IDEMPOTENCY_HEADER]);
+
+        for (let attemptIndex = 0; ; attemptIndex++) {
+            const canRetry = attemptIndex < maxRetries;
+            let response: Response;
+
+            try {
+                response = await attempt(method, url, options);
+            } catch (error: any) {
+                if (canRetry && retryable) {
+                    await sleep(backoff(attemptIndex));
+                    continue;
+                }
+                console.error("Privy API Error:", error.message);
+                throw error;
+            }
+
+            if (response.ok) {
+                return await response.json() as T;
+            }
+
+            const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+            if (canRetry && (response.status === 429 || (response.status >= 500 && retryable))) {
+                await sleep(backoff(attemptIndex, retryAfterMs));
+                continue;
+            }
+
+            const body = await response.json().catch(() => undefined);
+            const error = toPrivyApiError(response.status, body, response.statusText, retryAfterMs);
+            console.error("Privy API Error:", error.message);
+            throw error;
+        }
+    };
+
+    return { request, preview };
+};
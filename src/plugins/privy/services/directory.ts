@@ -0,0 +1,113 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { PrivyWalletDirectoryEntry } from "../types/directory.js";
+import { withCacheLock } from "./locks.js";
+
+const CACHE_KEY = "privy/wallets/directory";
+
+/**
+ * Name a user refers to their own wallet by, as in "send 1 MON from my wallet"
+ */
+export const OWN_WALLET_ALIAS = "my";
+
+/**
+ * Checks whether a user may refer to a wallet by its label
+ *
+ * @param entry - The directory entry
+ * @param userId - The user
+ * @returns Whether the wallet is the user's own or shared
+ */
+function isVisibleTo(entry: PrivyWalletDirectoryEntry, userId?: string): boolean {
+    return !entry.ownerId || entry.ownerId === userId;
+}
+
+/**
+ * Creates a wallet directory backed by the runtime cache, which persists through the database adapter
+ *
+ * @param runtime - The agent runtime whose cache holds the directory
+ * @returns Wallet directory methods
+ */
+export const walletDirectory = (runtime: IAgentRuntime) => {
+    const load = async (): Promise<Record<string, PrivyWalletDirectoryEntry>> => {
+        return (await runtime.cacheManager.get<Record<string, PrivyWalletDirectoryEntry>>(CACHE_KEY)) || {};
+    };
+
+    const save = async (entries: Record<string, PrivyWalletDirectoryEntry>): Promise<void> => {
+        await runtime.cacheManager.set(CACHE_KEY, entries);
+    };
+
+    /**
+     * Records a wallet, replacing any earlier entry for it
+     *
+     * @param entry - The directory entry
+     * @returns The recorded entry
+     */
+    const register = async (entry: PrivyWalletDirectoryEntry): Promise<PrivyWalletDirectoryEntry> => {
+        await withCacheLock(CACHE_KEY, async () => {
+            const entries = await load();
+            entries[entry.walletId] = entry;
+            await save(entries);
+        });
+        return entry;
+    };
+
+    /**
+     * Gets the entry of a wallet
+     *
+     * @param walletId - The wallet ID
+     * @returns The entry, if the wallet is in the directory
+     */
+    const get = async (walletId: string): Promise<PrivyWalletDirectoryEntry | undefined> => {
+        const entries = await load();
+        return entries[walletId];
+    };
+
+    /**
+     * Lists wallets in the directory
+     *
+     * @param filter - Only wallets owned by this user, or only those this user may refer to by label
+     * @returns The entries, oldest first
+     */
+    const list = async (filter: { ownerId?: string; visibleTo?: string } = {}): Promise<PrivyWalletDirectoryEntry[]> => {
+        const entries = await load();
+        return Object.values(entries)
+            .filter(entry => !filter.ownerId || entry.ownerId === filter.ownerId)
+            .filter(entry => !filter.visibleTo || isVisibleTo(entry, filter.visibleTo))
+            .sort((a, b) => a.createdAt - b.createdAt);
+    };
+
+    /**
+     * Finds a wallet by label among the wallets a user may refer to, preferring the user's own over shared ones
+     *
+     * @param label - The label, ignoring case
+     * @param userId - The requesting user
+     * @returns The entry, if a visible wallet has the label
+     */
+    const byLabel = async (label: string, userId?: string): Promise<PrivyWalletDirectoryEntry | undefined> => {
+        const matches = (await list({ visibleTo: userId })).filter(entry => entry.label?.toLowerCase() === label.toLowerCase());
+        return matches.find(entry => entry.ownerId === userId) || matches[0];
+    };
+
+    /**
+     * Maps the labels a user may use to wallet IDs; the user's own labels win over shared ones, and
+     * "my" refers to the user's wallet when they own exactly one
+     *
+     * @param userId - The requesting user
+     * @returns Labels mapped to wallet IDs
+     */
+    const aliasesFor = async (userId?: string): Promise<Record<string, string>> => {
+        const visible = await list({ visibleTo: userId });
+        const aliases: Record<string, string> = {};
+        for (const entry of [...visible.filter(entry => !entry.ownerId), ...visible.filter(entry => entry.ownerId)]) {
+            if (entry.label) {
+                aliases[entry.label.toLowerCase()] = entry.walletId;
+            }
+        }
+        const owned = visible.filter(entry => userId && entry.ownerId === userId);
+        if (owned.length === 1) {
+            aliases[OWN_WALLET_ALIAS] = owned[0].walletId;
+        }
+        return aliases;
+    };
+
+    return { register, get, list, byLabel, aliasesFor };
+};
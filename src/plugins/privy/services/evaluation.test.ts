@@ -0,0 +1,120 @@
+import { evaluateCondition, evaluatePolicy } from "./evaluation.js";
+import { ERC20_ABI, encodeErc20Transfer } from "../abi.js";
+import { PrivyCondition, PrivyPolicyResponse, PrivyRule } from "../types/policies.js";
+import { PrivyTransactionRequest } from "../types/wallets.js";
+
+const RECIPIENT = "0x1111111111111111111111111111111111111111";
+const OTHER = "0x2222222222222222222222222222222222222222";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+
+function policy(rules: PrivyRule[], defaultAction: PrivyPolicyResponse['default_action'] = "DENY"): PrivyPolicyResponse {
+    return {
+        id: "policy-1",
+        version: "1.0",
+        name: "Test policy",
+        chain_type: "ethereum",
+        method_rules: [{ method: "eth_sendTransaction", rules }],
+        default_action: defaultAction
+    };
+}
+
+function send(overrides: Partial<PrivyTransactionRequest> = {}): PrivyTransactionRequest {
+    return { wallet_id: "wallet-1", to: RECIPIENT, value: "1000", ...overrides };
+}
+
+const maxValue = (value: string): PrivyCondition => ({ field_source: "ethereum_transaction", field: "value", operator: "lte", value });
+
+describe("evaluateCondition", () => {
+    it("compares values numerically, including hex quantities", () => {
+        expect(evaluateCondition(maxValue("1000"), send()).satisfied).toBe(true);
+        expect(evaluateCondition(maxValue("999"), send()).satisfied).toBe(false);
+        expect(evaluateCondition(maxValue("0x3e8"), send()).satisfied).toBe(true);
+    });
+
+    it("matches EVM addresses regardless of checksum casing", () => {
+        const condition: PrivyCondition = { field_source: "ethereum_transaction", field: "to", operator: "in", value: [OTHER, RECIPIENT.toUpperCase().replace("0X", "0x")] };
+        expect(evaluateCondition(condition, send()).satisfied).toBe(true);
+        expect(evaluateCondition({ ...condition, value: [OTHER] }, send()).satisfied).toBe(false);
+    });
+
+    it("reads decoded transfer arguments from calldata", () => {
+        const condition: PrivyCondition = {
+            field_source: "ethereum_calldata",
+            field: "transfer.amount",
+            operator: "lte",
+            value: "500",
+            abi: ERC20_ABI as unknown as JSON
+        };
+        expect(evaluateCondition(condition, send({ to: TOKEN, value: "0", data: encodeErc20Transfer(RECIPIENT, 500n) })).satisfied).toBe(true);
+        expect(evaluateCondition(condition, send({ to: TOKEN, value: "0", data: encodeErc20Transfer(RECIPIENT, 501n) })).satisfied).toBe(false);
+    });
+
+    it("does not satisfy a calldata condition for a request without calldata", () => {
+        const condition: PrivyCondition = { field_source: "ethereum_calldata", field: "transfer.to", operator: "eq", value: RECIPIENT, abi: ERC20_ABI as unknown as JSON };
+        expect(evaluateCondition(condition, send())).toEqual({ condition, satisfied: false });
+    });
+
+    it("reads the recipient, amount and mint of Solana transfers", () => {
+        const transfer = send({ to: "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin", value: "2000000", mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v" });
+        expect(evaluateCondition({ field_source: "solana_transaction", field: "value", operator: "lte", value: "2000000" }, transfer).satisfied).toBe(true);
+        expect(evaluateCondition({ field_source: "solana_instruction", field: "mint", operator: "eq", value: transfer.mint! }, transfer).satisfied).toBe(true);
+        expect(evaluateCondition({ field_source: "solana_instruction", field: "mint", operator: "eq", value: transfer.mint! }, send({ mint: undefined })).satisfied).toBe(false);
+    });
+
+    it("marks fields it cannot read as unsupported", () => {
+        const result = evaluateCondition({ field_source: "interpreted_transaction", field: "contract_risk", operator: "eq", value: "low" }, send());
+        expect(result).toMatchObject({ satisfied: false, unsupported: true });
+    });
+});
+
+describe("evaluatePolicy", () => {
+    it("allows a request matching an ALLOW rule", () => {
+        const evaluation = evaluatePolicy(policy([{ name: "Small sends", action: "ALLOW", conditions: [maxValue("1000")] }]), send());
+        expect(evaluation.decision).toBe("ALLOW");
+        expect(evaluation.matchedRule?.name).toBe("Small sends");
+    });
+
+    it("lets a matching DENY rule win over a matching ALLOW rule", () => {
+        const evaluation = evaluatePolicy(policy([
+            { name: "Small sends", action: "ALLOW", conditions: [maxValue("1000")] },
+            { name: "Blocked recipient", action: "DENY", conditions: [{ field_source: "ethereum_transaction", field: "to", operator: "eq", value: RECIPIENT }] }
+        ]), send());
+        expect(evaluation.decision).toBe("DENY");
+        expect(evaluation.matchedRule?.name).toBe("Blocked recipient");
+    });
+
+    it("falls back to the default action when no rule matches", () => {
+        const rules: PrivyRule[] = [{ name: "Tiny sends", action: "ALLOW", conditions: [maxValue("10")] }];
+        expect(evaluatePolicy(policy(rules, "DENY"), send()).decision).toBe("DENY");
+        expect(evaluatePolicy(policy(rules, "ALLOW"), send()).decision).toBe("ALLOW");
+    });
+
+    it("only applies rules of the requested method", () => {
+        const evaluation = evaluatePolicy(policy([{ name: "Small sends", action: "ALLOW", conditions: [maxValue("1000")] }]), send(), "eth_signTransaction");
+        expect(evaluation).toMatchObject({ decision: "DENY", method: "eth_signTransaction" });
+    });
+
+    it("is indeterminate when an unreadable ALLOW rule could overturn a default DENY", () => {
+        const evaluation = evaluatePolicy(policy([{
+            name: "Low risk",
+            action: "ALLOW",
+            conditions: [{ field_source: "interpreted_transaction", field: "contract_risk", operator: "eq", value: "low" }]
+        }]), send());
+        expect(evaluation.decision).toBe("INDETERMINATE");
+        expect(evaluation.reason).toContain("Low risk");
+    });
+
+    it("is indeterminate when an unreadable DENY rule could overturn an ALLOW", () => {
+        const evaluation = evaluatePolicy(policy([
+            { name: "Small sends", action: "ALLOW", conditions: [maxValue("1000")] },
+            { name: "Risky", action: "DENY", conditions: [{ field_source: "interpreted_transaction", field: "contract_risk", operator: "eq", value: "high" }] }
+        ]), send());
+        expect(evaluation.decision).toBe("INDETERMINATE");
+    });
+
+    it("keeps a certain verdict when unreadable rules could not change it", () => {
+        const unreadable: PrivyCondition = { field_source: "interpreted_transaction", field: "contract_risk", operator: "eq", value: "high" };
+        expect(evaluatePolicy(policy([{ name: "Risky", action: "DENY", conditions: [unreadable] }], "DENY"), send()).decision).toBe("DENY");
+        expect(evaluatePolicy(policy([{ name: "Risky", action: "DENY", conditions: [unreadable, maxValue("10")] }], "ALLOW"), send()).decision).toBe("ALLOW");
+    });
+});
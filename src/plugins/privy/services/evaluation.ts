@@ -0,0 +1,335 @@
+import {
+    PrivyCondition,
+    PrivyConditionResult,
+    PrivyMethodRule,
+    PrivyPolicyEvaluation,
+    PrivyPolicyResponse,
+    PrivyRule,
+} from "../types/policies.js";
+import { PrivyTransactionRequest } from "../types/wallets.js";
+import { decodeTokenCall } from "../abi.js";
+import { isEvmAddress, sameAddress } from "../addresses.js";
+
+/**
+ * Field sources that describe the raw transaction and can be read straight from a request
+ */
+const TRANSACTION_FIELD_SOURCES: PrivyCondition['field_source'][] = ["ethereum_transaction", "monad_transaction"];
+
+/**
+ * Solana field sources, readable for the fields the plugin's own rules use: the recipient and amount
+ * of a transfer, and the mint of an SPL token transfer
+ */
+const SOLANA_FIELD_SOURCES: PrivyCondition['field_source'][] = ["solana_transaction", "solana_instruction"];
+
+/**
+ * Field sources that describe decoded calldata, readable for the token calls in `abi.ts`
+ */
+const CALLDATA_FIELD_SOURCES: PrivyCondition['field_source'][] = ["ethereum_calldata", "monad_calldata"];
+
+/**
+ * Transaction fields that hold integer quantities and are compared numerically
+ */
+const NUMERIC_FIELDS = ["value", "chain_id", "gas", "gas_limit", "nonce"];
+
+/**
+ * Reads a decoded calldata argument such as `transfer.amount` from a request
+ *
+ * Arguments are matched by position against the condition's ABI when it names the function, so
+ * rules written with other parameter names (e.g. `_to`, `_value`) still evaluate.
+ *
+ * @param condition - The calldata condition
+ * @param request - The transaction request
+ * @returns The argument as a string (integers in decimal), null if the request calls no function or another
+ * token function, or undefined if the calldata cannot be decoded locally
+ */
+function readCalldataField(condition: PrivyCondition, request: PrivyTransactionRequest): string | null | undefined {
+    const [functionName, argumentName] = condition.field.split(".");
+    if (!request.data || request.data === "0x") {
+        return null;
+    }
+    const call = decodeTokenCall(request.data);
+    if (!call || !argumentName) {
+        return undefined;
+    }
+    if (call.function.name !== functionName) {
+        return null;
+    }
+
+    const abi = Array.isArray(condition.abi) ? condition.abi as { type?: string; name?: string; inputs?: { name?: string }[] }[] : [];
+    const entry = abi.find(item => item.type === "function" && item.name === functionName);
+    const position = entry?.inputs?.findIndex(input => input.name === argumentName) ?? -1;
+    const input = position >= 0 ? call.function.inputs[position] : call.function.inputs.find(candidate => candidate.name === argumentName);
+    return input ? String(call.args[input.name]) : undefined;
+}
+
+/**
+ * Reads a Solana condition's field from the transfer a request describes
+ *
+ * @param condition - The Solana condition
+ * @param request - The transaction request of a SOL or SPL token transfer
+ * @returns The field value, null for the mint of a SOL transfer, or undefined if the evaluator cannot read this field
+ */
+function readSolanaField(condition: PrivyCondition, request: PrivyTransactionRequest): string | null | undefined {
+    if (condition.field_source === "solana_instruction") {
+        return condition.field === "mint" ? request.mint ?? null : undefined;
+    }
+    switch (condition.field) {
+        case "to":
+            return request.to;
+        case "value":
+            return request.value;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Reads a condition's field from a transaction request
+ *
+ * @param condition - The condition being evaluated
+ * @param request - The transaction request
+ * @returns The field value, null if the request has no such field, or undefined if the evaluator cannot read this field
+ */
+function readField(condition: PrivyCondition, request: PrivyTransactionRequest): string | null | undefined {
+    if (CALLDATA_FIELD_SOURCES.includes(condition.field_source)) {
+        return readCalldataField(condition, request);
+    }
+    if (SOLANA_FIELD_SOURCES.includes(condition.field_source)) {
+        return readSolanaField(condition, request);
+    }
+    if (!TRANSACTION_FIELD_SOURCES.includes(condition.field_source)) {
+        return undefined;
+    }
+
+    switch (condition.field) {
+        case "to":
+            return request.to;
+        case "value":
+            return request.value;
+        case "data":
+            return request.data ?? "0x";
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Converts a decimal or hex quantity into a bigint
+ *
+ * @param value - The quantity to convert
+ * @returns The parsed quantity, or undefined if it is not an integer
+ */
+function toQuantity(value: string | number): bigint | undefined {
+    try {
+        if (typeof value === "number") {
+            return Number.isInteger(value) ? BigInt(value) : undefined;
+        }
+        const trimmed = value.trim();
+        return trimmed ? BigInt(trimmed) : undefined;
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Compares two field values, numerically for quantity fields and as strings otherwise
+ *
+ * @param numeric - Whether the field holds an integer quantity
+ * @param actual - The value read from the request
+ * @param expected - The value from the condition
+ * @returns Negative, zero or positive like a sort comparator, or undefined if the values are not comparable
+ */
+function compare(numeric: boolean, actual: string, expected: string | number): number | undefined {
+    if (numeric) {
+        const left = toQuantity(actual);
+        const right = toQuantity(expected);
+        if (left === undefined || right === undefined) {
+            return undefined;
+        }
+        return left === right ? 0 : left < right ? -1 : 1;
+    }
+
+    // EVM addresses match regardless of checksum casing
+    if (isEvmAddress(actual) && isEvmAddress(String(expected))) {
+        return sameAddress(actual, String(expected)) ? 0 : undefined;
+    }
+    return actual === String(expected) ? 0 : undefined;
+}
+
+/**
+ * Evaluates a single condition against a transaction request
+ *
+ * @param condition - The condition to evaluate
+ * @param request - The transaction request
+ * @returns Whether the condition is satisfied
+ */
+export function evaluateCondition(condition: PrivyCondition, request: PrivyTransactionRequest): PrivyConditionResult {
+    const actual = readField(condition, request);
+    if (actual === undefined) {
+        return { condition, satisfied: false, unsupported: true };
+    }
+    if (actual === null) {
+        return { condition, satisfied: false };
+    }
+
+    // Decoded calldata integers are read in decimal, while addresses keep their 0x prefix
+    const numeric = NUMERIC_FIELDS.includes(condition.field)
+        || (CALLDATA_FIELD_SOURCES.includes(condition.field_source) && /^\d+$/.test(actual));
+
+    let satisfied: boolean;
+    switch (condition.operator) {
+        case "in": {
+            const candidates = Array.isArray(condition.value) ? condition.value : [condition.value];
+            satisfied = candidates.some(candidate => compare(numeric, actual, candidate) === 0);
+            break;
+        }
+        case "eq":
+        case "neq": {
+            const equal = !Array.isArray(condition.value) && compare(numeric, actual, condition.value) === 0;
+            satisfied = condition.operator === "eq" ? equal : !equal;
+            break;
+        }
+        default: {
+            const result = Array.isArray(condition.value) ? undefined : compare(numeric, actual, condition.value);
+            if (result === undefined) {
+                satisfied = false;
+                break;
+            }
+            satisfied =
+                condition.operator === "lt" ? result < 0 :
+                condition.operator === "lte" ? result <= 0 :
+                condition.operator === "gt" ? result > 0 :
+                result >= 0;
+        }
+    }
+
+    return { condition, satisfied };
+}
+
+/**
+ * Describes a condition in a short human-readable form, e.g. `ethereum_transaction.value lte 1000`
+ *
+ * @param condition - The condition to describe
+ * @returns The description
+ */
+export function describeCondition(condition: PrivyCondition): string {
+    const value = Array.isArray(condition.value) ? `[${condition.value.join(", ")}]` : String(condition.value);
+    return `${condition.field_source}.${condition.field} ${condition.operator} ${value}`;
+}
+
+/**
+ * Whether a rule matches a request: when some condition cannot be read locally and none of the
+ * others fails, the match is unknown
+ */
+type RuleMatch = "match" | "no_match" | "unknown";
+
+/**
+ * Decides whether a rule matches from the results of its conditions
+ *
+ * @param results - The results of the rule's conditions
+ * @returns Whether the rule matches
+ */
+function ruleMatch(results: PrivyConditionResult[]): RuleMatch {
+    if (results.some(result => !result.satisfied && !result.unsupported)) {
+        return "no_match";
+    }
+    return results.some(result => result.unsupported) ? "unknown" : "match";
+}
+
+/**
+ * Simulates a Privy policy locally against a transaction request.
+ *
+ * Rules on the matching method are checked in order; a rule matches when all of its conditions
+ * hold. A matching DENY rule takes precedence over any matching ALLOW rule, and when no rule
+ * matches the policy's default action applies.
+ *
+ * Conditions the evaluator cannot read leave their rule's match unknown. The verdict is then
+ * `INDETERMINATE` whenever those rules could change it, and Privy decides when the request is sent.
+ *
+ * @param policy - The policy to evaluate
+ * @param request - The transaction request
+ * @param method - The wallet RPC method the request would use
+ * @returns The verdict and the rule that produced it
+ */
+export function evaluatePolicy(
+    policy: PrivyPolicyResponse,
+    request: PrivyTransactionRequest,
+    method: PrivyMethodRule['method'] = "eth_sendTransaction"
+): PrivyPolicyEvaluation {
+    const rules: PrivyRule[] = (policy.method_rules || [])
+        .filter(methodRule => methodRule.method === method)
+        .flatMap(methodRule => methodRule.rules || []);
+
+    const conditionResults: PrivyConditionResult[] = [];
+    let allowRule: PrivyRule | undefined;
+    let unknownDeny: PrivyRule | undefined;
+    let unknownAllow: PrivyRule | undefined;
+
+    for (const rule of rules) {
+        const results = (rule.conditions || []).map(condition => evaluateCondition(condition, request));
+        conditionResults.push(...results);
+
+        const match = ruleMatch(results);
+        if (match === "no_match") {
+            continue;
+        }
+
+        if (rule.action === "DENY") {
+            if (match === "unknown") {
+                unknownDeny = unknownDeny || rule;
+                continue;
+            }
+            return {
+                decision: "DENY",
+                method,
+                matchedRule: rule,
+                conditionResults,
+                reason: `rule '${rule.name}' matched, DENY`
+            };
+        }
+
+        if (match === "unknown") {
+            unknownAllow = unknownAllow || rule;
+        } else {
+            allowRule = allowRule || rule;
+        }
+    }
+
+    const unreadable = (rule: PrivyRule) => conditionResults
+        .filter(result => result.unsupported && rule.conditions.includes(result.condition))
+        .map(result => describeCondition(result.condition))
+        .join(", ");
+    const indeterminate = (rule: PrivyRule): PrivyPolicyEvaluation => ({
+        decision: "INDETERMINATE",
+        method,
+        conditionResults,
+        reason: `rule '${rule.name}' (${rule.action}) may match, but ${unreadable(rule)} cannot be checked locally; Privy decides`
+    });
+
+    // An unknown DENY rule only changes the verdict when the request would otherwise be allowed
+    if (unknownDeny && (allowRule || unknownAllow || policy.default_action === "ALLOW")) {
+        return indeterminate(unknownDeny);
+    }
+
+    if (allowRule) {
+        return {
+            decision: "ALLOW",
+            method,
+            matchedRule: allowRule,
+            conditionResults,
+            reason: `rule '${allowRule.name}' matched, ALLOW`
+        };
+    }
+
+    // An unknown ALLOW rule only changes the verdict when the default would deny the request
+    if (unknownAllow && policy.default_action === "DENY") {
+        return indeterminate(unknownAllow);
+    }
+
+    return {
+        decision: policy.default_action,
+        method,
+        conditionResults,
+        reason: `no rule matched, default ${policy.default_action}`
+    };
+}
@@ -0,0 +1,246 @@
+import { PrivyHistoryEntry, PrivyHistoryFilter, PrivyHistoryStatus } from "../types/history.js";
+import { PrivyTrackedTransaction } from "../types/transactions.js";
+import { PrivyWalletTransaction } from "../types/wallets.js";
+import { PrivyToken } from "../types/tokens.js";
+import { decodeTokenCall } from "../abi.js";
+import { formatAmount } from "../amounts.js";
+import { sameAddress } from "../addresses.js";
+import { chainTypeFromCaip2, explorerTxUrl, getNativeToken } from "../chains.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How Privy transaction statuses map onto history statuses
+ */
+const PRIVY_STATUSES: Record<PrivyWalletTransaction['status'], PrivyHistoryStatus> = {
+    pending: "pending",
+    broadcasted: "pending",
+    confirmed: "confirmed",
+    finalized: "confirmed",
+    execution_reverted: "failed",
+    failed: "failed",
+    provider_error: "failed",
+    replaced: "dropped",
+};
+
+/**
+ * How tracked transaction statuses map onto history statuses
+ */
+const TRACKED_STATUSES: Record<PrivyTrackedTransaction['status'], PrivyHistoryStatus> = {
+    pending: "pending",
+    mined: "pending",
+    confirmed: "confirmed",
+    failed: "failed",
+    dropped: "dropped",
+};
+
+/**
+ * Converts a transfer recorded by Privy into a history entry
+ *
+ * @param transaction - The Privy transaction
+ * @param explorers - Explorer URL templates overriding the defaults, keyed by CAIP-2 ID
+ * @param monadChainId - Chain ID of the configured Monad network
+ * @returns The history entry
+ */
+export function fromPrivyTransaction(
+    transaction: PrivyWalletTransaction,
+    explorers?: Record<string, string>,
+    monadChainId?: string
+): PrivyHistoryEntry {
+    const chainType = chainTypeFromCaip2(transaction.caip2, monadChainId);
+    const details = transaction.details;
+    const direction = details?.type === "transfer_received" ? "received" : "sent";
+    const hash = transaction.transaction_hash || undefined;
+
+    return {
+        hash,
+        caip2: transaction.caip2,
+        chainType,
+        direction,
+        counterparty: details ? (direction === "received" ? details.sender : details.recipient) : undefined,
+        amount: details?.raw_value,
+        decimals: details?.raw_value_decimals ?? (details ? getNativeToken(chainType).decimals : undefined),
+        symbol: details?.asset?.toUpperCase(),
+        status: PRIVY_STATUSES[transaction.status] || "pending",
+        timestamp: transaction.created_at,
+        source: "privy",
+        explorerUrl: hash ? explorerTxUrl(transaction.caip2, hash, explorers) : undefined
+    };
+}
+
+/**
+ * Converts a transaction the plugin sent into a history entry, decoding token transfers
+ *
+ * @param transaction - The tracked transaction
+ * @param tokenFor - Looks up the token at a contract address
+ * @param explorers - Explorer URL templates overriding the defaults, keyed by CAIP-2 ID
+ * @returns The history entry
+ */
+export function fromTrackedTransaction(
+    transaction: PrivyTrackedTransaction,
+    tokenFor: (address: string) => PrivyToken | undefined = () => undefined,
+    explorers?: Record<string, string>
+): PrivyHistoryEntry {
+    const { request } = transaction;
+    const entry: PrivyHistoryEntry = {
+        hash: transaction.hash,
+        caip2: transaction.caip2,
+        chainType: transaction.chainType,
+        direction: "sent",
+        status: TRACKED_STATUSES[transaction.status],
+        timestamp: transaction.submittedAt,
+        source: "local",
+        explorerUrl: explorerTxUrl(transaction.caip2, transaction.hash, explorers)
+    };
+
+    if (request.mint) {
+        const token = tokenFor(request.mint);
+        return {
+            ...entry,
+            counterparty: request.to,
+            amount: request.value,
+            decimals: request.decimals ?? token?.decimals,
+            symbol: token?.symbol,
+            tokenAddress: request.mint
+        };
+    }
+
+    const call = decodeTokenCall(request.data);
+    if (!call) {
+        const native = getNativeToken(transaction.chainType);
+        return { ...entry, counterparty: request.to, amount: request.value || "0", decimals: native.decimals, symbol: native.symbol };
+    }
+
+    const token = tokenFor(request.to);
+    return {
+        ...entry,
+        counterparty: (call.args.to ?? call.args.spender) as string,
+        amount: call.args.amount !== undefined ? call.args.amount.toString() : undefined,
+        decimals: token?.decimals,
+        symbol: token?.symbol,
+        tokenAddress: request.to
+    };
+}
+
+/**
+ * Combines Privy's records with the plugin's own, preferring Privy's details and the more settled status
+ *
+ * @param privyEntries - Entries from Privy
+ * @param localEntries - Entries from the plugin's records
+ * @returns The entries, newest first
+ */
+export function mergeHistory(privyEntries: PrivyHistoryEntry[], localEntries: PrivyHistoryEntry[]): PrivyHistoryEntry[] {
+    const merged = [...privyEntries];
+    for (const local of localEntries) {
+        const index = merged.findIndex(entry => entry.hash && local.hash && entry.hash.toLowerCase() === local.hash.toLowerCase());
+        if (index === -1) {
+            merged.push(local);
+            continue;
+        }
+        const privy = merged[index];
+        merged[index] = {
+            ...local,
+            ...privy,
+            // Privy may not have indexed the token, while the plugin decoded it from the calldata
+            symbol: privy.symbol || local.symbol,
+            tokenAddress: local.tokenAddress,
+            status: privy.status === "pending" ? local.status : privy.status,
+            source: "both"
+        };
+    }
+    return merged.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Selects the entries matching a filter
+ *
+ * @param entries - The history entries
+ * @param filter - Criteria the entries must match
+ * @returns The matching entries
+ */
+export function filterHistory(entries: PrivyHistoryEntry[], filter: PrivyHistoryFilter): PrivyHistoryEntry[] {
+    return entries.filter(entry => {
+        if (filter.since !== undefined && entry.timestamp < filter.since) {
+            return false;
+        }
+        if (filter.until !== undefined && entry.timestamp >= filter.until) {
+            return false;
+        }
+        if (filter.status && entry.status !== filter.status) {
+            return false;
+        }
+        if (filter.counterparty && !(entry.counterparty && sameAddress(entry.counterparty, filter.counterparty, entry.chainType))) {
+            return false;
+        }
+        if (filter.token) {
+            const bySymbol = entry.symbol?.toUpperCase() === filter.token.toUpperCase();
+            const byAddress = Boolean(entry.tokenAddress && sameAddress(entry.tokenAddress, filter.token, entry.chainType));
+            return bySymbol || byAddress;
+        }
+        return true;
+    });
+}
+
+/**
+ * Reads a date range such as "today", "this week" or "last 30 days" from message text, in UTC
+ *
+ * @param text - The message text
+ * @param now - The current time, in milliseconds
+ * @returns The range, or undefined if the text names none
+ */
+export function parseDateRange(text: string, now: number = Date.now()): Pick<PrivyHistoryFilter, 'since' | 'until'> | undefined {
+    const lower = text.toLowerCase();
+    const startOfToday = Math.floor(now / DAY_MS) * DAY_MS;
+    // Weeks start on Monday; 1970-01-01 was a Thursday
+    const startOfWeek = startOfToday - ((new Date(startOfToday).getUTCDay() + 6) % 7) * DAY_MS;
+
+    const days = lower.match(/\b(?:last|past)\s+(\d+)\s+days?\b/);
+    if (days) {
+        return { since: now - Number(days[1]) * DAY_MS };
+    }
+    if (/\btoday\b/.test(lower)) {
+        return { since: startOfToday };
+    }
+    if (/\byesterday\b/.test(lower)) {
+        return { since: startOfToday - DAY_MS, until: startOfToday };
+    }
+    if (/\bthis week\b/.test(lower)) {
+        return { since: startOfWeek };
+    }
+    if (/\blast week\b/.test(lower)) {
+        return { since: startOfWeek - 7 * DAY_MS, until: startOfWeek };
+    }
+    if (/\bthis month\b/.test(lower)) {
+        const date = new Date(now);
+        return { since: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) };
+    }
+    if (/\blast month\b/.test(lower)) {
+        const date = new Date(now);
+        return {
+            since: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1),
+            until: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+        };
+    }
+    return undefined;
+}
+
+/**
+ * Formats history entries as a Markdown table with human amounts and explorer links
+ *
+ * @param entries - The entries to show
+ * @returns The table
+ */
+export function formatHistoryTable(entries: PrivyHistoryEntry[]): string {
+    const rows = entries.map(entry => {
+        const date = new Date(entry.timestamp).toISOString().slice(0, 16).replace("T", " ");
+        const amount = entry.amount === undefined
+            ? (entry.symbol || "?")
+            : entry.decimals !== undefined
+                ? formatAmount(entry.amount, entry.decimals, entry.symbol || "")
+                : `${entry.amount} base units${entry.symbol ? ` ${entry.symbol}` : ""}`;
+        const counterparty = entry.counterparty ? `${entry.direction === "sent" ? "to" : "from"} ${entry.counterparty}` : entry.direction;
+        const link = entry.explorerUrl ? `[view](${entry.explorerUrl})` : (entry.hash || "-");
+        return `| ${date} | ${entry.direction} | ${amount.trim()} | ${counterparty} | ${entry.status} | ${link} |`;
+    });
+    return ["| Date (UTC) | Direction | Amount | Counterparty | Status | Link |", "|---|---|---|---|---|---|", ...rows].join("\n");
+}
@@ -0,0 +1,87 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { deriveIdempotencyKey, idempotencyService, PrivyIdempotencyRecord } from "./idempotency.js";
+import { PrivyTransactionRequest } from "../types/wallets.js";
+
+const WINDOW_MS = 10 * 60 * 1000;
+
+const request: PrivyTransactionRequest = { wallet_id: "wallet-1", to: "0x1111111111111111111111111111111111111111", value: "1000" };
+
+/**
+ * A runtime whose cache is a map, so tests can age its records
+ */
+function cachedRuntime() {
+    const cache = new Map<string, unknown>();
+    const runtime = {
+        cacheManager: {
+            get: async (key: string) => cache.get(key),
+            set: async (key: string, value: unknown) => { cache.set(key, value); },
+            delete: async (key: string) => { cache.delete(key); }
+        }
+    } as unknown as IAgentRuntime;
+    const age = (key: string, ms: number) => {
+        const record = cache.get(`privy/idempotency/${key}`) as PrivyIdempotencyRecord;
+        record.createdAt -= ms;
+    };
+    return { runtime, age };
+}
+
+describe("deriveIdempotencyKey", () => {
+    it("derives the same key for the same intent, whatever the address casing", () => {
+        expect(deriveIdempotencyKey("message-1", request)).toBe(deriveIdempotencyKey("message-1", { ...request, to: request.to.toUpperCase().replace("0X", "0x") }));
+    });
+
+    it("derives another key for another message, amount or recipient", () => {
+        const key = deriveIdempotencyKey("message-1", request);
+        expect(deriveIdempotencyKey("message-2", request)).not.toBe(key);
+        expect(deriveIdempotencyKey("message-1", { ...request, value: "1001" })).not.toBe(key);
+        expect(deriveIdempotencyKey("message-1", { ...request, to: "0x2222222222222222222222222222222222222222" })).not.toBe(key);
+    });
+});
+
+describe("idempotencyService", () => {
+    it("records an intent as pending, then sent", async () => {
+        const { runtime } = cachedRuntime();
+        const idempotency = idempotencyService(runtime, WINDOW_MS);
+
+        await expect(idempotency.claim("key", request)).resolves.toBeUndefined();
+        await expect(idempotency.get("key")).resolves.toMatchObject({ status: "pending" });
+
+        await idempotency.recordSent("key", request, { hash: "0xabc", caip2: "eip155:1" });
+        await expect(idempotency.get("key")).resolves.toMatchObject({ status: "sent", transaction: { hash: "0xabc" } });
+        await expect(idempotency.claim("key", request)).resolves.toMatchObject({ status: "sent" });
+    });
+
+    it("lets only one of two concurrent sends claim an intent", async () => {
+        const { runtime } = cachedRuntime();
+        const idempotency = idempotencyService(runtime, WINDOW_MS);
+
+        const claims = await Promise.all([idempotency.claim("key", request), idempotency.claim("key", request)]);
+
+        expect(claims.filter(claim => claim === undefined)).toHaveLength(1);
+        expect(claims.find(claim => claim !== undefined)).toMatchObject({ status: "pending" });
+    });
+
+    it("lets an intent left pending by a send that never finished be claimed again", async () => {
+        const { runtime, age } = cachedRuntime();
+        const idempotency = idempotencyService(runtime, WINDOW_MS);
+
+        await idempotency.claim("key", request);
+        age("key", 2 * 60 * 1000 + 1);
+
+        await expect(idempotency.get("key")).resolves.toBeUndefined();
+        await expect(idempotency.claim("key", request)).resolves.toBeUndefined();
+    });
+
+    it("forgets intents that were cleared or fell out of the window", async () => {
+        const { runtime, age } = cachedRuntime();
+        const idempotency = idempotencyService(runtime, WINDOW_MS);
+
+        await idempotency.claim("cleared", request);
+        await idempotency.clear("cleared");
+        await expect(idempotency.get("cleared")).resolves.toBeUndefined();
+
+        await idempotency.recordSent("old", request, { hash: "0xabc", caip2: "eip155:1" });
+        age("old", WINDOW_MS + 1);
+        await expect(idempotency.get("old")).resolves.toBeUndefined();
+    });
+});
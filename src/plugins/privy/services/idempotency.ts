@@ -0,0 +1,130 @@
+import { createHash } from "crypto";
+import { IAgentRuntime } from "@ai16z/eliza";
+import { PrivyTransactionRequest, PrivyTransactionResponse } from "../types/wallets.js";
+import { withCacheLock } from "./locks.js";
+
+/**
+ * Header Privy uses to deduplicate requests
+ */
+export const IDEMPOTENCY_HEADER = "privy-idempotency-key";
+
+const CACHE_PREFIX = "privy/idempotency";
+
+/**
+ * Age after which a pending intent is taken to be a send that never finished, e.g. because the
+ * agent stopped mid-send; it outlasts a Privy request with all its retries
+ */
+const PENDING_STALE_MS = 2 * 60 * 1000;
+
+/**
+ * State of a transaction intent recorded under an idempotency key
+ */
+export interface PrivyIdempotencyRecord {
+    status: "pending" | "sent";
+    request: PrivyTransactionRequest;
+    transaction?: PrivyTransactionResponse;
+    createdAt: number;
+}
+
+/**
+ * Derives a stable idempotency key for a transaction intent
+ *
+ * The same message asking for the same transfer always yields the same key, so a repeated
+ * invocation of the action for one user intent is recognized as a duplicate.
+ *
+ * @param intentId - Identifier of the intent, usually the triggering message id
+ * @param request - The transaction request
+ * @returns A hex-encoded SHA-256 key
+ */
+export function deriveIdempotencyKey(intentId: string, request: PrivyTransactionRequest): string {
+    const parts = [
+        intentId,
+        request.wallet_id,
+        request.to.toLowerCase(),
+        request.value,
+        (request.data || "0x").toLowerCase()
+    ];
+    if (request.mint) {
+        parts.push(request.mint);
+    }
+    return createHash("sha256").update(parts.join("|")).digest("hex");
+}
+
+/**
+ * Creates an idempotency store backed by the runtime cache
+ *
+ * @param runtime - The agent runtime whose cache records intents
+ * @param windowMs - How long a recorded intent suppresses repeats
+ * @returns Idempotency store methods
+ */
+export const idempotencyService = (runtime: IAgentRuntime, windowMs: number) => {
+    const cacheKey = (key: string) => `${CACHE_PREFIX}/${key}`;
+
+    /**
+     * Looks up a recorded intent
+     *
+     * @param key - The idempotency key
+     * @returns The record, or undefined if none exists within the window or the intent was left pending
+     */
+    const get = async (key: string): Promise<PrivyIdempotencyRecord | undefined> => {
+        const record = await runtime.cacheManager.get<PrivyIdempotencyRecord>(cacheKey(key));
+        const age = record ? Date.now() - record.createdAt : 0;
+        if (!record || age > windowMs || (record.status === "pending" && age > PENDING_STALE_MS)) {
+            return undefined;
+        }
+        return record;
+    };
+
+    /**
+     * Marks an intent as in flight unless it was already sent or is being sent
+     *
+     * The check and the mark are one step, so of two concurrent sends of an intent only one goes
+     * ahead. An intent left pending by a send that never finished may be claimed again; the retry
+     * carries the same key, so Privy does not send it twice.
+     *
+     * @param key - The idempotency key
+     * @param request - The transaction request
+     * @returns The record standing in the way, or undefined once the intent is marked pending
+     */
+    const claim = (key: string, request: PrivyTransactionRequest): Promise<PrivyIdempotencyRecord | undefined> =>
+        withCacheLock(cacheKey(key), async () => {
+            const record = await get(key);
+            if (record) {
+                return record;
+            }
+            const createdAt = Date.now();
+            await runtime.cacheManager.set<PrivyIdempotencyRecord>(
+                cacheKey(key),
+                { status: "pending", request, createdAt },
+                { expires: createdAt + windowMs }
+            );
+            return undefined;
+        });
+
+    /**
+     * Records the response of a sent transaction
+     *
+     * @param key - The idempotency key
+     * @param request - The transaction request
+     * @param transaction - The Privy response
+     */
+    const recordSent = async (key: string, request: PrivyTransactionRequest, transaction: PrivyTransactionResponse): Promise<void> => {
+        const createdAt = Date.now();
+        await runtime.cacheManager.set<PrivyIdempotencyRecord>(
+            cacheKey(key),
+            { status: "sent", request, transaction, createdAt },
+            { expires: createdAt + windowMs }
+        );
+    };
+
+    /**
+     * Forgets an intent, e.g. after the send failed and may be attempted again
+     *
+     * @param key - The idempotency key
+     */
+    const clear = async (key: string): Promise<void> => {
+        await runtime.cacheManager.delete(cacheKey(key));
+    };
+
+    return { get, claim, recordSent, clear };
+};
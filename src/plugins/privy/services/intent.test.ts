@@ -0,0 +1,54 @@
+import { IAgentRuntime, Memory } from "@ai16z/eliza";
+import { clarifyingQuestion, parseIntentFromText, resolveIntent } from "./intent.js";
+
+const RECIPIENT = "0x1111111111111111111111111111111111111111";
+
+/**
+ * A message carrying only text; resolving intents that are complete never reaches the model
+ */
+function message(text: string): Memory {
+    return { content: { text } } as Memory;
+}
+
+describe("parseIntentFromText", () => {
+    it("reads the recipient, amount, token and wallet of a send", () => {
+        expect(parseIntentFromText(`send 0.5 ETH to ${RECIPIENT} from my treasury wallet`)).toMatchObject({
+            to: RECIPIENT,
+            amount: "0.5",
+            token: "ETH",
+            walletName: "treasury"
+        });
+    });
+
+    it("reads the message to sign", () => {
+        expect(parseIntentFromText(`sign the message "hello there"`).message).toBe("hello there");
+    });
+
+    it("finds nothing in unrelated text", () => {
+        expect(parseIntentFromText("what can you do?")).toEqual({});
+    });
+});
+
+describe("resolveIntent", () => {
+    const runtime = {} as IAgentRuntime;
+
+    it("lets explicit options win over the message text and maps wallet nicknames to IDs", async () => {
+        const { intent, missing } = await resolveIntent(runtime, message(`send 0.5 ETH to ${RECIPIENT} from my treasury wallet`), undefined, { amount: "0.25" }, {
+            required: ["walletId", "to", "value"],
+            walletAliases: { Treasury: "wallet-1" }
+        });
+
+        expect(missing).toEqual([]);
+        expect(intent).toMatchObject({ walletId: "wallet-1", to: RECIPIENT, amount: "0.25", value: "250000000000000000" });
+    });
+});
+
+describe("clarifyingQuestion", () => {
+    it("asks for every missing parameter once", () => {
+        expect(clarifyingQuestion(["walletId", "walletName", "to"])).toBe("Could you tell me which wallet to use and the recipient address?");
+    });
+
+    it("explains values it could not use", () => {
+        expect(clarifyingQuestion(["walletId"], { walletName: "savings" })).toBe(`I don't know a wallet called "savings". Could you tell me which wallet to use?`);
+    });
+});
@@ -0,0 +1,377 @@
+import {
+    composeContext,
+    generateText,
+    IAgentRuntime,
+    Memory,
+    ModelClass,
+    parseJSONObjectFromText,
+    State,
+} from "@ai16z/eliza";
+import { privyIntentTemplate } from "../templates.js";
+import { isBaseUnits, parseAmount, splitAmount } from "../amounts.js";
+import { PrivyToken } from "../types/tokens.js";
+import { OWN_WALLET_ALIAS } from "./directory.js";
+import { isSolanaAddress } from "../addresses.js";
+
+/**
+ * Parameters of a Privy wallet operation, as far as they could be determined
+ */
+export interface PrivyIntent {
+    walletId?: string;
+    walletName?: string;
+    to?: string;
+    amount?: string;
+    token?: string;
+    /** Contract of the token being sent, or its mint on Solana, when it is not the native token */
+    tokenAddress?: string;
+    /** Amount in base units: the native value, or the token amount when `tokenAddress` is set */
+    value?: string;
+    data?: string;
+    /** Token function to call, e.g. "transfer" or "approve" */
+    call?: string;
+    /** Owner address for `transferFrom` and `safeTransferFrom` */
+    from?: string;
+    /** ID of an ERC-721 token */
+    tokenId?: string;
+    policyId?: string;
+    message?: string;
+}
+
+/**
+ * Options controlling how an intent is resolved
+ */
+export interface PrivyIntentOptions {
+    /** Parameters the action cannot proceed without */
+    required: (keyof PrivyIntent)[];
+    /** Wallet nicknames mapped to wallet IDs */
+    walletAliases?: Record<string, string>;
+    /** Looks up a non-native token by symbol */
+    tokenFor?: (symbol: string) => PrivyToken | undefined;
+    /** Parameters the model may only fill in when the requesting user wrote them in the conversation */
+    literal?: (keyof PrivyIntent)[];
+}
+
+/**
+ * Parameters deciding where funds go and how much is moved, which sends only take from the model
+ * when the requesting user wrote them
+ */
+export const TRANSFER_PARAMETERS: (keyof PrivyIntent)[] = [
+    "walletId", "walletName", "to", "amount", "token", "tokenAddress", "value", "data", "call", "from", "tokenId"
+];
+
+/**
+ * How many recent messages are searched for parameters the user wrote
+ */
+const RECENT_MESSAGE_COUNT = 10;
+
+const INTENT_KEYS: (keyof PrivyIntent)[] = [
+    "walletId", "walletName", "to", "amount", "token", "tokenAddress", "value", "data", "call", "from", "tokenId", "policyId", "message"
+];
+
+/**
+ * How each parameter is described when asking the user for it
+ */
+const PARAMETER_PROMPTS: Record<keyof PrivyIntent, string> = {
+    walletId: "which wallet to use",
+    walletName: "which wallet to use",
+    to: "the recipient address",
+    amount: "how much to send",
+    token: "which token to send",
+    tokenAddress: "the token contract address",
+    value: "how much to send",
+    data: "the transaction data",
+    call: "which token function to call",
+    from: "the address to transfer from",
+    tokenId: "which token ID to send",
+    policyId: "which policy to use",
+    message: "the message to sign",
+};
+
+/**
+ * Extracts operation parameters from message text with regular expressions
+ *
+ * @param text - The message text
+ * @returns The parameters found
+ */
+export function parseIntentFromText(text: string): PrivyIntent {
+    const intent: PrivyIntent = {};
+    if (!text) {
+        return intent;
+    }
+
+    const recipient = text.match(/\bto\s+(0x[a-fA-F0-9]{40})\b/) || text.match(/\b(0x[a-fA-F0-9]{40})\b/);
+    const solanaRecipient = text.match(/\bto\s+([1-9A-HJ-NP-Za-km-z]{32,44})\b/);
+    if (recipient) {
+        intent.to = recipient[1];
+    } else if (solanaRecipient && isSolanaAddress(solanaRecipient[1])) {
+        intent.to = solanaRecipient[1];
+    }
+
+    // Numbers may use grouping, scientific notation or a magnitude suffix: "1,000.50 MON", "2.5e-3 ETH", "1.5k USDC"
+    const amount = text.match(/(?:^|\s)(\d[\d.,_']*(?:e[+-]?\d+)?(?:[kmb](?![A-Za-z]))?)\s*([A-Za-z][A-Za-z0-9]{1,9})\b/i);
+    if (amount) {
+        intent.amount = amount[1].replace(/[.,]$/, "");
+        intent.token = amount[2].toUpperCase();
+    }
+
+    // "approve 0xabc... to spend 100 USDC" sets an allowance instead of transferring
+    if (/\bto\s+spend\b|\ballowance\b/i.test(text)) {
+        intent.call = "approve";
+    }
+
+    const walletId = text.match(/\bwallet(?:\s+id)?\s*[:#]?\s*([a-z0-9]{20,30})\b/i);
+    if (walletId) {
+        intent.walletId = walletId[1];
+    }
+
+    // "from the payroll wallet", or "my wallet" for the user's own
+    const walletName = text.match(/\b(?:from|using|with|on|in|of)\s+(?:my|the|our)?\s*([\w-]+)\s+wallet\b/i)
+        || text.match(/\b(my)\s+wallet\b/i);
+    if (walletName) {
+        intent.walletName = walletName[1].toLowerCase();
+    }
+
+    const policyId = text.match(/\bpolicy(?:\s+id)?\s*[:#]?\s*([a-z0-9]{20,30})\b/i);
+    if (policyId) {
+        intent.policyId = policyId[1];
+    }
+
+    const signMessage = text.match(/\bsign\s+(?:the\s+|this\s+)?message\s*:?\s*["“'](.+?)["”']/i);
+    if (signMessage) {
+        intent.message = signMessage[1];
+    }
+
+    return intent;
+}
+
+/**
+ * Asks the runtime's model to extract operation parameters from the conversation
+ *
+ * @param runtime - The agent runtime
+ * @param message - The triggering message
+ * @param state - The current state, composed if not given
+ * @returns The parameters the model could determine
+ */
+export async function extractIntentWithModel(runtime: IAgentRuntime, message: Memory, state?: State): Promise<PrivyIntent> {
+    try {
+        const currentState = state ? await runtime.updateRecentMessageState(state) : await runtime.composeState(message);
+        const context = composeContext({ state: currentState, template: privyIntentTemplate });
+        const response = await generateText({ runtime, context, modelClass: ModelClass.SMALL });
+        const parsed = parseJSONObjectFromText(response) || {};
+
+        const intent: PrivyIntent = {};
+        for (const key of INTENT_KEYS) {
+            const value = parsed[key];
+            if (value !== null && value !== undefined && value !== "") {
+                intent[key] = String(value);
+            }
+        }
+        return intent;
+    } catch (error) {
+        console.error("Error extracting Privy intent with model:", error);
+        return {};
+    }
+}
+
+/**
+ * Collects the texts of the requesting user's recent messages in the room, the triggering one included
+ *
+ * @param runtime - The agent runtime
+ * @param message - The triggering message
+ * @param state - The current state, whose recent messages are used when present
+ * @returns The message texts
+ */
+async function userMessageTexts(runtime: IAgentRuntime, message: Memory, state?: State): Promise<string[]> {
+    let recent: Memory[] = state?.recentMessagesData || [];
+    if (!recent.length) {
+        try {
+            recent = await runtime.messageManager.getMemories({ roomId: message.roomId, count: RECENT_MESSAGE_COUNT });
+        } catch (error) {
+            console.error("Error reading recent messages for a Privy intent:", error);
+        }
+    }
+    return [message, ...recent]
+        .filter(memory => memory.userId === message.userId)
+        .map(memory => memory.content?.text || "");
+}
+
+/**
+ * Checks whether a parameter value was written in one of the texts; numbers match regardless of digit grouping
+ *
+ * @param value - The parameter value
+ * @param texts - The texts to search
+ * @returns Whether the value appears in a text
+ */
+function writtenIn(value: string, texts: string[]): boolean {
+    const ungroup = (number: string) => number.replace(/[,_']/g, "");
+    const needle = value.trim().toLowerCase();
+    if (/^\d[\d.,_']*$/.test(needle)) {
+        return texts.some(text => (text.match(/\d[\d.,_']*/g) || []).some(number => ungroup(number).replace(/\.$/, "") === ungroup(needle)));
+    }
+    return texts.some(text => text.toLowerCase().includes(needle));
+}
+
+/**
+ * Drops parameters the model extracted that the requesting user did not write, so they are asked for instead
+ *
+ * @param runtime - The agent runtime
+ * @param message - The triggering message
+ * @param state - The current state
+ * @param extracted - The parameters the model extracted
+ * @param literal - Parameters that must have been written by the user
+ * @returns The parameters that may be used
+ */
+async function keepWritten(
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    extracted: PrivyIntent,
+    literal: (keyof PrivyIntent)[]
+): Promise<PrivyIntent> {
+    const texts = await userMessageTexts(runtime, message, state);
+    const kept: PrivyIntent = { ...extracted };
+    for (const key of literal) {
+        const value = kept[key];
+        if (value !== undefined && !writtenIn(value, texts)) {
+            delete kept[key];
+        }
+    }
+    return kept;
+}
+
+/**
+ * Fills in parameters derived from others: wallet nicknames become IDs, token symbols become contract
+ * addresses and human amounts become base units
+ *
+ * @param intent - The parameters gathered so far
+ * @param walletAliases - Wallet nicknames mapped to wallet IDs
+ * @param tokenFor - Looks up a non-native token by symbol
+ * @returns The completed parameters
+ */
+function completeIntent(
+    intent: PrivyIntent,
+    walletAliases: Record<string, string> = {},
+    tokenFor: (symbol: string) => PrivyToken | undefined = () => undefined
+): PrivyIntent {
+    const completed = { ...intent };
+    const aliasFor = (name: string) => {
+        const key = Object.keys(walletAliases).find(alias => alias.toLowerCase() === name.toLowerCase());
+        return key ? walletAliases[key] : undefined;
+    };
+
+    if (completed.walletId && aliasFor(completed.walletId)) {
+        completed.walletId = aliasFor(completed.walletId);
+    }
+    if (!completed.walletId && completed.walletName) {
+        completed.walletId = aliasFor(completed.walletName);
+    }
+
+    // A value given as a human amount ("0.25 ETH") is split like one read from text
+    if (completed.value && !isBaseUnits(completed.value)) {
+        try {
+            const { amount, unit } = splitAmount(completed.value);
+            completed.amount = amount;
+            completed.token = unit || completed.token;
+        } catch (error) {
+            // Leave the value for the caller to reject
+        }
+        delete completed.value;
+    }
+
+    const token = completed.token ? tokenFor(completed.token) : undefined;
+    if (token && !completed.tokenAddress) {
+        completed.tokenAddress = token.address;
+    }
+
+    if (!completed.value && completed.amount && completed.token) {
+        try {
+            const decimalsFor = (unit: string) => token && unit === token.symbol.toUpperCase() ? token.decimals : undefined;
+            completed.value = parseAmount(`${completed.amount} ${completed.token}`, decimalsFor).value.toString();
+        } catch (error) {
+            // Unknown unit or too many decimals: the value stays missing and the user is asked for it
+        }
+    }
+
+    return completed;
+}
+
+/**
+ * Lists required parameters that are still missing
+ *
+ * @param intent - The parameters gathered so far
+ * @param required - Parameters the action needs
+ * @returns The missing parameter names
+ */
+function missingParameters(intent: PrivyIntent, required: (keyof PrivyIntent)[]): (keyof PrivyIntent)[] {
+    return required.filter(key => !intent[key]);
+}
+
+/**
+ * Resolves the parameters of a wallet operation from explicit options, the message text and, when
+ * those are not enough, the runtime's model
+ *
+ * Explicit options always win over parsed values, and parsed values over the model's. The model's
+ * values for `literal` parameters are dropped unless the requesting user wrote them, so a transfer
+ * never goes to a recipient or amount taken from someone else's message or made up by the model.
+ *
+ * @param runtime - The agent runtime
+ * @param message - The triggering message
+ * @param state - The current state
+ * @param options - Options passed to the action
+ * @param intentOptions - Required parameters, wallet aliases, token lookup and parameters the user must have written
+ * @returns The resolved parameters and any still missing
+ */
+export async function resolveIntent(
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: { [key: string]: unknown } | undefined,
+    intentOptions: PrivyIntentOptions
+): Promise<{ intent: PrivyIntent; missing: (keyof PrivyIntent)[] }> {
+    const explicit: PrivyIntent = {};
+    for (const key of INTENT_KEYS) {
+        const value = options?.[key];
+        if (typeof value === "string" && value) {
+            explicit[key] = value;
+        }
+    }
+
+    const parsed = parseIntentFromText(message.content?.text || "");
+    let intent = completeIntent({ ...parsed, ...explicit }, intentOptions.walletAliases, intentOptions.tokenFor);
+
+    if (missingParameters(intent, intentOptions.required).length) {
+        let extracted = await extractIntentWithModel(runtime, message, state);
+        if (intentOptions.literal?.length) {
+            extracted = await keepWritten(runtime, message, state, extracted, intentOptions.literal);
+        }
+        intent = completeIntent({ ...extracted, ...parsed, ...explicit }, intentOptions.walletAliases, intentOptions.tokenFor);
+    }
+
+    return { intent, missing: missingParameters(intent, intentOptions.required) };
+}
+
+/**
+ * Builds a question asking the user for missing parameters
+ *
+ * @param missing - The missing parameter names
+ * @param intent - The parameters gathered so far, used to explain unusable values
+ * @returns The clarifying question
+ */
+export function clarifyingQuestion(missing: (keyof PrivyIntent)[], intent: PrivyIntent = {}): string {
+    const prompts = [...new Set(missing.map(key => PARAMETER_PROMPTS[key]))];
+    const asks = prompts.length > 1
+        ? `${prompts.slice(0, -1).join(", ")} and ${prompts[prompts.length - 1]}`
+        : prompts[0];
+
+    const notes: string[] = [];
+    if (missing.includes("walletId") && intent.walletName === OWN_WALLET_ALIAS) {
+        notes.push("I couldn't tell which of your wallets you mean.");
+    } else if (missing.includes("walletId") && intent.walletName) {
+        notes.push(`I don't know a wallet called "${intent.walletName}".`);
+    }
+    if (missing.includes("value") && intent.amount && intent.token) {
+        notes.push(`I can't convert ${intent.amount} ${intent.token} into a transaction value; please give the amount in a native token, gwei or wei, or tell me the token contract address.`);
+    }
+
+    return [...notes, `Could you tell me ${asks}?`].join(" ");
+}
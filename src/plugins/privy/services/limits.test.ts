@@ -0,0 +1,158 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { spendingLimits, spendsOf } from "./limits.js";
+import { encodeErc20Approve, encodeErc20Transfer } from "../abi.js";
+import { PrivySpendRecord } from "../types/limits.js";
+import { PrivyTransactionRequest } from "../types/wallets.js";
+
+const RECIPIENT = "0x1111111111111111111111111111111111111111";
+const OTHER = "0x2222222222222222222222222222222222222222";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const ETHER = 10n ** 18n;
+
+const USDC = { symbol: "USDC", address: TOKEN, decimals: 6 };
+
+function send(value: bigint, to: string = RECIPIENT): PrivyTransactionRequest {
+    return { wallet_id: "wallet-1", to, value: value.toString() };
+}
+
+function transfer(amount: bigint, to: string = RECIPIENT): PrivyTransactionRequest {
+    return { wallet_id: "wallet-1", to: TOKEN, value: "0", data: encodeErc20Transfer(to, amount) };
+}
+
+/**
+ * A runtime whose cache is a map, so tests can age recorded spending
+ */
+function cachedRuntime() {
+    const cache = new Map<string, unknown>();
+    const runtime = {
+        cacheManager: {
+            get: async (key: string) => cache.get(key),
+            set: async (key: string, value: unknown) => { cache.set(key, value); },
+            delete: async (key: string) => { cache.delete(key); }
+        }
+    } as unknown as IAgentRuntime;
+    const age = (walletId: string, ms: number) => {
+        for (const record of cache.get(`privy/limits/${walletId}`) as PrivySpendRecord[]) {
+            record.timestamp -= ms;
+        }
+    };
+    return { runtime, age };
+}
+
+describe("spendsOf", () => {
+    it("counts native value and token transfer amounts", () => {
+        expect(spendsOf(send(5n))).toEqual([{ asset: "native", recipient: RECIPIENT, amount: "5" }]);
+        expect(spendsOf(transfer(7n))).toEqual([{ asset: TOKEN, recipient: RECIPIENT, amount: "7" }]);
+    });
+
+    it("counts the allowance of an approval as sent to the spender", () => {
+        expect(spendsOf({ ...transfer(7n), data: encodeErc20Approve(OTHER, 7n) })).toEqual([{ asset: TOKEN, recipient: OTHER, amount: "7" }]);
+    });
+});
+
+describe("spendingLimits", () => {
+    it("does not limit wallets without configured limits", async () => {
+        const { runtime } = cachedRuntime();
+        const limits = spendingLimits(runtime, { wallets: { "wallet-2": { daily: "1" } } });
+        await expect(limits.evaluate("wallet-1", "ethereum", [], send(ETHER))).resolves.toEqual({ allowed: true, violations: [], remaining: [] });
+    });
+
+    it("refuses a send that would exceed the daily cap, counting recorded sends", async () => {
+        const { runtime } = cachedRuntime();
+        const limits = spendingLimits(runtime, { defaults: { daily: ETHER.toString() } });
+
+        await limits.record(send(ETHER * 3n / 4n), "0xabc");
+        const check = await limits.evaluate("wallet-1", "ethereum", [], send(ETHER / 2n));
+
+        expect(check.allowed).toBe(false);
+        expect(check.violations[0]).toBe("sending 0.5 ETH exceeds the daily ETH limit, which has 0.25 ETH of 1 ETH left");
+        expect(check.remaining[0].formatted).toBe("0.25 ETH of 1 ETH left (daily ETH)");
+        await expect(limits.evaluate("wallet-1", "ethereum", [], send(ETHER / 4n))).resolves.toMatchObject({ allowed: true });
+    });
+
+    it("frees the daily cap after 24 hours but keeps counting against the weekly cap", async () => {
+        const { runtime, age } = cachedRuntime();
+        const limits = spendingLimits(runtime, { defaults: { daily: ETHER.toString(), weekly: (ETHER * 3n / 2n).toString() } });
+
+        await limits.record(send(ETHER), "0xabc");
+        age("wallet-1", 24 * 60 * 60 * 1000 + 1);
+
+        const check = await limits.evaluate("wallet-1", "ethereum", [], send(ETHER));
+        expect(check.violations).toEqual(["sending 1 ETH exceeds the weekly ETH limit, which has 0.5 ETH of 1.5 ETH left"]);
+    });
+
+    it("applies token caps keyed by symbol and per-recipient caps", async () => {
+        const { runtime } = cachedRuntime();
+        const limits = spendingLimits(runtime, { wallets: { "wallet-1": { tokens: { usdc: { daily: "100000000", perRecipientDaily: "10000000" } } } } });
+
+        await limits.record(transfer(8000000n), "0xabc");
+
+        await expect(limits.evaluate("wallet-1", "ethereum", [USDC], transfer(5000000n, OTHER))).resolves.toMatchObject({ allowed: true });
+        const check = await limits.evaluate("wallet-1", "ethereum", [USDC], transfer(5000000n));
+        expect(check.violations).toEqual([`sending 5 USDC to ${RECIPIENT} exceeds the daily USDC limit per recipient, which has 2 USDC of 10 USDC left for that recipient`]);
+    });
+
+    it("reserves spending so that of two concurrent sends only the one that fits goes ahead", async () => {
+        const { runtime } = cachedRuntime();
+        const limits = spendingLimits(runtime, { defaults: { daily: ETHER.toString() } });
+
+        const checks = await Promise.all([limits.reserve(send(ETHER * 3n / 4n), "key-1"), limits.reserve(send(ETHER * 3n / 4n), "key-2")]);
+
+        expect(checks.map(check => check.allowed)).toEqual([true, false]);
+    });
+
+    it("frees the reservation of a send that was not sent", async () => {
+        const { runtime } = cachedRuntime();
+        const limits = spendingLimits(runtime, { defaults: { daily: ETHER.toString() } });
+
+        await limits.reserve(send(ETHER), "key-1");
+        await expect(limits.evaluate("wallet-1", "ethereum", [], send(1n))).resolves.toMatchObject({ allowed: false });
+
+        await limits.release(send(ETHER), "key-1");
+        await expect(limits.evaluate("wallet-1", "ethereum", [], send(ETHER))).resolves.toMatchObject({ allowed: true });
+    });
+
+    it("counts a sent transaction once, in place of its reservation", async () => {
+        const { runtime } = cachedRuntime();
+        const limits = spendingLimits(runtime, { defaults: { daily: ETHER.toString() } });
+
+        await limits.reserve(send(ETHER / 2n), "key-1");
+        await expect(limits.reserve(send(ETHER / 2n), "key-1")).resolves.toMatchObject({ allowed: true });
+        await limits.record(send(ETHER / 2n), "0xabc", "key-1");
+
+        const check = await limits.evaluate("wallet-1", "ethereum");
+        expect(check.remaining[0]).toMatchObject({ used: (ETHER / 2n).toString() });
+    });
+
+    it("counts pending transactions, such as queued approvals, as spent", async () => {
+        const { runtime } = cachedRuntime();
+        const limits = spendingLimits(runtime, { defaults: { daily: ETHER.toString() } });
+
+        await expect(limits.reserve(send(ETHER / 2n), "key-1", "ethereum", [], [send(ETHER * 3n / 4n)])).resolves.toMatchObject({ allowed: false });
+    });
+
+    it("counts approvals against token caps and refuses allowances it cannot count", async () => {
+        const { runtime } = cachedRuntime();
+        const limits = spendingLimits(runtime, { defaults: { tokens: { USDC: { daily: "100000000" } } } });
+        const approve = (amount: bigint) => ({ ...transfer(0n), data: encodeErc20Approve(OTHER, amount) });
+
+        await expect(limits.evaluate("wallet-1", "ethereum", [USDC], approve(100000000n))).resolves.toMatchObject({ allowed: true });
+        await expect(limits.evaluate("wallet-1", "ethereum", [USDC], approve(2n ** 256n - 1n))).resolves.toMatchObject({ allowed: false });
+
+        const increase = { ...transfer(0n), data: `0x39509351${OTHER.slice(2).padStart(64, "0")}${"1".padStart(64, "0")}` };
+        const check = await limits.evaluate("wallet-1", "ethereum", [USDC], increase);
+        expect(check.violations).toEqual([expect.stringContaining("increaseAllowance grants an allowance the token limits cannot count")]);
+    });
+
+    it("caps the number of transactions per hour", async () => {
+        const { runtime, age } = cachedRuntime();
+        const limits = spendingLimits(runtime, { defaults: { maxTransactionsPerHour: 2 } });
+
+        await limits.record(send(1n), "0x1");
+        await limits.record({ ...transfer(1n), data: encodeErc20Approve(OTHER, 1n) }, "0x2");
+        await expect(limits.evaluate("wallet-1", "ethereum", [], send(1n))).resolves.toMatchObject({ allowed: false });
+
+        age("wallet-1", 60 * 60 * 1000 + 1);
+        await expect(limits.evaluate("wallet-1", "ethereum", [], send(1n))).resolves.toMatchObject({ allowed: true });
+    });
+});
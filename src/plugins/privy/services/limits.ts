@@ -0,0 +1,354 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import {
+    PrivyAllowance,
+    PrivyAssetLimits,
+    PrivyLimitCheck,
+    PrivyLimitsConfig,
+    PrivySpend,
+    PrivySpendingLimits,
+    PrivySpendRecord
+} from "../types/limits.js";
+import { PrivyTransactionRequest } from "../types/wallets.js";
+import { PrivyToken } from "../types/tokens.js";
+import { decodeTokenCall } from "../abi.js";
+import { formatAmount } from "../amounts.js";
+import { getNativeToken } from "../chains.js";
+import { isEvmAddress, isSolanaAddress } from "../addresses.js";
+import { withCacheLock } from "./locks.js";
+
+const CACHE_PREFIX = "privy/limits";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Asset key of the chain's native token
+ */
+const NATIVE_ASSET = "native";
+
+/**
+ * Selectors of allowance grants whose amount cannot be counted: ERC-20 `increaseAllowance(address,uint256)`,
+ * which adds to an allowance that is not known here, and `setApprovalForAll(address,bool)`, which has no amount
+ */
+const UNMEASURED_ALLOWANCE_SELECTORS: Record<string, string> = {
+    "0x39509351": "increaseAllowance",
+    "0xa22cb465": "setApprovalForAll"
+};
+
+/**
+ * Lists the amounts a transaction moves: its native value, and the amount of a token transfer
+ * or of a Solana transfer of the mint it names
+ *
+ * An ERC-20 `approve` counts its allowance as sent to the spender, who may move that much without
+ * another transaction. NFT transfers move no fungible amount of their own, but still count as transactions.
+ *
+ * @param request - The transaction request
+ * @returns The spends
+ */
+export function spendsOf(request: PrivyTransactionRequest): PrivySpend[] {
+    if (request.mint) {
+        return [{ asset: request.mint.toLowerCase(), recipient: request.to.toLowerCase(), amount: BigInt(request.value).toString() }];
+    }
+
+    const spends: PrivySpend[] = [];
+    if (BigInt(request.value || "0") > 0n) {
+        spends.push({ asset: NATIVE_ASSET, recipient: request.to.toLowerCase(), amount: BigInt(request.value).toString() });
+    }
+    const call = decodeTokenCall(request.data);
+    if (call && (call.function.name === "transfer" || call.function.name === "transferFrom")) {
+        spends.push({ asset: request.to.toLowerCase(), recipient: String(call.args.to).toLowerCase(), amount: String(call.args.amount) });
+    }
+    if (call?.function.name === "approve") {
+        spends.push({ asset: request.to.toLowerCase(), recipient: String(call.args.spender).toLowerCase(), amount: String(call.args.amount) });
+    }
+    return spends;
+}
+
+/**
+ * Looks up token limits keyed by address or symbol, ignoring case
+ *
+ * @param tokens - Token limits keyed by address or symbol
+ * @param address - The token contract
+ * @param symbol - The token's registry symbol, if known
+ * @returns The limits, if configured
+ */
+function tokenLimitsFor(tokens: Record<string, PrivyAssetLimits> | undefined, address: string, symbol?: string): PrivyAssetLimits | undefined {
+    const key = Object.keys(tokens || {}).find(candidate =>
+        candidate.toLowerCase() === address.toLowerCase() || (symbol !== undefined && candidate.toLowerCase() === symbol.toLowerCase())
+    );
+    return key ? tokens![key] : undefined;
+}
+
+/**
+ * Creates a spending limits tracker backed by the runtime cache
+ *
+ * @param runtime - The agent runtime whose cache records spending
+ * @param config - Limits for all wallets and per wallet
+ * @returns Spending limit methods
+ */
+export const spendingLimits = (runtime: IAgentRuntime, config: PrivyLimitsConfig = {}) => {
+    const cacheKey = (walletId: string) => `${CACHE_PREFIX}/${walletId}`;
+
+    /**
+     * Gets the limits of a wallet, its own entry overriding the defaults field by field
+     *
+     * @param walletId - The wallet ID
+     * @returns The limits, or undefined if the wallet is not limited
+     */
+    const limitsFor = (walletId: string): PrivySpendingLimits | undefined => {
+        const own = config.wallets?.[walletId];
+        if (!own && !config.defaults) {
+            return undefined;
+        }
+        return { ...config.defaults, ...own, tokens: { ...config.defaults?.tokens, ...own?.tokens } };
+    };
+
+    /**
+     * Loads a wallet's spending of the last week
+     *
+     * @param walletId - The wallet ID
+     * @returns The records, oldest first
+     */
+    const load = async (walletId: string): Promise<PrivySpendRecord[]> => {
+        const records = (await runtime.cacheManager.get<PrivySpendRecord[]>(cacheKey(walletId))) || [];
+        const cutoff = Date.now() - WEEK_MS;
+        return records.filter(record => record.timestamp > cutoff);
+    };
+
+    /**
+     * Sums a wallet's spending of an asset within a window
+     *
+     * @param records - The wallet's records
+     * @param asset - The asset key
+     * @param windowMs - The window, ending now
+     * @param recipient - Only count spending to this recipient
+     * @returns The amount in base units
+     */
+    const spent = (records: PrivySpendRecord[], asset: string, windowMs: number, recipient?: string): bigint => {
+        const cutoff = Date.now() - windowMs;
+        return records
+            .filter(record => record.timestamp > cutoff)
+            .flatMap(record => record.spends)
+            .filter(spend => spend.asset === asset && (!recipient || spend.recipient === recipient))
+            .reduce((total, spend) => total + BigInt(spend.amount), 0n);
+    };
+
+    const save = async (walletId: string, records: PrivySpendRecord[]): Promise<void> => {
+        await runtime.cacheManager.set(cacheKey(walletId), records, { expires: Date.now() + WEEK_MS });
+    };
+
+    /**
+     * Computes what is left of each limit of a wallet, and the limits a transaction would exceed
+     *
+     * @param walletId - The wallet ID
+     * @param chainType - Chain of the wallet, used to display native amounts
+     * @param tokens - Registry tokens of the wallet's chain, so limits may be keyed by symbol and amounts displayed
+     * @param request - A transaction to check against the limits
+     * @param pending - Transactions not sent yet that count as already sent, such as earlier rows of a batch
+     * @returns The limit check; `allowed` is true when the wallet is not limited
+     */
+    const evaluate = async (
+        walletId: string,
+        chainType?: string,
+        tokens: PrivyToken[] = [],
+        request?: PrivyTransactionRequest,
+        pending: PrivyTransactionRequest[] = []
+    ): Promise<PrivyLimitCheck> => assess(walletId, await load(walletId), chainType, tokens, request, pending);
+
+    /**
+     * Checks a transaction against a wallet's limits given its spending records
+     *
+     * @param walletId - The wallet ID
+     * @param sent - The wallet's spending records, including reservations
+     * @param chainType - Chain of the wallet, used to display native amounts
+     * @param tokens - Registry tokens of the wallet's chain
+     * @param request - A transaction to check against the limits
+     * @param pending - Transactions not sent yet that count as already sent
+     * @returns The limit check
+     */
+    const assess = (
+        walletId: string,
+        sent: PrivySpendRecord[],
+        chainType: string | undefined,
+        tokens: PrivyToken[],
+        request: PrivyTransactionRequest | undefined,
+        pending: PrivyTransactionRequest[]
+    ): PrivyLimitCheck => {
+        const limits = limitsFor(walletId);
+        if (!limits) {
+            return { allowed: true, violations: [], remaining: [] };
+        }
+
+        const now = Date.now();
+        const records = [...sent, ...pending.map(transaction => ({ timestamp: now, spends: spendsOf(transaction) }))];
+        const spends = request ? spendsOf(request) : [];
+        const violations: string[] = [];
+        const remaining: PrivyAllowance[] = [];
+
+        if (limits.maxTransactionsPerHour !== undefined) {
+            const used = records.filter(record => record.timestamp > Date.now() - HOUR_MS).length;
+            const left = Math.max(limits.maxTransactionsPerHour - used, 0);
+            remaining.push({
+                name: "hourly transactions",
+                limit: String(limits.maxTransactionsPerHour),
+                used: String(used),
+                remaining: String(left),
+                formatted: `${left} of ${limits.maxTransactionsPerHour} transactions left this hour`
+            });
+            if (request && left < 1) {
+                violations.push(`the wallet already sent ${used} transactions in the last hour, the most allowed`);
+            }
+        }
+
+        const unmeasured = request?.data && UNMEASURED_ALLOWANCE_SELECTORS[request.data.slice(0, 10).toLowerCase()];
+        if (unmeasured && Object.keys(limits.tokens || {}).length) {
+            violations.push(`${unmeasured} grants an allowance the token limits cannot count, so it is refused on a wallet with token limits; use approve with an amount instead`);
+        }
+
+        // Native limits always apply; token limits apply to configured tokens and to any token being sent
+        const native = getNativeToken(chainType);
+        const assets = new Map<string, { limits: PrivyAssetLimits; symbol: string; decimals?: number }>();
+        assets.set(NATIVE_ASSET, { limits, symbol: native.symbol, decimals: native.decimals });
+        const tokenFor = (address: string) => tokens.find(token => token.address.toLowerCase() === address);
+        const tokenAddresses = new Set([
+            ...Object.keys(limits.tokens || {}).map(key =>
+                isEvmAddress(key) || isSolanaAddress(key) ? key : tokens.find(token => token.symbol.toLowerCase() === key.toLowerCase())?.address
+            ).filter((address): address is string => Boolean(address)).map(address => address.toLowerCase()),
+            ...spends.filter(spend => spend.asset !== NATIVE_ASSET).map(spend => spend.asset)
+        ]);
+        for (const record of records) {
+            for (const spend of record.spends) {
+                if (spend.asset !== NATIVE_ASSET) {
+                    tokenAddresses.add(spend.asset);
+                }
+            }
+        }
+        for (const address of tokenAddresses) {
+            const token = tokenFor(address);
+            const tokenLimits = tokenLimitsFor(limits.tokens, address, token?.symbol);
+            if (tokenLimits) {
+                assets.set(address, { limits: tokenLimits, symbol: token?.symbol || address, decimals: token?.decimals });
+            }
+        }
+
+        for (const [asset, { limits: assetLimits, symbol, decimals }] of assets) {
+            const display = (units: bigint) => decimals !== undefined ? formatAmount(units, decimals, symbol) : `${units} base units of ${symbol}`;
+            const windows: [keyof PrivyAssetLimits, string, number][] = [["daily", "daily", DAY_MS], ["weekly", "weekly", WEEK_MS]];
+            for (const [field, label, windowMs] of windows) {
+                const cap = assetLimits[field];
+                if (cap === undefined) {
+                    continue;
+                }
+                const used = spent(records, asset, windowMs);
+                const left = BigInt(cap) > used ? BigInt(cap) - used : 0n;
+                remaining.push({
+                    name: `${label} ${symbol}`,
+                    limit: cap,
+                    used: used.toString(),
+                    remaining: left.toString(),
+                    formatted: `${display(left)} of ${display(BigInt(cap))} left (${label} ${symbol})`
+                });
+                const amount = spends.filter(spend => spend.asset === asset).reduce((total, spend) => total + BigInt(spend.amount), 0n);
+                if (amount > left) {
+                    violations.push(`sending ${display(amount)} exceeds the ${label} ${symbol} limit, which has ${display(left)} of ${display(BigInt(cap))} left`);
+                }
+            }
+
+            if (assetLimits.perRecipientDaily !== undefined) {
+                for (const spend of spends.filter(candidate => candidate.asset === asset)) {
+                    const used = spent(records, asset, DAY_MS, spend.recipient);
+                    const cap = BigInt(assetLimits.perRecipientDaily);
+                    const left = cap > used ? cap - used : 0n;
+                    if (BigInt(spend.amount) > left) {
+                        violations.push(`sending ${display(BigInt(spend.amount))} to ${spend.recipient} exceeds the daily ${symbol} limit per recipient, which has ${display(left)} of ${display(cap)} left for that recipient`);
+                    }
+                }
+            }
+        }
+
+        return { allowed: violations.length === 0, violations, remaining };
+    };
+
+    /**
+     * Checks a transaction against its wallet's limits and, if it fits, holds its spending until it
+     * is recorded as sent or released
+     *
+     * The check and the hold are one step, so concurrent sends from a wallet cannot together go
+     * past a limit that each of them fits on its own.
+     *
+     * @param request - The transaction request
+     * @param idempotencyKey - Key the transaction is sent under
+     * @param chainType - Chain of the wallet, used to display native amounts
+     * @param tokens - Registry tokens of the wallet's chain
+     * @param pending - Transactions not sent yet that count as already sent, such as queued approvals
+     * @returns The limit check; the spending is held only when `allowed` is true
+     */
+    const reserve = async (
+        request: PrivyTransactionRequest,
+        idempotencyKey: string,
+        chainType?: string,
+        tokens: PrivyToken[] = [],
+        pending: PrivyTransactionRequest[] = []
+    ): Promise<PrivyLimitCheck> => {
+        if (!limitsFor(request.wallet_id)) {
+            return { allowed: true, violations: [], remaining: [] };
+        }
+        return withCacheLock(cacheKey(request.wallet_id), async () => {
+            // A retry of the same transaction replaces its earlier hold
+            const records = (await load(request.wallet_id)).filter(record => record.reservation !== idempotencyKey);
+            const check = assess(request.wallet_id, records, chainType, tokens, request, pending);
+            if (check.allowed) {
+                records.push({ timestamp: Date.now(), spends: spendsOf(request), reservation: idempotencyKey });
+                await save(request.wallet_id, records);
+            }
+            return check;
+        });
+    };
+
+    /**
+     * Releases the spending held for a transaction that was not sent
+     *
+     * @param request - The transaction request
+     * @param idempotencyKey - Key the transaction was to be sent under
+     */
+    const release = async (request: PrivyTransactionRequest, idempotencyKey: string): Promise<void> => {
+        if (!limitsFor(request.wallet_id)) {
+            return;
+        }
+        await withCacheLock(cacheKey(request.wallet_id), async () => {
+            const records = await load(request.wallet_id);
+            await save(request.wallet_id, records.filter(record => record.reservation !== idempotencyKey));
+        });
+    };
+
+    /**
+     * Records a sent transaction against its wallet's limits, in place of the spending held for it
+     *
+     * @param request - The transaction request
+     * @param hash - The transaction hash
+     * @param idempotencyKey - Key the transaction was sent under, if its spending was reserved
+     */
+    const record = async (request: PrivyTransactionRequest, hash?: string, idempotencyKey?: string): Promise<void> => {
+        if (!limitsFor(request.wallet_id)) {
+            return;
+        }
+        await withCacheLock(cacheKey(request.wallet_id), async () => {
+            const records = (await load(request.wallet_id)).filter(record => !idempotencyKey || record.reservation !== idempotencyKey);
+            records.push({ timestamp: Date.now(), hash, spends: spendsOf(request) });
+            await save(request.wallet_id, records);
+        });
+    };
+
+    return { limitsFor, evaluate, reserve, release, record };
+};
+
+/**
+ * Describes what is left of a wallet's limits in one sentence
+ *
+ * @param remaining - The allowances of a limit check
+ * @returns The description, or an empty string if the wallet is not limited
+ */
+export function describeAllowance(remaining: PrivyAllowance[]): string {
+    return remaining.length ? `Remaining allowance: ${remaining.map(allowance => allowance.formatted).join("; ")}.` : "";
+}
@@ -0,0 +1,27 @@
+/**
+ * Updates waiting on each cache key, as the tail of a promise chain
+ */
+const tails = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs a read-modify-write cycle on a runtime cache entry after any earlier cycle on the same entry
+ *
+ * Cache-backed stores load an entry, change it and save it back. Two cycles on one entry that
+ * interleave, as concurrent batch sends and background polling do, would lose one of the updates.
+ * Cycles are only ordered within this process.
+ *
+ * @param key - The cache key being updated
+ * @param update - Loads, changes and saves the entry
+ * @returns The result of the update
+ */
+export async function withCacheLock<T>(key: string, update: () => Promise<T>): Promise<T> {
+    const result = (tails.get(key) || Promise.resolve()).then(update);
+    const tail = result.catch(() => undefined);
+    tails.set(key, tail);
+    tail.then(() => {
+        if (tails.get(key) === tail) {
+            tails.delete(key);
+        }
+    });
+    return result;
+}
@@ -1,10 +1,18 @@
 import {
+    PrivyChainType,
+    PrivyCondition,
+    PrivyCreatePolicy,
+    PrivyMethodRule,
     PrivyRule,
     PrivyPolicyResponse,
     PrivyUpdatePolicy,
 } from "../types/policies.js";
+import { removeRule, upsertRule } from "./rules.js";
+import { getChainPolicyConfig } from "../chains.js";
+import { privyClient, PrivyClientOptions } from "./client.js";
+import { normalizeAddress, sameAddress } from "../addresses.js";
 
-const BASE_URL = "https://api.privy.io/v1/policies";
+const BASE_PATH = "/policies";
 
 /**
  * Creates a policy service instance for interacting with Privy policies
@@ -12,57 +20,51 @@ const BASE_URL = "https://api.privy.io/v1/policies";
  * @param name - Policy name
  * @param privyAppID - Privy App ID
  * @param privyAppSecret - Privy App Secret
- * @param authRequestKey - Optional authorization request key
+ * @param authorizationPrivateKey - Optional authorization private key used to sign requests
+ * @param clientOptions - Optional timeout and retry tuning
  * @returns Policy service methods
  */
-export const policyService = (name: string, privyAppID: string, privyAppSecret: string, authRequestKey?: string) => {
+export const policyService = (name: string, privyAppID: string, privyAppSecret: string, authorizationPrivateKey?: string, clientOptions?: PrivyClientOptions) => {
+    const client = privyClient(privyAppID, privyAppSecret, authorizationPrivateKey, clientOptions);
+
     /**
      * Creates a new policy
      * 
+     * @param chainType - Chain the policy applies to
+     * @param methods - Methods to create (empty) rule sets for; defaults to the chain's send method
      * @returns The created policy
      */
-    const createPolicy = async (): Promise<PrivyPolicyResponse> => {
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
-            'privy-app-id': privyAppID,
-            'Authorization': `Basic ${Buffer.from(`${privyAppID}:${privyAppSecret}`).toString('base64')}`
-        };
-
-        // Only add authorization signature if it exists
-        if (authRequestKey) {
-            headers['privy-authorization-signature'] = authRequestKey;
+    const createPolicy = async (chainType: PrivyChainType = "ethereum", methods?: PrivyMethodRule['method'][]): Promise<PrivyPolicyResponse> => {
+        const chainConfig = getChainPolicyConfig(chainType);
+        const policyMethods = methods?.length ? methods : [chainConfig.defaultMethod];
+        const unsupported = policyMethods.filter(method => !chainConfig.methods.includes(method));
+        if (unsupported.length) {
+            throw new Error(`Methods not supported on ${chainType}: ${unsupported.join(", ")}`);
         }
 
-        const policy = {
+        const policy: PrivyCreatePolicy = {
             "version": "1.0",
             "name": name,
-            "chain_type": "ethereum",
-            "method_rules": [{
-                "method": "eth_sendTransaction",
+            "chain_type": chainType,
+            "method_rules": policyMethods.map(method => ({
+                "method": method,
                 "rules": [],
-            }],
+            })),
             "default_action": "DENY"
         };
 
-        try {
-            const url = BASE_URL;
-            const response = await fetch(url, {
-                method: 'POST',
-                headers,
-                body: JSON.stringify(policy)
-            });
-
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error?.message || response.statusText);
-            }
+        return client.request<PrivyPolicyResponse>('POST', BASE_PATH, { body: policy });
+    };
 
-            const data = await response.json();
-            return data;
-        } catch (error: any) {
-            console.error("Privy API Error:", error.message);
-            throw error;
-        }
+    /**
+     * Sends a policy update to Privy
+     * 
+     * @param policyId - ID of the policy to update
+     * @param updatedPolicy - The fields to update
+     * @returns The updated policy
+     */
+    const patchPolicy = async (policyId: string, updatedPolicy: PrivyUpdatePolicy): Promise<PrivyPolicyResponse> => {
+        return client.request<PrivyPolicyResponse>('PATCH', `${BASE_PATH}/${policyId}`, { body: updatedPolicy });
     };
 
     /**
@@ -70,43 +72,71 @@ export const policyService = (name: string, privyAppID: string, privyAppSecret:
      * 
      * @param policyId - ID of the policy to update
      * @param tokenName - Name of the token
-     * @param tokenAddress - Contract address of the token
+     * @param tokenAddress - Contract address of the token, or a function resolving it for the policy's chain
      * @param remove - Whether to remove (denylist) or add (allowlist) the token
      * @returns The updated policy
      */
-    const updatePolicy = async (policyId: string, tokenName: string, tokenAddress: string, remove: boolean): Promise<PrivyPolicyResponse> => {
+    const updatePolicy = async (
+        policyId: string,
+        tokenName: string,
+        tokenAddress: string | ((existingPolicy: PrivyPolicyResponse) => string),
+        remove: boolean
+    ): Promise<PrivyPolicyResponse> => {
         if (!policyId) {
             throw new Error("Invalid parameters");
         }
 
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
-            'privy-app-id': privyAppID,
-            'Authorization': `Basic ${Buffer.from(`${privyAppID}:${privyAppSecret}`).toString('base64')}`
-        };
+        const existingPolicy = await getPolicy(policyId);
+        const address = normalizeAddress(
+            typeof tokenAddress === "function" ? tokenAddress(existingPolicy) : tokenAddress,
+            existingPolicy.chain_type,
+            "token address"
+        );
+        const updatedPolicy = remove ? denylistToken(existingPolicy, tokenName, address) : allowlistToken(existingPolicy, tokenName, address);
+        return patchPolicy(policyId, updatedPolicy);
+    };
 
-        try {
-            const url = `${BASE_URL}/${policyId}`;
-            const existingPolicy = await getPolicy(policyId);
-            const updatedPolicy = remove ? denylistToken(existingPolicy, tokenName, tokenAddress) : allowlistToken(existingPolicy, tokenName, tokenAddress);
-            
-            const response = await fetch(url, {
-                method: 'PATCH',
-                headers,
-                body: JSON.stringify(updatedPolicy)
-            });
-
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error?.message || response.statusText);
-            }
+    /**
+     * Adds a named rule to a policy method, optionally replacing a rule with the same name
+     * 
+     * @param policyId - ID of the policy to update
+     * @param method - Method the rule applies to; defaults to the send method of the policy's chain
+     * @param rule - The rule to add, or a function building it from the current policy
+     * @param replace - Whether an existing rule with the same name may be replaced
+     * @returns The updated policy
+     */
+    const addRule = async (
+        policyId: string,
+        method: PrivyMethodRule['method'] | undefined,
+        rule: PrivyRule | ((existingPolicy: PrivyPolicyResponse) => PrivyRule),
+        replace: boolean = false
+    ): Promise<PrivyPolicyResponse> => {
+        if (!policyId) {
+            throw new Error("Invalid parameters");
+        }
+
+        const existingPolicy = await getPolicy(policyId);
+        const ruleMethod = method || getChainPolicyConfig(existingPolicy.chain_type).defaultMethod;
+        const newRule = typeof rule === "function" ? rule(existingPolicy) : rule;
+        return patchPolicy(policyId, upsertRule(existingPolicy, ruleMethod, newRule, replace));
+    };
 
-            const data = await response.json();
-            return data;
-        } catch (error: any) {
-            console.error("Privy API Error:", error.message);
-            throw error;
+    /**
+     * Deletes a named rule from a policy method
+     * 
+     * @param policyId - ID of the policy to update
+     * @param method - Method the rule applies to; defaults to the send method of the policy's chain
+     * @param ruleName - Name of the rule to delete
+     * @returns The updated policy
+     */
+    const deleteRule = async (policyId: string, method: PrivyMethodRule['method'] | undefined, ruleName: string): Promise<PrivyPolicyResponse> => {
+        if (!policyId) {
+            throw new Error("Invalid parameters");
         }
+
+        const existingPolicy = await getPolicy(policyId);
+        const ruleMethod = method || getChainPolicyConfig(existingPolicy.chain_type).defaultMethod;
+        return patchPolicy(policyId, removeRule(existingPolicy, ruleMethod, ruleName));
     };
 
     /**
@@ -120,55 +150,72 @@ export const policyService = (name: string, privyAppID: string, privyAppSecret:
             throw new Error("Invalid parameters");
         }
 
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
-            'privy-app-id': privyAppID,
-            'Authorization': `Basic ${Buffer.from(`${privyAppID}:${privyAppSecret}`).toString('base64')}`
-        };
-
-        // Only add authorization signature if it exists
-        if (authRequestKey) {
-            headers['privy-authorization-signature'] = authRequestKey;
-        }
+        return client.request<PrivyPolicyResponse>('GET', `${BASE_PATH}/${policyId}`);
+    };
 
-        try {
-            const url = `${BASE_URL}/${policyId}`;
-            const response = await fetch(url, {
-                method: 'GET',
-                headers,
-            });
+    return { createPolicy, updatePolicy, addRule, deleteRule, getPolicy };
+};
 
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error?.message || response.statusText);
-            }
+/**
+ * A token address referenced by a policy rule
+ */
+export interface PrivyPolicyTokenRule {
+    address: string;
+    ruleName: string;
+    action: PrivyRule['action'];
+    method: PrivyMethodRule['method'];
+}
 
-            const data = await response.json();
-            return data;
-        } catch (error: any) {
-            console.error("Privy API Error:", error.message);
-            throw error;
-        }
-    };
+/**
+ * Lists the token addresses a policy's rules match on, read from conditions on the chain's token field
+ *
+ * @param policy - The policy to inspect
+ * @returns One entry per address and rule, in policy order
+ */
+export function policyTokenRules(policy: PrivyPolicyResponse): PrivyPolicyTokenRule[] {
+    const { tokenField } = getChainPolicyConfig(policy.chain_type);
+    return (policy.method_rules || []).flatMap(methodRule =>
+        (methodRule.rules || []).flatMap(rule =>
+            (rule.conditions || [])
+                .filter(condition =>
+                    condition.field_source === tokenField.field_source &&
+                    condition.field === tokenField.field &&
+                    (condition.operator === "eq" || condition.operator === "in")
+                )
+                .flatMap(condition => Array.isArray(condition.value) ? condition.value : [condition.value])
+                .map(address => ({ address: String(address), ruleName: rule.name, action: rule.action, method: methodRule.method }))
+        )
+    );
+}
 
-    return { createPolicy, updatePolicy, getPolicy };
-};
+/**
+ * Finds the method rules a token rule should apply to: every transaction-carrying method on the policy's chain
+ * 
+ * @param methodRules - Method rules of the policy being updated
+ * @param chainType - Chain the policy applies to
+ * @returns The matching method rules
+ */
+function tokenMethodRules(methodRules: PrivyMethodRule[], chainType: PrivyChainType): PrivyMethodRule[] {
+    const { transactionMethods } = getChainPolicyConfig(chainType);
+    return methodRules.filter(methodRule => transactionMethods.includes(methodRule.method));
+}
 
 /**
  * Helper function to add a token to the allowlist
  * 
  * @param existingPolicy - The current policy
  * @param tokenName - Name of the token to allow
- * @param tokenAddress - Contract address of the token
+ * @param tokenAddress - Contract address (or mint) of the token
  * @returns Policy update object
  */
 function allowlistToken(existingPolicy: PrivyPolicyResponse, tokenName: string, tokenAddress: string): PrivyUpdatePolicy {
+    const { tokenField } = getChainPolicyConfig(existingPolicy.chain_type);
     const newRule: PrivyRule = {
         "name": `Allowlist ${tokenName}`,
         "conditions": [
             {
-                "field_source": "ethereum_transaction",
-                "field": "to",
+                "field_source": tokenField.field_source,
+                "field": tokenField.field,
                 "operator": "eq",
                 "value": tokenAddress
             }
@@ -176,15 +223,15 @@ function allowlistToken(existingPolicy: PrivyPolicyResponse, tokenName: string,
         "action": "ALLOW"
     };
     
-    // Create a deep copy of the existing policy
+    // Copy the method rules so the existing policy is not mutated
     const updatedPolicy: PrivyUpdatePolicy = {
         name: existingPolicy.name,
-        method_rules: existingPolicy.method_rules ? [...existingPolicy.method_rules] : [],
+        method_rules: (existingPolicy.method_rules || []).map(methodRule => ({ ...methodRule, rules: [...methodRule.rules] })),
     };
 
-    // Add the new rule if method_rules exists
-    if (updatedPolicy.method_rules && updatedPolicy.method_rules[0]) {
-        updatedPolicy.method_rules[0].rules.push(newRule);
+    // Add the new rule to every transaction method of the policy's chain
+    for (const methodRule of tokenMethodRules(updatedPolicy.method_rules || [], existingPolicy.chain_type)) {
+        methodRule.rules.push(newRule);
     }
 
     return updatedPolicy;
@@ -195,24 +242,27 @@ function allowlistToken(existingPolicy: PrivyPolicyResponse, tokenName: string,
  * 
  * @param existingPolicy - The current policy
  * @param tokenName - Name of the token to deny
- * @param tokenAddress - Contract address of the token
+ * @param tokenAddress - Contract address (or mint) of the token
  * @returns Policy update object
  */
 function denylistToken(existingPolicy: PrivyPolicyResponse, tokenName: string, tokenAddress: string): PrivyUpdatePolicy {
-    // Create a deep copy of the existing policy with only updateable fields
+    const { tokenField } = getChainPolicyConfig(existingPolicy.chain_type);
+
+    // Copy the method rules so the existing policy is not mutated
     const updatedPolicy: PrivyUpdatePolicy = {
         name: existingPolicy.name,
-        method_rules: existingPolicy.method_rules ? [...existingPolicy.method_rules] : [],
+        method_rules: (existingPolicy.method_rules || []).map(methodRule => ({ ...methodRule, rules: [...methodRule.rules] })),
     };
 
-    // Remove the rule for the specified token if method_rules exists
-    if (updatedPolicy.method_rules && updatedPolicy.method_rules[0]) {
-        updatedPolicy.method_rules[0].rules = updatedPolicy.method_rules[0].rules.filter((rule: PrivyRule) => {
+    // Remove the rule for the specified token from every transaction method
+    for (const methodRule of tokenMethodRules(updatedPolicy.method_rules || [], existingPolicy.chain_type)) {
+        methodRule.rules = methodRule.rules.filter((rule: PrivyRule) => {
             // Check if this rule is for the specified token
-            const isTokenRule = rule.conditions?.some((condition: { field_source: string, field: string, value: string | number | string[] }) =>
-                condition.field_source === "ethereum_transaction" &&
-                condition.field === "to" &&
-                condition.value === tokenAddress
+            const isTokenRule = rule.conditions?.some((condition: PrivyCondition) =>
+                condition.field_source === tokenField.field_source &&
+                condition.field === tokenField.field &&
+                (Array.isArray(condition.value) ? condition.value : [condition.value])
+                    .some(value => sameAddress(String(value), tokenAddress, existingPolicy.chain_type))
             );
             // Keep all rules that aren't for this token
             return !isTokenRule;
@@ -220,4 +270,4 @@ function denylistToken(existingPolicy: PrivyPolicyResponse, tokenName: string, t
     }
 
     return updatedPolicy;
-} 
\ No newline at end of file
+}
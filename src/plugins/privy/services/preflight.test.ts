@@ -0,0 +1,75 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { preflightService } from "./preflight.js";
+import { PrivyRpcError } from "../errors.js";
+
+/**
+ * Answers a JSON-RPC method with a result or an error, or with an HTTP status when a number is given
+ */
+type StubReply = { result: unknown } | { error: { code: number; message: string } } | number;
+
+describe("preflightService.estimateFeePerGas", () => {
+    let server: Server;
+    let url: string;
+    let replies: Record<string, StubReply>;
+    const methods: string[] = [];
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            let text = "";
+            req.on("data", chunk => text += chunk);
+            req.on("end", () => {
+                const { id, method } = JSON.parse(text);
+                methods.push(method);
+                const reply = replies[method] ?? { error: { code: -32601, message: "the method does not exist" } };
+                if (typeof reply === "number") {
+                    res.writeHead(reply);
+                    res.end();
+                    return;
+                }
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({ jsonrpc: "2.0", id, ...reply }));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        methods.length = 0;
+    });
+
+    it("prices from the next base fee and the median priority fee", async () => {
+        replies = {
+            eth_feeHistory: { result: { baseFeePerGas: ["0x64", "0x64", "0xc8"], reward: [["0x1"], ["0x3"], ["0x2"]] } },
+            eth_gasPrice: { result: "0x3e8" }
+        };
+
+        await expect(preflightService(url).estimateFeePerGas()).resolves.toEqual({ gasPrice: 202n, maxFeePerGas: 402n });
+        expect(methods).toEqual(["eth_feeHistory"]);
+    });
+
+    it("falls back to eth_gasPrice when the node does not know eth_feeHistory", async () => {
+        replies = { eth_gasPrice: { result: "0x3e8" } };
+
+        await expect(preflightService(url).estimateFeePerGas()).resolves.toEqual({ gasPrice: 1000n, maxFeePerGas: 1000n });
+        expect(methods).toEqual(["eth_feeHistory", "eth_gasPrice"]);
+    });
+
+    it("falls back to eth_gasPrice when the node has no base fees", async () => {
+        replies = { eth_feeHistory: { result: { baseFeePerGas: [] } }, eth_gasPrice: { result: "0x3e8" } };
+
+        await expect(preflightService(url).estimateFeePerGas()).resolves.toEqual({ gasPrice: 1000n, maxFeePerGas: 1000n });
+    });
+
+    it("fails without falling back when the node is unavailable", async () => {
+        replies = { eth_feeHistory: 503, eth_gasPrice: { result: "0x3e8" } };
+
+        await expect(preflightService(url).estimateFeePerGas()).rejects.toBeInstanceOf(PrivyRpcError);
+        expect(methods).toEqual(["eth_feeHistory"]);
+    });
+});
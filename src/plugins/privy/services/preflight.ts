@@ -0,0 +1,189 @@
+import { PrivyTransactionRequest } from "../types/wallets.js";
+import { PrivyPreflightResult } from "../types/preflight.js";
+import { decodeRevertReason } from "../abi.js";
+import { PrivyRpcError } from "../errors.js";
+import { rpcClient, PrivyRpcOptions } from "./rpc.js";
+import { formatAmount } from "../amounts.js";
+import { getNativeToken } from "../chains.js";
+
+/**
+ * Blocks of fee history sampled when estimating the priority fee
+ */
+const FEE_HISTORY_BLOCKS = 5;
+
+/**
+ * Converts a base-unit quantity into the hex form JSON-RPC expects
+ *
+ * @param value - Decimal or hex quantity
+ * @returns The 0x-prefixed hex quantity
+ */
+function toRpcQuantity(value: string | bigint): string {
+    return `0x${BigInt(value || 0).toString(16)}`;
+}
+
+/**
+ * Checks whether an RPC error means the call itself failed (a revert) rather than the node being unreachable
+ *
+ * @param error - The error thrown by the RPC client
+ * @returns Whether the node executed the call and rejected it
+ */
+function isExecutionError(error: unknown): error is PrivyRpcError {
+    return error instanceof PrivyRpcError && error.code !== undefined && error.code !== "network_error";
+}
+
+/**
+ * Extracts revert data from an RPC error, which nodes return either as a hex string or nested in an object
+ *
+ * @param error - The RPC error
+ * @returns The revert data, if any
+ */
+function revertData(error: PrivyRpcError): string | undefined {
+    const data = error.data as string | { data?: string } | undefined;
+    return typeof data === "string" ? data : data?.data;
+}
+
+/**
+ * Creates a pre-flight service that simulates and prices transactions on an EVM JSON-RPC node
+ *
+ * @param rpcUrl - URL of the JSON-RPC endpoint
+ * @param rpcOptions - Timeout tuning
+ * @returns Pre-flight service methods
+ */
+export const preflightService = (rpcUrl: string, rpcOptions?: PrivyRpcOptions) => {
+    const rpc = rpcClient(rpcUrl, rpcOptions);
+
+    /**
+     * Estimates the fee per gas from recent blocks, falling back to `eth_gasPrice` on nodes without fee history
+     *
+     * Only a node that rejects `eth_feeHistory`, e.g. as an unknown method, or returns no base fees
+     * falls back; a node that cannot be reached fails the estimate.
+     *
+     * @returns The expected fee per gas and the highest fee per gas the transaction may pay
+     * @throws PrivyRpcError or PrivyTimeoutError if the node cannot be reached
+     */
+    const estimateFeePerGas = async (): Promise<{ gasPrice: bigint; maxFeePerGas: bigint }> => {
+        let history: { baseFeePerGas?: string[]; reward?: string[][] } | undefined;
+        try {
+            history = await rpc.call<{ baseFeePerGas?: string[]; reward?: string[][] }>(
+                "eth_feeHistory",
+                [toRpcQuantity(BigInt(FEE_HISTORY_BLOCKS)), "latest", [50]]
+            );
+        } catch (error) {
+            if (!isExecutionError(error)) {
+                throw error;
+            }
+        }
+
+        const baseFees = history?.baseFeePerGas || [];
+        if (!baseFees.length) {
+            const gasPrice = BigInt(await rpc.call<string>("eth_gasPrice"));
+            return { gasPrice, maxFeePerGas: gasPrice };
+        }
+        // The last entry is the base fee of the next block
+        const baseFee = BigInt(baseFees[baseFees.length - 1]);
+        const rewards = (history?.reward || []).map(reward => BigInt(reward[0] || 0)).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+        const priorityFee = rewards.length ? rewards[Math.floor(rewards.length / 2)] : 0n;
+        // Leave room for the base fee to rise over the next blocks, as wallets commonly do
+        return { gasPrice: baseFee + priorityFee, maxFeePerGas: baseFee * 2n + priorityFee };
+    };
+
+    /**
+     * Simulates a transaction with `eth_call`, estimates its gas and fee, and checks the sender can pay for it
+     *
+     * @param from - Address of the sending wallet
+     * @param request - The transaction request
+     * @returns The pre-flight result; `ok` is false when the transaction would revert or cannot be paid for
+     * @throws PrivyRpcError or PrivyTimeoutError if the node cannot be reached
+     */
+    const checkTransaction = async (from: string, request: PrivyTransactionRequest): Promise<PrivyPreflightResult> => {
+        const value = BigInt(request.value || 0);
+        const call = {
+            from,
+            to: request.to,
+            value: toRpcQuantity(value),
+            ...(request.data && request.data !== "0x" ? { data: request.data } : {})
+        };
+
+        const balance = BigInt(await rpc.call<string>("eth_getBalance", [from, "latest"]));
+        if (balance < value) {
+            return {
+                from,
+                ok: false,
+                reason: "insufficient_balance",
+                reverted: false,
+                balance: balance.toString(),
+                requiredBalance: value.toString()
+            };
+        }
+
+        let gasLimit: bigint;
+        try {
+            await rpc.call<string>("eth_call", [call, "latest"]);
+            gasLimit = BigInt(await rpc.call<string>("eth_estimateGas", [call]));
+        } catch (error) {
+            if (!isExecutionError(error)) {
+                throw error;
+            }
+            return {
+                from,
+                ok: false,
+                reason: "reverted",
+                reverted: true,
+                revertReason: decodeRevertReason(revertData(error)) || error.message.replace(/^RPC call \w+ failed: /, ""),
+                balance: balance.toString()
+            };
+        }
+
+        const { gasPrice, maxFeePerGas } = await estimateFeePerGas();
+        const requiredBalance = value + gasLimit * maxFeePerGas;
+        const ok = balance >= requiredBalance;
+        return {
+            from,
+            ok,
+            reason: ok ? undefined : "insufficient_balance",
+            reverted: false,
+            balance: balance.toString(),
+            gasLimit: gasLimit.toString(),
+            gasPrice: gasPrice.toString(),
+            maxFeePerGas: maxFeePerGas.toString(),
+            estimatedFee: (gasLimit * gasPrice).toString(),
+            requiredBalance: requiredBalance.toString()
+        };
+    };
+
+    return { estimateFeePerGas, checkTransaction };
+};
+
+/**
+ * Explains why a transaction failed its pre-flight check
+ *
+ * @param result - The failed pre-flight result
+ * @param chainType - Chain the transaction was checked on, used to display native amounts
+ * @returns The explanation
+ */
+export function describePreflightFailure(result: PrivyPreflightResult, chainType?: string): string {
+    if (result.reverted) {
+        return `simulating it on ${chainType || "the chain"} reverted${result.revertReason ? `: ${result.revertReason}` : ""}`;
+    }
+
+    const { symbol, decimals } = getNativeToken(chainType);
+    const needs = result.estimatedFee
+        ? `${formatAmount(result.requiredBalance || "0", decimals, symbol)} to cover the value plus fees`
+        : `${formatAmount(result.requiredBalance || "0", decimals, symbol)} plus fees`;
+    return `wallet ${result.from} holds ${formatAmount(result.balance, decimals, symbol)} but needs ${needs}`;
+}
+
+/**
+ * Formats the estimated fee of a checked transaction
+ *
+ * @param result - The pre-flight result
+ * @param chainType - Chain the transaction was checked on
+ * @returns The fee, e.g. "0.00042 MON", or undefined if it was not estimated
+ */
+export function formatEstimatedFee(result: PrivyPreflightResult | undefined, chainType?: string): string | undefined {
+    if (!result?.estimatedFee) {
+        return undefined;
+    }
+    const { symbol, decimals } = getNativeToken(chainType);
+    return formatAmount(result.estimatedFee, decimals, symbol);
+}
@@ -0,0 +1,82 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { rpcClient } from "./rpc.js";
+import { PrivyRpcError, PrivyTimeoutError } from "../errors.js";
+
+/**
+ * Answers a JSON-RPC call: a status and body to send back, or nothing to leave the call hanging
+ */
+type StubHandler = (call: { method: string; params: unknown[] }) => { status?: number; body: unknown } | undefined;
+
+describe("rpcClient", () => {
+    let server: Server;
+    let url: string;
+    let handler: StubHandler;
+    const calls: { method: string; params: unknown[] }[] = [];
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            let text = "";
+            req.on("data", chunk => text += chunk);
+            req.on("end", () => {
+                const call = JSON.parse(text);
+                calls.push({ method: call.method, params: call.params });
+                const reply = handler(call);
+                if (reply) {
+                    res.writeHead(reply.status ?? 200, { "Content-Type": "application/json" });
+                    res.end(typeof reply.body === "string" ? reply.body : JSON.stringify(reply.body));
+                }
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it("posts the method and parameters and returns the result", async () => {
+        handler = call => ({ body: { jsonrpc: "2.0", id: 1, result: call.method === "eth_chainId" ? "0x8f" : null } });
+
+        await expect(rpcClient(url).call("eth_chainId")).resolves.toBe("0x8f");
+        expect(calls).toEqual([{ method: "eth_chainId", params: [] }]);
+    });
+
+    it("raises JSON-RPC errors with their code and data", async () => {
+        handler = () => ({ body: { jsonrpc: "2.0", id: 1, error: { code: -32601, message: "the method does not exist", data: "eth_foo" } } });
+
+        const error = await rpcClient(url).call("eth_foo").then(() => undefined, (caught: PrivyRpcError) => caught);
+        expect(error).toBeInstanceOf(PrivyRpcError);
+        expect(error).toMatchObject({ code: "-32601", data: "eth_foo" });
+        expect(error?.message).toContain("the method does not exist");
+    });
+
+    it("raises HTTP failures and invalid bodies", async () => {
+        handler = () => ({ status: 503, body: "unavailable" });
+        await expect(rpcClient(url).call("eth_blockNumber")).rejects.toMatchObject({ statusCode: 503 });
+
+        handler = () => ({ body: "not json" });
+        await expect(rpcClient(url).call("eth_blockNumber")).rejects.toThrow("invalid response");
+    });
+
+    it("times out on a node that does not answer", async () => {
+        handler = () => undefined;
+
+        await expect(rpcClient(url, { timeoutMs: 50 }).call("eth_blockNumber")).rejects.toBeInstanceOf(PrivyTimeoutError);
+    });
+
+    it("reports an unreachable node as a network error", async () => {
+        const closed = createServer();
+        await new Promise<void>(resolve => closed.listen(0, "127.0.0.1", resolve));
+        const port = (closed.address() as AddressInfo).port;
+        await new Promise(resolve => closed.close(resolve));
+
+        await expect(rpcClient(`http://127.0.0.1:${port}`).call("eth_blockNumber")).rejects.toMatchObject({ code: "network_error" });
+    });
+});
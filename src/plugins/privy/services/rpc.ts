@@ -0,0 +1,79 @@
+import { PrivyRpcError, PrivyTimeoutError } from "../errors.js";
+
+/**
+ * Tuning for the JSON-RPC client
+ */
+export interface PrivyRpcOptions {
+    /** Milliseconds before a call is aborted */
+    timeoutMs?: number;
+}
+
+const DEFAULT_RPC_OPTIONS: Required<PrivyRpcOptions> = {
+    timeoutMs: 10000,
+};
+
+let nextRequestId = 1;
+
+/**
+ * Creates a minimal JSON-RPC client for an EVM node such as a Monad RPC endpoint, or a Solana node
+ *
+ * Calls are not retried: reads are cheap to repeat at a higher level, and a failed node should
+ * surface quickly rather than stall the agent.
+ *
+ * @param rpcUrl - URL of the JSON-RPC endpoint
+ * @param rpcOptions - Timeout tuning
+ * @returns Client methods
+ */
+export const rpcClient = (rpcUrl: string, rpcOptions: PrivyRpcOptions = {}) => {
+    const { timeoutMs } = { ...DEFAULT_RPC_OPTIONS, ...rpcOptions };
+
+    /**
+     * Calls a JSON-RPC method
+     *
+     * @param method - Method name, e.g. `eth_getBalance`
+     * @param params - Positional parameters
+     * @returns The method's result
+     * @throws PrivyRpcError if the node returns an error, PrivyTimeoutError if it does not answer in time
+     */
+    const call = async <T>(method: string, params: unknown[] = []): Promise<T> => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        let response: Response;
+        try {
+            response = await fetch(rpcUrl, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ jsonrpc: "2.0", id: nextRequestId++, method, params }),
+                signal: controller.signal
+            });
+        } catch (error: any) {
+            if (error?.name === "AbortError") {
+                throw new PrivyTimeoutError(`RPC call ${method} to ${rpcUrl} timed out after ${timeoutMs}ms`);
+            }
+            throw new PrivyRpcError(`RPC call ${method} to ${rpcUrl} failed: ${error?.message || error}`, undefined, "network_error");
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (!response.ok) {
+            throw new PrivyRpcError(`RPC call ${method} failed with HTTP ${response.status} ${response.statusText}`, response.status);
+        }
+
+        const body = await response.json().catch(() => undefined) as
+            { result?: T; error?: { code?: number; message?: string; data?: unknown } } | undefined;
+        if (!body) {
+            throw new PrivyRpcError(`RPC call ${method} returned an invalid response`, response.status);
+        }
+        if (body.error) {
+            throw new PrivyRpcError(
+                `RPC call ${method} failed: ${body.error.message || "unknown error"}`,
+                response.status,
+                body.error.code !== undefined ? String(body.error.code) : undefined,
+                body.error.data
+            );
+        }
+        return body.result as T;
+    };
+
+    return { call };
+};
@@ -0,0 +1,270 @@
+import {
+    PrivyCondition,
+    PrivyMethodRule,
+    PrivyPolicyResponse,
+    PrivyRule,
+    PrivyUpdatePolicy,
+} from "../types/policies.js";
+import { isValidAddress } from "../addresses.js";
+import { getChainPolicyConfig } from "../chains.js";
+
+const FIELD_SOURCES: PrivyCondition['field_source'][] = [
+    "ethereum_transaction",
+    "ethereum_calldata",
+    "solana_transaction",
+    "solana_instruction",
+    "interpreted_transaction",
+    "monad_transaction",
+    "monad_calldata",
+];
+
+/**
+ * Field sources whose `to` field holds an EVM address
+ */
+const EVM_TRANSACTION_FIELD_SOURCES: PrivyCondition['field_source'][] = ["ethereum_transaction", "monad_transaction"];
+
+const OPERATORS: PrivyCondition['operator'][] = ["eq", "neq", "lt", "lte", "gt", "gte", "in"];
+
+const METHODS: PrivyMethodRule['method'][] = [
+    "personal_sign",
+    "eth_signTypedData_v4",
+    "eth_signTransaction",
+    "eth_sendTransaction",
+    "signMessage",
+    "signTransaction",
+    "signAndSendTransaction",
+    "monad_sendTransaction",
+    "monad_signTransaction",
+];
+
+/**
+ * Builds a policy condition
+ *
+ * @param fieldSource - Where the field is read from
+ * @param field - Name of the field
+ * @param operator - Comparison operator
+ * @param value - Value to compare against
+ * @param abi - ABI used to decode calldata, required for calldata field sources
+ * @returns The condition
+ */
+export function condition(
+    fieldSource: PrivyCondition['field_source'],
+    field: string,
+    operator: PrivyCondition['operator'],
+    value: PrivyCondition['value'],
+    abi?: JSON
+): PrivyCondition {
+    const built: PrivyCondition = {
+        field_source: fieldSource,
+        field,
+        operator,
+        value
+    };
+    if (abi) {
+        built.abi = abi;
+    }
+    return built;
+}
+
+/**
+ * Builds a condition capping the native value of a transaction
+ *
+ * @param maxValue - Maximum value in base units (wei)
+ * @param fieldSource - Transaction field source for the chain
+ * @returns The condition
+ */
+export function maxValueCondition(
+    maxValue: string,
+    fieldSource: PrivyCondition['field_source'] = "ethereum_transaction"
+): PrivyCondition {
+    return condition(fieldSource, "value", "lte", maxValue);
+}
+
+/**
+ * Builds a condition matching transactions sent to any of the given recipients
+ *
+ * @param recipients - Recipient addresses
+ * @param fieldSource - Transaction field source for the chain
+ * @returns The condition
+ */
+export function recipientCondition(
+    recipients: string[],
+    fieldSource: PrivyCondition['field_source'] = "ethereum_transaction"
+): PrivyCondition {
+    return recipients.length === 1
+        ? condition(fieldSource, "to", "eq", recipients[0])
+        : condition(fieldSource, "to", "in", recipients);
+}
+
+/**
+ * Builds a condition on a decoded calldata argument, e.g. `transfer.amount`
+ *
+ * @param abi - ABI of the contract being called
+ * @param field - Decoded field in `function.argument` form
+ * @param operator - Comparison operator
+ * @param value - Value to compare against
+ * @param fieldSource - Calldata field source for the chain
+ * @returns The condition
+ */
+export function calldataCondition(
+    abi: JSON,
+    field: string,
+    operator: PrivyCondition['operator'],
+    value: PrivyCondition['value'],
+    fieldSource: PrivyCondition['field_source'] = "ethereum_calldata"
+): PrivyCondition {
+    return condition(fieldSource, field, operator, value, abi);
+}
+
+/**
+ * Builds a named policy rule
+ *
+ * @param name - Unique rule name within its method
+ * @param action - Whether matching requests are allowed or denied
+ * @param conditions - Conditions that must all hold for the rule to match
+ * @returns The validated rule
+ */
+export function buildRule(name: string, action: PrivyRule['action'], conditions: PrivyCondition[]): PrivyRule {
+    const rule: PrivyRule = { name, action, conditions };
+    validateRule(rule);
+    return rule;
+}
+
+/**
+ * Checks that a method name is one Privy policies support
+ *
+ * @param method - The method name
+ * @returns Whether the method is supported
+ */
+export function isPolicyMethod(method: string): method is PrivyMethodRule['method'] {
+    return METHODS.includes(method as PrivyMethodRule['method']);
+}
+
+/**
+ * Validates a rule's shape before it is sent to Privy
+ *
+ * @param rule - The rule to validate
+ * @throws Error describing the first problem found
+ */
+export function validateRule(rule: PrivyRule): void {
+    if (!rule.name?.trim()) {
+        throw new Error("Rule name is required");
+    }
+    if (rule.action !== "ALLOW" && rule.action !== "DENY") {
+        throw new Error(`Rule '${rule.name}' must have action ALLOW or DENY`);
+    }
+    if (!rule.conditions?.length) {
+        throw new Error(`Rule '${rule.name}' must have at least one condition`);
+    }
+
+    for (const ruleCondition of rule.conditions) {
+        if (!FIELD_SOURCES.includes(ruleCondition.field_source)) {
+            throw new Error(`Unsupported field source '${ruleCondition.field_source}' in rule '${rule.name}'`);
+        }
+        if (!OPERATORS.includes(ruleCondition.operator)) {
+            throw new Error(`Unsupported operator '${ruleCondition.operator}' in rule '${rule.name}'`);
+        }
+        if (!ruleCondition.field) {
+            throw new Error(`Every condition in rule '${rule.name}' needs a field`);
+        }
+        if (ruleCondition.operator === "in" && !Array.isArray(ruleCondition.value)) {
+            throw new Error(`Operator 'in' in rule '${rule.name}' requires a list of values`);
+        }
+        if (ruleCondition.operator !== "in" && Array.isArray(ruleCondition.value)) {
+            throw new Error(`Operator '${ruleCondition.operator}' in rule '${rule.name}' requires a single value`);
+        }
+        if (ruleCondition.field_source.endsWith("_calldata") && !ruleCondition.abi) {
+            throw new Error(`Calldata condition '${ruleCondition.field}' in rule '${rule.name}' requires an ABI`);
+        }
+        if (EVM_TRANSACTION_FIELD_SOURCES.includes(ruleCondition.field_source) && ruleCondition.field === "to") {
+            const addresses = Array.isArray(ruleCondition.value) ? ruleCondition.value : [ruleCondition.value];
+            const invalid = addresses.find(address => !isValidAddress(String(address)));
+            if (invalid !== undefined) {
+                throw new Error(`Invalid address '${invalid}' in rule '${rule.name}'`);
+            }
+        }
+    }
+}
+
+/**
+ * Copies the updateable parts of a policy so rules can be changed without mutating the original
+ *
+ * @param existingPolicy - The current policy
+ * @returns Policy update object with cloned method rules
+ */
+function clonePolicy(existingPolicy: PrivyPolicyResponse): PrivyUpdatePolicy & { method_rules: PrivyMethodRule[] } {
+    return {
+        name: existingPolicy.name,
+        method_rules: (existingPolicy.method_rules || []).map(methodRule => ({
+            method: methodRule.method,
+            rules: [...(methodRule.rules || [])]
+        })),
+    };
+}
+
+/**
+ * Adds a rule to a method, or replaces the rule with the same name
+ *
+ * @param existingPolicy - The current policy
+ * @param method - Method the rule applies to; a method rule is created if the policy has none for it
+ * @param rule - The rule to add
+ * @param replace - Whether an existing rule with the same name may be replaced
+ * @returns Policy update object
+ * @throws Error if the method does not apply to the policy's chain, or a rule with the same name exists and replace is false
+ */
+export function upsertRule(
+    existingPolicy: PrivyPolicyResponse,
+    method: PrivyMethodRule['method'],
+    rule: PrivyRule,
+    replace: boolean = false
+): PrivyUpdatePolicy {
+    validateRule(rule);
+    const { methods } = getChainPolicyConfig(existingPolicy.chain_type);
+    if (!methods.includes(method)) {
+        throw new Error(`Method ${method} does not apply to ${existingPolicy.chain_type} policies. Supported methods are: ${methods.join(", ")}.`);
+    }
+    const updatedPolicy = clonePolicy(existingPolicy);
+
+    let methodRule = updatedPolicy.method_rules.find(candidate => candidate.method === method);
+    if (!methodRule) {
+        methodRule = { method, rules: [] };
+        updatedPolicy.method_rules.push(methodRule);
+    }
+
+    const index = methodRule.rules.findIndex(existing => existing.name === rule.name);
+    if (index === -1) {
+        methodRule.rules.push(rule);
+    } else if (replace) {
+        methodRule.rules[index] = rule;
+    } else {
+        throw new Error(`Rule '${rule.name}' already exists on ${method}`);
+    }
+
+    return updatedPolicy;
+}
+
+/**
+ * Removes a named rule from a method
+ *
+ * @param existingPolicy - The current policy
+ * @param method - Method the rule applies to
+ * @param ruleName - Name of the rule to remove
+ * @returns Policy update object
+ * @throws Error if the method has no rule with that name
+ */
+export function removeRule(
+    existingPolicy: PrivyPolicyResponse,
+    method: PrivyMethodRule['method'],
+    ruleName: string
+): PrivyUpdatePolicy {
+    const updatedPolicy = clonePolicy(existingPolicy);
+    const methodRule = updatedPolicy.method_rules.find(candidate => candidate.method === method);
+    const remaining = methodRule?.rules.filter(rule => rule.name !== ruleName);
+
+    if (!methodRule || !remaining || remaining.length === methodRule.rules.length) {
+        throw new Error(`No rule named '${ruleName}' on ${method}`);
+    }
+
+    methodRule.rules = remaining;
+    return updatedPolicy;
+}
@@ -0,0 +1,87 @@
+import { describeRecurrence, nextRunAfter, parsePayeeLabel, parseScheduleFromText } from "./schedules.js";
+
+/**
+ * Wednesday 2026-10-21 12:00 UTC
+ */
+const NOW = Date.UTC(2026, 9, 21, 12);
+
+const iso = (time?: number) => time === undefined ? undefined : new Date(time).toISOString();
+
+describe("nextRunAfter", () => {
+    it("returns the first run while it is ahead", () => {
+        expect(nextRunAfter({ frequency: "daily" }, NOW + 1000, NOW)).toBe(NOW + 1000);
+    });
+
+    it("steps fixed periods from the first run, skipping missed runs", () => {
+        const start = Date.UTC(2026, 9, 1, 9);
+        expect(iso(nextRunAfter({ frequency: "weekly", interval: 2 }, start, NOW))).toBe("2026-10-29T09:00:00.000Z");
+        expect(iso(nextRunAfter({ frequency: "daily" }, start, Date.UTC(2026, 9, 21, 9)))).toBe("2026-10-22T09:00:00.000Z");
+    });
+
+    it("runs monthly schedules on the last day of short months and returns to their day after", () => {
+        const start = Date.UTC(2027, 0, 31, 9);
+        expect(iso(nextRunAfter({ frequency: "monthly" }, start, start))).toBe("2027-02-28T09:00:00.000Z");
+        expect(iso(nextRunAfter({ frequency: "monthly" }, start, Date.UTC(2027, 1, 28, 9)))).toBe("2027-03-31T09:00:00.000Z");
+        expect(iso(nextRunAfter({ frequency: "monthly", interval: 3 }, start, Date.UTC(2027, 3, 1)))).toBe("2027-04-30T09:00:00.000Z");
+    });
+
+    it("does not run a one-off schedule again", () => {
+        expect(nextRunAfter({ frequency: "once" }, NOW, NOW)).toBeUndefined();
+    });
+});
+
+describe("parseScheduleFromText", () => {
+    it("reads a weekday schedule with a time", () => {
+        const schedule = parseScheduleFromText("pay 50 USDC to 0xabc every Friday at 9am", NOW);
+        expect(schedule?.recurrence).toEqual({ frequency: "weekly", interval: 1 });
+        expect(iso(schedule?.startAt)).toBe("2026-10-23T09:00:00.000Z");
+        expect(schedule?.rest).toBe("pay 50 USDC to 0xabc");
+    });
+
+    it("runs a bare weekday once, and starts next week when the time has passed today", () => {
+        const schedule = parseScheduleFromText("send 1 ETH on Wednesday at 10:00", NOW);
+        expect(schedule?.recurrence.frequency).toBe("once");
+        expect(iso(schedule?.startAt)).toBe("2026-10-28T10:00:00.000Z");
+    });
+
+    it("reads intervals, the default time, an end date and a run count", () => {
+        const schedule = parseScheduleFromText("send 1 ETH every other week until 2026-12-31 5 times", NOW);
+        expect(schedule).toMatchObject({ recurrence: { frequency: "weekly", interval: 2 }, maxRuns: 5 });
+        expect(iso(schedule?.startAt)).toBe("2026-10-22T09:00:00.000Z");
+        expect(iso(schedule?.endAt)).toBe("2026-12-31T23:59:59.000Z");
+    });
+
+    it("starts a day-of-month schedule in the first month that has the day", () => {
+        const schedule = parseScheduleFromText("pay rent on the 31st of every month", Date.UTC(2027, 1, 1));
+        expect(schedule?.recurrence.frequency).toBe("monthly");
+        expect(iso(schedule?.startAt)).toBe("2027-03-31T09:00:00.000Z");
+    });
+
+    it("reads relative and dated one-off runs", () => {
+        expect(parseScheduleFromText("send 1 ETH in 30 minutes", NOW)?.startAt).toBe(NOW + 30 * 60 * 1000);
+        expect(iso(parseScheduleFromText("send 1 ETH tomorrow at 5:15 pm", NOW)?.startAt)).toBe("2026-10-22T17:15:00.000Z");
+        expect(iso(parseScheduleFromText("send 1 ETH on 2026-11-01", NOW)?.startAt)).toBe("2026-11-01T09:00:00.000Z");
+    });
+
+    it("finds no schedule in a plain transfer", () => {
+        expect(parseScheduleFromText("send 1 ETH to 0xabc", NOW)).toBeUndefined();
+    });
+
+    it("rejects days no month has", () => {
+        expect(() => parseScheduleFromText("pay on the 32nd of every month", NOW)).toThrow("There is no day 32 in a month");
+    });
+});
+
+describe("describeRecurrence", () => {
+    it("describes schedules in words", () => {
+        expect(describeRecurrence({ frequency: "weekly" }, Date.UTC(2026, 9, 23, 9))).toBe("every Friday at 09:00 UTC");
+        expect(describeRecurrence({ frequency: "monthly", interval: 2 }, Date.UTC(2026, 9, 22, 9))).toBe("every 2 months on the 22nd at 09:00 UTC");
+    });
+});
+
+describe("parsePayeeLabel", () => {
+    it("reads the name before the address", () => {
+        expect(parsePayeeLabel("pay 50 USDC to contractor X at 0xabc every Friday", "0xabc")).toBe("contractor X");
+        expect(parsePayeeLabel("pay 50 USDC to 0xabc", "0xabc")).toBeUndefined();
+    });
+});
@@ -0,0 +1,534 @@
+import { randomUUID } from "crypto";
+import { IAgentRuntime } from "@ai16z/eliza";
+import { PrivyRecurrence, PrivySchedule, PrivyScheduleFrequency, PrivyScheduleRun, PrivyScheduleStatus } from "../types/schedules.js";
+import { PrivyValidationError } from "../errors.js";
+import { withCacheLock } from "./locks.js";
+
+const CACHE_KEY = "privy/schedules";
+
+/**
+ * Default time between looks for due schedules
+ */
+export const DEFAULT_SCHEDULER_POLL_MS = 60 * 1000;
+
+/**
+ * Default time of day schedules run at, in UTC
+ */
+export const DEFAULT_SCHEDULE_TIME = "09:00";
+
+/**
+ * Most runs kept on a schedule
+ */
+const MAX_KEPT_RUNS = 20;
+
+/**
+ * How long cancelled and completed schedules are kept for listing
+ */
+const ENDED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Length of each fixed-length period; months vary and are counted on the calendar
+ */
+const PERIOD_MS: Partial<Record<PrivyScheduleFrequency, number>> = {
+    hourly: HOUR_MS,
+    daily: DAY_MS,
+    weekly: 7 * DAY_MS
+};
+
+const UNIT_FREQUENCY: Record<string, PrivyScheduleFrequency> = {
+    hour: "hourly",
+    day: "daily",
+    week: "weekly",
+    month: "monthly"
+};
+
+const WEEKDAYS = ["sun", "mon", "tues", "wednes", "thurs", "fri", "satur"];
+
+const UNIT_MS: Record<string, number> = {
+    minute: 60 * 1000,
+    hour: HOUR_MS,
+    day: DAY_MS,
+    week: 7 * DAY_MS
+};
+
+/**
+ * A schedule read from message text
+ */
+export interface PrivyParsedSchedule {
+    recurrence: PrivyRecurrence;
+    startAt: number;
+    endAt?: number;
+    maxRuns?: number;
+    /** The text without the schedule phrases, for reading the transfer from */
+    rest: string;
+}
+
+/**
+ * Reads a time of day such as "9am", "at 14:30" or "5:15 pm"
+ *
+ * @param text - The text
+ * @returns The hours and minutes, and the matched phrase, if a valid time is given
+ */
+function parseTimeOfDay(text: string): { hours: number; minutes: number; phrase: string } | undefined {
+    const match = text.match(/\bat\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/i)
+        || text.match(/\b(\d{1,2}):(\d{2})\s*(am|pm)?\b/i)
+        || text.match(/\b(\d{1,2})()\s*(am|pm)\b/i);
+    if (!match) {
+        return undefined;
+    }
+    let hours = Number(match[1]);
+    const minutes = Number(match[2] || 0);
+    const meridiem = match[3]?.toLowerCase();
+    if ((meridiem && (hours < 1 || hours > 12)) || hours > 23 || minutes > 59) {
+        return undefined;
+    }
+    if (meridiem) {
+        hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+    }
+    return { hours, minutes, phrase: match[0] };
+}
+
+/**
+ * Adds calendar months to a time, keeping its time of day and moving days past the end of a month to its last day
+ *
+ * @param time - The time
+ * @param months - Months to add
+ * @returns The later time
+ */
+function addMonths(time: number, months: number): number {
+    const date = new Date(time);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + months;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay), date.getUTCHours(), date.getUTCMinutes());
+}
+
+/**
+ * Works out when a schedule runs next
+ *
+ * Runs fall every `interval` periods from the first run, so a monthly schedule starting on the 31st
+ * runs on the last day of shorter months and returns to the 31st after them.
+ *
+ * @param recurrence - The schedule's recurrence
+ * @param startAt - The first run
+ * @param after - Only runs later than this count
+ * @returns The next run, or undefined if a one-off schedule's run is past
+ */
+export function nextRunAfter(recurrence: PrivyRecurrence, startAt: number, after: number): number | undefined {
+    if (startAt > after) {
+        return startAt;
+    }
+    const interval = Math.max(recurrence.interval ?? 1, 1);
+    const period = PERIOD_MS[recurrence.frequency];
+    if (period) {
+        const step = period * interval;
+        return startAt + (Math.floor((after - startAt) / step) + 1) * step;
+    }
+    if (recurrence.frequency === "monthly") {
+        const start = new Date(startAt);
+        const latest = new Date(after);
+        let count = Math.max(Math.floor(((latest.getUTCFullYear() - start.getUTCFullYear()) * 12 + latest.getUTCMonth() - start.getUTCMonth()) / interval) - 1, 1);
+        while (addMonths(startAt, count * interval) <= after) {
+            count++;
+        }
+        return addMonths(startAt, count * interval);
+    }
+    return undefined;
+}
+
+/**
+ * Reads when a transfer should run from message text, e.g. "every Friday at 9am", "every 2 weeks",
+ * "daily", "on the 1st of every month", "tomorrow at 17:00", "in 30 minutes" or "on 2026-11-01"
+ *
+ * Times are in UTC. Day-based schedules without a time run at the default time. A weekday on its own
+ * ("on Friday") is a one-off run, while "every Friday" or "on Fridays" repeats weekly. "until <date>"
+ * ends a schedule and "<n> times" limits its runs.
+ *
+ * @param text - The message text
+ * @param now - The current time
+ * @param defaultTime - Time of day, "HH:MM" in UTC, for schedules that give none
+ * @returns The schedule, or undefined if the text says nothing about when to run
+ */
+export function parseScheduleFromText(text: string, now: number = Date.now(), defaultTime: string = DEFAULT_SCHEDULE_TIME): PrivyParsedSchedule | undefined {
+    const phrases: string[] = [];
+    const take = (match: RegExpMatchArray | null) => {
+        if (match) {
+            phrases.push(match[0]);
+        }
+        return match;
+    };
+
+    // Read the end of the schedule first, so its date is not taken for the start
+    const until = take(text.match(/\buntil\s+(\d{4}-\d{2}-\d{2})\b/i));
+    const times = take(text.match(/\b(\d+)\s+times\b/i));
+
+    let frequency: PrivyScheduleFrequency | undefined;
+    let interval = 1;
+    const dayOfMonth = take(text.match(/\b(?:on\s+)?the\s+(\d{1,2})(?:st|nd|rd|th)\b(\s+of\s+(?:every|each|the)\s+month)?/i));
+    if (dayOfMonth?.[2]) {
+        frequency = "monthly";
+    }
+    const every = !frequency ? take(text.match(/\b(?:every|each)\s+(other\s+|\d+\s+)?(hour|day|week|month)s?\b/i)) : null;
+    if (every) {
+        frequency = UNIT_FREQUENCY[every[2].toLowerCase()];
+        interval = every[1]?.trim().toLowerCase() === "other" ? 2 : Number(every[1]) || 1;
+    }
+    const adverb = !frequency ? take(text.match(/\b(hourly|daily|weekly|monthly)\b/i)) : null;
+    if (adverb) {
+        frequency = adverb[1].toLowerCase() as PrivyScheduleFrequency;
+    }
+
+    const weekday = take(text.match(/\b(?:(every|each)\s+(other\s+)?|on\s+|next\s+|this\s+)?(sun|mon|tues|wednes|thurs|fri|satur)day(s)?\b/i));
+    if (weekday && !frequency && (weekday[1] || weekday[4])) {
+        frequency = "weekly";
+        interval = weekday[2] ? 2 : 1;
+    }
+    const date = take((until ? text.replace(until[0], " ") : text).match(/\b(?:on\s+|from\s+|starting\s+)?(\d{4})-(\d{2})-(\d{2})\b/i));
+    const tomorrow = take(text.match(/\btomorrow\b/i));
+    const relative = take(text.match(/\bin\s+(\d+)\s+(minute|hour|day|week)s?\b/i));
+
+    const time = parseTimeOfDay(text);
+    if (time) {
+        phrases.push(time.phrase);
+    }
+    const [defaultHours, defaultMinutes] = defaultTime.split(":").map(Number);
+    const hours = time?.hours ?? defaultHours;
+    const minutes = time?.minutes ?? defaultMinutes;
+    const atTime = (day: number) => {
+        const date = new Date(day);
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), hours, minutes);
+    };
+
+    let startAt: number | undefined;
+    if (date) {
+        startAt = Date.UTC(Number(date[1]), Number(date[2]) - 1, Number(date[3]), hours, minutes);
+    } else if (relative) {
+        startAt = now + Number(relative[1]) * UNIT_MS[relative[2].toLowerCase()];
+        if (time && UNIT_MS[relative[2].toLowerCase()] >= DAY_MS) {
+            startAt = atTime(startAt);
+        }
+    } else if (tomorrow) {
+        startAt = atTime(now + DAY_MS);
+    } else if (weekday) {
+        const target = WEEKDAYS.indexOf(weekday[3].toLowerCase());
+        startAt = atTime(now + ((target - new Date(now).getUTCDay() + 7) % 7) * DAY_MS);
+        if (startAt <= now) {
+            startAt += 7 * DAY_MS;
+        }
+    } else if (dayOfMonth) {
+        const day = Number(dayOfMonth[1]);
+        if (day < 1 || day > 31) {
+            throw new PrivyValidationError(`There is no day ${day} in a month`, undefined, "invalid_schedule");
+        }
+        // Start in the first month, from this one, that has the day and where it is still ahead
+        const current = new Date(now);
+        for (let months = 0; startAt === undefined || startAt <= now || new Date(startAt).getUTCDate() !== day; months++) {
+            startAt = Date.UTC(current.getUTCFullYear(), current.getUTCMonth() + months, day, hours, minutes);
+        }
+    } else if (frequency === "hourly") {
+        startAt = Math.floor(now / HOUR_MS) * HOUR_MS + HOUR_MS;
+    } else if (frequency || time) {
+        startAt = atTime(now);
+        if (startAt <= now) {
+            startAt += DAY_MS;
+        }
+    }
+
+    if (startAt === undefined || Number.isNaN(startAt)) {
+        return undefined;
+    }
+
+    let rest = text;
+    for (const phrase of phrases) {
+        rest = rest.replace(phrase, " ");
+    }
+
+    return {
+        recurrence: { frequency: frequency || "once", interval },
+        startAt,
+        endAt: until ? Date.parse(`${until[1]}T23:59:59Z`) : undefined,
+        maxRuns: times ? Number(times[1]) : undefined,
+        rest: rest.replace(/\s+/g, " ").trim()
+    };
+}
+
+/**
+ * Reads the name a message gives the payee, e.g. "contractor X" in "pay 50 USDC to contractor X at 0xabc..."
+ *
+ * @param text - The message text
+ * @param to - The recipient address
+ * @returns The name, if one precedes the address
+ */
+export function parsePayeeLabel(text: string, to: string): string | undefined {
+    const escaped = to.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const match = text.match(new RegExp(`\\bto\\s+([A-Za-z][\\w .'-]{0,40}?)\\s*(?:\\(|,|:|\\bat\\b)?\\s*\\(?${escaped}`, "i"));
+    return match?.[1].trim() || undefined;
+}
+
+/**
+ * Describes when a schedule runs
+ *
+ * @param recurrence - The recurrence
+ * @param startAt - The first run
+ * @returns The description, e.g. "every Friday at 09:00 UTC" or "once on 2026-11-01 at 09:00 UTC"
+ */
+export function describeRecurrence(recurrence: PrivyRecurrence, startAt: number): string {
+    const start = new Date(startAt);
+    const time = `${start.toISOString().slice(11, 16)} UTC`;
+    const interval = Math.max(recurrence.interval ?? 1, 1);
+    const weekday = start.toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" });
+    const day = start.getUTCDate();
+    const ordinal = `${day}${day % 10 === 1 && day !== 11 ? "st" : day % 10 === 2 && day !== 12 ? "nd" : day % 10 === 3 && day !== 13 ? "rd" : "th"}`;
+    switch (recurrence.frequency) {
+        case "hourly":
+            return interval === 1 ? `every hour at minute ${time.slice(3, 5)}` : `every ${interval} hours`;
+        case "daily":
+            return `${interval === 1 ? "every day" : `every ${interval} days`} at ${time}`;
+        case "weekly":
+            return interval === 1 ? `every ${weekday} at ${time}` : `every ${interval} weeks on ${weekday} at ${time}`;
+        case "monthly":
+            return `${interval === 1 ? "every month" : `every ${interval} months`} on the ${ordinal} at ${time}`;
+        default:
+            return `once on ${start.toISOString().slice(0, 10)} at ${time}`;
+    }
+}
+
+/**
+ * Describes a run of a schedule
+ *
+ * @param run - The run
+ * @param hashLabel - What the transaction identifier is called, "hash" or "signature"
+ * @returns The description, e.g. "2026-10-23 09:00 UTC: sent, hash 0x123..."
+ */
+function describeRun(run: PrivyScheduleRun, hashLabel: string): string {
+    const when = `${new Date(run.runAt).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+    const missed = run.missed ? ` (${run.missed} missed run${run.missed === 1 ? "" : "s"} skipped)` : "";
+    switch (run.status) {
+        case "sent":
+            return `${when}: sent, ${hashLabel} ${run.hash}${missed}`;
+        case "queued":
+            return `${when}: queued for approval with ID ${run.approvalId}${missed}`;
+        case "dry_run":
+            return `${when}: dry run, not sent${missed}`;
+        default:
+            return `${when}: ${run.status}, ${run.error}${missed}`;
+    }
+}
+
+/**
+ * Formats a schedule, its state and its last run
+ *
+ * @param schedule - The schedule
+ * @param runs - How many of the most recent runs to include
+ * @returns The description, one line per run after the first
+ */
+export function formatSchedule(schedule: PrivySchedule, runs: number = 1): string {
+    const payee = schedule.label ? ` (${schedule.label})` : "";
+    const next = schedule.status === "active" && schedule.nextRunAt ? `, next run ${new Date(schedule.nextRunAt).toISOString()}` : "";
+    const count = `${schedule.runCount} run${schedule.runCount === 1 ? "" : "s"}${schedule.maxRuns ? ` of ${schedule.maxRuns}` : ""}`;
+    const hashLabel = schedule.chainType === "solana" ? "signature" : "hash";
+    return [
+        `${schedule.id}: ${schedule.description}${payee} ${describeRecurrence(schedule.recurrence, schedule.startAt)}; ${schedule.status}${next}, ${count}`,
+        ...schedule.runs.slice(-runs).reverse().map(run => `  ${describeRun(run, hashLabel)}`)
+    ].join("\n");
+}
+
+/**
+ * Creates a schedule store backed by the runtime cache, which persists through the database adapter
+ *
+ * @param runtime - The agent runtime whose cache holds the schedules
+ * @returns Schedule store methods
+ */
+export const scheduleService = (runtime: IAgentRuntime) => {
+    /**
+     * Loads all schedules, dropping ones that ended long ago
+     *
+     * @returns Schedules keyed by ID
+     */
+    const load = async (): Promise<Record<string, PrivySchedule>> => {
+        const schedules = (await runtime.cacheManager.get<Record<string, PrivySchedule>>(CACHE_KEY)) || {};
+        const now = Date.now();
+        for (const schedule of Object.values(schedules)) {
+            if ((schedule.status === "cancelled" || schedule.status === "completed") && schedule.updatedAt + ENDED_RETENTION_MS <= now) {
+                delete schedules[schedule.id];
+            }
+        }
+        return schedules;
+    };
+
+    const save = async (schedules: Record<string, PrivySchedule>): Promise<void> => {
+        await runtime.cacheManager.set(CACHE_KEY, schedules);
+    };
+
+    /**
+     * Changes a schedule and saves it
+     *
+     * @param id - The schedule ID
+     * @param change - Changes the schedule in place
+     * @returns The changed schedule, or undefined if it does not exist
+     */
+    const update = async (id: string, change: (schedule: PrivySchedule) => void): Promise<PrivySchedule | undefined> => {
+        return withCacheLock(CACHE_KEY, async () => {
+            const schedules = await load();
+            const schedule = schedules[id];
+            if (!schedule) {
+                return undefined;
+            }
+            change(schedule);
+            schedule.updatedAt = Date.now();
+            await save(schedules);
+            return schedule;
+        });
+    };
+
+    /**
+     * Records a new active schedule
+     *
+     * @param schedule - The schedule's transfer, recurrence and creator
+     * @returns The schedule
+     */
+    const create = async (
+        schedule: Omit<PrivySchedule, "id" | "status" | "nextRunAt" | "runCount" | "runs" | "createdAt" | "updatedAt">
+    ): Promise<PrivySchedule> => {
+        const createdAt = Date.now();
+        const created: PrivySchedule = {
+            ...schedule,
+            id: `sched_${randomUUID()}`,
+            status: "active",
+            nextRunAt: schedule.startAt,
+            runCount: 0,
+            runs: [],
+            createdAt,
+            updatedAt: createdAt
+        };
+        await withCacheLock(CACHE_KEY, async () => {
+            const schedules = await load();
+            schedules[created.id] = created;
+            await save(schedules);
+        });
+        return created;
+    };
+
+    /**
+     * Gets a schedule by ID
+     *
+     * @param id - The schedule ID
+     * @returns The schedule, if it exists
+     */
+    const get = async (id: string): Promise<PrivySchedule | undefined> => {
+        return (await load())[id];
+    };
+
+    /**
+     * Lists schedules, soonest next run first and ended schedules last
+     *
+     * @param statuses - Only list schedules in these states
+     * @returns The schedules
+     */
+    const list = async (statuses?: PrivyScheduleStatus[]): Promise<PrivySchedule[]> => {
+        return Object.values(await load())
+            .filter(schedule => !statuses || statuses.includes(schedule.status))
+            .sort((a, b) => (a.nextRunAt ?? Infinity) - (b.nextRunAt ?? Infinity) || b.updatedAt - a.updatedAt);
+    };
+
+    /**
+     * Lists active schedules whose next run is due
+     *
+     * @param now - The current time
+     * @returns The due schedules, most overdue first
+     */
+    const due = async (now: number = Date.now()): Promise<PrivySchedule[]> => {
+        return (await list(["active"])).filter(schedule => schedule.nextRunAt !== undefined && schedule.nextRunAt <= now);
+    };
+
+    /**
+     * Records a run and moves the schedule to its next run, skipping runs missed while the agent was
+     * not running; a schedule that made its last run is completed
+     *
+     * @param id - The schedule ID
+     * @param run - The run
+     * @returns The schedule, or undefined if it was deleted in the meantime
+     */
+    const recordRun = async (id: string, run: PrivyScheduleRun): Promise<PrivySchedule | undefined> => {
+        return update(id, schedule => {
+            let next = nextRunAfter(schedule.recurrence, schedule.startAt, run.runAt);
+            let missed = 0;
+            while (next !== undefined && next <= run.executedAt) {
+                missed++;
+                next = nextRunAfter(schedule.recurrence, schedule.startAt, next);
+            }
+            if (missed) {
+                run.missed = missed;
+            }
+            schedule.runs = [...schedule.runs, run].slice(-MAX_KEPT_RUNS);
+            schedule.runCount++;
+
+            if (schedule.status !== "active") {
+                return;
+            }
+            const ended = next === undefined
+                || (schedule.endAt !== undefined && next > schedule.endAt)
+                || (schedule.maxRuns !== undefined && schedule.runCount >= schedule.maxRuns);
+            schedule.nextRunAt = ended ? undefined : next;
+            if (ended) {
+                schedule.status = "completed";
+            }
+        });
+    };
+
+    /**
+     * Pauses an active schedule
+     *
+     * @param id - The schedule ID
+     * @returns The schedule, or undefined if it does not exist
+     */
+    const pause = async (id: string): Promise<PrivySchedule | undefined> => {
+        return update(id, schedule => {
+            if (schedule.status === "active") {
+                schedule.status = "paused";
+            }
+        });
+    };
+
+    /**
+     * Resumes a paused schedule from its next run after now, so runs that fell due while it was paused
+     * are skipped; a one-off run that fell due while paused is made right away
+     *
+     * @param id - The schedule ID
+     * @returns The schedule, or undefined if it does not exist
+     */
+    const resume = async (id: string): Promise<PrivySchedule | undefined> => {
+        return update(id, schedule => {
+            if (schedule.status !== "paused") {
+                return;
+            }
+            const now = Date.now();
+            const next = schedule.recurrence.frequency === "once"
+                ? Math.max(schedule.startAt, now)
+                : nextRunAfter(schedule.recurrence, schedule.startAt, now);
+            const ended = next === undefined || (schedule.endAt !== undefined && next > schedule.endAt);
+            schedule.status = ended ? "completed" : "active";
+            schedule.nextRunAt = ended ? undefined : next;
+        });
+    };
+
+    /**
+     * Cancels a schedule so it never runs again
+     *
+     * @param id - The schedule ID
+     * @returns The schedule, or undefined if it does not exist
+     */
+    const cancel = async (id: string): Promise<PrivySchedule | undefined> => {
+        return update(id, schedule => {
+            if (schedule.status === "active" || schedule.status === "paused") {
+                schedule.status = "cancelled";
+                schedule.nextRunAt = undefined;
+            }
+        });
+    };
+
+    return { create, get, list, due, recordRun, pause, resume, cancel };
+};
@@ -0,0 +1,54 @@
+import { generateKeyPairSync, verify } from "crypto";
+import { buildSignaturePayload, canonicalize, loadAuthorizationKey, signRequest } from "./signing.js";
+
+describe("canonicalize", () => {
+    it("sorts object keys at every level and drops undefined members", () => {
+        expect(canonicalize({ b: 1, a: { d: [3, { f: true, e: null }], c: undefined } }))
+            .toBe('{"a":{"d":[3,{"e":null,"f":true}]},"b":1}');
+    });
+
+    it("writes undefined array items as null and escapes strings like JSON", () => {
+        expect(canonicalize([1, undefined, "q\"\n"])).toBe('[1,null,"q\\"\\n"]');
+    });
+});
+
+describe("buildSignaturePayload", () => {
+    it("keeps only the headers Privy signs and defaults the body to an empty object", () => {
+        expect(buildSignaturePayload("post", "https://api.privy.io/v1/wallets", undefined, {
+            "privy-app-id": "app",
+            "privy-idempotency-key": "key",
+            Authorization: "Basic secret"
+        })).toEqual({
+            version: 1,
+            method: "POST",
+            url: "https://api.privy.io/v1/wallets",
+            body: {},
+            headers: { "privy-app-id": "app", "privy-idempotency-key": "key" }
+        });
+    });
+});
+
+describe("signRequest", () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+    const encoded = `wallet-auth:${privateKey.export({ format: "der", type: "pkcs8" }).toString("base64")}`;
+
+    it("signs the canonical payload with the authorization key", () => {
+        const body = { to: "0x1111111111111111111111111111111111111111", value: "1" };
+        const headers = { "privy-app-id": "app" };
+        const signature = signRequest(encoded, "POST", "https://api.privy.io/v1/wallets/w/rpc", body, headers);
+
+        const payload = canonicalize(buildSignaturePayload("POST", "https://api.privy.io/v1/wallets/w/rpc", body, headers));
+        expect(verify("sha256", Buffer.from(payload), publicKey, Buffer.from(signature, "base64"))).toBe(true);
+    });
+
+    it("signs the same payload whatever the order of the body's keys", () => {
+        const key = loadAuthorizationKey(encoded);
+        const first = signRequest(key, "POST", "https://api.privy.io/v1/policies", { a: 1, b: 2 }, {});
+        const payload = canonicalize(buildSignaturePayload("POST", "https://api.privy.io/v1/policies", { b: 2, a: 1 }, {}));
+        expect(verify("sha256", Buffer.from(payload), publicKey, Buffer.from(first, "base64"))).toBe(true);
+    });
+
+    it("rejects a key that is not PKCS#8", () => {
+        expect(() => loadAuthorizationKey("not-a-key")).toThrow("Invalid Privy authorization private key");
+    });
+});
@@ -0,0 +1,106 @@
+import { createPrivateKey, KeyObject, sign } from "crypto";
+
+/**
+ * Prefix the Privy dashboard adds to exported authorization keys
+ */
+const KEY_PREFIX = "wallet-auth:";
+
+/**
+ * Headers that Privy includes in the signed payload when present on the request
+ */
+const SIGNED_HEADERS = ["privy-app-id", "privy-idempotency-key"];
+
+/**
+ * Serializes a value as canonical JSON (RFC 8785): object keys sorted, no insignificant whitespace
+ *
+ * @param value - The value to serialize
+ * @returns The canonical JSON string
+ */
+export function canonicalize(value: unknown): string {
+    if (value === null || typeof value !== "object") {
+        return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(",")}]`;
+    }
+    const entries = Object.keys(value as Record<string, unknown>)
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+}
+
+/**
+ * Loads a P-256 authorization private key given as base64 PKCS#8 DER, with or without the `wallet-auth:` prefix
+ *
+ * @param privateKey - The encoded private key
+ * @returns The key object
+ * @throws Error if the key cannot be parsed
+ */
+export function loadAuthorizationKey(privateKey: string): KeyObject {
+    const encoded = privateKey.trim().replace(KEY_PREFIX, "");
+    try {
+        return createPrivateKey({
+            key: Buffer.from(encoded, "base64"),
+            format: "der",
+            type: "pkcs8"
+        });
+    } catch (error: any) {
+        throw new Error(`Invalid Privy authorization private key: ${error.message}`);
+    }
+}
+
+/**
+ * Builds the payload Privy expects to be signed for a request
+ *
+ * @param method - HTTP method
+ * @param url - Absolute request URL
+ * @param body - Request body, if any
+ * @param headers - Request headers; only Privy-specific headers are included
+ * @returns The payload object
+ */
+export function buildSignaturePayload(
+    method: string,
+    url: string,
+    body: unknown,
+    headers: Record<string, string>
+): Record<string, unknown> {
+    const signedHeaders: Record<string, string> = {};
+    for (const name of SIGNED_HEADERS) {
+        if (headers[name]) {
+            signedHeaders[name] = headers[name];
+        }
+    }
+
+    return {
+        version: 1,
+        method: method.toUpperCase(),
+        url,
+        body: body ?? {},
+        headers: signedHeaders
+    };
+}
+
+/**
+ * Computes the `privy-authorization-signature` header for a request
+ *
+ * The payload is canonicalized and signed with ECDSA P-256 over SHA-256; the DER signature is base64 encoded.
+ *
+ * @param privateKey - Authorization private key, encoded or already loaded
+ * @param method - HTTP method
+ * @param url - Absolute request URL
+ * @param body - Request body, if any
+ * @param headers - Request headers
+ * @returns The base64 signature
+ */
+export function signRequest(
+    privateKey: string | KeyObject,
+    method: string,
+    url: string,
+    body: unknown,
+    headers: Record<string, string>
+): string {
+    const key = typeof privateKey === "string" ? loadAuthorizationKey(privateKey) : privateKey;
+    const payload = canonicalize(buildSignaturePayload(method, url, body, headers));
+    return sign("sha256", Buffer.from(payload), key).toString("base64");
+}
@@ -0,0 +1,101 @@
+import { PrivySolanaSignatureStatus, PrivySolanaTransfer } from "../types/solana.js";
+import { compileMessage, serializeTransaction, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, transferInstructions } from "../solana.js";
+import { PrivyValidationError } from "../errors.js";
+import { rpcClient } from "./rpc.js";
+
+/**
+ * Length of the genesis hash prefix that identifies a Solana cluster in a CAIP-2 chain ID
+ */
+const CAIP2_REFERENCE_LENGTH = 32;
+
+/**
+ * Layout of an SPL mint account: mint authority option (36 bytes), supply (8), decimals (1),
+ * initialized flag (1) and freeze authority option (36); Token-2022 mints may append extensions
+ */
+const MINT_DECIMALS_OFFSET = 44;
+const MINT_DATA_LENGTH = 82;
+
+/**
+ * Creates a service reading Solana cluster state and building transfers over JSON-RPC
+ *
+ * @param rpcUrl - URL of the Solana JSON-RPC endpoint
+ * @returns Solana service methods
+ */
+export const solanaService = (rpcUrl: string) => {
+    const rpc = rpcClient(rpcUrl);
+
+    /**
+     * Gets a recent blockhash for a new transaction
+     *
+     * @returns The blockhash and the last block height at which a transaction using it is valid
+     */
+    const getLatestBlockhash = async (): Promise<{ blockhash: string; lastValidBlockHeight: number }> => {
+        const result = await rpc.call<{ value: { blockhash: string; lastValidBlockHeight: number } }>("getLatestBlockhash", [{ commitment: "confirmed" }]);
+        return result.value;
+    };
+
+    /**
+     * Identifies the cluster the endpoint serves by its genesis hash
+     *
+     * @returns The CAIP-2 chain ID, e.g. "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp" for mainnet
+     */
+    const getCaip2 = async (): Promise<string> => {
+        const genesisHash = await rpc.call<string>("getGenesisHash");
+        return `solana:${genesisHash.slice(0, CAIP2_REFERENCE_LENGTH)}`;
+    };
+
+    /**
+     * Reads a token mint: the program that owns it and the token's decimals
+     *
+     * @param mint - The token mint
+     * @returns The SPL Token or Token-2022 program ID, and the decimals
+     * @throws PrivyValidationError if the account does not exist or is not a token mint
+     */
+    const getMint = async (mint: string): Promise<{ tokenProgram: string; decimals: number }> => {
+        const result = await rpc.call<{ value: { owner: string; data: [string, string] } | null }>("getAccountInfo", [mint, { encoding: "base64" }]);
+        const owner = result.value?.owner;
+        const data = result.value ? Buffer.from(result.value.data[0], "base64") : undefined;
+        if ((owner !== TOKEN_PROGRAM_ID && owner !== TOKEN_2022_PROGRAM_ID) || !data || data.length < MINT_DATA_LENGTH) {
+            throw new PrivyValidationError(`${mint} is not an SPL token mint on this cluster`, undefined, "invalid_mint");
+        }
+        return { tokenProgram: owner, decimals: data[MINT_DECIMALS_OFFSET] };
+    };
+
+    /**
+     * Looks up the status of a transaction by signature, including transactions no longer in the recent status cache
+     *
+     * @param signature - The transaction signature
+     * @returns The status, or null if the cluster does not know the transaction
+     */
+    const getSignatureStatus = async (signature: string): Promise<PrivySolanaSignatureStatus | null> => {
+        const result = await rpc.call<{ value: (PrivySolanaSignatureStatus | null)[] }>(
+            "getSignatureStatuses",
+            [[signature], { searchTransactionHistory: true }]
+        );
+        return result.value[0] ?? null;
+    };
+
+    /**
+     * Builds an unsigned transfer transaction with a fresh blockhash
+     *
+     * @param transfer - The transfer; the token program and decimals of a mint are read from the cluster when not given
+     * @returns The transaction, base64-encoded, and the cluster it was built for
+     */
+    const buildTransfer = async (transfer: PrivySolanaTransfer): Promise<{ transaction: string; caip2: string; lastValidBlockHeight: number }> => {
+        let { tokenProgram, decimals } = transfer;
+        if (transfer.mint && (!tokenProgram || decimals === undefined)) {
+            const mint = await getMint(transfer.mint);
+            tokenProgram = tokenProgram || mint.tokenProgram;
+            decimals = decimals ?? mint.decimals;
+        }
+        const instructions = transferInstructions({ ...transfer, tokenProgram, decimals });
+        const [{ blockhash, lastValidBlockHeight }, caip2] = await Promise.all([getLatestBlockhash(), getCaip2()]);
+        return {
+            transaction: serializeTransaction(compileMessage(transfer.from, instructions, blockhash)),
+            caip2,
+            lastValidBlockHeight
+        };
+    };
+
+    return { getLatestBlockhash, getCaip2, getMint, getSignatureStatus, buildTransfer };
+};
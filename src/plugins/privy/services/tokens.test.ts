@@ -0,0 +1,38 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { tokenRegistry } from "./tokens.js";
+
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const CUSTOM = "0x1111111111111111111111111111111111111111";
+
+function runtimeWithTokens(privyTokens: unknown[]): IAgentRuntime {
+    return { character: { settings: { privyTokens } } } as unknown as IAgentRuntime;
+}
+
+describe("tokenRegistry", () => {
+    it("finds seed tokens by symbol or address, ignoring case", () => {
+        const registry = tokenRegistry();
+        expect(registry.bySymbol("usdc")).toMatchObject({ address: USDC, decimals: 6 });
+        expect(registry.byAddress(USDC.toLowerCase())?.symbol).toBe("USDC");
+        expect(registry.bySymbol("USDC", "solana")?.chainType).toBe("solana");
+    });
+
+    it("prefers character settings over seed entries", () => {
+        const registry = tokenRegistry(runtimeWithTokens([{ symbol: "USDC", address: CUSTOM, decimals: 2 }]));
+        expect(registry.bySymbol("USDC")).toMatchObject({ address: CUSTOM, decimals: 2, chainType: "ethereum" });
+    });
+
+    it("drops configured entries that are incomplete or have an invalid address", () => {
+        const warn = console.warn;
+        console.warn = () => undefined;
+        try {
+            const registry = tokenRegistry(runtimeWithTokens([
+                { symbol: "NODEC", address: CUSTOM },
+                { symbol: "BAD", address: "0x1234", decimals: 18 }
+            ]));
+            expect(registry.bySymbol("NODEC")).toBeUndefined();
+            expect(registry.bySymbol("BAD")).toBeUndefined();
+        } finally {
+            console.warn = warn;
+        }
+    });
+});
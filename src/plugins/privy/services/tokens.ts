@@ -0,0 +1,140 @@
+import { readFileSync } from "fs";
+import { IAgentRuntime } from "@ai16z/eliza";
+import { PrivyChainType } from "../types/policies.js";
+import { PrivyToken, PrivyTokenRegistryFile } from "../types/tokens.js";
+import { CHAIN_POLICY_CONFIG, isChainType } from "../chains.js";
+import { isValidAddress, sameAddress } from "../addresses.js";
+
+/**
+ * Character setting holding additional or overriding registry entries
+ */
+export const TOKEN_SETTINGS_KEY = "privyTokens";
+
+let seedTokens: PrivyToken[] | undefined;
+
+/**
+ * Checks that a registry entry has a symbol, an address and integer decimals
+ *
+ * @param token - The entry to check
+ * @returns Whether the entry is usable
+ */
+function isRegistryToken(token: any): token is PrivyToken {
+    return Boolean(token)
+        && typeof token.symbol === "string" && token.symbol !== ""
+        && typeof token.address === "string" && token.address !== ""
+        && Number.isInteger(token.decimals) && token.decimals >= 0;
+}
+
+/**
+ * Checks a registry entry's address for its chain, warning about and dropping entries that fail
+ *
+ * @param token - The entry to check
+ * @returns Whether the address is valid
+ */
+function hasValidAddress(token: PrivyToken): boolean {
+    if (isValidAddress(token.address, token.chainType)) {
+        return true;
+    }
+    console.warn(`Ignoring Privy registry token ${token.symbol}: invalid ${token.chainType} address ${token.address}`);
+    return false;
+}
+
+/**
+ * Reads the seed file of a chain from `tokens/<chain>.json`
+ *
+ * @param chainType - The chain to read
+ * @returns The chain's tokens, or none if the file is missing or malformed
+ */
+function readSeedFile(chainType: PrivyChainType): PrivyToken[] {
+    try {
+        const file: PrivyTokenRegistryFile = JSON.parse(readFileSync(new URL(`../tokens/${chainType}.json`, import.meta.url), "utf8"));
+        return (file.tokens || []).filter(isRegistryToken).map(token => ({ ...token, chainType })).filter(hasValidAddress);
+    } catch (error) {
+        console.error(`Error reading Privy token registry for ${chainType}:`, error);
+        return [];
+    }
+}
+
+/**
+ * Loads the seed tokens of every supported chain, once per process
+ *
+ * @returns The seed tokens
+ */
+function loadSeedTokens(): PrivyToken[] {
+    if (!seedTokens) {
+        seedTokens = (Object.keys(CHAIN_POLICY_CONFIG) as PrivyChainType[]).flatMap(readSeedFile);
+    }
+    return seedTokens;
+}
+
+/**
+ * Reads registry entries from the character's `privyTokens` setting
+ *
+ * Entries without a `chainType` are taken to be Ethereum tokens.
+ *
+ * @param runtime - The agent runtime
+ * @returns The configured tokens
+ */
+function loadSettingsTokens(runtime?: IAgentRuntime): PrivyToken[] {
+    const settings = runtime?.character?.settings as { [TOKEN_SETTINGS_KEY]?: unknown } | undefined;
+    const configured = settings?.[TOKEN_SETTINGS_KEY];
+    if (!Array.isArray(configured)) {
+        return [];
+    }
+
+    return configured.filter(isRegistryToken).map(token => {
+        const chainType = String(token.chainType || "ethereum").toLowerCase();
+        return { ...token, chainType: isChainType(chainType) ? chainType : "ethereum" } as PrivyToken;
+    }).filter(hasValidAddress);
+}
+
+/**
+ * Creates a token registry combining the bundled seed files with the character's `privyTokens` setting
+ *
+ * Entries from character settings take precedence over seed entries with the same symbol or address.
+ *
+ * @param runtime - The agent runtime whose character may extend the registry
+ * @returns Registry lookup methods
+ */
+export const tokenRegistry = (runtime?: IAgentRuntime) => {
+    const tokens = [...loadSettingsTokens(runtime), ...loadSeedTokens()];
+
+    /**
+     * Lists the tokens known on a chain
+     *
+     * @param chainType - The chain, or all chains when omitted
+     * @returns The tokens
+     */
+    const list = (chainType?: PrivyChainType): PrivyToken[] => {
+        return tokens.filter(token => !chainType || token.chainType === chainType);
+    };
+
+    /**
+     * Finds a token by symbol, ignoring case
+     *
+     * @param symbol - The token symbol
+     * @param chainType - Chain to look on
+     * @param chainId - Chain ID to prefer when a symbol exists on several networks of the chain
+     * @returns The token, if known
+     */
+    const bySymbol = (symbol: string, chainType: PrivyChainType = "ethereum", chainId?: number | string): PrivyToken | undefined => {
+        const matches = list(chainType).filter(token => token.symbol.toUpperCase() === symbol.toUpperCase());
+        if (chainId !== undefined) {
+            return matches.find(token => String(token.chainId) === String(chainId)) || matches[0];
+        }
+        return matches[0];
+    };
+
+    /**
+     * Finds a token by contract address or mint
+     *
+     * @param address - The address
+     * @param chainType - Chain to look on
+     * @returns The token, if known
+     */
+    const byAddress = (address: string, chainType: PrivyChainType = "ethereum"): PrivyToken | undefined => {
+        return list(chainType).find(token => sameAddress(token.address, address, chainType));
+    };
+
+    return { list, bySymbol, byAddress };
+};
@@ -0,0 +1,299 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { PrivyTrackedTransaction, PrivyTrackingConfig, PrivyTransactionStatus } from "../types/transactions.js";
+import { PrivyTransactionRequest, PrivyTransactionResponse } from "../types/wallets.js";
+import { PrivyChainType } from "../types/policies.js";
+import { formatAmount } from "../amounts.js";
+import { getNativeToken } from "../chains.js";
+import { rpcClient } from "./rpc.js";
+import { solanaService } from "./solana.js";
+import { withCacheLock } from "./locks.js";
+
+const CACHE_KEY = "privy/transactions";
+
+/**
+ * Default receipt polling settings
+ */
+export const DEFAULT_TRACKING_CONFIG: Required<PrivyTrackingConfig> = {
+    confirmations: 1,
+    pollIntervalMs: 4000,
+    pollTimeoutMs: 5 * 60 * 1000,
+    droppedAfterMs: 30 * 60 * 1000,
+    retentionMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Receipt fields the tracker reads
+ */
+interface RpcTransactionReceipt {
+    status?: string;
+    blockNumber: string;
+    gasUsed: string;
+    effectiveGasPrice?: string;
+}
+
+/**
+ * Checks whether a transaction has reached a final state
+ *
+ * @param status - The transaction status
+ * @returns Whether the status will no longer change
+ */
+export function isSettled(status: PrivyTransactionStatus): boolean {
+    return status === "confirmed" || status === "failed" || status === "dropped";
+}
+
+/**
+ * Reads the state of a transaction from an EVM JSON-RPC node
+ *
+ * A transaction without a receipt stays pending until `droppedAfterMs` has passed, after which it is
+ * dropped once the node no longer returns it from `eth_getTransactionByHash`.
+ *
+ * @param rpcUrl - URL of the JSON-RPC endpoint
+ * @param transaction - The tracked transaction
+ * @param droppedAfterMs - How long a transaction may go without a receipt before it may be dropped
+ * @returns The fields of the transaction that changed
+ */
+async function readOnChainState(
+    rpcUrl: string,
+    transaction: PrivyTrackedTransaction,
+    droppedAfterMs: number
+): Promise<Partial<PrivyTrackedTransaction>> {
+    const rpc = rpcClient(rpcUrl);
+    const receipt = await rpc.call<RpcTransactionReceipt | null>("eth_getTransactionReceipt", [transaction.hash]);
+    if (!receipt) {
+        if (Date.now() - transaction.submittedAt < droppedAfterMs) {
+            return { status: "pending", confirmations: 0, blockNumber: undefined };
+        }
+        const known = await rpc.call<unknown>("eth_getTransactionByHash", [transaction.hash]);
+        return { status: known ? "pending" : "dropped", confirmations: 0, blockNumber: undefined };
+    }
+
+    const blockNumber = Number(BigInt(receipt.blockNumber));
+    const latestBlock = Number(BigInt(await rpc.call<string>("eth_blockNumber")));
+    const confirmations = Math.max(latestBlock - blockNumber + 1, 1);
+    const gasUsed = BigInt(receipt.gasUsed);
+    const reverted = receipt.status !== undefined && BigInt(receipt.status) === 0n;
+
+    return {
+        status: reverted ? "failed" : confirmations >= transaction.requiredConfirmations ? "confirmed" : "mined",
+        confirmations,
+        blockNumber,
+        gasUsed: gasUsed.toString(),
+        fee: receipt.effectiveGasPrice ? (gasUsed * BigInt(receipt.effectiveGasPrice)).toString() : undefined
+    };
+}
+
+/**
+ * Reads the state of a transaction from a Solana JSON-RPC node
+ *
+ * A transaction counts as mined once processed or confirmed by the cluster and as confirmed once
+ * finalized. One the cluster does not know stays pending until `droppedAfterMs` has passed, by which
+ * time its blockhash has expired and it can no longer land.
+ *
+ * @param rpcUrl - URL of the JSON-RPC endpoint
+ * @param transaction - The tracked transaction
+ * @param droppedAfterMs - How long a transaction may go unknown to the cluster before it is dropped
+ * @returns The fields of the transaction that changed
+ */
+async function readSolanaState(
+    rpcUrl: string,
+    transaction: PrivyTrackedTransaction,
+    droppedAfterMs: number
+): Promise<Partial<PrivyTrackedTransaction>> {
+    const status = await solanaService(rpcUrl).getSignatureStatus(transaction.hash);
+    if (!status) {
+        const expired = Date.now() - transaction.submittedAt >= droppedAfterMs;
+        return { status: expired ? "dropped" : "pending", confirmations: 0, blockNumber: undefined };
+    }
+
+    const finalized = status.confirmationStatus === "finalized";
+    // Finalized transactions report no confirmation count
+    const confirmations = finalized ? Math.max(transaction.requiredConfirmations, 1) : Math.max(status.confirmations ?? 0, 1);
+    return {
+        status: status.err ? "failed" : finalized ? "confirmed" : "mined",
+        confirmations,
+        blockNumber: status.slot
+    };
+}
+
+/**
+ * Describes the state of a tracked transaction in one line
+ *
+ * @param transaction - The tracked transaction
+ * @param description - What the transaction does, e.g. "0.5 MON to 0xabc..."
+ * @returns The summary, e.g. `0x123... (0.5 MON to 0xabc...) on monad: confirmed in block 42 (1/1 confirmations), fee 0.00002 MON`
+ */
+export function summarizeTransaction(transaction: PrivyTrackedTransaction, description?: string): string {
+    const { symbol, decimals } = getNativeToken(transaction.chainType);
+    const subject = `${transaction.hash}${description ? ` (${description})` : ""} on ${transaction.chainType}`;
+    const fee = transaction.fee ? `, fee ${formatAmount(transaction.fee, decimals, symbol)}` : "";
+    const block = transaction.blockNumber === undefined ? ""
+        : transaction.chainType === "solana" ? ` in slot ${transaction.blockNumber}`
+        : ` in block ${transaction.blockNumber} (${transaction.confirmations}/${transaction.requiredConfirmations} confirmations)`;
+
+    switch (transaction.status) {
+        case "pending": {
+            const minutes = Math.floor((Date.now() - transaction.submittedAt) / 60000);
+            const unchecked = transaction.error ? `; last check failed: ${transaction.error}` : "";
+            return `${subject}: pending for ${minutes < 1 ? "less than a minute" : `${minutes} min`}${unchecked}`;
+        }
+        case "mined":
+        case "confirmed":
+            return `${subject}: ${transaction.status}${block}${fee}`;
+        case "failed":
+            return `${subject}: failed (${transaction.chainType === "solana" ? "instruction error" : "reverted"})${block}${fee}`;
+        case "dropped":
+            return `${subject}: dropped without being ${transaction.chainType === "solana" ? "processed" : "mined"}`;
+    }
+}
+
+/**
+ * Creates a transaction tracker backed by the runtime cache
+ *
+ * @param runtime - The agent runtime whose cache holds the tracked transactions
+ * @param trackingConfig - Receipt polling settings
+ * @returns Transaction tracker methods
+ */
+export const transactionTracker = (runtime: IAgentRuntime, trackingConfig: PrivyTrackingConfig = {}) => {
+    const settings = { ...DEFAULT_TRACKING_CONFIG, ...trackingConfig };
+    const key = (hash: string) => hash.toLowerCase();
+
+    /**
+     * Loads all tracked transactions, dropping settled ones older than the retention period
+     *
+     * @returns Transactions keyed by lowercase hash
+     */
+    const load = async (): Promise<Record<string, PrivyTrackedTransaction>> => {
+        const transactions = (await runtime.cacheManager.get<Record<string, PrivyTrackedTransaction>>(CACHE_KEY)) || {};
+        const now = Date.now();
+        for (const [hash, transaction] of Object.entries(transactions)) {
+            if (isSettled(transaction.status) && transaction.updatedAt + settings.retentionMs <= now) {
+                delete transactions[hash];
+            }
+        }
+        return transactions;
+    };
+
+    const save = async (transactions: Record<string, PrivyTrackedTransaction>): Promise<void> => {
+        await runtime.cacheManager.set(CACHE_KEY, transactions);
+    };
+
+    /**
+     * Starts tracking a submitted transaction; tracking one that is already tracked returns the existing record
+     *
+     * @param response - The Privy transaction response
+     * @param request - The transaction request
+     * @param chainType - Chain the transaction was sent on
+     * @param meta - Idempotency key and requesting user, kept for follow-up
+     * @returns The tracked transaction
+     */
+    const track = async (
+        response: PrivyTransactionResponse,
+        request: PrivyTransactionRequest,
+        chainType: PrivyChainType = "ethereum",
+        meta: { idempotencyKey?: string; requestedBy?: string } = {}
+    ): Promise<PrivyTrackedTransaction> => withCacheLock(CACHE_KEY, async () => {
+        const transactions = await load();
+        const existing = transactions[key(response.hash)];
+        if (existing) {
+            return existing;
+        }
+        const submittedAt = Date.now();
+        const transaction: PrivyTrackedTransaction = {
+            hash: response.hash,
+            caip2: response.caip2,
+            chainType,
+            request,
+            status: "pending",
+            confirmations: 0,
+            requiredConfirmations: settings.confirmations,
+            ...meta,
+            submittedAt,
+            updatedAt: submittedAt
+        };
+        transactions[key(response.hash)] = transaction;
+        await save(transactions);
+        return transaction;
+    });
+
+    /**
+     * Gets a tracked transaction by hash
+     *
+     * @param hash - The transaction hash, in any case
+     * @returns The transaction, if tracked
+     */
+    const get = async (hash: string): Promise<PrivyTrackedTransaction | undefined> => {
+        const transactions = await load();
+        return transactions[key(hash)];
+    };
+
+    /**
+     * Lists tracked transactions
+     *
+     * @param filter - Only transactions still in flight, or of one wallet
+     * @returns The transactions, newest first
+     */
+    const list = async (filter: { inFlight?: boolean; walletId?: string } = {}): Promise<PrivyTrackedTransaction[]> => {
+        const transactions = await load();
+        return Object.values(transactions)
+            .filter(transaction => !filter.inFlight || !isSettled(transaction.status))
+            .filter(transaction => !filter.walletId || transaction.request.wallet_id === filter.walletId)
+            .sort((a, b) => b.submittedAt - a.submittedAt);
+    };
+
+    /**
+     * Checks a tracked transaction on chain and records its new state
+     *
+     * A node that cannot be reached leaves the status unchanged and records the error.
+     *
+     * @param hash - The transaction hash
+     * @param rpcUrl - JSON-RPC endpoint of the transaction's chain
+     * @returns The updated transaction, or undefined if it is not tracked
+     */
+    const refresh = async (hash: string, rpcUrl: string): Promise<PrivyTrackedTransaction | undefined> => {
+        const current = await get(hash);
+        if (!current || isSettled(current.status)) {
+            return current;
+        }
+
+        let changes: Partial<PrivyTrackedTransaction>;
+        try {
+            const read = current.chainType === "solana" ? readSolanaState : readOnChainState;
+            changes = { ...(await read(rpcUrl, current, settings.droppedAfterMs)), error: undefined };
+        } catch (error: any) {
+            changes = { error: error.message };
+        }
+
+        // Reload so updates made while the node was queried are not overwritten
+        return withCacheLock(CACHE_KEY, async () => {
+            const transactions = await load();
+            const updated: PrivyTrackedTransaction = {
+                ...(transactions[key(hash)] || current),
+                ...changes,
+                checkedAt: Date.now(),
+                updatedAt: changes.status && changes.status !== current.status ? Date.now() : current.updatedAt
+            };
+            transactions[key(hash)] = updated;
+            await save(transactions);
+            return updated;
+        });
+    };
+
+    /**
+     * Polls a transaction until it settles or `pollTimeoutMs` passes
+     *
+     * @param hash - The transaction hash
+     * @param rpcUrl - JSON-RPC endpoint of the transaction's chain
+     * @returns The last known state of the transaction
+     */
+    const watch = async (hash: string, rpcUrl: string): Promise<PrivyTrackedTransaction | undefined> => {
+        const deadline = Date.now() + settings.pollTimeoutMs;
+        let transaction = await refresh(hash, rpcUrl);
+        while (transaction && !isSettled(transaction.status) && Date.now() + settings.pollIntervalMs <= deadline) {
+            await new Promise(resolve => setTimeout(resolve, settings.pollIntervalMs));
+            transaction = await refresh(hash, rpcUrl);
+        }
+        return transaction;
+    };
+
+    return { track, get, list, refresh, watch };
+};
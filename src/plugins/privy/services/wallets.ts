@@ -1,65 +1,65 @@
 import {
     PrivyCreateWalletRequest,
     PrivyCreateWalletResponse,
+    PrivyWalletFilter,
+    PrivyWalletListResponse,
     PrivyUpdateWalletRequest,
     PrivyTransactionRequest,
     PrivyTransactionResponse,
-    PrivySignatureResponse
+    PrivyWalletTransactionsResponse
 } from "../types/wallets.js";
+import {
+    PrivyRpcResponse,
+    PrivyRpcSignature,
+    PrivyRpcSignedTransaction,
+    PrivySignMethod,
+    PrivySolanaMethod,
+    PrivySignTransactionRequest,
+    PrivyTypedData
+} from "../types/signatures.js";
+import { privyClient, PrivyClientOptions } from "./client.js";
+import { IDEMPOTENCY_HEADER } from "./idempotency.js";
+import { normalizeAddress } from "../addresses.js";
+import { toPrivyTypedData } from "../eip712.js";
+import { PrivyValidationError } from "../errors.js";
+
+const BASE_PATH = "/wallets";
+
+/**
+ * Wallets requested per page, the most Privy returns at once
+ */
+const WALLET_PAGE_SIZE = 100;
 
-const BASE_URL = "https://api.privy.io/v1/wallets";
+/**
+ * Most pages followed when listing wallets, bounding the requests a single listing makes
+ */
+const MAX_WALLET_PAGES = 50;
 
 /**
  * Creates a wallet service instance for interacting with Privy wallets
- * 
+ *
  * @param privyAppID - Privy App ID
  * @param privyAppSecret - Privy App Secret
- * @param authRequestKey - Optional authorization request key
+ * @param authorizationPrivateKey - Optional authorization private key used to sign requests
+ * @param clientOptions - Optional timeout and retry tuning
  * @returns Wallet service methods
  */
-export const walletService = (privyAppID: string, privyAppSecret: string, authRequestKey?: string) => {
+export const walletService = (privyAppID: string, privyAppSecret: string, authorizationPrivateKey?: string, clientOptions?: PrivyClientOptions) => {
+    const client = privyClient(privyAppID, privyAppSecret, authorizationPrivateKey, clientOptions);
+
     /**
      * Creates a new wallet
-     * 
+     *
      * @param request - Wallet creation request
      * @returns The created wallet
      */
     const createWallet = async (request: PrivyCreateWalletRequest): Promise<PrivyCreateWalletResponse> => {
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
-            'privy-app-id': privyAppID,
-            'Authorization': `Basic ${Buffer.from(`${privyAppID}:${privyAppSecret}`).toString('base64')}`
-        };
-
-        // Only add authorization signature if it exists
-        if (authRequestKey) {
-            headers['privy-authorization-signature'] = authRequestKey;
-        }
-
-        try {
-            const url = BASE_URL;
-            const response = await fetch(url, {
-                method: 'POST',
-                headers,
-                body: JSON.stringify(request)
-            });
-
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error?.message || response.statusText);
-            }
-
-            const data = await response.json();
-            return data;
-        } catch (error: any) {
-            console.error("Privy API Error:", error.message);
-            throw error;
-        }
+        return client.request<PrivyCreateWalletResponse>('POST', BASE_PATH, { body: request });
     };
 
     /**
      * Updates an existing wallet
-     * 
+     *
      * @param walletId - ID of the wallet to update
      * @param request - Wallet update request
      * @returns The updated wallet
@@ -69,147 +69,294 @@ export const walletService = (privyAppID: string, privyAppSecret: string, authRe
             throw new Error("Wallet ID is required");
         }
 
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
-            'privy-app-id': privyAppID,
-            'Authorization': `Basic ${Buffer.from(`${privyAppID}:${privyAppSecret}`).toString('base64')}`
-        };
-
-        try {
-            const url = `${BASE_URL}/${walletId}`;
-            const response = await fetch(url, {
-                method: 'PATCH',
-                headers,
-                body: JSON.stringify(request)
-            });
-
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error?.message || response.statusText);
+        return client.request<PrivyCreateWalletResponse>('PATCH', `${BASE_PATH}/${walletId}`, { body: request });
+    };
+
+    /**
+     * Gets one page of wallets
+     *
+     * @param query - Cursor from a previous page, page size and chain type
+     * @returns The wallets and the cursor of the next page, if any
+     */
+    const getWalletsPage = async (
+        query: { cursor?: string; limit?: number; chain_type?: string } = {}
+    ): Promise<{ wallets: PrivyCreateWalletResponse[]; nextCursor?: string }> => {
+        const params = new URLSearchParams();
+        for (const [name, value] of Object.entries(query)) {
+            if (value !== undefined && value !== "") {
+                params.set(name, String(value));
             }
+        }
+        const search = params.toString();
+        const response = await client.request<PrivyWalletListResponse | PrivyCreateWalletResponse[]>('GET', `${BASE_PATH}${search ? `?${search}` : ""}`);
 
-            const data = await response.json();
-            return data;
-        } catch (error: any) {
-            console.error("Privy API Error:", error.message);
-            throw error;
+        // Older API versions return a bare array without pagination
+        if (Array.isArray(response)) {
+            return { wallets: response };
         }
+        return { wallets: response.data || [], nextCursor: response.next_cursor || undefined };
     };
 
     /**
-     * Gets all wallets
-     * 
+     * Gets wallets, following cursors across pages until the filter's limit is reached
+     *
+     * @param filter - Chain type, attached policy, limit and any further check
      * @returns List of wallets
      */
-    const getWallets = async (): Promise<PrivyCreateWalletResponse[]> => {
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
-            'privy-app-id': privyAppID,
-            'Authorization': `Basic ${Buffer.from(`${privyAppID}:${privyAppSecret}`).toString('base64')}`
-        };
-
-        try {
-            const url = BASE_URL;
-            const response = await fetch(url, {
-                method: 'GET',
-                headers,
-            });
-
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error?.message || response.statusText);
+    const getWallets = async (filter: PrivyWalletFilter = {}): Promise<PrivyCreateWalletResponse[]> => {
+        const wallets: PrivyCreateWalletResponse[] = [];
+        let cursor: string | undefined;
+        for (let page = 0; page < MAX_WALLET_PAGES; page++) {
+            const { wallets: pageWallets, nextCursor } = await getWalletsPage({ cursor, limit: WALLET_PAGE_SIZE, chain_type: filter.chainType });
+            wallets.push(...pageWallets.filter(wallet =>
+                (!filter.chainType || wallet.chain_type === filter.chainType) &&
+                (!filter.policyId || (wallet.policy_ids || []).includes(filter.policyId)) &&
+                (!filter.matches || filter.matches(wallet))
+            ));
+            if (!nextCursor || (filter.limit !== undefined && wallets.length >= filter.limit)) {
+                break;
             }
+            cursor = nextCursor;
+        }
+        return filter.limit !== undefined ? wallets.slice(0, filter.limit) : wallets;
+    };
 
-            const data = await response.json();
-            return data;
-        } catch (error: any) {
-            console.error("Privy API Error:", error.message);
-            throw error;
+    /**
+     * Gets a single wallet
+     *
+     * @param walletId - ID of the wallet
+     * @returns The wallet
+     */
+    const getWallet = async (walletId: string): Promise<PrivyCreateWalletResponse> => {
+        if (!walletId) {
+            throw new Error("Wallet ID is required");
         }
+
+        return client.request<PrivyCreateWalletResponse>('GET', `${BASE_PATH}/${walletId}`);
+    };
+
+    /**
+     * Gets a page of the transfers Privy recorded for a wallet
+     *
+     * @param walletId - ID of the wallet
+     * @param query - Chain and asset to list (e.g. "ethereum" and "usdc"), a cursor from a previous page and a page size
+     * @returns The transactions and the cursor of the next page
+     */
+    const getWalletTransactions = async (
+        walletId: string,
+        query: { chain?: string; asset?: string; cursor?: string; limit?: number } = {}
+    ): Promise<PrivyWalletTransactionsResponse> => {
+        if (!walletId) {
+            throw new Error("Wallet ID is required");
+        }
+
+        const params = new URLSearchParams();
+        for (const [name, value] of Object.entries(query)) {
+            if (value !== undefined && value !== "") {
+                params.set(name, String(value));
+            }
+        }
+        const search = params.toString();
+        return client.request<PrivyWalletTransactionsResponse>('GET', `${BASE_PATH}/${walletId}/transactions${search ? `?${search}` : ""}`);
     };
 
     /**
      * Sends a transaction
-     * 
+     *
      * @param request - Transaction request
+     * @param idempotencyKey - Optional key letting Privy deduplicate repeated sends of the same intent
      * @returns Transaction response
      */
-    const sendTransaction = async (request: PrivyTransactionRequest): Promise<PrivyTransactionResponse> => {
+    const sendTransaction = async (request: PrivyTransactionRequest, idempotencyKey?: string): Promise<PrivyTransactionResponse> => {
         if (!request.wallet_id) {
             throw new Error("Wallet ID is required");
         }
-
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
-            'privy-app-id': privyAppID,
-            'Authorization': `Basic ${Buffer.from(`${privyAppID}:${privyAppSecret}`).toString('base64')}`
-        };
-
-        try {
-            const url = `${BASE_URL}/${request.wallet_id}/transactions`;
-            const response = await fetch(url, {
-                method: 'POST',
-                headers,
-                body: JSON.stringify({
-                    to: request.to,
-                    value: request.value,
-                    data: request.data
-                })
-            });
-
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error?.message || response.statusText);
-            }
-
-            const data = await response.json();
-            return data;
-        } catch (error: any) {
-            console.error("Privy API Error:", error.message);
-            throw error;
+        if (request.data && !/^0x([0-9a-fA-F]{2})*$/.test(request.data)) {
+            throw new PrivyValidationError(`Invalid transaction data: ${request.data} is not 0x-prefixed hex`, undefined, "invalid_data");
         }
+
+        return client.request<PrivyTransactionResponse>('POST', `${BASE_PATH}/${request.wallet_id}/transactions`, {
+            body: {
+                to: normalizeAddress(request.to, "ethereum", "recipient address"),
+                value: request.value,
+                data: request.data
+            },
+            headers: idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : undefined
+        });
     };
 
     /**
-     * Signs a transaction
-     * 
+     * Calls a signing method of a wallet over Privy's wallet RPC endpoint
+     *
      * @param walletId - ID of the wallet to sign with
-     * @param message - Message to sign
-     * @returns Signature response
+     * @param method - The RPC method
+     * @param params - The method's parameters
+     * @param caip2 - Chain to send on, for methods that broadcast
+     * @param idempotencyKey - Optional key letting Privy deduplicate repeated calls
+     * @returns The method's result
      */
-    const signTransaction = async (walletId: string, message: string): Promise<PrivySignatureResponse> => {
+    const rpc = async <T>(
+        walletId: string,
+        method: PrivySignMethod | PrivySolanaMethod,
+        params: Record<string, unknown>,
+        caip2?: string,
+        idempotencyKey?: string
+    ): Promise<T> => {
         if (!walletId) {
             throw new Error("Wallet ID is required");
         }
 
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
-            'privy-app-id': privyAppID,
-            'Authorization': `Basic ${Buffer.from(`${privyAppID}:${privyAppSecret}`).toString('base64')}`
-        };
-
-        try {
-            const url = `${BASE_URL}/${walletId}/sign`;
-            const response = await fetch(url, {
-                method: 'POST',
-                headers,
-                body: JSON.stringify({
-                    message
-                })
-            });
-
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error?.message || response.statusText);
-            }
+        const response = await client.request<PrivyRpcResponse<T>>('POST', `${BASE_PATH}/${walletId}/rpc`, {
+            body: { method, caip2, params },
+            headers: idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : undefined
+        });
+        return response.data;
+    };
+
+    /**
+     * Signs a message with `personal_sign`
+     *
+     * @param walletId - ID of the wallet to sign with
+     * @param message - The message: UTF-8 text, or bytes as 0x-prefixed hex when `encoding` is "hex"
+     * @param encoding - How the message is encoded
+     * @returns The signature
+     */
+    const signMessage = async (walletId: string, message: string, encoding: 'utf-8' | 'hex' = "utf-8"): Promise<PrivyRpcSignature> => {
+        return rpc<PrivyRpcSignature>(walletId, "personal_sign", { message, encoding });
+    };
 
-            const data = await response.json();
-            return data;
-        } catch (error: any) {
-            console.error("Privy API Error:", error.message);
-            throw error;
+    /**
+     * Signs EIP-712 typed data with `eth_signTypedData_v4`
+     *
+     * @param walletId - ID of the wallet to sign with
+     * @param typedData - Validated typed data
+     * @returns The signature
+     */
+    const signTypedData = async (walletId: string, typedData: PrivyTypedData): Promise<PrivyRpcSignature> => {
+        return rpc<PrivyRpcSignature>(walletId, "eth_signTypedData_v4", { typed_data: toPrivyTypedData(typedData) });
+    };
+
+    /**
+     * Signs a transaction with `eth_signTransaction` without sending it
+     *
+     * @param walletId - ID of the wallet to sign with
+     * @param transaction - The transaction; Privy fills in the nonce and gas when they are omitted
+     * @returns The signed transaction, RLP-encoded
+     */
+    const signTransaction = async (walletId: string, transaction: PrivySignTransactionRequest): Promise<PrivyRpcSignedTransaction> => {
+        if (transaction.data && !/^0x([0-9a-fA-F]{2})*$/.test(transaction.data)) {
+            throw new PrivyValidationError(`Invalid transaction data: ${transaction.data} is not 0x-prefixed hex`, undefined, "invalid_data");
         }
+
+        // Quantities are sent as hex, which Privy accepts for every numeric field
+        const quantity = (value?: string) => value === undefined ? undefined : `0x${BigInt(value).toString(16)}`;
+        return rpc<PrivyRpcSignedTransaction>(walletId, "eth_signTransaction", {
+            transaction: {
+                to: normalizeAddress(transaction.to, "ethereum", "recipient address"),
+                value: quantity(transaction.value),
+                data: transaction.data,
+                chain_id: quantity(transaction.chain_id),
+                nonce: quantity(transaction.nonce),
+                gas_limit: quantity(transaction.gas_limit),
+                gas_price: quantity(transaction.gas_price),
+                max_fee_per_gas: quantity(transaction.max_fee_per_gas),
+                max_priority_fee_per_gas: quantity(transaction.max_priority_fee_per_gas)
+            }
+        });
     };
 
-    return { createWallet, updateWallet, getWallets, sendTransaction, signTransaction };
-}; 
\ No newline at end of file
+    /**
+     * Signs and broadcasts a Solana transaction with `signAndSendTransaction`
+     *
+     * @param walletId - ID of the Solana wallet, which pays the fee
+     * @param transaction - The unsigned transaction, base64-encoded
+     * @param caip2 - Cluster to send on, e.g. "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp"
+     * @param idempotencyKey - Optional key letting Privy deduplicate repeated sends of the same intent
+     * @returns The transaction signature as `hash`
+     */
+    const sendSolanaTransaction = async (
+        walletId: string,
+        transaction: string,
+        caip2: string,
+        idempotencyKey?: string
+    ): Promise<PrivyTransactionResponse> => {
+        const result = await rpc<{ hash: string; caip2?: string }>(
+            walletId,
+            "signAndSendTransaction",
+            { transaction, encoding: "base64" },
+            caip2,
+            idempotencyKey
+        );
+        return { hash: result.hash, caip2: result.caip2 || caip2 };
+    };
+
+    /**
+     * Signs a Solana transaction with `signTransaction` without sending it
+     *
+     * @param walletId - ID of the Solana wallet
+     * @param transaction - The unsigned transaction, base64-encoded
+     * @returns The signed transaction, base64-encoded
+     */
+    const signSolanaTransaction = async (walletId: string, transaction: string): Promise<PrivyRpcSignedTransaction> => {
+        return rpc<PrivyRpcSignedTransaction>(walletId, "signTransaction", { transaction, encoding: "base64" });
+    };
+
+    /**
+     * Signs a message with a Solana wallet's `signMessage`
+     *
+     * @param walletId - ID of the Solana wallet
+     * @param message - The message bytes
+     * @returns The ed25519 signature, base64-encoded
+     */
+    const signSolanaMessage = async (walletId: string, message: Uint8Array): Promise<PrivyRpcSignature> => {
+        return rpc<PrivyRpcSignature>(walletId, "signMessage", { message: Buffer.from(message).toString("base64"), encoding: "base64" });
+    };
+
+    return {
+        createWallet,
+        updateWallet,
+        getWalletsPage,
+        getWallets,
+        getWallet,
+        getWalletTransactions,
+        sendTransaction,
+        signMessage,
+        signTypedData,
+        signTransaction,
+        sendSolanaTransaction,
+        signSolanaTransaction,
+        signSolanaMessage
+    };
+};
+
+/**
+ * Summarizes a list of wallets: how many there are per chain and which policies are attached
+ *
+ * @param wallets - The wallets
+ * @returns The summary, e.g. `12 wallets: 10 ethereum, 2 solana. Policies attached: pol_a (9 wallets); 3 wallets have no policy.`
+ */
+export function summarizeWallets(wallets: PrivyCreateWalletResponse[]): string {
+    const count = (n: number) => `${n} wallet${n === 1 ? "" : "s"}`;
+    const perChain = new Map<string, number>();
+    const perPolicy = new Map<string, number>();
+    let unprotected = 0;
+    for (const wallet of wallets) {
+        perChain.set(wallet.chain_type, (perChain.get(wallet.chain_type) || 0) + 1);
+        const policyIds = wallet.policy_ids || [];
+        if (!policyIds.length) {
+            unprotected++;
+        }
+        for (const policyId of policyIds) {
+            perPolicy.set(policyId, (perPolicy.get(policyId) || 0) + 1);
+        }
+    }
+
+    const chains = [...perChain.entries()].sort((a, b) => b[1] - a[1]).map(([chain, n]) => `${n} ${chain}`).join(", ");
+    const policies = [...perPolicy.entries()].sort((a, b) => b[1] - a[1]).map(([policyId, n]) => `${policyId} (${count(n)})`).join(", ");
+    const parts = [
+        `${count(wallets.length)}: ${chains}.`,
+        policies ? `Policies attached: ${policies}.` : "No policies are attached.",
+        policies && unprotected ? `${count(unprotected)} ${unprotected === 1 ? "has" : "have"} no policy.` : ""
+    ];
+    return parts.filter(Boolean).join(" ");
+}
@@ -0,0 +1,92 @@
+import { bytesToHex, decodeSignedTransaction, hashMessage, recoverAddress, rlpDecode, rlpEncode } from "./signatures.js";
+import { encodeType, hashTypedData, parseTypedData, previewTypedData } from "./eip712.js";
+
+/**
+ * The example message of EIP-712, signed by the private key keccak256("cow")
+ */
+const MAIL = {
+    types: {
+        EIP712Domain: [
+            { name: "name", type: "string" },
+            { name: "version", type: "string" },
+            { name: "chainId", type: "uint256" },
+            { name: "verifyingContract", type: "address" }
+        ],
+        Person: [{ name: "name", type: "string" }, { name: "wallet", type: "address" }],
+        Mail: [{ name: "from", type: "Person" }, { name: "to", type: "Person" }, { name: "contents", type: "string" }]
+    },
+    primaryType: "Mail",
+    domain: { name: "Ether Mail", version: "1", chainId: 1, verifyingContract: "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC" },
+    message: {
+        from: { name: "Cow", wallet: "0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826" },
+        to: { name: "Bob", wallet: "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB" },
+        contents: "Hello, Bob!"
+    }
+};
+const MAIL_SIGNATURE = "0x4355c47d63924e8a72e509b65029052eb6c299d53a04e167c5775fd466751c9d07299936d304c153f6443dfa05f40ff007d72911b6f72307f996231605b915621c";
+
+/**
+ * The example transaction of EIP-155, signed for chain 1
+ */
+const EIP155_TRANSACTION = "0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83";
+
+describe("EIP-712 typed data", () => {
+    it("hashes the EIP-712 example to its published digest", () => {
+        const typedData = parseTypedData(JSON.stringify(MAIL));
+        expect(encodeType("Mail", typedData.types)).toBe("Mail(Person from,Person to,string contents)Person(string name,address wallet)");
+        expect(hashTypedData(typedData)).toBe("0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2");
+    });
+
+    it("recovers the example signer", () => {
+        expect(recoverAddress(hashTypedData(parseTypedData(MAIL)), MAIL_SIGNATURE)).toBe(MAIL.message.from.wallet);
+    });
+
+    it("derives the domain type when it is not given", () => {
+        const { EIP712Domain, ...types } = MAIL.types;
+        expect(hashTypedData(parseTypedData({ ...MAIL, types }))).toBe(hashTypedData(parseTypedData(MAIL)));
+    });
+
+    it("rejects typed data whose primary type is not defined", () => {
+        expect(() => parseTypedData({ ...MAIL, primaryType: "Letter" })).toThrow();
+    });
+
+    it("previews who asks for the signature and the message fields", () => {
+        const preview = previewTypedData(parseTypedData(MAIL));
+        expect(preview).toContain("Mail requested by Ether Mail, version 1, on chain 1");
+        expect(preview).toContain("Hello, Bob!");
+    });
+});
+
+describe("hashMessage", () => {
+    it("prefixes messages the way personal_sign does", () => {
+        expect(hashMessage("Hello World")).toBe("0xa1de988600a42c4b4ab089b619297c17d53cffae5d5120d82d8a92d0bb3b78f2");
+    });
+});
+
+describe("RLP", () => {
+    it("round-trips nested lists", () => {
+        const item = [new TextEncoder().encode("cat"), [new TextEncoder().encode("dog")], new Uint8Array()];
+        const encoded = rlpEncode(item);
+        expect(bytesToHex(encoded)).toBe("0xca83636174c483646f6780");
+        expect(rlpDecode(encoded)).toEqual(item);
+    });
+});
+
+describe("decodeSignedTransaction", () => {
+    it("decodes the EIP-155 example and recovers its signer", () => {
+        expect(decodeSignedTransaction(EIP155_TRANSACTION)).toMatchObject({
+            type: 0,
+            chainId: "1",
+            nonce: "9",
+            gasLimit: "21000",
+            to: "0x3535353535353535353535353535353535353535",
+            value: "1000000000000000000",
+            data: "0x",
+            signer: "0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F"
+        });
+    });
+
+    it("rejects unsupported transaction types", () => {
+        expect(() => decodeSignedTransaction("0x04c0")).toThrow("Unsupported transaction type 4");
+    });
+});
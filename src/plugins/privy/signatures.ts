@@ -0,0 +1,405 @@
+/**
+ * Verification of signatures produced by Privy wallets
+ *
+ * Recovers the secp256k1 public key behind an Ethereum signature, so the plugin can check which
+ * address signed a message, typed data or transaction without trusting the signing service.
+ */
+
+import { PrivyDecodedTransaction } from "./types/signatures.js";
+import { keccak256, toChecksumAddress } from "./addresses.js";
+import { PrivyValidationError } from "./errors.js";
+
+/**
+ * secp256k1 field prime, group order and generator
+ */
+const P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const G: Point = {
+    x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+    y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+};
+
+/**
+ * An affine curve point; null is the point at infinity
+ */
+type Point = { x: bigint; y: bigint } | null;
+
+/**
+ * A decoded RLP item: a byte string or a list of items
+ */
+export type RlpItem = Uint8Array | RlpItem[];
+
+/**
+ * Reduces a number modulo m into [0, m)
+ *
+ * @param value - The number
+ * @param m - The modulus, the field prime by default
+ * @returns The residue
+ */
+function mod(value: bigint, m: bigint = P): bigint {
+    const result = value % m;
+    return result >= 0n ? result : result + m;
+}
+
+/**
+ * Computes a modular inverse with the extended Euclidean algorithm
+ *
+ * @param value - The number to invert, coprime to m
+ * @param m - The modulus, the field prime by default
+ * @returns The inverse
+ */
+function invert(value: bigint, m: bigint = P): bigint {
+    let [a, b] = [mod(value, m), m];
+    let [x, lastX] = [0n, 1n];
+    while (b !== 0n) {
+        const quotient = a / b;
+        [a, b] = [b, a - quotient * b];
+        [lastX, x] = [x, lastX - quotient * x];
+    }
+    return mod(lastX, m);
+}
+
+/**
+ * Computes base^exponent modulo m
+ *
+ * @param base - The base
+ * @param exponent - The exponent
+ * @param m - The modulus, the secp256k1 field prime by default
+ * @returns The power
+ */
+export function modPow(base: bigint, exponent: bigint, m: bigint = P): bigint {
+    let result = 1n;
+    base = mod(base, m);
+    while (exponent > 0n) {
+        if (exponent & 1n) {
+            result = (result * base) % m;
+        }
+        base = (base * base) % m;
+        exponent >>= 1n;
+    }
+    return result;
+}
+
+/**
+ * Adds two curve points
+ *
+ * @param a - The first point
+ * @param b - The second point
+ * @returns Their sum
+ */
+function addPoints(a: Point, b: Point): Point {
+    if (!a) {
+        return b;
+    }
+    if (!b) {
+        return a;
+    }
+    if (a.x === b.x && mod(a.y + b.y) === 0n) {
+        return null;
+    }
+    const slope = a.x === b.x
+        ? mod(3n * a.x * a.x * invert(2n * a.y))
+        : mod((b.y - a.y) * invert(b.x - a.x));
+    const x = mod(slope * slope - a.x - b.x);
+    return { x, y: mod(slope * (a.x - x) - a.y) };
+}
+
+/**
+ * Multiplies a curve point by a scalar, by double-and-add
+ *
+ * @param point - The point
+ * @param scalar - The scalar
+ * @returns The product
+ */
+function multiplyPoint(point: Point, scalar: bigint): Point {
+    let result: Point = null;
+    let addend = point;
+    while (scalar > 0n) {
+        if (scalar & 1n) {
+            result = addPoints(result, addend);
+        }
+        addend = addPoints(addend, addend);
+        scalar >>= 1n;
+    }
+    return result;
+}
+
+/**
+ * Converts a 0x-prefixed hex string into bytes
+ *
+ * @param hex - The hex string
+ * @param label - What the value is, for the error message
+ * @returns The bytes
+ * @throws PrivyValidationError if the string is not 0x-prefixed hex of whole bytes
+ */
+export function hexToBytes(hex: string, label: string = "hex value"): Uint8Array {
+    if (!/^0x([0-9a-fA-F]{2})*$/.test(hex)) {
+        throw new PrivyValidationError(`Invalid ${label}: ${hex} is not 0x-prefixed hex`, undefined, "invalid_hex");
+    }
+    return Uint8Array.from(hex.slice(2).match(/../g) || [], byte => parseInt(byte, 16));
+}
+
+/**
+ * Converts bytes into a 0x-prefixed hex string
+ *
+ * @param bytes - The bytes
+ * @returns The hex string
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+    return `0x${Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Joins byte arrays
+ *
+ * @param parts - The arrays
+ * @returns Their concatenation
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+    const joined = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        joined.set(part, offset);
+        offset += part.length;
+    }
+    return joined;
+}
+
+/**
+ * Reads a big-endian unsigned integer
+ *
+ * @param bytes - The integer's bytes; empty is zero
+ * @returns The integer
+ */
+function toBigInt(bytes: Uint8Array): bigint {
+    return bytes.length ? BigInt(bytesToHex(bytes)) : 0n;
+}
+
+/**
+ * Writes an unsigned integer as big-endian bytes without leading zeros, as RLP encodes integers
+ *
+ * @param value - The integer
+ * @returns The bytes; empty for zero
+ */
+function fromBigInt(value: bigint): Uint8Array {
+    const hex = value ? value.toString(16) : "";
+    return hexToBytes(`0x${hex.length % 2 ? `0${hex}` : hex}`);
+}
+
+/**
+ * Hashes a message the way `personal_sign` does (EIP-191 version 0x45)
+ *
+ * @param message - The message, as UTF-8 text or raw bytes
+ * @returns The hash as 0x-prefixed hex
+ */
+export function hashMessage(message: string | Uint8Array): string {
+    const bytes = typeof message === "string" ? new TextEncoder().encode(message) : message;
+    const prefix = new TextEncoder().encode(`\x19Ethereum Signed Message:\n${bytes.length}`);
+    return `0x${keccak256(concatBytes(prefix, bytes))}`;
+}
+
+/**
+ * Recovers the address that signed a hash
+ *
+ * @param hash - The signed 32-byte hash, 0x-prefixed
+ * @param signature - The signature as 65 bytes r || s || v, with v 0, 1, 27 or 28
+ * @returns The checksummed signer address
+ * @throws PrivyValidationError if the signature is malformed or recovers no key
+ */
+export function recoverAddress(hash: string, signature: string): string {
+    const bytes = hexToBytes(signature, "signature");
+    if (bytes.length !== 65) {
+        throw new PrivyValidationError(`Invalid signature: expected 65 bytes, got ${bytes.length}`, undefined, "invalid_signature");
+    }
+    const v = bytes[64];
+    return recoverFromParts(hash, toBigInt(bytes.slice(0, 32)), toBigInt(bytes.slice(32, 64)), v >= 27 ? v - 27 : v);
+}
+
+/**
+ * Recovers the address that signed a hash from the signature's components
+ *
+ * @param hash - The signed 32-byte hash, 0x-prefixed
+ * @param r - The signature's r value
+ * @param s - The signature's s value
+ * @param recovery - The recovery ID, 0 or 1
+ * @returns The checksummed signer address
+ * @throws PrivyValidationError if the signature recovers no key
+ */
+function recoverFromParts(hash: string, r: bigint, s: bigint, recovery: number): string {
+    if (r <= 0n || r >= N || s <= 0n || s >= N || (recovery !== 0 && recovery !== 1)) {
+        throw new PrivyValidationError("Invalid signature: values out of range", undefined, "invalid_signature");
+    }
+
+    // R is the curve point with x = r and the parity the recovery ID gives
+    const ySquared = mod(r * r * r + 7n);
+    let y = modPow(ySquared, (P + 1n) / 4n);
+    if (mod(y * y) !== ySquared) {
+        throw new PrivyValidationError("Invalid signature: r is not on the curve", undefined, "invalid_signature");
+    }
+    if (Number(y & 1n) !== recovery) {
+        y = P - y;
+    }
+
+    // Q = r^-1 (sR - eG)
+    const e = mod(BigInt(hash), N);
+    const rInverse = invert(r, N);
+    const publicKey = addPoints(
+        multiplyPoint({ x: r, y }, mod(s * rInverse, N)),
+        multiplyPoint(G, mod(-e * rInverse, N))
+    );
+    if (!publicKey) {
+        throw new PrivyValidationError("Invalid signature: no public key recovered", undefined, "invalid_signature");
+    }
+
+    const encoded = concatBytes(
+        hexToBytes(`0x${publicKey.x.toString(16).padStart(64, "0")}`),
+        hexToBytes(`0x${publicKey.y.toString(16).padStart(64, "0")}`)
+    );
+    return toChecksumAddress(`0x${keccak256(encoded).slice(24)}`);
+}
+
+/**
+ * Encodes an item as RLP
+ *
+ * @param item - A byte string or nested list of byte strings
+ * @returns The encoding
+ */
+export function rlpEncode(item: RlpItem): Uint8Array {
+    const header = (length: number, shortOffset: number): Uint8Array => {
+        if (length < 56) {
+            return Uint8Array.of(shortOffset + length);
+        }
+        const lengthBytes = fromBigInt(BigInt(length));
+        return concatBytes(Uint8Array.of(shortOffset + 55 + lengthBytes.length), lengthBytes);
+    };
+
+    if (item instanceof Uint8Array) {
+        if (item.length === 1 && item[0] < 0x80) {
+            return item;
+        }
+        return concatBytes(header(item.length, 0x80), item);
+    }
+    const payload = concatBytes(...item.map(rlpEncode));
+    return concatBytes(header(payload.length, 0xc0), payload);
+}
+
+/**
+ * Decodes an RLP encoding that holds exactly one item
+ *
+ * @param bytes - The encoding
+ * @returns The item
+ * @throws PrivyValidationError if the encoding is malformed
+ */
+export function rlpDecode(bytes: Uint8Array): RlpItem {
+    const fail = (): never => {
+        throw new PrivyValidationError("Invalid RLP encoding", undefined, "invalid_rlp");
+    };
+
+    const decodeAt = (offset: number): [RlpItem, number] => {
+        if (offset >= bytes.length) {
+            fail();
+        }
+        const prefix = bytes[offset];
+        if (prefix < 0x80) {
+            return [bytes.slice(offset, offset + 1), offset + 1];
+        }
+
+        const isList = prefix >= 0xc0;
+        const shortOffset = isList ? 0xc0 : 0x80;
+        let start = offset + 1;
+        let length = prefix - shortOffset;
+        if (length > 55) {
+            const lengthOfLength = length - 55;
+            length = Number(toBigInt(bytes.slice(start, start + lengthOfLength)));
+            start += lengthOfLength;
+        }
+        const end = start + length;
+        if (end > bytes.length) {
+            fail();
+        }
+        if (!isList) {
+            return [bytes.slice(start, end), end];
+        }
+
+        const items: RlpItem[] = [];
+        let position = start;
+        while (position < end) {
+            const [item, next] = decodeAt(position);
+            items.push(item);
+            position = next;
+        }
+        if (position !== end) {
+            fail();
+        }
+        return [items, end];
+    };
+
+    const [item, end] = decodeAt(0);
+    if (end !== bytes.length) {
+        fail();
+    }
+    return item;
+}
+
+/**
+ * Decodes a signed raw transaction and recovers its signer
+ *
+ * Legacy (with or without EIP-155 replay protection), EIP-2930 and EIP-1559 transactions are supported.
+ *
+ * @param raw - The signed transaction as 0x-prefixed hex
+ * @returns The decoded transaction
+ * @throws PrivyValidationError if the transaction is malformed or of an unsupported type
+ */
+export function decodeSignedTransaction(raw: string): PrivyDecodedTransaction {
+    const bytes = hexToBytes(raw, "signed transaction");
+    const type = bytes.length && bytes[0] < 0x7f ? bytes[0] : 0;
+    if (type > 2) {
+        throw new PrivyValidationError(`Unsupported transaction type ${type}`, undefined, "invalid_transaction");
+    }
+
+    const fields = rlpDecode(type ? bytes.slice(1) : bytes);
+    // Every field is a byte string except the access list of typed transactions
+    const expectedFields = type === 2 ? 12 : type === 1 ? 11 : 9;
+    const accessListIndex = type === 2 ? 8 : type === 1 ? 7 : -1;
+    if (!Array.isArray(fields) || fields.length !== expectedFields || fields.some((field, index) => Array.isArray(field) !== (index === accessListIndex))) {
+        throw new PrivyValidationError("Invalid signed transaction: unexpected fields", undefined, "invalid_transaction");
+    }
+    const field = (index: number) => fields[index] as Uint8Array;
+
+    // Field positions of [nonce, gas limit, to, value, data] in each transaction type
+    const [nonce, gasLimit, to, value, data] = type === 2 ? [1, 4, 5, 6, 7] : type === 1 ? [1, 3, 4, 5, 6] : [0, 2, 3, 4, 5];
+    const r = toBigInt(field(fields.length - 2));
+    const s = toBigInt(field(fields.length - 1));
+
+    let chainId: bigint | undefined;
+    let recovery: number;
+    let signingPayload: Uint8Array;
+    if (type) {
+        chainId = toBigInt(field(0));
+        recovery = Number(toBigInt(field(fields.length - 3)));
+        signingPayload = concatBytes(Uint8Array.of(type), rlpEncode(fields.slice(0, -3)));
+    } else {
+        const v = toBigInt(field(6));
+        if (v >= 35n) {
+            // EIP-155: v = chainId * 2 + 35 + recovery, and the chain ID is signed with two empty fields
+            chainId = (v - 35n) / 2n;
+            recovery = Number((v - 35n) % 2n);
+            signingPayload = rlpEncode([...fields.slice(0, 6), fromBigInt(chainId), new Uint8Array(), new Uint8Array()]);
+        } else {
+            recovery = Number(v) - 27;
+            signingPayload = rlpEncode(fields.slice(0, 6));
+        }
+    }
+
+    return {
+        type,
+        chainId: chainId?.toString(),
+        nonce: toBigInt(field(nonce)).toString(),
+        gasLimit: toBigInt(field(gasLimit)).toString(),
+        to: field(to).length ? toChecksumAddress(bytesToHex(field(to))) : undefined,
+        value: toBigInt(field(value)).toString(),
+        data: bytesToHex(field(data)),
+        signer: recoverFromParts(`0x${keccak256(signingPayload)}`, r, s, recovery),
+        hash: `0x${keccak256(bytes)}`
+    };
+}
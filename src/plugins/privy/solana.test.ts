@@ -0,0 +1,85 @@
+import { generateKeyPairSync, sign } from "crypto";
+import {
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    associatedTokenAddress,
+    compileMessage,
+    decodeSolanaTransaction,
+    isOnCurve,
+    serializeTransaction,
+    SYSTEM_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+    transferInstructions,
+    verifySolanaSignature
+} from "./solana.js";
+import { base58Decode, base58Encode } from "./addresses.js";
+
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const BLOCKHASH = base58Encode(new Uint8Array(32).fill(7));
+
+/**
+ * Generates an ed25519 key pair and its Solana address
+ */
+function keypair() {
+    const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+    const address = base58Encode(Uint8Array.from(publicKey.export({ format: "der", type: "spki" }).subarray(-32)));
+    return { address, privateKey };
+}
+
+describe("transferInstructions", () => {
+    it("builds a System Program transfer of lamports", () => {
+        const from = keypair().address;
+        const to = keypair().address;
+        const [instruction] = transferInstructions({ from, to, amount: "1000000000" });
+
+        expect(instruction.programId).toBe(SYSTEM_PROGRAM_ID);
+        expect(Array.from(instruction.data)).toEqual([2, 0, 0, 0, 0, 0xca, 0x9a, 0x3b, 0, 0, 0, 0]);
+    });
+
+    it("creates the recipient's token account, then transfers with the mint's decimals", () => {
+        const from = keypair().address;
+        const to = keypair().address;
+        const [create, transfer] = transferInstructions({ from, to, amount: "2500000", mint: USDC_MINT, decimals: 6 });
+
+        expect(create.programId).toBe(ASSOCIATED_TOKEN_PROGRAM_ID);
+        expect(create.accounts[1].pubkey).toBe(associatedTokenAddress(to, USDC_MINT));
+        expect(transfer.programId).toBe(TOKEN_PROGRAM_ID);
+        expect(transfer.accounts.map(account => account.pubkey)).toEqual([associatedTokenAddress(from, USDC_MINT), USDC_MINT, associatedTokenAddress(to, USDC_MINT), from]);
+        expect(transfer.data[0]).toBe(12);
+        expect(transfer.data[9]).toBe(6);
+    });
+
+    it("requires the decimals of a token", () => {
+        expect(() => transferInstructions({ from: keypair().address, to: keypair().address, amount: "1", mint: USDC_MINT })).toThrow("Decimals of token");
+    });
+});
+
+describe("associatedTokenAddress", () => {
+    it("derives a program address off the ed25519 curve", () => {
+        const owner = keypair().address;
+        expect(isOnCurve(base58Decode(owner))).toBe(true);
+        expect(isOnCurve(base58Decode(associatedTokenAddress(owner, USDC_MINT)))).toBe(false);
+    });
+});
+
+describe("compiled transactions", () => {
+    it("round-trip with the payer first and an empty signature slot", () => {
+        const payer = keypair().address;
+        const to = keypair().address;
+        const message = compileMessage(payer, transferInstructions({ from: payer, to, amount: "5" }), BLOCKHASH);
+        const decoded = decodeSolanaTransaction(serializeTransaction(message));
+
+        expect(decoded.accountKeys).toEqual([payer, to, SYSTEM_PROGRAM_ID]);
+        expect(decoded.recentBlockhash).toBe(BLOCKHASH);
+        expect(decoded.signatures).toEqual([base58Encode(new Uint8Array(64))]);
+        expect(decoded.message).toEqual(message);
+    });
+
+    it("verify the signer's signature of the message", () => {
+        const signer = keypair();
+        const message = compileMessage(signer.address, transferInstructions({ from: signer.address, to: keypair().address, amount: "5" }), BLOCKHASH);
+        const signature = base58Encode(Uint8Array.from(sign(null, message, signer.privateKey)));
+
+        expect(verifySolanaSignature(message, signature, signer.address)).toBe(true);
+        expect(verifySolanaSignature(message, signature, keypair().address)).toBe(false);
+    });
+});
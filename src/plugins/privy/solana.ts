@@ -0,0 +1,341 @@
+/**
+ * Building, serializing and verifying Solana transactions
+ *
+ * Transfers are compiled into legacy transaction messages: SOL moves with a System Program
+ * transfer, SPL tokens with `TransferChecked` between associated token accounts, creating the
+ * recipient's account first when it may not exist.
+ */
+
+import { createHash, createPublicKey, verify } from "crypto";
+import {
+    PrivyDecodedSolanaTransaction,
+    PrivySolanaAccountMeta,
+    PrivySolanaInstruction,
+    PrivySolanaTransfer
+} from "./types/solana.js";
+import { base58Decode, base58Encode, normalizeAddress } from "./addresses.js";
+import { concatBytes, modPow } from "./signatures.js";
+import { PrivyValidationError } from "./errors.js";
+
+export const SYSTEM_PROGRAM_ID = "11111111111111111111111111111111";
+export const TOKEN_PROGRAM_ID = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+export const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb";
+export const ASSOCIATED_TOKEN_PROGRAM_ID = "ATokenGPvbdGVxr1b2hvZbsiqW8bEWtTUz6Ggc2uLRUq";
+
+/**
+ * Instruction indexes of the System, SPL Token and Associated Token Account programs
+ */
+const SYSTEM_TRANSFER = 2;
+const TOKEN_TRANSFER_CHECKED = 12;
+const ASSOCIATED_TOKEN_CREATE_IDEMPOTENT = 1;
+
+/**
+ * ed25519 field prime and curve constant d = -121665/121666
+ */
+const ED25519_P = (1n << 255n) - 19n;
+const ED25519_D = (-121665n * modPow(121666n, ED25519_P - 2n, ED25519_P)) % ED25519_P + ED25519_P;
+
+/**
+ * DER prefix turning a raw 32-byte ed25519 public key into an SPKI key
+ */
+const ED25519_SPKI_PREFIX = Uint8Array.from([0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x03, 0x21, 0x00]);
+
+/**
+ * Encodes a length in Solana's compact-u16 format: 7 bits per byte, low bits first
+ *
+ * @param value - The length
+ * @returns The encoding
+ */
+function encodeLength(value: number): Uint8Array {
+    const bytes: number[] = [];
+    do {
+        let byte = value & 0x7f;
+        value >>= 7;
+        if (value) {
+            byte |= 0x80;
+        }
+        bytes.push(byte);
+    } while (value);
+    return Uint8Array.from(bytes);
+}
+
+/**
+ * Decodes a compact-u16 length
+ *
+ * @param bytes - The bytes to read from
+ * @param offset - Where the length starts
+ * @returns The length and the offset after it
+ */
+function decodeLength(bytes: Uint8Array, offset: number): [number, number] {
+    let value = 0;
+    for (let shift = 0; shift < 21; shift += 7) {
+        if (offset >= bytes.length) {
+            break;
+        }
+        const byte = bytes[offset++];
+        value |= (byte & 0x7f) << shift;
+        if (!(byte & 0x80)) {
+            return [value, offset];
+        }
+    }
+    throw new PrivyValidationError("Invalid Solana transaction: malformed length", undefined, "invalid_transaction");
+}
+
+/**
+ * Encodes an unsigned 64-bit integer little-endian
+ *
+ * @param value - The integer
+ * @returns 8 bytes
+ * @throws PrivyValidationError if the value does not fit
+ */
+function encodeU64(value: bigint | string): Uint8Array {
+    let remaining = BigInt(value);
+    if (remaining < 0n || remaining >= 1n << 64n) {
+        throw new PrivyValidationError(`Amount out of range for a Solana transfer: ${value}`, undefined, "invalid_amount");
+    }
+    const bytes = new Uint8Array(8);
+    for (let index = 0; index < 8; index++) {
+        bytes[index] = Number(remaining & 0xffn);
+        remaining >>= 8n;
+    }
+    return bytes;
+}
+
+/**
+ * Checks whether 32 bytes are the compressed form of a point on the ed25519 curve
+ *
+ * Program derived addresses must not be, so that no private key can sign for them.
+ *
+ * @param bytes - The candidate address
+ * @returns Whether a curve point has this y coordinate
+ */
+export function isOnCurve(bytes: Uint8Array): boolean {
+    let y = 0n;
+    for (let index = 31; index >= 0; index--) {
+        y = (y << 8n) | BigInt(index === 31 ? bytes[index] & 0x7f : bytes[index]);
+    }
+    y %= ED25519_P;
+
+    // x² = (y² - 1) / (d·y² + 1) must have a square root
+    const ySquared = (y * y) % ED25519_P;
+    const u = (ySquared - 1n + ED25519_P) % ED25519_P;
+    const v = (ED25519_D * ySquared + 1n) % ED25519_P;
+    if (u === 0n) {
+        return true;
+    }
+    if (v === 0n) {
+        return false;
+    }
+    const xSquared = (u * modPow(v, ED25519_P - 2n, ED25519_P)) % ED25519_P;
+    return modPow(xSquared, (ED25519_P - 1n) / 2n, ED25519_P) === 1n;
+}
+
+/**
+ * Finds the program derived address of seeds: the first bump, counting down from 255, whose hash is off the curve
+ *
+ * @param seeds - The seeds
+ * @param programId - The owning program
+ * @returns The address and its bump seed
+ */
+export function findProgramAddress(seeds: Uint8Array[], programId: string): [string, number] {
+    const marker = new TextEncoder().encode("ProgramDerivedAddress");
+    for (let bump = 255; bump >= 0; bump--) {
+        const hash = createHash("sha256")
+            .update(concatBytes(...seeds, Uint8Array.of(bump), base58Decode(programId), marker))
+            .digest();
+        if (!isOnCurve(hash)) {
+            return [base58Encode(hash), bump];
+        }
+    }
+    throw new Error(`No program address found for program ${programId}`);
+}
+
+/**
+ * Derives the associated token account of a wallet for a mint
+ *
+ * @param owner - The wallet address
+ * @param mint - The token mint
+ * @param tokenProgram - The program that owns the mint
+ * @returns The token account address
+ */
+export function associatedTokenAddress(owner: string, mint: string, tokenProgram: string = TOKEN_PROGRAM_ID): string {
+    return findProgramAddress([base58Decode(owner), base58Decode(tokenProgram), base58Decode(mint)], ASSOCIATED_TOKEN_PROGRAM_ID)[0];
+}
+
+/**
+ * Builds the instructions of a transfer
+ *
+ * @param transfer - The transfer
+ * @returns A System Program transfer for SOL; for a token, creation of the recipient's token account if missing, then `TransferChecked`
+ * @throws PrivyValidationError if an address is invalid or a token transfer lacks its decimals
+ */
+export function transferInstructions(transfer: PrivySolanaTransfer): PrivySolanaInstruction[] {
+    const from = normalizeAddress(transfer.from, "solana", "sender address");
+    const to = normalizeAddress(transfer.to, "solana", "recipient address");
+
+    if (!transfer.mint) {
+        return [{
+            programId: SYSTEM_PROGRAM_ID,
+            accounts: [
+                { pubkey: from, isSigner: true, isWritable: true },
+                { pubkey: to, isSigner: false, isWritable: true }
+            ],
+            data: concatBytes(Uint8Array.of(SYSTEM_TRANSFER, 0, 0, 0), encodeU64(transfer.amount))
+        }];
+    }
+
+    const mint = normalizeAddress(transfer.mint, "solana", "token mint");
+    if (transfer.decimals === undefined) {
+        throw new PrivyValidationError(`Decimals of token ${mint} are required for a transfer`, undefined, "missing_decimals");
+    }
+    const tokenProgram = transfer.tokenProgram || TOKEN_PROGRAM_ID;
+    const source = associatedTokenAddress(from, mint, tokenProgram);
+    const destination = associatedTokenAddress(to, mint, tokenProgram);
+
+    return [
+        {
+            programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+            accounts: [
+                { pubkey: from, isSigner: true, isWritable: true },
+                { pubkey: destination, isSigner: false, isWritable: true },
+                { pubkey: to, isSigner: false, isWritable: false },
+                { pubkey: mint, isSigner: false, isWritable: false },
+                { pubkey: SYSTEM_PROGRAM_ID, isSigner: false, isWritable: false },
+                { pubkey: tokenProgram, isSigner: false, isWritable: false }
+            ],
+            data: Uint8Array.of(ASSOCIATED_TOKEN_CREATE_IDEMPOTENT)
+        },
+        {
+            programId: tokenProgram,
+            accounts: [
+                { pubkey: source, isSigner: false, isWritable: true },
+                { pubkey: mint, isSigner: false, isWritable: false },
+                { pubkey: destination, isSigner: false, isWritable: true },
+                { pubkey: from, isSigner: true, isWritable: false }
+            ],
+            data: concatBytes(Uint8Array.of(TOKEN_TRANSFER_CHECKED), encodeU64(transfer.amount), Uint8Array.of(transfer.decimals))
+        }
+    ];
+}
+
+/**
+ * Compiles instructions into a legacy transaction message
+ *
+ * Accounts are ordered as the runtime requires: the fee payer first, then writable signers,
+ * read-only signers, writable non-signers and read-only non-signers.
+ *
+ * @param payer - The fee payer, which signs
+ * @param instructions - The instructions
+ * @param recentBlockhash - A recent blockhash, base58
+ * @returns The serialized message
+ */
+export function compileMessage(payer: string, instructions: PrivySolanaInstruction[], recentBlockhash: string): Uint8Array {
+    const metas = new Map<string, PrivySolanaAccountMeta>([[payer, { pubkey: payer, isSigner: true, isWritable: true }]]);
+    const add = (meta: PrivySolanaAccountMeta) => {
+        const existing = metas.get(meta.pubkey);
+        metas.set(meta.pubkey, existing
+            ? { ...existing, isSigner: existing.isSigner || meta.isSigner, isWritable: existing.isWritable || meta.isWritable }
+            : meta);
+    };
+    for (const instruction of instructions) {
+        instruction.accounts.forEach(add);
+        add({ pubkey: instruction.programId, isSigner: false, isWritable: false });
+    }
+
+    const rank = (meta: PrivySolanaAccountMeta) => (meta.isSigner ? 0 : 2) + (meta.isWritable ? 0 : 1);
+    const keys = [...metas.values()].sort((a, b) => a.pubkey === payer ? -1 : b.pubkey === payer ? 1 : rank(a) - rank(b));
+    const index = (pubkey: string) => keys.findIndex(key => key.pubkey === pubkey);
+
+    const header = Uint8Array.of(
+        keys.filter(key => key.isSigner).length,
+        keys.filter(key => key.isSigner && !key.isWritable).length,
+        keys.filter(key => !key.isSigner && !key.isWritable).length
+    );
+    const compiled = instructions.map(instruction => concatBytes(
+        Uint8Array.of(index(instruction.programId)),
+        encodeLength(instruction.accounts.length),
+        Uint8Array.from(instruction.accounts.map(account => index(account.pubkey))),
+        encodeLength(instruction.data.length),
+        instruction.data
+    ));
+
+    return concatBytes(
+        header,
+        encodeLength(keys.length),
+        ...keys.map(key => base58Decode(key.pubkey)),
+        base58Decode(recentBlockhash),
+        encodeLength(instructions.length),
+        ...compiled
+    );
+}
+
+/**
+ * Serializes a message as an unsigned transaction, with an empty signature slot per required signer
+ *
+ * @param message - The serialized message
+ * @returns The transaction, base64-encoded as Privy takes it
+ */
+export function serializeTransaction(message: Uint8Array): string {
+    const signers = message[0];
+    return Buffer.from(concatBytes(encodeLength(signers), new Uint8Array(64 * signers), message)).toString("base64");
+}
+
+/**
+ * Decodes a transaction in wire format, legacy or versioned
+ *
+ * @param transaction - The transaction, base64-encoded
+ * @returns Its signatures, account keys, blockhash and signed message
+ * @throws PrivyValidationError if the transaction is malformed
+ */
+export function decodeSolanaTransaction(transaction: string): PrivyDecodedSolanaTransaction {
+    const bytes = Uint8Array.from(Buffer.from(transaction, "base64"));
+    const fail = (): never => {
+        throw new PrivyValidationError("Invalid Solana transaction: truncated", undefined, "invalid_transaction");
+    };
+
+    const [signatureCount, signaturesStart] = decodeLength(bytes, 0);
+    const messageStart = signaturesStart + 64 * signatureCount;
+    if (messageStart > bytes.length) {
+        fail();
+    }
+    const signatures = Array.from({ length: signatureCount }, (_, index) =>
+        base58Encode(bytes.slice(signaturesStart + 64 * index, signaturesStart + 64 * (index + 1)))
+    );
+
+    // Versioned messages start with a byte whose high bit is set
+    const message = bytes.slice(messageStart);
+    const headerStart = message.length && message[0] & 0x80 ? 1 : 0;
+    const [keyCount, keysStart] = decodeLength(message, headerStart + 3);
+    const blockhashStart = keysStart + 32 * keyCount;
+    if (blockhashStart + 32 > message.length) {
+        fail();
+    }
+
+    return {
+        signatures,
+        accountKeys: Array.from({ length: keyCount }, (_, index) => base58Encode(message.slice(keysStart + 32 * index, keysStart + 32 * (index + 1)))),
+        recentBlockhash: base58Encode(message.slice(blockhashStart, blockhashStart + 32)),
+        message
+    };
+}
+
+/**
+ * Verifies an ed25519 signature by a Solana address
+ *
+ * @param message - The signed bytes
+ * @param signature - The signature, base58
+ * @param address - The signer's address
+ * @returns Whether the signature is valid
+ */
+export function verifySolanaSignature(message: Uint8Array, signature: string, address: string): boolean {
+    const signatureBytes = base58Decode(signature);
+    if (signatureBytes.length !== 64) {
+        return false;
+    }
+    const key = createPublicKey({
+        key: Buffer.from(concatBytes(ED25519_SPKI_PREFIX, base58Decode(address))),
+        format: "der",
+        type: "spki"
+    });
+    return verify(null, message, key, signatureBytes);
+}
@@ -0,0 +1,30 @@
+/**
+ * Prompt template used to extract Privy action parameters when the message text cannot be parsed directly
+ */
+export const privyIntentTemplate = `Respond with a JSON markdown block containing only the extracted values. Use null for any value that cannot be determined.
+
+Example response:
+\`\`\`json
+{
+    "walletId": "cm4x7k2lz0001abcd1234efgh",
+    "walletName": "treasury",
+    "to": "0xE3070d3e4309afA3bC9a6b057685743CF42da77C",
+    "amount": "0.5",
+    "token": "MON",
+    "policyId": null,
+    "message": null
+}
+\`\`\`
+
+{{recentMessages}}
+
+Given the recent messages, extract the following information about the requested wallet operation:
+- walletId: Privy wallet ID, if one was given
+- walletName: Nickname of the wallet to use (e.g. "treasury" for "my treasury wallet"), if one was given
+- to: Recipient address
+- amount: Amount to send, as a number without the token symbol
+- token: Symbol of the token being sent (e.g. ETH, MON, USDC)
+- policyId: Privy policy ID, if one was given
+- message: Message to sign, if the user asked to sign something
+
+Respond with a JSON markdown block containing only the extracted values.`;
@@ -0,0 +1,32 @@
+/**
+ * Type definitions for role-based access to Privy actions
+ */
+
+/**
+ * Roles a user can hold, from least to most privileged
+ *
+ * - `viewer`: may look up policies and wallets
+ * - `operator`: may also read balances and history, create wallets, and send and sign transactions
+ *   from the wallets they own and shared wallets
+ * - `admin`: may also manage policies, update wallets, approve queued transactions and use any wallet
+ */
+export type PrivyRole = 'viewer' | 'operator' | 'admin';
+
+/**
+ * Which Eliza users hold which role
+ *
+ * Unlisted users hold `defaultRole`, so until roles are configured only the agent itself may run
+ * Privy actions.
+ */
+export interface PrivyAccessConfig {
+    /** Eliza user IDs of admins */
+    admin?: string[];
+    /** Eliza user IDs of operators */
+    operator?: string[];
+    /** Eliza user IDs of viewers */
+    viewer?: string[];
+    /** Role of users who are not listed; by default they may not run any Privy action */
+    defaultRole?: PrivyRole | 'none';
+    /** Least role required per action name, overriding the defaults */
+    actionRoles?: Record<string, PrivyRole>;
+}
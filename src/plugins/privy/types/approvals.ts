@@ -0,0 +1,43 @@
+/**
+ * Type definitions for the transaction approval workflow
+ *
+ * Transactions above a configured threshold are queued for a human to approve or reject
+ * instead of being sent straight to Privy.
+ */
+
+import { PrivyTransactionRequest, PrivyTransactionResponse } from "./wallets.js";
+import { PrivyChainType } from "./policies.js";
+
+/**
+ * Approval thresholds and who may act on queued transactions
+ */
+export interface PrivyApprovalConfig {
+    /** Native value (in wei) above which any wallet's transactions need approval */
+    defaultThreshold?: string;
+    /** Per-wallet native value thresholds (in wei), keyed by wallet ID */
+    walletThresholds?: Record<string, string>;
+    /** Per-token amount thresholds for transfer, transferFrom and approve calls (in token base units), keyed by token contract address or registry symbol */
+    tokenThresholds?: Record<string, string>;
+    /** Eliza user IDs allowed to approve or reject; when empty any user other than the requester may */
+    approvers?: string[];
+    /** How long a queued transaction stays approvable, in milliseconds */
+    expiryMs?: number;
+}
+
+/**
+ * A transaction waiting for approval
+ */
+export interface PrivyPendingApproval {
+    id: string;
+    status: 'pending' | 'approved' | 'rejected' | 'expired';
+    request: PrivyTransactionRequest;
+    chainType: PrivyChainType;
+    idempotencyKey: string;
+    reason: string;
+    requestedBy: string;
+    createdAt: number;
+    expiresAt: number;
+    resolvedBy?: string;
+    resolvedAt?: number;
+    transaction?: PrivyTransactionResponse;
+}
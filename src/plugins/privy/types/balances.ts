@@ -0,0 +1,33 @@
+/**
+ * Type definitions for wallet balances read over JSON-RPC
+ */
+
+import { PrivyChainType } from "./policies.js";
+
+/**
+ * Balance of one token (or the native token) held by a wallet
+ */
+export interface PrivyTokenBalance {
+    symbol: string;
+    /** Contract address; absent for the native token */
+    address?: string;
+    decimals: number;
+    /** Balance in base units, as a decimal string */
+    value: string;
+    /** Balance in human units with its symbol, e.g. "1.5 MON" */
+    formatted: string;
+}
+
+/**
+ * Balances of a wallet on one chain
+ */
+export interface PrivyWalletBalances {
+    walletId?: string;
+    address: string;
+    chainType: PrivyChainType;
+    native: PrivyTokenBalance;
+    tokens: PrivyTokenBalance[];
+    /** Tokens whose balance could not be read */
+    errors: string[];
+    fetchedAt: number;
+}
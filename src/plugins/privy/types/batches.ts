@@ -0,0 +1,99 @@
+/**
+ * Type definitions for batch sends
+ *
+ * A batch pays many recipients from one invocation. Every row is validated before anything is
+ * sent, rows are sent in order, and the batch is kept in the runtime cache so an interrupted or
+ * partly failed batch can be resumed by its ID.
+ */
+
+import { PrivyTransactionRequest } from "./wallets.js";
+import { PrivyChainType } from "./policies.js";
+import { PrivyToken } from "./tokens.js";
+
+/**
+ * Batch settings
+ */
+export interface PrivyBatchConfig {
+    /** Most rows a batch may have; defaults to 100 */
+    maxRows?: number;
+    /** How many wallets of a batch send at the same time; each wallet always sends one row at a time, defaults to 1 */
+    concurrency?: number;
+}
+
+/**
+ * A row of a batch as given by the user
+ */
+export interface PrivyBatchRow {
+    to: string;
+    /** Human amount, e.g. "1.5", in the row's token */
+    amount?: string;
+    /** Token symbol; the chain's native token when omitted */
+    token?: string;
+    /** Amount in base units, used instead of `amount` */
+    value?: string;
+    /** Token contract, or mint on Solana, for tokens that are not in the registry */
+    tokenAddress?: string;
+    tokenDecimals?: number;
+    /** Wallet to send this row from, by ID or nickname, instead of the batch's wallet */
+    wallet?: string;
+}
+
+/**
+ * State of a batch row
+ *
+ * - `pending`: valid and not sent yet
+ * - `invalid`: rejected by validation; nothing was sent
+ * - `sending`: handed to Privy; a resume reuses the row's idempotency key, so it is never sent twice
+ * - `sent`: accepted by Privy
+ * - `queued`: held for human approval
+ * - `failed`: the send failed or a limit was reached before it
+ */
+export type PrivyBatchRowStatus = 'pending' | 'invalid' | 'sending' | 'sent' | 'queued' | 'failed';
+
+/**
+ * A batch row and its outcome
+ */
+export interface PrivyBatchRowResult {
+    /** Position in the batch, from 1 */
+    index: number;
+    row: PrivyBatchRow;
+    status: PrivyBatchRowStatus;
+    walletId?: string;
+    request?: PrivyTransactionRequest;
+    /** Token the row sends, when it is not the native token */
+    token?: PrivyToken;
+    /** What the row sends, e.g. "100 USDC to 0xabc..." */
+    description?: string;
+    idempotencyKey?: string;
+    /** Why the row needs approval, when it exceeds an approval threshold */
+    approvalReason?: string;
+    hash?: string;
+    approvalId?: string;
+    error?: string;
+}
+
+/**
+ * State of a batch
+ *
+ * - `invalid`: rows failed validation, so nothing was sent
+ * - `running`: rows are being sent
+ * - `completed`: every row was sent or queued for approval
+ * - `partial`: some rows were sent or queued, others failed
+ * - `failed`: no row was sent or queued
+ */
+export type PrivyBatchStatus = 'invalid' | 'running' | 'completed' | 'partial' | 'failed';
+
+/**
+ * A batch of sends
+ */
+export interface PrivyBatch {
+    id: string;
+    status: PrivyBatchStatus;
+    chainType: PrivyChainType;
+    /** Wallet rows are sent from unless they name their own */
+    walletId: string;
+    rows: PrivyBatchRowResult[];
+    requestedBy?: string;
+    createdAt: number;
+    updatedAt: number;
+}
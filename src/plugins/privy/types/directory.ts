@@ -0,0 +1,38 @@
+/**
+ * Type definitions for the wallet directory
+ *
+ * Privy only knows a wallet's ID, address, chain and policies. The directory records what the
+ * agent knows about each wallet it created: a label, the Eliza user who owns it, its purpose and
+ * the conversation it was created in.
+ */
+
+import { PrivyChainType } from "./policies.js";
+
+/**
+ * Where a wallet was created
+ */
+export interface PrivyWalletCreationContext {
+    /** Eliza user who asked for the wallet */
+    requestedBy: string;
+    roomId?: string;
+    messageId?: string;
+    /** Text of the message asking for the wallet */
+    text?: string;
+}
+
+/**
+ * What the agent knows about a wallet
+ */
+export interface PrivyWalletDirectoryEntry {
+    walletId: string;
+    address: string;
+    /** Chain the wallet was created for; Monad wallets are created as Ethereum wallets in Privy */
+    chainType: PrivyChainType;
+    /** Name the wallet is referred to by, unique among the wallets its owner can see */
+    label?: string;
+    /** Eliza user who owns the wallet; wallets without an owner are shared */
+    ownerId?: string;
+    purpose?: string;
+    context?: PrivyWalletCreationContext;
+    createdAt: number;
+}
@@ -0,0 +1,51 @@
+/**
+ * Type definitions for wallet transaction history
+ *
+ * History combines the transfers Privy records for a wallet with the transactions the plugin
+ * sent itself, so transactions Privy has not indexed yet still show up.
+ */
+
+import { PrivyChainType } from "./policies.js";
+
+/**
+ * Settlement state of a history entry
+ */
+export type PrivyHistoryStatus = 'pending' | 'confirmed' | 'failed' | 'dropped';
+
+/**
+ * One transaction in a wallet's history
+ */
+export interface PrivyHistoryEntry {
+    hash?: string;
+    caip2: string;
+    chainType: PrivyChainType;
+    direction: 'sent' | 'received';
+    /** The other side of the transfer: the recipient of sent transactions, the sender of received ones */
+    counterparty?: string;
+    /** Amount in base units */
+    amount?: string;
+    decimals?: number;
+    symbol?: string;
+    /** Contract of the token moved, absent for native transfers */
+    tokenAddress?: string;
+    status: PrivyHistoryStatus;
+    /** Milliseconds since the epoch */
+    timestamp: number;
+    /** Where the entry came from: Privy, the plugin's own records, or both */
+    source: 'privy' | 'local' | 'both';
+    explorerUrl?: string;
+}
+
+/**
+ * Criteria a history entry must match
+ */
+export interface PrivyHistoryFilter {
+    /** Earliest timestamp, inclusive */
+    since?: number;
+    /** Latest timestamp, exclusive */
+    until?: number;
+    counterparty?: string;
+    /** Token symbol or contract address; the native symbol matches native transfers */
+    token?: string;
+    status?: PrivyHistoryStatus;
+}
@@ -0,0 +1,86 @@
+/**
+ * Type definitions for cumulative spending limits
+ *
+ * Privy policies judge each transaction on its own. Spending limits cap what a wallet sends over
+ * rolling windows, and are tracked and enforced by the plugin before a transaction reaches Privy.
+ */
+
+/**
+ * Caps on the amount of one asset sent over rolling windows, in base units
+ */
+export interface PrivyAssetLimits {
+    /** Most sent in any 24 hours */
+    daily?: string;
+    /** Most sent in any 7 days */
+    weekly?: string;
+    /** Most sent to a single recipient in any 24 hours */
+    perRecipientDaily?: string;
+}
+
+/**
+ * Spending limits of a wallet: native value caps, token caps and transaction velocity
+ */
+export interface PrivySpendingLimits extends PrivyAssetLimits {
+    /** Most transactions in any 60 minutes */
+    maxTransactionsPerHour?: number;
+    /** Token amount caps, keyed by token contract address or registry symbol */
+    tokens?: Record<string, PrivyAssetLimits>;
+}
+
+/**
+ * Spending limits for all wallets and per wallet
+ */
+export interface PrivyLimitsConfig {
+    /** Limits of wallets without their own entry */
+    defaults?: PrivySpendingLimits;
+    /** Limits per wallet ID, overriding the defaults field by field */
+    wallets?: Record<string, PrivySpendingLimits>;
+}
+
+/**
+ * An amount of an asset moved to a recipient
+ */
+export interface PrivySpend {
+    /** "native", or the lowercase token contract address */
+    asset: string;
+    /** Lowercase recipient address, or the spender of an approval */
+    recipient: string;
+    /** Amount in base units */
+    amount: string;
+}
+
+/**
+ * A sent transaction counted against a wallet's limits, or one being sent whose spending is reserved
+ */
+export interface PrivySpendRecord {
+    timestamp: number;
+    hash?: string;
+    spends: PrivySpend[];
+    /** Idempotency key of a transaction being sent, until it is recorded as sent or released */
+    reservation?: string;
+}
+
+/**
+ * What is left of one limit
+ */
+export interface PrivyAllowance {
+    /** What is limited, e.g. "daily MON" or "hourly transactions" */
+    name: string;
+    /** The limit, used and remaining amounts, in base units or as a transaction count */
+    limit: string;
+    used: string;
+    remaining: string;
+    /** Human-readable summary, e.g. "0.5 MON of 1 MON left (daily MON)" */
+    formatted: string;
+}
+
+/**
+ * Outcome of checking a transaction against a wallet's limits
+ */
+export interface PrivyLimitCheck {
+    allowed: boolean;
+    /** Limits the transaction would exceed */
+    violations: string[];
+    /** What is left of each limit before the transaction */
+    remaining: PrivyAllowance[];
+}
@@ -6,6 +6,11 @@
  * specific actions based on conditions like token addresses, transaction types, etc.
  */
 
+/**
+ * Chain types supported by Privy policies and wallets
+ */
+export type PrivyChainType = 'ethereum' | 'solana' | 'monad';
+
 /**
  * Represents a condition in a Privy policy rule.
  * Conditions are boolean statements about wallet requests that determine if a rule applies.
@@ -58,7 +63,7 @@ export interface PrivyMethodRule {
 export interface PrivyCreatePolicy {
     version: string | '1.0';
     name: string;
-    chain_type: 'ethereum' | 'solana' | 'monad';
+    chain_type: PrivyChainType;
     method_rules: PrivyMethodRule[];
     default_action: 'ALLOW' | 'DENY';
 }
@@ -71,7 +76,7 @@ export interface PrivyPolicyResponse {
     id: string;
     version: string | '1.0';
     name: string;
-    chain_type: 'ethereum' | 'solana' | 'monad';
+    chain_type: PrivyChainType;
     method_rules: PrivyMethodRule[];
     default_action: 'ALLOW' | 'DENY';
 }
@@ -84,4 +89,27 @@ export interface PrivyUpdatePolicy {
     name?: string;
     method_rules?: PrivyMethodRule[];
     default_action?: 'ALLOW' | 'DENY';
-} 
\ No newline at end of file
+} 
+
+/**
+ * Outcome of evaluating a single condition against a request.
+ * Conditions that reference fields the local evaluator cannot read are marked unsupported.
+ */
+export interface PrivyConditionResult {
+    condition: PrivyCondition;
+    satisfied: boolean;
+    unsupported?: boolean;
+}
+
+/**
+ * Result of simulating a Privy policy locally against a wallet request.
+ * Mirrors the verdict the Privy API would return, along with the rule that produced it.
+ * The decision is `INDETERMINATE` when conditions the evaluator cannot read could change it.
+ */
+export interface PrivyPolicyEvaluation {
+    decision: 'ALLOW' | 'DENY' | 'INDETERMINATE';
+    method: PrivyMethodRule['method'];
+    matchedRule?: PrivyRule;
+    conditionResults: PrivyConditionResult[];
+    reason: string;
+}
@@ -0,0 +1,31 @@
+/**
+ * Type definitions for pre-flight transaction checks
+ */
+
+/**
+ * Outcome of simulating and pricing a transaction before it is sent
+ */
+export interface PrivyPreflightResult {
+    /** Address the transaction is sent from */
+    from: string;
+    /** Whether the transaction can be sent: it does not revert and the wallet can cover value plus fees */
+    ok: boolean;
+    /** Why the transaction would fail, when it would */
+    reason?: 'reverted' | 'insufficient_balance';
+    /** Whether the simulation reverted */
+    reverted: boolean;
+    /** Revert reason decoded from the node's error, if any */
+    revertReason?: string;
+    /** Native balance of the sender, in base units */
+    balance: string;
+    /** Estimated gas limit */
+    gasLimit?: string;
+    /** Fee per gas expected to be paid, in base units */
+    gasPrice?: string;
+    /** Highest fee per gas the transaction may pay, in base units */
+    maxFeePerGas?: string;
+    /** Expected fee (gas limit times expected fee per gas), in base units */
+    estimatedFee?: string;
+    /** Value plus the highest possible fee, in base units */
+    requiredBalance?: string;
+}
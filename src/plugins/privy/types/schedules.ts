@@ -0,0 +1,110 @@
+/**
+ * Type definitions for scheduled and recurring transfers
+ *
+ * A schedule holds a transfer and when to make it. The plugin looks for due schedules in the
+ * background and sends each run through the same checks as a send asked for in chat.
+ */
+
+import { PrivyTransactionRequest } from "./wallets.js";
+import { PrivyChainType } from "./policies.js";
+import { PrivyToken } from "./tokens.js";
+
+/**
+ * Scheduler settings
+ */
+export interface PrivySchedulerConfig {
+    /** Whether due schedules are run by this agent; defaults to true */
+    enabled?: boolean;
+    /** How often due schedules are looked for, in milliseconds; defaults to 60 seconds */
+    pollIntervalMs?: number;
+    /** Time of day, "HH:MM" in UTC, that schedules run at when none is given; defaults to "09:00" */
+    defaultTime?: string;
+}
+
+/**
+ * How often a schedule runs: once, or every `interval` hours, days, weeks or months from its first run
+ */
+export type PrivyScheduleFrequency = 'once' | 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Recurrence of a schedule
+ */
+export interface PrivyRecurrence {
+    frequency: PrivyScheduleFrequency;
+    /** Runs every this many periods, e.g. 2 for every other week; defaults to 1 */
+    interval?: number;
+}
+
+/**
+ * State of a schedule
+ *
+ * - `active`: runs when due
+ * - `paused`: skips its runs until resumed
+ * - `cancelled`: never runs again
+ * - `completed`: made its last run
+ */
+export type PrivyScheduleStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+/**
+ * Outcome of a scheduled run
+ *
+ * - `sent`: Privy accepted the transfer
+ * - `queued`: the transfer is held for human approval
+ * - `blocked`: the policy, pre-flight check, spending limits or the creator's role stopped the transfer
+ * - `failed`: sending the transfer failed
+ * - `dry_run`: the transfer passed its checks but was not sent, because the plugin runs in dry-run mode
+ */
+export type PrivyScheduleRunStatus = 'sent' | 'queued' | 'blocked' | 'failed' | 'dry_run';
+
+/**
+ * A run of a schedule and its outcome
+ */
+export interface PrivyScheduleRun {
+    /** When the run was due */
+    runAt: number;
+    /** When the run was made */
+    executedAt: number;
+    status: PrivyScheduleRunStatus;
+    idempotencyKey: string;
+    hash?: string;
+    approvalId?: string;
+    /** Why the run was blocked or failed */
+    error?: string;
+    /** Runs that fell due while the agent was not running and were folded into this one */
+    missed?: number;
+}
+
+/**
+ * A scheduled transfer
+ */
+export interface PrivySchedule {
+    id: string;
+    status: PrivyScheduleStatus;
+    chainType: PrivyChainType;
+    walletId: string;
+    /** The transfer made on every run */
+    request: PrivyTransactionRequest;
+    /** Token sent, when it was given by contract or mint rather than found in the registry */
+    token?: PrivyToken;
+    /** What each run sends, e.g. "50 USDC to 0xabc..." */
+    description: string;
+    /** Name the user gave the payee, e.g. "contractor X" */
+    label?: string;
+    recurrence: PrivyRecurrence;
+    /** First run; later runs are counted from it */
+    startAt: number;
+    /** Next run, or undefined once the schedule ended */
+    nextRunAt?: number;
+    /** No runs are made after this time */
+    endAt?: number;
+    /** Most runs to make */
+    maxRuns?: number;
+    runCount: number;
+    /** Policy each run is simulated against */
+    policyId?: string;
+    createdBy: string;
+    createdAt: number;
+    updatedAt: number;
+    /** Most recent runs, oldest first */
+    runs: PrivyScheduleRun[];
+}
@@ -0,0 +1,32 @@
+/**
+ * Type definitions for the checks every send goes through
+ */
+
+import { PrivyTransactionResponse } from "./wallets.js";
+import { PrivyPolicyEvaluation } from "./policies.js";
+import { PrivyPreflightResult } from "./preflight.js";
+import { PrivyLimitCheck } from "./limits.js";
+import { PrivyPendingApproval } from "./approvals.js";
+import { PrivyRequestPreview } from "../services/client.js";
+
+/**
+ * Outcome of submitting a send
+ *
+ * - `duplicate`: the same intent was already sent under its idempotency key
+ * - `in_progress`: the same intent is being sent
+ * - `denied`: the local simulation of the policy denies it
+ * - `preflight_failed`: it would revert, or the wallet cannot pay for it
+ * - `limited`: it would exceed a spending cap or transaction rate
+ * - `queued`: it is held for human approval
+ * - `sent`: Privy accepted it
+ * - `dry_run`: it passed the checks and was only built; `approvalReason` is set if it would have been held for approval
+ */
+export type PrivySendOutcome =
+    | { status: 'duplicate'; transaction: PrivyTransactionResponse }
+    | { status: 'in_progress' }
+    | { status: 'denied'; policyName: string; evaluation: PrivyPolicyEvaluation }
+    | { status: 'preflight_failed'; preflight: PrivyPreflightResult; evaluation?: PrivyPolicyEvaluation }
+    | { status: 'limited'; limits: PrivyLimitCheck; evaluation?: PrivyPolicyEvaluation; preflight?: PrivyPreflightResult }
+    | { status: 'queued'; approval: PrivyPendingApproval; reason: string; evaluation?: PrivyPolicyEvaluation; preflight?: PrivyPreflightResult }
+    | { status: 'sent'; transaction: PrivyTransactionResponse; limits: PrivyLimitCheck; evaluation?: PrivyPolicyEvaluation; preflight?: PrivyPreflightResult }
+    | { status: 'dry_run'; preview: PrivyRequestPreview; limits: PrivyLimitCheck; approvalReason?: string; evaluation?: PrivyPolicyEvaluation; preflight?: PrivyPreflightResult };
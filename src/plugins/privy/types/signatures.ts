@@ -0,0 +1,90 @@
+/**
+ * Type definitions for message, typed data and transaction signing
+ */
+
+/**
+ * Privy RPC methods the signing action can call
+ */
+export type PrivySignMethod = 'personal_sign' | 'eth_signTypedData_v4' | 'eth_signTransaction';
+
+/**
+ * Privy RPC methods of Solana wallets
+ */
+export type PrivySolanaMethod = 'signAndSendTransaction' | 'signTransaction' | 'signMessage';
+
+/**
+ * A field of an EIP-712 struct type
+ */
+export interface PrivyTypedDataField {
+    name: string;
+    type: string;
+}
+
+/**
+ * EIP-712 typed data, in the shape `eth_signTypedData_v4` takes
+ */
+export interface PrivyTypedData {
+    types: Record<string, PrivyTypedDataField[]>;
+    primaryType: string;
+    domain: Record<string, unknown>;
+    message: Record<string, unknown>;
+}
+
+/**
+ * A transaction to sign without sending; fields Privy can fill in, such as the nonce and gas, are optional
+ */
+export interface PrivySignTransactionRequest {
+    to: string;
+    /** Amount in wei */
+    value: string;
+    data?: string;
+    chain_id: string;
+    nonce?: string;
+    gas_limit?: string;
+    gas_price?: string;
+    max_fee_per_gas?: string;
+    max_priority_fee_per_gas?: string;
+}
+
+/**
+ * Response of a Privy wallet RPC call
+ */
+export interface PrivyRpcResponse<T> {
+    method: PrivySignMethod | PrivySolanaMethod;
+    data: T;
+}
+
+/**
+ * Signature returned by `personal_sign` and `eth_signTypedData_v4`, hex-encoded, or by Solana `signMessage`, base64-encoded
+ */
+export interface PrivyRpcSignature {
+    signature: string;
+    encoding: string;
+}
+
+/**
+ * Signed transaction returned by `eth_signTransaction`, RLP-encoded, or by Solana `signTransaction`, base64-encoded
+ */
+export interface PrivyRpcSignedTransaction {
+    signed_transaction: string;
+    encoding: string;
+}
+
+/**
+ * A signed EVM transaction decoded from its raw RLP encoding
+ */
+export interface PrivyDecodedTransaction {
+    /** Transaction type: 0 legacy, 1 access list (EIP-2930), 2 dynamic fee (EIP-1559) */
+    type: number;
+    chainId?: string;
+    nonce: string;
+    gasLimit: string;
+    /** Recipient, or undefined for a contract deployment */
+    to?: string;
+    value: string;
+    data: string;
+    /** Address recovered from the signature */
+    signer: string;
+    /** Hash the transaction will have once broadcast */
+    hash: string;
+}
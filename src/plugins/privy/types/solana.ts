@@ -0,0 +1,64 @@
+/**
+ * Type definitions for Solana transfers built by the plugin
+ *
+ * Privy signs Solana transactions but does not build them, so the plugin assembles and serializes
+ * SOL and SPL token transfers itself and hands Privy the encoded transaction.
+ */
+
+/**
+ * An account referenced by an instruction
+ */
+export interface PrivySolanaAccountMeta {
+    /** Base58 public key */
+    pubkey: string;
+    isSigner: boolean;
+    isWritable: boolean;
+}
+
+/**
+ * A Solana instruction: a program and the accounts and data it is called with
+ */
+export interface PrivySolanaInstruction {
+    programId: string;
+    accounts: PrivySolanaAccountMeta[];
+    data: Uint8Array;
+}
+
+/**
+ * A Solana transfer of SOL, or of an SPL token when `mint` is set
+ */
+export interface PrivySolanaTransfer {
+    /** Address of the sending wallet, which also pays the fee */
+    from: string;
+    /** Address of the recipient wallet; token transfers go to its associated token account */
+    to: string;
+    /** Amount in lamports, or in the token's base units */
+    amount: string;
+    mint?: string;
+    decimals?: number;
+    /** Program that owns the mint: the SPL Token program or Token-2022 */
+    tokenProgram?: string;
+}
+
+/**
+ * A Solana transaction decoded from its wire format
+ */
+export interface PrivyDecodedSolanaTransaction {
+    /** Base58 signatures, one per required signer; unsigned slots are all-zero signatures */
+    signatures: string[];
+    /** Base58 public keys of the accounts the message references, signers first */
+    accountKeys: string[];
+    recentBlockhash: string;
+    /** The serialized message the signatures cover */
+    message: Uint8Array;
+}
+
+/**
+ * Result of a Solana signature status lookup
+ */
+export interface PrivySolanaSignatureStatus {
+    slot: number;
+    confirmations: number | null;
+    err: unknown;
+    confirmationStatus?: 'processed' | 'confirmed' | 'finalized';
+}
@@ -0,0 +1,28 @@
+/**
+ * Type definitions for tokens the plugin can send
+ */
+
+import { PrivyChainType } from "./policies.js";
+
+/**
+ * A token contract and how its amounts are denominated
+ */
+export interface PrivyToken {
+    symbol: string;
+    address: string;
+    decimals: number;
+    standard?: 'erc20' | 'erc721';
+    /** Chain the token lives on; registry entries always have one */
+    chainType?: PrivyChainType;
+    /** EVM chain ID, or the CAIP-2 reference of a Solana cluster */
+    chainId?: number | string;
+    name?: string;
+}
+
+/**
+ * Contents of a registry seed file (`tokens/<chain>.json`)
+ */
+export interface PrivyTokenRegistryFile {
+    chainType: PrivyChainType;
+    tokens: PrivyToken[];
+}
@@ -0,0 +1,65 @@
+/**
+ * Type definitions for transaction lifecycle tracking
+ *
+ * Privy only returns a hash when a transaction is submitted, so the plugin records each sent
+ * transaction and follows it on the chain's JSON-RPC endpoint until it settles.
+ */
+
+import { PrivyTransactionRequest } from "./wallets.js";
+import { PrivyChainType } from "./policies.js";
+
+/**
+ * Lifecycle of a submitted transaction
+ *
+ * - `pending`: no receipt yet
+ * - `mined`: included in a block that has fewer confirmations than required
+ * - `confirmed`: succeeded and has the required confirmations
+ * - `failed`: mined but reverted
+ * - `dropped`: the node no longer knows the transaction and it never got a receipt
+ */
+export type PrivyTransactionStatus = 'pending' | 'mined' | 'confirmed' | 'failed' | 'dropped';
+
+/**
+ * Receipt polling settings
+ */
+export interface PrivyTrackingConfig {
+    /** Blocks a successful transaction must be buried under to count as confirmed */
+    confirmations?: number;
+    /** Milliseconds between receipt polls */
+    pollIntervalMs?: number;
+    /** How long a transaction is polled in the background after it is sent, in milliseconds */
+    pollTimeoutMs?: number;
+    /** How long a transaction may go without a receipt before it may be considered dropped, in milliseconds */
+    droppedAfterMs?: number;
+    /** How long settled transactions are kept, in milliseconds */
+    retentionMs?: number;
+}
+
+/**
+ * A transaction sent through the plugin and its latest known state
+ */
+export interface PrivyTrackedTransaction {
+    /** Transaction hash, or signature on Solana */
+    hash: string;
+    caip2: string;
+    chainType: PrivyChainType;
+    request: PrivyTransactionRequest;
+    status: PrivyTransactionStatus;
+    /** Blocks on top of and including the transaction's block */
+    confirmations: number;
+    requiredConfirmations: number;
+    /** Block number, or slot on Solana */
+    blockNumber?: number;
+    /** Gas used, in base units, once mined */
+    gasUsed?: string;
+    /** Fee paid in base units of the native token, once mined */
+    fee?: string;
+    idempotencyKey?: string;
+    requestedBy?: string;
+    submittedAt: number;
+    updatedAt: number;
+    /** When the status was last checked on chain */
+    checkedAt?: number;
+    /** Why the status could not be checked the last time */
+    error?: string;
+}
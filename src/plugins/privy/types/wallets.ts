@@ -15,6 +15,27 @@ export interface PrivyCreateWalletResponse {
     policy_ids: string[];
 }
 
+/**
+ * A page of wallets
+ */
+export interface PrivyWalletListResponse {
+    data: PrivyCreateWalletResponse[];
+    next_cursor: string | null;
+}
+
+/**
+ * Criteria for listing wallets
+ */
+export interface PrivyWalletFilter {
+    chainType?: PrivyCreateWalletResponse['chain_type'];
+    /** Only wallets with this policy attached */
+    policyId?: string;
+    /** Most wallets to return */
+    limit?: number;
+    /** Additional check a wallet must pass, e.g. on its label */
+    matches?: (wallet: PrivyCreateWalletResponse) => boolean;
+}
+
 /**
  * Request to create a wallet with specific policies
  */
@@ -36,8 +57,12 @@ export interface PrivyUpdateWalletRequest {
 export interface PrivyTransactionRequest {
     wallet_id: string;
     to: string;
-    value: string; // Wei amount in string
+    value: string; // Wei amount in string; lamports or token base units on Solana
     data?: string;
+    /** SPL token mint of a Solana token transfer, whose amount is then `value` */
+    mint?: string;
+    /** Decimals of `mint`, which SPL transfers state explicitly */
+    decimals?: number;
 }
 
 /**
@@ -49,8 +74,32 @@ export interface PrivyTransactionResponse {
 }
 
 /**
- * Transaction signature response
+ * A transfer recorded by Privy for a wallet
  */
-export interface PrivySignatureResponse {
-    signature: string;
-} 
\ No newline at end of file
+export interface PrivyWalletTransaction {
+    caip2: string;
+    transaction_hash: string | null;
+    status: 'pending' | 'broadcasted' | 'confirmed' | 'finalized' | 'execution_reverted' | 'failed' | 'provider_error' | 'replaced';
+    /** Creation time in milliseconds */
+    created_at: number;
+    privy_transaction_id?: string;
+    wallet_id: string;
+    details?: {
+        type: 'transfer_sent' | 'transfer_received';
+        chain?: string;
+        asset?: string;
+        sender: string;
+        recipient: string;
+        raw_value: string;
+        raw_value_decimals?: number;
+    } | null;
+}
+
+/**
+ * A page of a wallet's transactions
+ */
+export interface PrivyWalletTransactionsResponse {
+    transactions: PrivyWalletTransaction[];
+    next_cursor: string | null;
+}
+ 
\ No newline at end of file